@@ -3,15 +3,19 @@
 /**
  * @fileoverview CLI interface for the Camtasia SWF Tool
  *
- * This command-line interface provides two main commands:
+ * This command-line interface provides four main commands:
  * 1. `extract` - Extract frames and audio from SWF files
  * 2. `convert` - Extract and convert SWF files directly to MP4
+ * 3. `package` - Convert the Flash content of a SCORM / IMS course package
+ * 4. `inspect` - Report SWF metadata without extracting anything
  *
  * The CLI includes:
  * - Styled output with colors, progress bars, and spinners
  * - Platform validation (Java and FFmpeg availability)
  * - Batch processing support (single files or directories)
  * - Recursive directory scanning
+ * - Camtasia project detection (only the content SWF of a Flash export is processed)
+ * - HTML5 replacement pages for the Flash wrapper pages of converted SWFs
  * - Custom help system with syntax highlighting
  *
  * @example Command usage
@@ -22,6 +26,12 @@
  * # Convert directory of SWF files to MP4
  * camtasia-swf convert /path/to/swfs -r --framerate 30
  *
+ * # Convert a SCORM course package into a Flash-free one
+ * camtasia-swf package course.zip
+ *
+ * # Triage an archive as JSON
+ * camtasia-swf inspect /path/to/swfs -r --json
+ *
  * # Show help for specific command
  * camtasia-swf help extract
  * ```
@@ -30,9 +40,38 @@
 import { Command } from 'commander'
 import * as path from 'path'
 import * as fs from 'fs'
+import * as os from 'os'
 import { glob } from 'glob'
 import { extractSWF } from './tools/extractor'
-import { convertSWF } from './tools/converter'
+import { parseFramePosition, hasFrameSelection, FramePosition } from './tools/frame-selection'
+import { convertSWF, getPosterPath } from './tools/converter'
+import { inspectSWF, SWFReport } from './tools/inspector'
+import { getChaptersVTTPath } from './tools/chapters'
+import { groupProjectFiles, CamtasiaProject, ProjectDiscovery } from './tools/project'
+import { isHTMLFile, readHTMLWrapper, HTMLEmbed } from './tools/html-wrapper'
+import { writeHTML5Page, findCaptionsFile, HTML5Video } from './tools/html5-page'
+import { convertPackage, PackageOptions } from './tools/package'
+import { getOutputProfile, parseQuantity, validateQualityOptions, OUTPUT_PROFILES, DEFAULT_PROFILE, OutputProfileName, QualityOptions } from './tools/profiles'
+import { validateScalingOptions, SCALE_MODES, ScaleMode, ScalingOptions } from './tools/scaling'
+import {
+  parseFrameRate,
+  describeFrameRate,
+  describeFrameRatePolicy,
+  getFrameRatePolicy,
+  FRAME_RATE_POLICIES,
+  FrameRate,
+  FrameRatePolicyName
+} from './tools/frame-rate'
+import { validateAVSyncOptions, AV_SYNC_STRATEGIES, DEFAULT_AV_TOLERANCE, AVSyncOptions, AVSyncStrategy } from './tools/av-sync'
+import {
+  validateAudioOptions,
+  AUDIO_CLEANUP_PRESETS,
+  AUDIO_CHANNEL_LAYOUTS,
+  AudioOptions,
+  AudioCleanupPreset,
+  AudioChannelLayout
+} from './tools/audio-processing'
+import { validateAudioOnlyOptions, AUDIO_ONLY_OUTPUTS, AudioOnlyOptions, AudioOnlyOutput } from './tools/audio-only'
 import {
   createHeader,
   createSuccessBox,
@@ -41,12 +80,15 @@ import {
   fileStatus,
   createProgress,
   createStyledSpinner,
+  createKeyValueTable,
   colors
 } from './utils/cli-styling'
 import {
   generateMainHelp,
   generateExtractHelp,
-  generateConvertHelp
+  generateConvertHelp,
+  generatePackageHelp,
+  generateInspectHelp
 } from './utils/cli-help'
 import { validatePlatformSupport, logPlatformStatus } from './utils/platform'
 
@@ -78,6 +120,10 @@ program
       console.log(generateExtractHelp())
     } else if (command === 'convert') {
       console.log(generateConvertHelp())
+    } else if (command === 'package') {
+      console.log(generatePackageHelp())
+    } else if (command === 'inspect') {
+      console.log(generateInspectHelp())
     } else {
       console.log(generateMainHelp())
     }
@@ -99,7 +145,7 @@ program.option('-h, --help', 'Display help information with syntax highlighting'
 program
   .command('extract')
   .description('Extract frame images and audio content from SWF files')
-  .argument('<input>', 'SWF file or directory containing SWF files')
+  .argument('<input>', 'SWF file, HTML page embedding SWFs, or directory containing SWF files')
   .option('-o, --output <dir>', 'Output directory (default: adjacent to SWF files)')
   .option('-r, --recursive', 'Process directories recursively')
   .option('--test-frames <count>', 'Extract only the first N frames for testing (e.g., --test-frames 100)', (value) => {
@@ -109,8 +155,12 @@ program
     }
     return parsed
   })
+  .option('--start <position>', 'Extract from this frame number or timestamp on (e.g. 1200, 23:00 or 90s)', parseFramePosition)
+  .option('--end <position>', 'Extract up to this frame number or timestamp (inclusive frame, or the last frame before the time)', parseFramePosition)
+  .option('--workers <count>', 'Extract frame ranges with this many concurrent JPEXS processes, or "auto" for one per CPU core (default: 1)', parseWorkers)
+  .option('--render-scale <factor>', 'Rasterise frames at this multiple of the stage size for sharper vector content, e.g. 2 (default: 1)', parseRenderScale)
   .option('-h, --help', 'Display help for extract command')
-  .action(async (input: string, options: { output?: string; recursive?: boolean; testFrames?: number; help?: boolean }) => {
+  .action(async (input: string, options: { output?: string; recursive?: boolean; testFrames?: number; start?: FramePosition; end?: FramePosition; workers?: number; renderScale?: number; help?: boolean }) => {
     if (options.help) {
       console.log(generateExtractHelp())
       return
@@ -129,18 +179,27 @@ program
       const spinner = createStyledSpinner('Scanning for SWF files...', 'cyan')
       spinner.start()
       
-      const swfFiles = await findSWFFiles(input, options.recursive)
+      const { projects, skipped, embeds } = await findProjects(input, options.recursive)
       spinner.stop()
+      reportHTMLEmbeds(input, embeds)
       
-      if (swfFiles.length === 0) {
+      if (projects.length === 0) {
+        reportSkippedFiles(skipped)
         console.log(createErrorBox('No SWF files found in the specified input'))
         process.exit(1)
       }
 
+      const swfFiles = projects.map(project => project.contentFile)
       log.info(`Found ${colors.highlight(swfFiles.length.toString())} SWF file(s) to process`)
+      reportSkippedFiles(skipped)
+      logFrameSelection(options.start, options.end)
       if (options.testFrames) {
         log.info(`${colors.highlight('TEST MODE:')} Extracting only first ${colors.highlight(options.testFrames.toString())} frames`)
       }
+      if (options.workers && options.workers > 1) {
+        log.info(`Frames will be extracted by up to ${colors.highlight(options.workers.toString())} JPEXS workers`)
+      }
+      logScalingOptions(options)
       console.log()
 
       const results = {
@@ -155,13 +214,14 @@ program
         console.log(progress)
         
         fileStatus.processing(path.basename(swfFile))
+        logProjectDetails(projects[i])
         
         const outputDir = options.output 
           ? path.join(options.output, path.basename(swfFile, '.swf'))
           : path.join(path.dirname(swfFile), path.basename(swfFile, '.swf') + '-output')
 
         try {
-          await extractSWF(swfFile, outputDir, options.testFrames)
+          await extractSWF(swfFile, outputDir, { start: options.start, end: options.end, limit: options.testFrames }, undefined, options.workers, options.renderScale)
           fileStatus.completed(path.basename(swfFile), outputDir)
           results.successful++
         } catch (error) {
@@ -199,45 +259,28 @@ program
  * CONVERT command - Extract and convert SWF files to MP4 format
  *
  * This is the most common command - it performs a complete workflow:
- * 1. Detects frame rate from the SWF using FFmpeg
+ * 1. Detects frame rate from the SWF header
  * 2. Extracts frames and audio using JPEXS + FFmpeg fallback
  * 3. Combines frames into MP4 with synchronized audio
  * 4. Optionally cleans up temporary extraction files
  *
  * Requires both Java (for JPEXS) and FFmpeg (bundled) to be available.
  */
-program
+const convertCommand = program
   .command('convert')
   .description('Extract and convert SWF files to MP4 format')
-  .argument('<input>', 'SWF file or directory containing SWF files')
+  .argument('<input>', 'SWF file, HTML page embedding SWFs, or directory containing SWF files')
   .option('-o, --output <dir>', 'Output directory (default: adjacent to SWF files)')
   .option('-r, --recursive', 'Process directories recursively')
-  .option('-f, --framerate <fps>', 'Frame rate for output video (default: 30)', '30')
   .option('--keep-extracted', 'Keep extracted frames and audio files after conversion')
-  .option('--test-frames <count>', 'Extract only the first N frames for testing (e.g., --test-frames 100)', (value) => {
-    const parsed = parseInt(value, 10)
-    if (isNaN(parsed) || parsed <= 0) {
-      throw new Error('test-frames must be a positive number')
-    }
-    return parsed
-  })
-  .option('--timeout <minutes>', 'Override extraction timeout in minutes (default: auto-calculated based on file size)', (value) => {
-    const parsed = parseInt(value, 10)
-    if (isNaN(parsed) || parsed <= 0) {
-      throw new Error('timeout must be a positive number')
-    }
-    return parsed
-  })
+
+// The conversion options are shared with the package command
+addConversionOptions(convertCommand)
+  .option('--no-chapters', 'Don\'t write chapter markers to the MP4')
+  .option('--chapters-vtt', 'Also write the chapters to a WebVTT sidecar (<name>.chapters.vtt)')
+  .option('--html5', 'Rewrite the HTML pages embedding the SWFs to play the MP4 in a <video> element (original kept as .bak)')
   .option('-h, --help', 'Display help for convert command')
-  .action(async (input: string, options: {
-    output?: string;
-    recursive?: boolean;
-    framerate?: string;
-    keepExtracted?: boolean;
-    testFrames?: number;
-    timeout?: number;
-    help?: boolean;
-  }) => {
+  .action(async (input: string, options: ConversionCommandOptions & { output?: string; recursive?: boolean; chaptersVtt?: boolean; html5?: boolean; help?: boolean }) => {
     if (options.help) {
       console.log(generateConvertHelp())
       return
@@ -260,33 +303,73 @@ program
       const spinner = createStyledSpinner('Scanning for SWF files...', 'yellow')
       spinner.start()
       
-      const swfFiles = await findSWFFiles(input, options.recursive)
+      const { projects, skipped, embeds, pages } = await findProjects(input, options.recursive, options.html5)
       spinner.stop()
+      reportHTMLEmbeds(input, embeds)
       
-      if (swfFiles.length === 0) {
+      if (projects.length === 0) {
+        reportSkippedFiles(skipped)
         console.log(createErrorBox('No SWF files found in the specified input'))
         process.exit(1)
       }
 
+      const swfFiles = projects.map(project => project.contentFile)
       log.info(`Found ${colors.highlight(swfFiles.length.toString())} SWF file(s) to convert`)
-      if (options.framerate && options.framerate !== '30') {
-        log.info(`Frame rate override: ${colors.highlight(options.framerate)} FPS (will use this instead of detected rates)`)
-      } else {
-        log.info(`Frame rate: ${colors.muted('Auto-detected per file (fallback: 30 FPS)')}`)
-      }
+      reportSkippedFiles(skipped)
+      logAVSyncOptions(options, logFrameRatePolicy(options.framerate, options.frameratePolicy))
       if (options.keepExtracted) {
         log.info('Extracted files will be kept after conversion')
       }
+      logFrameSelection(options.start, options.end)
       if (options.testFrames) {
         log.info(`${colors.highlight('TEST MODE:')} Extracting only first ${colors.highlight(options.testFrames.toString())} frames`)
       }
+      if (options.workers && options.workers > 1) {
+        log.info(`Frames will be extracted by up to ${colors.highlight(options.workers.toString())} JPEXS workers`)
+      }
+      if (options.directVideo === false) {
+        log.info('Embedded video streams will be rasterised with JPEXS')
+      }
+      if (options.dedupe === false) {
+        log.info('Identical frames will be encoded individually')
+      } else if (options.cfr) {
+        log.info('Deduplicated frames will be encoded at constant frame rate')
+      }
+      if (options.stream) {
+        log.info('Frames will be streamed to FFmpeg as they are exported (constant frame rate, no deduplication)')
+      }
+      const profile = OUTPUT_PROFILES[options.profile ?? options.format ?? DEFAULT_PROFILE]
+      if (profile.name !== DEFAULT_PROFILE) {
+        log.info(`Output profile: ${colors.highlight(profile.name)} (${profile.description})`)
+      }
+      const quality = getQualityOptions(options)
+      validateQualityOptions(profile, quality)
+      logQualityOptions(quality)
+      validateScalingOptions(profile, options)
+      logScalingOptions(options)
+      validateAudioOptions(profile, options)
+      logAudioOptions(options)
+      validateAudioOnlyOptions(options)
+      logAudioOnlyOptions(options)
+      if (options.html5) {
+        if (pages.length > 0) {
+          log.info(`${colors.highlight(pages.length.toString())} HTML page(s) will be rewritten to play the MP4s`)
+        } else {
+          log.warning('--html5 was given, but no HTML pages embedding the SWFs were found')
+        }
+      }
       console.log()
 
       const results = {
         successful: 0,
         failed: 0,
-        errors: [] as Array<{ file: string; error: string }>
+        errors: [] as Array<{ file: string; error: string }>,
+        // Containers written, e.g. WEBM, or MP4 and M4A when some SWFs had no visible content
+        formats: new Set<string>()
       }
+      // MP4s by content SWF, for the HTML5 pages
+      const videos = new Map<string, HTML5Video>()
+      const conversionOptions = getConversionOptions(options)
 
       for (let i = 0; i < swfFiles.length; i++) {
         const swfFile = swfFiles[i]
@@ -294,23 +377,29 @@ program
         console.log(progress)
         
         fileStatus.processing(path.basename(swfFile))
+        logProjectDetails(projects[i])
         
         const outputDir = options.output 
           ? options.output
           : path.dirname(swfFile)
 
-        const mp4Path = path.join(outputDir, path.basename(swfFile, '.swf') + '.mp4')
+        const outputPath = path.join(outputDir, path.basename(swfFile, '.swf') + profile.extension)
         
         try {
-          await convertSWF(swfFile, mp4Path, {
-            framerate: parseInt(options.framerate || '30'),
-            keepExtracted: options.keepExtracted || false,
-            testFrames: options.testFrames,
-            timeoutMinutes: options.timeout
+          const conversion = await convertSWF(swfFile, outputPath, {
+            ...conversionOptions,
+            title: projects[i].config?.title ?? undefined,
+            // HTML5 pages get the chapters track and poster image the video element references
+            chaptersVtt: options.chaptersVtt || (options.html5 && options.chapters !== false),
+            poster: options.html5,
+            profile: profile.name
           })
           
-          fileStatus.completed(path.basename(swfFile), mp4Path)
+          log.info(`Frame rate: ${colors.highlight(describeFrameRatePolicy(conversion.frameRate))}`)
+          fileStatus.completed(path.basename(swfFile), conversion.outputFile)
           results.successful++
+          results.formats.add(path.extname(conversion.outputFile).slice(1).toUpperCase())
+          videos.set(swfFile, getHTML5Video(conversion.outputFile, conversion.mimeType))
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error)
           fileStatus.error(path.basename(swfFile), errorMessage)
@@ -319,10 +408,14 @@ program
         }
         console.log()
       }
+
+      if (options.html5) {
+        rewriteHTMLPages(pages, videos)
+      }
       
       // Show final results
       if (results.successful > 0) {
-        console.log(createSuccessBox(`🎬 Successfully converted ${results.successful} SWF file(s) to MP4!`))
+        console.log(createSuccessBox(`🎬 Successfully converted ${results.successful} SWF file(s) to ${[...results.formats].join(' and ')}!`))
       }
       
       if (results.failed > 0) {
@@ -342,6 +435,205 @@ program
     }
   })
 
+/**
+ * PACKAGE command - Convert the Flash content of a SCORM / IMS content package
+ *
+ * Reads the archive directly, finds the SWFs through imsmanifest.xml and the
+ * pages embedding them, converts each one, and writes a new package whose pages
+ * and manifest use the MP4s instead.
+ */
+const packageCommand = program
+  .command('package')
+  .description('Convert the Flash content of a SCORM / IMS course package into a new Flash-free package')
+  .argument('<package>', 'ZIP archive with an imsmanifest.xml at its root')
+  .option('-o, --output <file>', 'Converted package to write (default: <name>-html5.zip next to the input)')
+  .option('--keep-extracted', 'Keep the unpacked package and extracted files after conversion')
+
+// The conversion options are shared with the convert command
+addConversionOptions(packageCommand)
+  .option('--no-chapters', 'Don\'t write chapter markers to the MP4s or chapter tracks to the pages')
+  .option('-h, --help', 'Display help for package command')
+  .action(async (input: string, options: ConversionCommandOptions & { output?: string; help?: boolean }) => {
+    if (options.help) {
+      console.log(generatePackageHelp())
+      return
+    }
+    console.log(createHeader('CAMTASIA SWF PACKAGE CONVERTER', 'fire'))
+
+    // Validate platform support
+    const platformStatus = validatePlatformSupport()
+    if (!platformStatus.isFullySupported) {
+      const missingTools: string[] = []
+      if (!platformStatus.java) missingTools.push('Java (for SWF extraction)')
+      if (!platformStatus.ffmpeg) missingTools.push('FFmpeg (for video conversion)')
+
+      console.log(createErrorBox(`Missing required tools: ${missingTools.join(', ')}`))
+      logPlatformStatus()
+      process.exit(1)
+    }
+
+    try {
+      const packageFile = path.resolve(input)
+      const outputFile = path.resolve(options.output ?? path.join(path.dirname(packageFile), `${path.basename(packageFile, path.extname(packageFile))}-html5.zip`))
+      if (outputFile === packageFile) {
+        throw new Error('The converted package must not overwrite the original')
+      }
+      log.info(`Converting ${colors.highlight(path.basename(packageFile))} into ${colors.highlight(outputFile)}`)
+      logAVSyncOptions(options, logFrameRatePolicy(options.framerate, options.frameratePolicy))
+      logFrameSelection(options.start, options.end)
+      logQualityOptions(getQualityOptions(options))
+      logScalingOptions(options)
+      logAudioOptions(options)
+      logAudioOnlyOptions(options)
+      console.log()
+
+      const result = await convertPackage(packageFile, outputFile, getConversionOptions(options))
+      console.log()
+
+      reportSkippedFiles(result.skipped)
+      result.frameRates.forEach(({ file, frameRate }) => log.info(`${file} frame rate: ${colors.highlight(describeFrameRatePolicy(frameRate))}`))
+      result.pages.forEach(page => log.info(`Rewrote ${colors.highlight(page)} to play HTML5 video`))
+      if (result.kept.length > 0) {
+        log.warning(`Kept ${result.kept.join(', ')}: still embedded by a page that couldn't be rewritten`)
+      }
+
+      if (result.converted.length > 0) {
+        console.log(createSuccessBox(`📦 Converted ${result.converted.length} SWF file(s), package written to ${result.outputFile}`))
+      }
+
+      if (result.failed.length > 0) {
+        console.log(createErrorBox(`❌ Failed to convert ${result.failed.length} SWF file(s):`))
+        result.failed.forEach(({ file, error }) => {
+          console.log(`   ${colors.error('•')} ${file}: ${error}`)
+        })
+      }
+
+      if (result.converted.length === 0) {
+        if (result.failed.length === 0) {
+          console.log(createErrorBox('No SWF files found in the package'))
+        }
+        process.exit(1)
+      }
+    } catch (error) {
+      console.log(createErrorBox(`Fatal error during package conversion: ${error}`))
+      process.exit(1)
+    }
+  })
+
+/**
+ * INSPECT command - Report SWF metadata without extracting anything
+ *
+ * Reads each SWF natively (no Java or FFmpeg required) and prints signature,
+ * stage size, frame rate, sound and video streams, a tag histogram and likely
+ * Camtasia origin. With --json the reports are printed as a JSON array so an
+ * archive can be triaged by scripts before committing to extraction.
+ */
+program
+  .command('inspect')
+  .description('Report SWF metadata (stage, timing, sound, video, Camtasia origin) without extracting')
+  .argument('<inputs...>', 'One or more SWF files or directories containing SWF files')
+  .option('-r, --recursive', 'Process directories recursively')
+  .option('--json', 'Print machine-readable JSON instead of styled tables')
+  .option('-h, --help', 'Display help for inspect command')
+  .action(async (inputs: string[], options: { recursive?: boolean; json?: boolean; help?: boolean }) => {
+    if (options.help) {
+      console.log(generateInspectHelp())
+      return
+    }
+
+    const reports: Array<SWFReport | { file: string; error: string }> = []
+    try {
+      const swfFiles: string[] = []
+      for (const input of inputs) {
+        swfFiles.push(...(await findSWFFiles(input, options.recursive, ['.swf'])))
+      }
+
+      if (swfFiles.length === 0) {
+        if (options.json) {
+          console.log('[]')
+        } else {
+          console.log(createErrorBox('No SWF files found in the specified input'))
+        }
+        process.exit(1)
+      }
+
+      for (const swfFile of swfFiles) {
+        try {
+          reports.push(inspectSWF(swfFile))
+        } catch (error) {
+          reports.push({ file: swfFile, error: error instanceof Error ? error.message : String(error) })
+        }
+      }
+    } catch (error) {
+      if (options.json) {
+        console.log(JSON.stringify({ error: String(error) }, null, 2))
+      } else {
+        console.log(createErrorBox(`Fatal error during inspection: ${error}`))
+      }
+      process.exit(1)
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(reports, null, 2))
+    } else {
+      console.log(createHeader('CAMTASIA SWF INSPECTOR', 'ocean'))
+      reports.forEach(report => printInspectionReport(report))
+    }
+
+    // Exit with error code only if ALL files failed
+    if (reports.every(report => 'error' in report)) {
+      process.exit(1)
+    }
+  })
+
+/**
+ * Print a styled inspection report (or the error for a file that couldn't be read)
+ *
+ * @param report - Report from inspectSWF, or a file/error pair
+ */
+function printInspectionReport(report: SWFReport | { file: string; error: string }): void {
+  if ('error' in report) {
+    fileStatus.error(path.basename(report.file), report.error)
+    console.log()
+    return
+  }
+
+  const rows: Array<[string, string]> = [
+    ['File', `${report.file} (${(report.fileSize / 1024).toFixed(1)} KB)`],
+    ['Signature', `${report.signature} (${report.compression === 'none' ? 'uncompressed' : report.compression})`],
+    ['SWF version', report.version.toString()],
+    ['Stage', `${report.width}x${report.height}`],
+    ['Frame rate', `${report.frameRate} FPS`],
+    ['Frames', `${report.frameCount} declared, ${report.showFrameCount} in timeline (${report.duration.toFixed(1)}s)`],
+    ['Background', report.backgroundColor ?? colors.muted('none')],
+    ['Stream sound', report.soundStream
+      ? `${report.soundStream.formatName}, ${report.soundStream.sampleRate} Hz, ${report.soundStream.sampleSize}-bit, ${report.soundStream.channels === 1 ? 'mono' : 'stereo'}, ${report.soundStream.blockCount} blocks`
+      : colors.muted('none')],
+    ['Event sounds', report.eventSoundCount.toString()],
+    ['Video streams', report.videoStreams.length > 0
+      ? report.videoStreams.map(stream => `#${stream.characterId} ${stream.codecName} ${stream.width}x${stream.height}, ${stream.videoFrameTags} frames`).join('; ')
+      : colors.muted('none')],
+    ['Camtasia', report.camtasia.likely
+      ? colors.success(`yes${report.camtasia.generator ? ` (${report.camtasia.generator})` : ''}`)
+      : colors.warning('not detected')]
+  ]
+  if (report.truncated) {
+    rows.push(['Warning', colors.warning('File is truncated - tag stream ends early')])
+  }
+
+  console.log(createKeyValueTable(path.basename(report.file), rows))
+
+  const histogram = Object.entries(report.tagHistogram)
+  if (histogram.length > 0) {
+    const maxCount = histogram[0][1]
+    const histogramRows: Array<[string, string]> = histogram.map(([name, count]) => {
+      const barLength = Math.max(1, Math.round((count / maxCount) * 20))
+      return [name, `${colors.highlight('█'.repeat(barLength))} ${count}`]
+    })
+    console.log(createKeyValueTable('Tag histogram', histogramRows))
+  }
+}
+
 /**
  * Helper function to find SWF files from input path
  *
@@ -353,10 +645,11 @@ program
  *
  * @param input - File path or directory path to scan
  * @param recursive - Whether to search subdirectories recursively
+ * @param accepted - Input file types the command accepts, for the error message
  * @returns Array of absolute paths to .swf files
  * @throws Error if input file is not .swf or path doesn't exist
  */
-async function findSWFFiles(input: string, recursive: boolean = false): Promise<string[]> {
+async function findSWFFiles(input: string, recursive: boolean = false, accepted: string[] = ['.swf', '.html']): Promise<string[]> {
   const inputPath = path.resolve(input)
 
   // Handle single file input
@@ -364,7 +657,7 @@ async function findSWFFiles(input: string, recursive: boolean = false): Promise<
     if (path.extname(inputPath).toLowerCase() === '.swf') {
       return [inputPath]
     } else {
-      throw new Error('Input file must be a .swf file')
+      throw new Error(`Input file must be a ${accepted.join(' or ')} file${path.extname(inputPath).toLowerCase() === '.zip' ? ' (use the package command for course packages)' : ''}`)
     }
   }
 
@@ -379,6 +672,600 @@ async function findSWFFiles(input: string, recursive: boolean = false): Promise<
   return swfFiles
 }
 
+/**
+ * Find SWF files and group them into Camtasia projects
+ *
+ * Only each project's content SWF is processed; controller and preloader SWFs
+ * from Camtasia's Flash export are returned as skipped. An HTML page is read for
+ * the SWFs it embeds (and the content SWF its FlashVars point at). With
+ * includePages, a directory is also scanned for HTML pages, whose SWFs are added
+ * to the directory's own.
+ *
+ * @param input - SWF file, HTML page or directory path to scan
+ * @param recursive - Whether to search subdirectories recursively
+ * @param includePages - Whether to look for HTML pages in a directory
+ * @returns Projects to process, the skipped SWFs with the reason, the page's embeds for HTML input, and the HTML pages found
+ */
+async function findProjects(
+  input: string,
+  recursive: boolean = false,
+  includePages: boolean = false
+): Promise<ProjectDiscovery & { embeds: HTMLEmbed[]; pages: string[] }> {
+  const inputPath = path.resolve(input)
+  if (fs.statSync(inputPath).isFile() && isHTMLFile(inputPath)) {
+    const wrapper = readHTMLWrapper(inputPath)
+    const { projects, skipped } = groupProjectFiles(wrapper.swfFiles)
+    return { projects, skipped: [...wrapper.skipped, ...skipped], embeds: wrapper.embeds, pages: [inputPath] }
+  }
+
+  const swfFiles = await findSWFFiles(input, recursive)
+  if (!includePages || !fs.statSync(inputPath).isDirectory()) {
+    return { ...groupProjectFiles(swfFiles), embeds: [], pages: [] }
+  }
+
+  const pages = await glob(recursive ? '**/*.{html,htm}' : '*.{html,htm}', {
+    cwd: inputPath,
+    absolute: true,
+    nocase: true
+  })
+  const files = new Set(swfFiles)
+  const wrapperSkipped: ProjectDiscovery['skipped'] = []
+  const wrapperPages: string[] = []
+  for (const page of pages.sort()) {
+    const wrapper = readHTMLWrapper(page)
+    if (wrapper.embeds.length > 0) {
+      wrapperPages.push(page)
+      wrapper.swfFiles.forEach(file => files.add(file))
+      wrapperSkipped.push(...wrapper.skipped)
+    }
+  }
+  const { projects, skipped } = groupProjectFiles([...files])
+  return { projects, skipped: [...wrapperSkipped, ...skipped], embeds: [], pages: wrapperPages }
+}
+
+/**
+ * Report the SWFs an HTML page embeds, with their declared size and FlashVars
+ *
+ * @param input - HTML page the embeds were read from
+ * @param embeds - Embeds from findProjects
+ */
+function reportHTMLEmbeds(input: string, embeds: HTMLEmbed[]): void {
+  embeds.forEach(embed => {
+    const size = embed.width && embed.height ? ` (${embed.width}x${embed.height})` : ''
+    log.info(`${path.basename(input)} embeds ${colors.highlight(embed.src)}${size} via ${embed.source}`)
+    const flashVars = Object.entries(embed.flashVars)
+    if (flashVars.length > 0) {
+      log.muted(`FlashVars: ${flashVars.map(([name, value]) => `${name}=${value}`).join(', ')}`)
+    }
+  })
+}
+
+/**
+ * Parse an output profile option
+ *
+ * @param value - Profile name as given on the command line
+ * @returns The profile name
+ * @throws Error if there is no profile with that name
+ */
+function parseProfileName(value: string): OutputProfileName {
+  return getOutputProfile(value).name
+}
+
+/**
+ * Parse a --crf option
+ *
+ * @param value - CRF as given on the command line
+ * @returns The CRF (its range is checked against the profile later)
+ * @throws Error if the value isn't a whole number
+ */
+function parseCRF(value: string): number {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error('crf must be a whole number')
+  }
+  return parsed
+}
+
+/**
+ * Parse a --workers option
+ *
+ * @param value - Number of JPEXS processes, or "auto" for one per CPU core
+ * @returns The number of processes
+ * @throws Error if the value isn't a positive whole number or "auto"
+ */
+function parseWorkers(value: string): number {
+  if (value === 'auto') {
+    return Math.max(1, os.cpus().length)
+  }
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error('workers must be a positive whole number or "auto"')
+  }
+  return parsed
+}
+
+/**
+ * Parse a --render-scale option
+ *
+ * @param value - Multiple of the stage size, e.g. 2 or 1.5
+ * @returns The scale (its upper limit is checked with the other scaling options)
+ * @throws Error if the value isn't a positive number
+ */
+function parseRenderScale(value: string): number {
+  const parsed = Number(value)
+  if (!(parsed > 0)) {
+    throw new Error('render-scale must be a positive number')
+  }
+  return parsed
+}
+
+/**
+ * Parse a --width or --height option
+ *
+ * @param value - Size in pixels
+ * @returns The size (whether it must be even is checked against the profile later)
+ * @throws Error if the value isn't a positive whole number
+ */
+function parsePixels(value: string): number {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error('width and height must be positive whole numbers of pixels')
+  }
+  return parsed
+}
+
+/**
+ * Parse a --scale-mode option
+ *
+ * @param value - Scale mode as given on the command line
+ * @returns The scale mode
+ * @throws Error if there is no scale mode with that name
+ */
+function parseScaleMode(value: string): ScaleMode {
+  const mode = value.toLowerCase() as ScaleMode
+  if (!SCALE_MODES.includes(mode)) {
+    throw new Error(`Unknown scale mode "${value}" (available: ${SCALE_MODES.join(', ')})`)
+  }
+  return mode
+}
+
+/**
+ * Parse a --framerate-policy option
+ *
+ * @param value - Policy as given on the command line
+ * @returns The frame rate policy
+ * @throws Error if there is no policy with that name
+ */
+function parseFrameRatePolicy(value: string): FrameRatePolicyName {
+  const policy = value.toLowerCase() as FrameRatePolicyName
+  if (!FRAME_RATE_POLICIES.includes(policy)) {
+    throw new Error(`Unknown frame rate policy "${value}" (available: ${FRAME_RATE_POLICIES.join(', ')})`)
+  }
+  return policy
+}
+
+/**
+ * Log the frame rate policy requested with --framerate and --framerate-policy
+ *
+ * @param framerate - Requested frame rate, if any
+ * @param policy - Requested policy, if any
+ * @returns The policy applied
+ * @throws Error if the policy doesn't fit whether a frame rate was given
+ */
+function logFrameRatePolicy(framerate?: FrameRate, policy?: FrameRatePolicyName): FrameRatePolicyName {
+  const applied = getFrameRatePolicy(framerate, policy)
+  switch (applied) {
+    case 'force':
+      log.info(`Frame rate policy: ${colors.highlight(`force ${describeFrameRate(framerate!)} FPS`)} (frames play at this rate instead of the detected one)`)
+      break
+    case 'output':
+      log.info(`Frame rate policy: ${colors.highlight(`output ${describeFrameRate(framerate!)} FPS`)} (detected rates resampled to this rate)`)
+      break
+    default:
+      log.info(`Frame rate policy: ${colors.highlight('auto')} ${colors.muted('(detected per file, fallback: 30 FPS)')}`)
+  }
+  return applied
+}
+
+/**
+ * Parse an --av-sync option
+ *
+ * @param value - Strategy as given on the command line
+ * @returns The A/V sync strategy
+ * @throws Error if there is no strategy with that name
+ */
+function parseAVSyncStrategy(value: string): AVSyncStrategy {
+  const strategy = value.toLowerCase() as AVSyncStrategy
+  if (!AV_SYNC_STRATEGIES.includes(strategy)) {
+    throw new Error(`Unknown A/V sync strategy "${value}" (available: ${AV_SYNC_STRATEGIES.join(', ')})`)
+  }
+  return strategy
+}
+
+/**
+ * Parse an --av-tolerance option
+ *
+ * @param value - Tolerance in seconds
+ * @returns The tolerance
+ * @throws Error if the value isn't zero or a positive number
+ */
+function parseAVTolerance(value: string): number {
+  const parsed = Number(value)
+  if (value.trim() === '' || !(parsed >= 0)) {
+    throw new Error('av-tolerance must be zero or a positive number of seconds')
+  }
+  return parsed
+}
+
+/**
+ * Log how audio/video duration differences will be corrected, if they will be
+ *
+ * Only the whole timeline is checked against the audio; the converter warns when a
+ * strategy is ignored for a frame selection.
+ *
+ * @param sync - A/V sync options, with the frame selection
+ * @param policy - Frame rate policy applied
+ * @throws Error if the options are invalid or conflict with the frame rate policy
+ */
+function logAVSyncOptions(sync: AVSyncOptions & { start?: FramePosition; end?: FramePosition; testFrames?: number }, policy: FrameRatePolicyName): void {
+  validateAVSyncOptions(sync, policy)
+  if (sync.avSync && sync.avSync !== 'none' && !hasFrameSelection({ start: sync.start, end: sync.end, limit: sync.testFrames })) {
+    log.info(`Audio/video duration differences over ${colors.highlight(`${sync.avTolerance ?? DEFAULT_AV_TOLERANCE}s`)} will be corrected with the ${colors.highlight(sync.avSync)} strategy`)
+  }
+}
+
+/**
+ * Parse a --loudness option
+ *
+ * @param value - Integrated loudness in LUFS, e.g. -16
+ * @returns The loudness target
+ * @throws Error if the value isn't a number
+ */
+function parseLoudness(value: string): number {
+  const parsed = Number(value)
+  if (value.trim() === '' || !Number.isFinite(parsed)) {
+    throw new Error('loudness must be a number of LUFS, e.g. -16')
+  }
+  return parsed
+}
+
+/**
+ * Parse an --audio-cleanup option
+ *
+ * @param value - Preset as given on the command line
+ * @returns The audio cleanup preset
+ * @throws Error if there is no preset with that name
+ */
+function parseAudioCleanup(value: string): AudioCleanupPreset {
+  const preset = value.toLowerCase() as AudioCleanupPreset
+  if (!AUDIO_CLEANUP_PRESETS.includes(preset)) {
+    throw new Error(`Unknown audio cleanup preset "${value}" (available: ${AUDIO_CLEANUP_PRESETS.join(', ')})`)
+  }
+  return preset
+}
+
+/**
+ * Parse a --sample-rate option
+ *
+ * @param value - Sample rate in Hz
+ * @returns The sample rate
+ * @throws Error if the value isn't a positive whole number
+ */
+function parseSampleRate(value: string): number {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error('sample-rate must be a positive whole number of Hz, e.g. 44100')
+  }
+  return parsed
+}
+
+/**
+ * Parse an --audio-channels option
+ *
+ * @param value - Channel layout as given on the command line
+ * @returns The channel layout
+ * @throws Error if there is no layout with that name
+ */
+function parseAudioChannels(value: string): AudioChannelLayout {
+  const layout = value.toLowerCase() as AudioChannelLayout
+  if (!AUDIO_CHANNEL_LAYOUTS.includes(layout)) {
+    throw new Error(`Unknown channel layout "${value}" (available: ${AUDIO_CHANNEL_LAYOUTS.join(', ')})`)
+  }
+  return layout
+}
+
+/**
+ * Log the audio processing settings, if any are given
+ *
+ * @param audio - Audio options
+ */
+function logAudioOptions(audio: AudioOptions): void {
+  const settings: string[] = []
+  if (audio.audioCleanup) settings.push(audio.audioCleanup)
+  if (audio.audioChannels) settings.push(audio.audioChannels)
+  if (audio.loudness !== undefined) settings.push(`${audio.loudness} LUFS`)
+  if (audio.sampleRate) settings.push(`${audio.sampleRate} Hz`)
+  if (settings.length > 0) {
+    log.info(`Audio processing: ${colors.highlight(settings.join(', '))}`)
+  }
+}
+
+/**
+ * Parse an --audio-only-output option
+ *
+ * @param value - Output as given on the command line
+ * @returns What SWFs with no visible content are converted to
+ * @throws Error if there is no output with that name
+ */
+function parseAudioOnlyOutput(value: string): AudioOnlyOutput {
+  const output = value.toLowerCase() as AudioOnlyOutput
+  if (!AUDIO_ONLY_OUTPUTS.includes(output)) {
+    throw new Error(`Unknown audio-only output "${value}" (available: ${AUDIO_ONLY_OUTPUTS.join(', ')})`)
+  }
+  return output
+}
+
+/**
+ * Log how SWFs with no visible content are converted, if it was chosen
+ *
+ * @param audioOnly - Audio-only options
+ */
+function logAudioOnlyOptions(audioOnly: AudioOnlyOptions): void {
+  if (audioOnly.backgroundImage) {
+    log.info(`SWFs with no visible content will show ${colors.highlight(path.basename(audioOnly.backgroundImage))} for the length of their audio`)
+  } else if (audioOnly.audioOnlyOutput) {
+    log.info(`SWFs with no visible content will be converted to ${colors.highlight(audioOnly.audioOnlyOutput)}`)
+  }
+}
+
+/**
+ * Log the section of the timeline selected with --start and --end
+ *
+ * @param start - Position the selection starts at, if given
+ * @param end - Position the selection ends at, if given
+ */
+function logFrameSelection(start?: FramePosition, end?: FramePosition): void {
+  if (!start && !end) {
+    return
+  }
+  const describe = (position: FramePosition) => 'frame' in position ? `frame ${position.frame}` : `${position.time}s`
+  log.info(`Selected section: ${colors.highlight(`${start ? describe(start) : 'the first frame'} to ${end ? describe(end) : 'the last frame'}`)}`)
+}
+
+/** Options the convert and package commands share, as Commander parses them */
+interface ConversionCommandOptions extends QualityOptions, ScalingOptions, AVSyncOptions, AudioOptions, AudioOnlyOptions {
+  framerate?: FrameRate;
+  frameratePolicy?: FrameRatePolicyName;
+  keepExtracted?: boolean;
+  testFrames?: number;
+  start?: FramePosition;
+  end?: FramePosition;
+  timeout?: number;
+  workers?: number;
+  directVideo?: boolean;
+  dedupe?: boolean;
+  cfr?: boolean;
+  stream?: boolean;
+  chapters?: boolean;
+  profile?: OutputProfileName;
+  format?: OutputProfileName;
+}
+
+/**
+ * Add the options the convert and package commands share
+ *
+ * Both commands convert SWFs with the same settings, so they are defined once here
+ * and can't drift apart. Options whose wording differs between the commands
+ * (--keep-extracted, --no-chapters) are added by each command.
+ *
+ * @param command - The convert or package command
+ * @returns The command, for chaining its own options
+ */
+function addConversionOptions(command: Command): Command {
+  return command
+    .option('-f, --framerate <fps>', 'Frame rate to force or resample to, e.g. 30, 12.5 or 30000/1001 (default: the SWF\'s own rate)', parseFrameRate)
+    .option('--framerate-policy <policy>', 'auto (the SWF\'s rate), force (play frames at --framerate) or output (resample to --framerate) (default: force with --framerate, auto without)', parseFrameRatePolicy)
+    .option('--av-sync <strategy>', 'Correct audio that ends before or after the frames: none (only report it), framerate (infer the frame rate from the audio), stretch (time-stretch the audio) or pad (pad or trim the audio) (default: none)', parseAVSyncStrategy)
+    .option('--av-tolerance <seconds>', 'Audio/video duration difference left alone (default: 0.5)', parseAVTolerance)
+    .option('--test-frames <count>', 'Extract only the first N frames for testing (e.g., --test-frames 100)', (value) => {
+      const parsed = parseInt(value, 10)
+      if (isNaN(parsed) || parsed <= 0) {
+        throw new Error('test-frames must be a positive number')
+      }
+      return parsed
+    })
+    .option('--start <position>', 'Convert from this frame number or timestamp on (e.g. 1200, 23:00 or 90s)', parseFramePosition)
+    .option('--end <position>', 'Convert up to this frame number or timestamp (inclusive frame, or the last frame before the time)', parseFramePosition)
+    .option('--timeout <minutes>', 'Override extraction timeout in minutes (default: auto-calculated based on file size)', (value) => {
+      const parsed = parseInt(value, 10)
+      if (isNaN(parsed) || parsed <= 0) {
+        throw new Error('timeout must be a positive number')
+      }
+      return parsed
+    })
+    .option('--workers <count>', 'Extract frame ranges with this many concurrent JPEXS processes, or "auto" for one per CPU core (default: 1)', parseWorkers)
+    .option('--no-direct-video', 'Always rasterise frames with JPEXS, even for SWFs with an embedded video stream')
+    .option('--no-dedupe', 'Encode every frame, instead of each run of identical frames once')
+    .option('--cfr', 'Keep a constant frame rate when deduplicating, with keyframes where slides start (default: variable frame rate)')
+    .option('--stream', 'Stream frames to FFmpeg as JPEXS exports them, instead of extracting them all to a temp directory first')
+    .option('--render-scale <factor>', 'Rasterise frames at this multiple of the stage size for sharper vector content, e.g. 2 (default: 1)', parseRenderScale)
+    .option('--width <pixels>', 'Scale the video to this width (default: the frame width)', parsePixels)
+    .option('--height <pixels>', 'Scale the video to this height (default: the frame height)', parsePixels)
+    .option('--scale-mode <mode>', 'Fit a --width and --height: fit inside, fill and crop, or pad with black bars (default: fit)', parseScaleMode)
+    .option('-p, --profile <name>', 'Output profile: mp4, hevc, webm, av1, ffv1 or prores (default: mp4)', parseProfileName)
+    .option('--format <name>', 'Alias for --profile', parseProfileName)
+    .option('--crf <value>', 'Constant rate factor: lower is better quality and larger (default: 23 for mp4, 28 hevc, 32 webm, 34 av1)', parseCRF)
+    .option('--preset <name>', 'Encoder speed preset for mp4 and hevc, ultrafast to veryslow (default: medium)')
+    .option('--tune <name>', 'Encoder tuning for mp4 and hevc, e.g. stillimage or animation for screen recordings')
+    .option('--max-bitrate <rate>', 'Cap the video bitrate, e.g. 2500k or 2M (bits per second)', parseQuantity)
+    .option('--buffer-size <size>', 'Rate control buffer for --max-bitrate, e.g. 5M bits (default: twice the max bitrate)', parseQuantity)
+    .option('--target-size <size>', 'Encode in two passes to fit a file size, e.g. 25M (bytes)', parseQuantity)
+    .option('--audio-bitrate <rate>', 'Audio bitrate, e.g. 96k (default: 96k for webm and av1, the encoder\'s default otherwise)', parseQuantity)
+    .option('--loudness <lufs>', 'Normalise the audio to this EBU R128 integrated loudness, e.g. -16 (LUFS)', parseLoudness)
+    .option('--audio-cleanup <preset>', 'Clean up the audio: highpass (cut rumble and hum) or denoise (also reduce hiss)', parseAudioCleanup)
+    .option('--sample-rate <hz>', 'Resample the audio, e.g. 44100 (default: the source rate, or 48000 with --loudness)', parseSampleRate)
+    .option('--audio-channels <layout>', 'Convert the audio to mono or stereo (default: the source layout)', parseAudioChannels)
+    .option('--audio-only-output <output>', 'Convert SWFs with no visible content to audio (an .m4a for mp4) or video (default: audio, or video with --background-image)', parseAudioOnlyOutput)
+    .option('--background-image <file>', 'Image shown for the length of the audio in the video of an SWF with no visible content (default: its background colour)')
+}
+
+/**
+ * Turn the shared command options into conversion options
+ *
+ * @param options - Parsed convert or package command options
+ * @returns Conversion options for each SWF, without the per-file title, chapters sidecar and poster
+ */
+function getConversionOptions(options: ConversionCommandOptions): PackageOptions {
+  return {
+    framerate: options.framerate,
+    frameRatePolicy: options.frameratePolicy,
+    avSync: options.avSync,
+    avTolerance: options.avTolerance,
+    keepExtracted: options.keepExtracted || false,
+    testFrames: options.testFrames,
+    start: options.start,
+    end: options.end,
+    timeoutMinutes: options.timeout,
+    workers: options.workers,
+    directVideo: options.directVideo,
+    dedupe: options.dedupe,
+    constantFrameRate: options.cfr,
+    stream: options.stream,
+    renderScale: options.renderScale,
+    width: options.width,
+    height: options.height,
+    scaleMode: options.scaleMode,
+    loudness: options.loudness,
+    audioCleanup: options.audioCleanup,
+    sampleRate: options.sampleRate,
+    audioChannels: options.audioChannels,
+    audioOnlyOutput: options.audioOnlyOutput,
+    backgroundImage: options.backgroundImage,
+    chapters: options.chapters,
+    profile: options.profile ?? options.format,
+    ...getQualityOptions(options)
+  }
+}
+
+/**
+ * Pick the encoder quality options out of a command's options
+ *
+ * @param options - Parsed command options
+ * @returns Only the quality options that were given
+ */
+function getQualityOptions(options: QualityOptions): QualityOptions {
+  const { crf, preset, tune, maxBitrate, bufferSize, targetSize, audioBitrate } = options
+  return Object.fromEntries(
+    Object.entries({ crf, preset, tune, maxBitrate, bufferSize, targetSize, audioBitrate }).filter(([, value]) => value !== undefined)
+  )
+}
+
+/**
+ * Log the encoder quality settings that differ from the profile's defaults
+ *
+ * @param quality - Quality options from the command line
+ */
+function logQualityOptions(quality: QualityOptions): void {
+  const settings: string[] = []
+  if (quality.crf !== undefined) settings.push(`CRF ${quality.crf}`)
+  if (quality.preset) settings.push(`preset ${quality.preset}`)
+  if (quality.tune) settings.push(`tune ${quality.tune}`)
+  if (quality.maxBitrate) settings.push(`max ${Math.round(quality.maxBitrate / 1000)} kbps`)
+  if (quality.bufferSize) settings.push(`buffer ${Math.round(quality.bufferSize / 1000)} kbit`)
+  if (quality.targetSize) settings.push(`target size ${(quality.targetSize / 1000000).toFixed(1)} MB (two-pass)`)
+  if (quality.audioBitrate) settings.push(`audio ${Math.round(quality.audioBitrate / 1000)} kbps`)
+  if (settings.length > 0) {
+    log.info(`Encoder quality: ${colors.highlight(settings.join(', '))}`)
+  }
+}
+
+/**
+ * Log the render scale and output size, if any are given
+ *
+ * @param scaling - Scaling options
+ */
+function logScalingOptions(scaling: ScalingOptions): void {
+  if (scaling.renderScale && scaling.renderScale !== 1) {
+    log.info(`Frames will be rendered at ${colors.highlight(`${scaling.renderScale}x`)} the stage size`)
+  }
+  if (scaling.width || scaling.height) {
+    const size = scaling.width && scaling.height
+      ? `${scaling.width}x${scaling.height} (${scaling.scaleMode ?? 'fit'})`
+      : scaling.width ? `${scaling.width} pixels wide` : `${scaling.height} pixels high`
+    log.info(`Output size: ${colors.highlight(size)}`)
+  }
+}
+
+/**
+ * Collect the files the HTML5 video element of a converted SWF can reference
+ *
+ * @param videoPath - Path to the converted video (or audio, for an SWF with no visible content)
+ * @param mimeType - MIME type of the file written
+ * @returns The video with its poster, chapters and captions, where they exist
+ */
+function getHTML5Video(videoPath: string, mimeType: string): HTML5Video {
+  const poster = getPosterPath(videoPath)
+  const chapters = getChaptersVTTPath(videoPath)
+  return {
+    file: path.resolve(videoPath),
+    type: mimeType,
+    poster: fs.existsSync(poster) ? path.resolve(poster) : null,
+    chapters: fs.existsSync(chapters) ? path.resolve(chapters) : null,
+    captions: findCaptionsFile(path.resolve(videoPath))
+  }
+}
+
+/**
+ * Rewrite HTML wrapper pages to play the converted MP4s, keeping each original as a backup
+ *
+ * @param pages - HTML pages embedding the SWFs
+ * @param videos - Converted videos by content SWF
+ */
+function rewriteHTMLPages(pages: string[], videos: Map<string, HTML5Video>): void {
+  pages.forEach(page => {
+    try {
+      const { backupFile, replaced } = writeHTML5Page(page, videos)
+      if (replaced > 0) {
+        log.info(`Rewrote ${colors.highlight(path.basename(page))} (${replaced} video(s)), original kept in ${path.basename(backupFile!)}`)
+      } else {
+        log.warning(`${path.basename(page)} left unchanged: none of its SWFs were converted`)
+      }
+    } catch (error) {
+      log.error(`Could not rewrite ${path.basename(page)}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  })
+}
+
+/**
+ * Report the SWF files that won't be processed, with the reason
+ *
+ * @param skipped - Skipped SWFs from findProjects
+ */
+function reportSkippedFiles(skipped: ProjectDiscovery['skipped']): void {
+  skipped.forEach(({ file, reason }) => fileStatus.skipped(path.basename(file), reason))
+}
+
+/**
+ * Log the settings read from a project's config XML
+ *
+ * @param project - Project being processed
+ */
+function logProjectDetails(project: CamtasiaProject): void {
+  if (project.configError) {
+    log.warning(`Could not read ${path.basename(project.configFile!)}: ${project.configError}`)
+  }
+  if (!project.config) {
+    return
+  }
+
+  const { title, width, height } = project.config
+  const details = [
+    title ? `"${title}"` : null,
+    width && height ? `${width}x${height}` : null
+  ].filter(Boolean)
+  log.muted(`Camtasia project ${colors.highlight(project.name)}${details.length > 0 ? `: ${details.join(', ')}` : ''} (${path.basename(project.config.file)})`)
+}
+
 // Handle main help and no-command scenarios
 program.on('option:help', () => {
   console.log(generateMainHelp())
@@ -4,6 +4,7 @@
  * This module exports the core functionality for processing Camtasia-generated SWF files:
  * - Extracting frames (PNG) and audio (MP3/WAV) from SWF files using JPEXS decompiler
  * - Converting extracted content to modern MP4 format using FFmpeg
+ * - Reading SWF headers and tag streams natively (FWS, CWS and ZWS files)
  *
  * The library is designed specifically for Camtasia SWF files, which have unique
  * characteristics compared to general Flash SWF files.
@@ -16,7 +17,7 @@
  * await extractSWF('input.swf', './output-dir')
  *
  * // Convert SWF directly to MP4
- * await convertSWF('input.swf', 'output.mp4', { framerate: 30, keepExtracted: false })
+ * await convertSWF('input.swf', 'output.mp4', { keepExtracted: false })
  * ```
  *
  * @requires Java JDK 8+ (for JPEXS decompiler)
@@ -26,3 +27,20 @@
 // Export core SWF processing functions
 export * from './tools/extractor'
 export * from './tools/converter'
+export * from './tools/swf-parser'
+export * from './tools/inspector'
+export * from './tools/project'
+export * from './tools/chapters'
+export * from './tools/html-wrapper'
+export * from './tools/html5-page'
+export * from './tools/package'
+export * from './tools/profiles'
+export * from './tools/frame-manifest'
+export * from './tools/frame-stream'
+export * from './tools/extraction-checkpoint'
+export * from './tools/frame-selection'
+export * from './tools/scaling'
+export * from './tools/frame-rate'
+export * from './tools/av-sync'
+export * from './tools/audio-processing'
+export * from './tools/audio-only'
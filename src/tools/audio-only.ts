@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Audio-Only SWFs
+ *
+ * Some Camtasia exports are narration with nothing on the stage: the main timeline
+ * never places an object, so there are no frames to rasterise. These are found
+ * from the SWF's tags before JPEXS runs, and converted one of two ways:
+ *
+ * - `audio` - the audio alone, in the profile's audio container (M4A for `mp4`)
+ * - `video` - a video holding a background for the length of the audio: an image
+ *   given with the options, or the stage size filled with the SWF's background colour
+ *
+ * The background is written as the only extracted frame, so it is encoded the same
+ * way as a single-frame SWF, whose one frame is held until the audio ends.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import ffmpeg from 'fluent-ffmpeg'
+import { SWFFile, SWF_TAGS, parseBackgroundColor } from './swf-parser'
+import { OutputProfile } from './profiles'
+
+/** What an SWF with no visible content is converted to */
+export type AudioOnlyOutput = 'audio' | 'video'
+
+/** All audio-only outputs */
+export const AUDIO_ONLY_OUTPUTS: AudioOnlyOutput[] = ['audio', 'video']
+
+/** Background colour of an SWF without a SetBackgroundColor tag (the Flash Player default) */
+export const DEFAULT_BACKGROUND_COLOR = '#ffffff'
+
+/** Tags that put something on the stage */
+const PLACE_TAGS: number[] = [SWF_TAGS.PlaceObject, SWF_TAGS.PlaceObject2, SWF_TAGS.PlaceObject3]
+
+/** Conversion of SWFs with no visible content */
+export interface AudioOnlyOptions {
+  /** Optional: Convert SWFs with no visible content to their audio alone or to a video of a background (default: 'audio', or 'video' with a background image) */
+  audioOnlyOutput?: AudioOnlyOutput
+  /** Optional: Image shown for the length of the audio in video output (default: the SWF's background colour) */
+  backgroundImage?: string
+}
+
+/** Background generated for the video output of an audio-only SWF */
+export interface StageBackground {
+  /** Colour as a CSS-style hex string (e.g. "#333333") */
+  color: string
+  /** Stage width in pixels */
+  width: number
+  /** Stage height in pixels */
+  height: number
+}
+
+/**
+ * Check audio-only options
+ *
+ * @param options - Requested audio-only options
+ * @throws Error if the output is unknown, or the background image is missing or unused
+ */
+export const validateAudioOnlyOptions = (options: AudioOnlyOptions): void => {
+  const { audioOnlyOutput, backgroundImage } = options
+  if (audioOnlyOutput && !AUDIO_ONLY_OUTPUTS.includes(audioOnlyOutput)) {
+    throw new Error(`Unknown audio-only output "${audioOnlyOutput}" (available: ${AUDIO_ONLY_OUTPUTS.join(', ')})`)
+  }
+  if (backgroundImage) {
+    if (audioOnlyOutput === 'audio') {
+      throw new Error('A background image is only shown in the video output of audio-only SWFs')
+    }
+    if (!fs.existsSync(backgroundImage)) {
+      throw new Error(`Background image not found: ${backgroundImage}`)
+    }
+  }
+}
+
+/**
+ * Get what SWFs with no visible content are converted to
+ *
+ * @param options - Audio-only options
+ * @returns The output given, otherwise 'video' with a background image and 'audio' without
+ */
+export const getAudioOnlyOutput = (options: AudioOnlyOptions): AudioOnlyOutput =>
+  options.audioOnlyOutput ?? (options.backgroundImage ? 'video' : 'audio')
+
+/**
+ * Check whether an SWF puts anything on the stage
+ *
+ * Sprites only show when an object is placed on the main timeline, so only its
+ * tags are checked.
+ *
+ * @param swf - Parsed SWF file
+ * @returns True if the main timeline places at least one object
+ */
+export const hasVisibleContent = (swf: SWFFile): boolean =>
+  swf.tags.some(tag => PLACE_TAGS.includes(tag.code))
+
+/**
+ * Get the background to generate for an audio-only SWF
+ *
+ * @param swf - Parsed SWF file
+ * @returns The SWF's background colour and stage size
+ */
+export const getStageBackground = (swf: SWFFile): StageBackground => {
+  const tag = swf.tags.find(candidate => candidate.code === SWF_TAGS.SetBackgroundColor)
+  return {
+    color: tag ? parseBackgroundColor(tag) : DEFAULT_BACKGROUND_COLOR,
+    width: Math.max(1, swf.header.width),
+    height: Math.max(1, swf.header.height)
+  }
+}
+
+/**
+ * Get the path of the audio file an audio-only SWF is converted to
+ *
+ * @param outputPath - Path the video would have been written to
+ * @param profile - Output profile
+ * @returns The same path with the extension of the profile's audio container
+ */
+export const getAudioOutputPath = (outputPath: string, profile: OutputProfile): string =>
+  path.join(path.dirname(outputPath), path.basename(outputPath, path.extname(outputPath)) + profile.audioContainer.extension)
+
+/**
+ * Write the background of an audio-only SWF as a PNG frame
+ *
+ * @param framePath - Path of the PNG to write
+ * @param background - Image to convert, or the colour and size to fill
+ * @returns Promise that resolves once the frame is written
+ * @throws Error if FFmpeg can't read the image
+ */
+export const createBackgroundFrame = (framePath: string, background: string | StageBackground): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const command = typeof background === 'string'
+      ? ffmpeg().input(background)
+      : ffmpeg()
+        .input(`color=c=0x${background.color.slice(1)}:s=${background.width}x${background.height}`)
+        .inputFormat('lavfi')
+    command
+      .outputOptions(['-frames:v', '1'])
+      .output(framePath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .run()
+  })
+}
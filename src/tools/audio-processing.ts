@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Audio Processing
+ *
+ * Narration in old Camtasia lessons is often quiet, hissy and recorded at 11 kHz
+ * mono. These settings clean it up in the same FFmpeg pass that encodes it, after
+ * the stream sound and event sounds are mixed:
+ *
+ * - A cleanup preset: `highpass` cuts rumble and hum below 80 Hz, `denoise` also
+ *   reduces broadband hiss with an FFT denoiser
+ * - A channel layout: `mono` downmixes, `stereo` spreads mono narration to both sides
+ * - EBU R128 loudness normalisation (`loudnorm`) to a target integrated loudness, so
+ *   every lesson in a course plays at the same level. It works at 192 kHz, so the
+ *   audio is resampled afterwards, to 48 kHz unless a sample rate is given
+ * - A sample rate to resample to
+ *
+ * The audio bitrate is a quality option (see QualityOptions).
+ */
+
+import { OutputProfile } from './profiles'
+
+/** Filters that clean up a recording */
+export type AudioCleanupPreset = 'highpass' | 'denoise'
+
+/** All audio cleanup presets */
+export const AUDIO_CLEANUP_PRESETS: AudioCleanupPreset[] = ['highpass', 'denoise']
+
+/** Channel layouts the audio can be converted to */
+export type AudioChannelLayout = 'mono' | 'stereo'
+
+/** All audio channel layouts */
+export const AUDIO_CHANNEL_LAYOUTS: AudioChannelLayout[] = ['mono', 'stereo']
+
+/** Quietest and loudest integrated loudness loudnorm accepts, in LUFS */
+export const MIN_LOUDNESS = -70
+export const MAX_LOUDNESS = -5
+
+/** Sample rates the audio can be resampled to */
+export const AUDIO_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000, 88200, 96000]
+
+/** Sample rate loudness-normalised audio is resampled to when none is given */
+const LOUDNORM_SAMPLE_RATE = 48000
+
+/** Maximum true peak and loudness range for loudnorm, as recommended for EBU R128 */
+const LOUDNORM_TRUE_PEAK = -1.5
+const LOUDNORM_RANGE = 11
+
+/** Filters for each cleanup preset */
+const CLEANUP_FILTERS: Record<AudioCleanupPreset, string[]> = {
+  highpass: ['highpass=f=80'],
+  denoise: ['highpass=f=80', 'afftdn=nf=-25']
+}
+
+/** Audio post-processing */
+export interface AudioOptions {
+  /** Optional: Normalise to this integrated loudness in LUFS, e.g. -16 (default: keep the level) */
+  loudness?: number
+  /** Optional: Clean up the recording with a filter preset (default: none) */
+  audioCleanup?: AudioCleanupPreset
+  /** Optional: Resample to this rate in Hz (default: the source rate, or 48000 after loudness normalisation) */
+  sampleRate?: number
+  /** Optional: Convert to mono or stereo (default: the source layout) */
+  audioChannels?: AudioChannelLayout
+}
+
+/**
+ * Check audio options against a profile
+ *
+ * @param profile - Output profile (for the sample rates its audio encoder takes)
+ * @param audio - Requested audio options
+ * @throws Error naming the first invalid option
+ */
+export const validateAudioOptions = (profile: OutputProfile, audio: AudioOptions): void => {
+  const { loudness, audioCleanup, sampleRate, audioChannels } = audio
+  if (loudness !== undefined && !(loudness >= MIN_LOUDNESS && loudness <= MAX_LOUDNESS)) {
+    throw new Error(`The loudness target must be from ${MIN_LOUDNESS} to ${MAX_LOUDNESS} LUFS`)
+  }
+  if (audioCleanup && !AUDIO_CLEANUP_PRESETS.includes(audioCleanup)) {
+    throw new Error(`Unknown audio cleanup preset "${audioCleanup}" (available: ${AUDIO_CLEANUP_PRESETS.join(', ')})`)
+  }
+  if (sampleRate !== undefined) {
+    const rates = profile.audioSampleRates ?? AUDIO_SAMPLE_RATES
+    if (!rates.includes(sampleRate)) {
+      throw new Error(`The ${profile.name} profile can't encode audio at ${sampleRate} Hz (available: ${rates.join(', ')})`)
+    }
+  }
+  if (audioChannels && !AUDIO_CHANNEL_LAYOUTS.includes(audioChannels)) {
+    throw new Error(`Unknown channel layout "${audioChannels}" (available: ${AUDIO_CHANNEL_LAYOUTS.join(', ')})`)
+  }
+}
+
+/**
+ * Build the filters that process the audio before it is encoded
+ *
+ * @param audio - Audio options (already validated)
+ * @returns FFmpeg audio filters, in order (empty if the audio is used as it is)
+ */
+export const buildAudioFilters = (audio: AudioOptions): string[] => {
+  const filters: string[] = []
+  if (audio.audioCleanup) {
+    filters.push(...CLEANUP_FILTERS[audio.audioCleanup])
+  }
+  if (audio.audioChannels) {
+    filters.push(`aformat=channel_layouts=${audio.audioChannels}`)
+  }
+  if (audio.loudness !== undefined) {
+    filters.push(`loudnorm=I=${audio.loudness}:TP=${LOUDNORM_TRUE_PEAK}:LRA=${LOUDNORM_RANGE}`)
+  }
+
+  // loudnorm upsamples to 192 kHz, more than most encoders take. FFmpeg 4 fails to
+  // reconfigure an aresample filter after it, so the rate is set with aformat
+  const sampleRate = audio.sampleRate ?? (audio.loudness !== undefined ? LOUDNORM_SAMPLE_RATE : undefined)
+  if (sampleRate !== undefined) {
+    filters.push(`aformat=sample_rates=${sampleRate}`)
+  }
+  return filters
+}
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Audio/Video Duration Reconciliation
+ *
+ * Old Camtasia exports often have the wrong frame rate in the SWF header, so the
+ * frames played at that rate last longer or shorter than the narration recorded
+ * with them. Before encoding, the converter compares where the main audio ends on
+ * the timeline with the end of the video (`frameCount / frameRate`) and reports a
+ * difference larger than the tolerance. One of these strategies then corrects it:
+ *
+ * - `none` - only report the difference (the default)
+ * - `framerate` - take the frame rate the audio implies, so the frames are spread
+ *   over the length of the audio
+ * - `stretch` - speed the audio up or slow it down (without changing its pitch)
+ *   to the length of the video
+ * - `pad` - pad the audio with silence or trim it to the length of the video
+ *
+ * Stream sound demuxed natively is measured from its sample count; any other audio
+ * file is decoded once with FFmpeg to measure it.
+ */
+
+import * as os from 'os'
+import ffmpeg from 'fluent-ffmpeg'
+import { createFrameRate, frameRateToNumber, FrameRate, FrameRatePolicyName, MAX_SWF_FRAME_RATE } from './frame-rate'
+
+/** How a difference between the audio and video durations is corrected */
+export type AVSyncStrategy = 'none' | 'framerate' | 'stretch' | 'pad'
+
+/** All A/V sync strategies */
+export const AV_SYNC_STRATEGIES: AVSyncStrategy[] = ['none', 'framerate', 'stretch', 'pad']
+
+/** Difference in seconds below which the durations are taken to match */
+export const DEFAULT_AV_TOLERANCE = 0.5
+
+/** Slowest and fastest speed FFmpeg's atempo filter takes in one step */
+const MIN_TEMPO = 0.5
+const MAX_TEMPO = 2
+
+/** Denominator an inferred frame rate is rounded to */
+const INFERRED_RATE_DENOMINATOR = 1000
+
+/** Audio/video duration reconciliation */
+export interface AVSyncOptions {
+  /** Optional: How a difference between the audio and video durations is corrected (default: 'none') */
+  avSync?: AVSyncStrategy
+  /** Optional: Difference in seconds that is left alone (default: 0.5) */
+  avTolerance?: number
+}
+
+/** Video and audio lengths to reconcile */
+export interface AVDurations {
+  /** Frames on the timeline */
+  frameCount: number
+  /** Frame rate the frames play at */
+  frameRate: FrameRate
+  /** Frame the audio starts on */
+  audioStartFrame: number
+  /** Length of the audio in seconds, from where it starts */
+  audioDuration: number
+}
+
+/** Result of comparing the audio and video durations */
+export interface AVReconciliation {
+  /** Length of the video in seconds */
+  videoDuration: number
+  /** Where the audio ends on the timeline, in seconds */
+  audioEnd: number
+  /** How much later the audio ends than the video, in seconds (negative when it ends earlier) */
+  difference: number
+  /** Whether the difference is within the tolerance */
+  withinTolerance: boolean
+  /** Strategy applied ('none' when the durations match within the tolerance or nothing was asked for) */
+  strategy: AVSyncStrategy
+  /** The frame rate the audio implies, for the framerate strategy */
+  frameRate?: FrameRate
+  /** Speed to play the audio at, for the stretch strategy */
+  tempo?: number
+}
+
+/**
+ * Check A/V sync options
+ *
+ * @param sync - Requested A/V sync options
+ * @param policy - Frame rate policy in use
+ * @throws Error naming the first invalid or conflicting option
+ */
+export const validateAVSyncOptions = (sync: AVSyncOptions, policy: FrameRatePolicyName): void => {
+  if (sync.avSync && !AV_SYNC_STRATEGIES.includes(sync.avSync)) {
+    throw new Error(`Unknown A/V sync strategy "${sync.avSync}" (available: ${AV_SYNC_STRATEGIES.join(', ')})`)
+  }
+  if (sync.avTolerance !== undefined && !(sync.avTolerance >= 0)) {
+    throw new Error('The A/V tolerance must be zero or more seconds')
+  }
+  if (sync.avSync === 'framerate' && policy === 'force') {
+    throw new Error('The framerate A/V sync strategy infers the frame rate, so it can\'t be combined with a forced frame rate')
+  }
+}
+
+/**
+ * Compare the audio and video durations and work out the correction to apply
+ *
+ * @param durations - Video and audio lengths
+ * @param sync - A/V sync options
+ * @returns The difference found and the correction for it
+ */
+export const reconcileDurations = (durations: AVDurations, sync: AVSyncOptions): AVReconciliation => {
+  const { frameCount, frameRate, audioStartFrame, audioDuration } = durations
+  const fps = frameRateToNumber(frameRate)
+  const videoDuration = frameCount / fps
+  const audioStart = audioStartFrame / fps
+  const audioEnd = audioStart + audioDuration
+  const difference = audioEnd - videoDuration
+  const withinTolerance = Math.abs(difference) <= (sync.avTolerance ?? DEFAULT_AV_TOLERANCE)
+  const result: AVReconciliation = { videoDuration, audioEnd, difference, withinTolerance, strategy: 'none' }
+  if (withinTolerance || audioDuration <= 0) {
+    return result
+  }
+
+  switch (sync.avSync ?? 'none') {
+    case 'framerate': {
+      // The frames from the audio's start frame on are spread over the audio
+      const inferred = (frameCount - audioStartFrame) / audioDuration
+      const numerator = Math.round(inferred * INFERRED_RATE_DENOMINATOR)
+      if (numerator <= 0 || inferred > MAX_SWF_FRAME_RATE) {
+        return result
+      }
+      return { ...result, strategy: 'framerate', frameRate: createFrameRate(numerator, INFERRED_RATE_DENOMINATOR) }
+    }
+    case 'stretch':
+      return videoDuration > audioStart
+        ? { ...result, strategy: 'stretch', tempo: audioDuration / (videoDuration - audioStart) }
+        : result
+    case 'pad':
+      return { ...result, strategy: 'pad' }
+    default:
+      return result
+  }
+}
+
+/**
+ * Build the filters that play audio at another speed, keeping its pitch
+ *
+ * @param tempo - Speed (above 1 is faster and shorter)
+ * @returns atempo filters, chained where the speed is beyond what one of them takes
+ */
+export const buildTempoFilters = (tempo: number): string[] => {
+  const filters: string[] = []
+  let remaining = tempo
+  while (remaining > MAX_TEMPO) {
+    filters.push(`atempo=${MAX_TEMPO}`)
+    remaining /= MAX_TEMPO
+  }
+  while (remaining < MIN_TEMPO) {
+    filters.push(`atempo=${MIN_TEMPO}`)
+    remaining /= MIN_TEMPO
+  }
+  filters.push(`atempo=${remaining.toFixed(6)}`)
+  return filters
+}
+
+/**
+ * Measure the length of an audio file by decoding it
+ *
+ * @param audioFile - Path to the audio file
+ * @returns Promise resolving to the length in seconds
+ * @throws Error if FFmpeg can't decode the file
+ */
+export const measureAudioDuration = (audioFile: string): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    ffmpeg()
+      .input(audioFile)
+      .noVideo()
+      .format('null')
+      .output(os.devNull)
+      .on('end', (_stdout: string | null, stderr: string | null) => {
+        // The last progress line has the time of the last decoded sample
+        const times = [...(stderr ?? '').matchAll(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/g)]
+        const last = times[times.length - 1]
+        if (!last) {
+          reject(new Error(`Could not measure the length of ${audioFile}`))
+          return
+        }
+        resolve(parseInt(last[1], 10) * 3600 + parseInt(last[2], 10) * 60 + parseFloat(last[3]))
+      })
+      .on('error', (err: Error) => reject(err))
+      .run()
+  })
+}
@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Chapter Markers
+ *
+ * Camtasia's Flash player shows a table of contents that lets learners jump to
+ * each section of a video. The markers come from one of two places:
+ *
+ * - The table of contents in the project's `*_config.xml` (titles with times or frames)
+ * - Frame labels in the content SWF (FrameLabel tags, or DefineSceneAndFrameLabelData in AS3 files)
+ *
+ * This module collects the markers, places them on the output video's timeline and
+ * formats them for FFmpeg (FFMETADATA, which the MP4 muxer writes as chapters) and
+ * as a WebVTT chapters sidecar for HTML5 players.
+ */
+
+import * as path from 'path'
+import {
+  SWFFile,
+  SWF_TAGS,
+  FrameLabel,
+  parseSWF,
+  parseFrameLabel,
+  parseSceneAndFrameLabelData
+} from './swf-parser'
+import { groupProjectFiles, ProjectConfig } from './project'
+
+/** Suffix of the WebVTT chapters sidecar written next to the MP4 */
+export const CHAPTERS_VTT_SUFFIX = '.chapters.vtt'
+
+/** Where a set of chapter markers came from */
+export type ChapterSource = 'config' | 'frame-labels'
+
+/** A chapter marker on the SWF timeline */
+export interface ChapterMarker {
+  title: string
+  /** Zero-based SWF frame the chapter starts on (fractional for markers given in seconds) */
+  frame: number
+}
+
+/** A chapter on the output video's timeline */
+export interface Chapter {
+  title: string
+  /** Start time in seconds */
+  start: number
+  /** End time in seconds (the next chapter's start, or the end of the video) */
+  end: number
+}
+
+/**
+ * Collect chapter markers from the frame labels of an SWF
+ *
+ * FrameLabel tags on the main timeline and the labels of DefineSceneAndFrameLabelData
+ * are combined. Scene names are only used when there are no labels and the file has
+ * more than one scene, since every AS3 file has a default "Scene 1".
+ *
+ * @param swf - Parsed SWF file
+ * @returns Markers in frame order
+ */
+export const collectFrameLabelMarkers = (swf: SWFFile): ChapterMarker[] => {
+  const labels: FrameLabel[] = []
+  const scenes: FrameLabel[] = []
+
+  for (const tag of swf.tags) {
+    try {
+      if (tag.code === SWF_TAGS.FrameLabel) {
+        labels.push(parseFrameLabel(tag))
+      } else if (tag.code === SWF_TAGS.DefineSceneAndFrameLabelData) {
+        const data = parseSceneAndFrameLabelData(tag)
+        labels.push(...data.labels)
+        scenes.push(...data.scenes)
+      }
+    } catch (error) {
+      // A damaged label tag only costs that label
+    }
+  }
+
+  const named = (labels.length > 0 ? labels : scenes.length > 1 ? scenes : []).filter(label => label.name.trim())
+  const unique = named.filter(
+    (label, i) => named.findIndex(other => other.frame === label.frame && other.name === label.name) === i
+  )
+  return unique
+    .sort((a, b) => a.frame - b.frame)
+    .map(label => ({ title: label.name.trim(), frame: label.frame }))
+}
+
+/**
+ * Convert a project config's table of contents to chapter markers
+ *
+ * @param config - Project config with its table of contents
+ * @param frameRate - SWF frame rate, used to place entries given in seconds on the SWF timeline
+ * @returns Markers in frame order
+ */
+export const getConfigMarkers = (config: ProjectConfig, frameRate: number): ChapterMarker[] =>
+  config.tableOfContents
+    .map(entry => ({ title: entry.title, frame: entry.frame ?? (entry.time ?? 0) * frameRate }))
+    .sort((a, b) => a.frame - b.frame)
+
+/**
+ * Find the chapter markers of an SWF file
+ *
+ * The table of contents in the project's config XML is preferred, since it holds
+ * the titles shown in Camtasia's player; frame labels are used otherwise.
+ *
+ * @param swfFile - Path to the content SWF
+ * @returns The markers and where they came from, or null if the SWF has none
+ * @throws Error if the SWF file cannot be read or parsed
+ */
+export const findChapterMarkers = (swfFile: string): { source: ChapterSource; markers: ChapterMarker[] } | null => {
+  const swf = parseSWF(swfFile)
+  const config = groupProjectFiles([swfFile]).projects[0]?.config
+
+  if (config && config.tableOfContents.length > 0) {
+    return { source: 'config', markers: getConfigMarkers(config, swf.header.frameRate) }
+  }
+
+  const markers = collectFrameLabelMarkers(swf)
+  return markers.length > 0 ? { source: 'frame-labels', markers } : null
+}
+
+/**
+ * Place chapter markers on the output video's timeline
+ *
+ * Markers at or past the end of the video (e.g. in test mode) are dropped, and
+ * of several markers on the same frame only the first is kept. When the video
+ * starts part way into the SWF, the chapter playing at that point starts the video
+ * and earlier markers are dropped.
+ *
+ * @param markers - Markers in frame order
+ * @param frameRate - Frame rate SWF frames are played at in the output video
+ * @param duration - Length of the output video in seconds
+ * @param startTime - Where the video starts on the SWF timeline, in seconds (default: 0)
+ * @returns Chapters in start order
+ */
+export const resolveChapters = (markers: ChapterMarker[], frameRate: number, duration: number, startTime: number = 0): Chapter[] => {
+  const placed = markers.map(marker => ({ title: marker.title, start: (frameRate > 0 ? marker.frame / frameRate : 0) - startTime }))
+  const current = placed.filter(marker => marker.start <= 0).reduce<{ title: string; start: number } | null>(
+    (latest, marker) => latest && latest.start >= marker.start ? latest : marker, null)
+  const starts = [...(current ? [{ title: current.title, start: 0 }] : []), ...placed.filter(marker => marker.start > 0)]
+    .filter(marker => marker.start < duration)
+    .filter((marker, i, all) => i === 0 || marker.start > all[i - 1].start)
+
+  return starts.map((marker, i) => ({
+    title: marker.title,
+    start: marker.start,
+    end: i + 1 < starts.length ? starts[i + 1].start : duration
+  }))
+}
+
+/** Escape the characters FFMETADATA treats specially */
+const escapeMetadata = (value: string): string => value.replace(/[=;#\\\n]/g, character => `\\${character}`)
+
+/**
+ * Format chapters as an FFMETADATA file, which FFmpeg writes to MP4 as chapters
+ *
+ * @param chapters - Chapters in start order
+ * @returns FFMETADATA file contents (times in milliseconds)
+ */
+export const createFFMetadata = (chapters: Chapter[]): string => {
+  const sections = chapters.map(chapter => [
+    '[CHAPTER]',
+    'TIMEBASE=1/1000',
+    `START=${Math.round(chapter.start * 1000)}`,
+    `END=${Math.round(chapter.end * 1000)}`,
+    `title=${escapeMetadata(chapter.title)}`
+  ].join('\n'))
+  return [';FFMETADATA1', ...sections].join('\n') + '\n'
+}
+
+/** Format seconds as a WebVTT timestamp (hh:mm:ss.ttt) */
+const formatVTTTime = (seconds: number): string => {
+  const milliseconds = Math.round(seconds * 1000)
+  const hours = Math.floor(milliseconds / 3600000)
+  const minutes = Math.floor(milliseconds / 60000) % 60
+  const secs = (milliseconds % 60000) / 1000
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toFixed(3).padStart(6, '0')}`
+}
+
+/**
+ * Format chapters as a WebVTT chapters track
+ *
+ * @param chapters - Chapters in start order
+ * @returns WebVTT file contents
+ */
+export const createChaptersVTT = (chapters: Chapter[]): string => {
+  const cues = chapters.map((chapter, i) =>
+    `${i + 1}\n${formatVTTTime(chapter.start)} --> ${formatVTTTime(chapter.end)}\n${chapter.title.replace(/\s*\n\s*/g, ' ').replace(/-->/g, '->')}`
+  )
+  return ['WEBVTT', ...cues].join('\n\n') + '\n'
+}
+
+/**
+ * Get the path of the WebVTT chapters sidecar for an MP4 file
+ *
+ * @param outputMP4 - Path to the MP4 file
+ * @returns Path next to the MP4, e.g. presentation.chapters.vtt
+ */
+export const getChaptersVTTPath = (outputMP4: string): string =>
+  path.join(path.dirname(outputMP4), path.basename(outputMP4, path.extname(outputMP4)) + CHAPTERS_VTT_SUFFIX)
@@ -3,15 +3,27 @@
  *
  * This module handles the complete workflow of converting Camtasia SWF files to MP4:
  *
- * 1. **Frame Rate Detection**: Uses FFmpeg to detect the original SWF frame rate
+ * 1. **Frame Rate Detection**: Reads the original frame rate from the SWF header
  * 2. **Content Extraction**: Delegates to extractor module for frames and audio
  * 3. **MP4 Creation**: Uses FFmpeg to combine frames into H.264 video with audio
  * 4. **Cleanup**: Optionally removes temporary extraction files
  *
  * The converter is optimized for Camtasia SWF files and includes:
- * - Automatic frame rate detection from source SWF
- * - Smart frame pattern recognition for FFmpeg input
- * - H.264 video encoding with AAC audio
+ * - Automatic frame rate detection from source SWF, kept as the exact fraction in the header
+ * - A frame rate policy: the detected rate, a forced rate, or the detected rate resampled to an output rate
+ * - Direct conversion of embedded video streams, skipping frame rasterisation
+ * - MP4 chapters from Camtasia's table of contents or the SWF's frame labels
+ * - An explicit frame manifest for FFmpeg input, holding frames missing from the extraction
+ * - Deduplication of static frames, encoded at variable frame rate or keyframe-friendly constant rate
+ * - Optional streaming of frames to FFmpeg as JPEXS exports them, keeping disk usage bounded
+ * - Conversion of a selected section of the timeline, with the audio and chapters cut to match
+ * - Frames rendered above the stage size for sharp vector content, and scaled to an output size
+ * - A check that the audio lasts as long as the frames, optionally corrected by inferring the frame rate,
+ *   stretching the audio or padding/trimming it
+ * - Audio cleanup, channel layout, loudness normalisation and resampling in the encoding pass
+ * - SWFs with no visible content converted to their audio alone, or to a video of a background,
+ *   and the one frame of a single-frame SWF held until the audio ends
+ * - H.264 video encoding with AAC audio, or another output profile (WebM, HEVC, AV1, FFV1, ProRes)
  * - Progress reporting and error handling
  * - Cleanup of temporary files
  *
@@ -20,9 +32,63 @@
  */
 
 import * as fs from 'fs'
+import * as os from 'os'
 import * as path from 'path'
+import { PassThrough } from 'stream'
 import ffmpeg from 'fluent-ffmpeg'
-import { extractSWF, analyzeExtractedContent } from './extractor'
+import { extractSWF, extractSWFVideoStream, extractAudio, analyzeExtractedContent, ExtractedContent } from './extractor'
+import { VideoStreamInfo } from './video-stream'
+import { parseSWF, SWFFile, SWFHeader, SoundEnvelopePoint } from './swf-parser'
+import { resolveSoundPlacements, SoundPlacement } from './sound-events'
+import {
+  getOutputProfile,
+  findMissingEncoders,
+  validateQualityOptions,
+  getTargetVideoBitrate,
+  getVideoEncoderOptions,
+  getAudioEncoderOptions,
+  DEFAULT_PROFILE,
+  OutputProfile,
+  OutputProfileName,
+  QualityOptions
+} from './profiles'
+import { buildFrameSequence, createFrameManifest, countManifestFrames, getHeldFrameStarts, getManifestTimestampFilters, FrameRun, FrameGap, FRAME_MANIFEST_NAME } from './frame-manifest'
+import { streamSWFFrames, FrameStream } from './frame-stream'
+import { isExtractionIncomplete } from './extraction-checkpoint'
+import { resolveFrameSelection, hasFrameSelection, FramePosition, FrameSelection } from './frame-selection'
+import { FrameRange } from './extractor'
+import {
+  resolveFrameRate,
+  getSWFFrameRate,
+  frameRateToNumber,
+  formatFrameRate,
+  describeFrameRate,
+  isSameFrameRate,
+  DEFAULT_FRAME_RATE,
+  FrameRate,
+  FrameRatePolicyName,
+  ResolvedFrameRate
+} from './frame-rate'
+import { buildScaleFilters, validateScalingOptions, ScalingOptions } from './scaling'
+import {
+  reconcileDurations,
+  measureAudioDuration,
+  buildTempoFilters,
+  validateAVSyncOptions,
+  AVSyncOptions,
+  AVReconciliation
+} from './av-sync'
+import { buildAudioFilters, validateAudioOptions, AudioOptions } from './audio-processing'
+import {
+  validateAudioOnlyOptions,
+  getAudioOnlyOutput,
+  hasVisibleContent,
+  getStageBackground,
+  getAudioOutputPath,
+  createBackgroundFrame,
+  AudioOnlyOptions
+} from './audio-only'
+import { findChapterMarkers, resolveChapters, createFFMetadata, createChaptersVTT, getChaptersVTTPath, ChapterMarker } from './chapters'
 import { log, colors, createStyledSpinner } from '../utils/cli-styling'
 import { getFFmpegPath, validatePlatformSupport } from '../utils/platform'
 
@@ -62,16 +128,82 @@ const initializeFFmpeg = (): boolean => {
 // Initialize FFmpeg on module load for immediate availability
 const ffmpegInitialized = initializeFFmpeg()
 
-/** Configuration options for SWF to MP4 conversion */
-export interface ConversionOptions {
-  /** Target frame rate for output video (or detected rate if 30fps default) */
-  framerate: number
+/** Configuration options for SWF to MP4 conversion (quality controls come from QualityOptions) */
+export interface ConversionOptions extends QualityOptions, ScalingOptions, AVSyncOptions, AudioOptions, AudioOnlyOptions {
+  /** Optional: Frame rate to force or resample to, as a number or an exact fraction (default: the detected rate) */
+  framerate?: number | FrameRate
+  /** Optional: How the frame rate is applied (default: 'force' with a frame rate, 'auto' without) */
+  frameRatePolicy?: FrameRatePolicyName
   /** Whether to keep extracted frames/audio files after conversion */
   keepExtracted: boolean
   /** Optional: Extract only the first N frames for testing */
   testFrames?: number
+  /** Optional: Convert from this frame or time on (default: the first frame) */
+  start?: FramePosition
+  /** Optional: Convert up to this frame or time (default: the last frame) */
+  end?: FramePosition
   /** Optional: Override extraction timeout in minutes */
   timeoutMinutes?: number
+  /** Optional: Split frame extraction into ranges across this many concurrent JPEXS processes (default: 1) */
+  workers?: number
+  /** Optional: Convert embedded video streams directly instead of rasterising frames with JPEXS (default: true) */
+  directVideo?: boolean
+  /** Optional: Title written to the MP4 metadata (e.g. from the Camtasia project config) */
+  title?: string
+  /** Optional: Write chapter markers from the project's table of contents or the SWF's frame labels (default: true) */
+  chapters?: boolean
+  /** Optional: Also write the chapters to a WebVTT sidecar next to the MP4 (default: false) */
+  chaptersVtt?: boolean
+  /** Optional: Save the first frame of the MP4 as a JPEG poster image next to it (default: false) */
+  poster?: boolean
+  /** Optional: Output container and codecs (default: 'mp4', H.264 + AAC) */
+  profile?: OutputProfileName
+  /** Optional: Encode runs of identical frames once, for as long as they last (default: true) */
+  dedupe?: boolean
+  /** Optional: Keep a constant frame rate when deduplicating, with keyframes where slides start (default: false, variable frame rate) */
+  constantFrameRate?: boolean
+  /** Optional: Stream frames to FFmpeg as JPEXS exports them instead of extracting them all first (default: false) */
+  stream?: boolean
+}
+
+/** Shortest a frame must be held, in seconds, to get a keyframe of its own in constant frame rate output */
+const KEYFRAME_HOLD_SECONDS = 2
+
+/** Extracted frames FFmpeg reads from an ffconcat manifest */
+interface ManifestFrameInput {
+  type: 'manifest'
+  /** Full path to the ffconcat manifest */
+  manifest: string
+  /** Runs the manifest lists */
+  runs: FrameRun[]
+  /** Number of frames on the timeline */
+  frameCount: number
+  /** Whether the output keeps a constant frame rate */
+  constantFrameRate: boolean
+}
+
+/** Frames piped to FFmpeg as JPEXS exports them, one per timeline frame */
+interface PipedFrameInput {
+  type: 'pipe'
+  /** Pipe the frames are written to */
+  pipe: PassThrough
+  /** Number of frames on the timeline */
+  frameCount: number
+  /** Piped frames are never deduplicated */
+  constantFrameRate: true
+}
+
+/** A frame sequence as FFmpeg reads it */
+type FrameInput = ManifestFrameInput | PipedFrameInput
+
+/** What a conversion did, for reporting */
+export interface ConversionResult {
+  /** Frame rate policy applied, with the rates it resolved to */
+  frameRate: ResolvedFrameRate
+  /** Path of the file written: the video, or the audio of an SWF with no visible content */
+  outputFile: string
+  /** MIME type of the file written */
+  mimeType: string
 }
 
 /**
@@ -80,65 +212,237 @@ export interface ConversionOptions {
  * This is the main conversion function that orchestrates the entire process:
  *
  * 1. **Frame Rate Detection**: Analyzes SWF to detect original frame rate
- * 2. **Content Extraction**: Extracts frames and audio using dual-strategy approach
- * 3. **Content Analysis**: Catalogs extracted files and validates completeness
- * 4. **Video Creation**: Combines frames into H.264 MP4 with synchronized audio
+ * 2. **Content Extraction**: Extracts frames and audio using dual-strategy approach, or
+ *    demuxes an embedded video stream directly when the SWF has one. When streaming,
+ *    only the audio is extracted here, and frames go to FFmpeg as JPEXS exports them
+ * 3. **Content Analysis**: Catalogs extracted files, validates completeness,
+ *    collapses runs of identical frames and reconciles the audio and video durations
+ * 4. **Video Creation**: Combines frames into H.264 MP4 with synchronized audio and chapters
  * 5. **Cleanup**: Removes temporary files unless requested to keep them
  *
- * The function handles frame rate intelligently:
- * - If user specifies 30fps (default), uses detected frame rate instead
- * - Otherwise respects user's explicit frame rate choice
+ * An SWF that places nothing on the stage has no frames to extract: only its audio
+ * is extracted, and converted alone or under a background frame (see audio-only).
+ * The only frame of a single-frame SWF is held for the length of its audio.
+ *
+ * The function handles frame rate through the frame rate policy:
+ * - auto uses the detected frame rate
+ * - force plays the frames at the given rate instead
+ * - output plays them at the detected rate and resamples them to the given rate
  * - Falls back to 30fps if detection fails
+ * - Passes the rates to FFmpeg as exact fractions, so fractional rates don't drift
  *
  * @param swfFile - Path to input SWF file
  * @param outputMP4 - Path where MP4 file will be created
  * @param options - Conversion configuration (frame rate, cleanup preferences)
- * @returns Promise that resolves when conversion completes
- * @throws Error if extraction fails or no frames are found
+ * @returns Promise resolving to what the conversion applied, once it completes
+ * @throws Error if extraction fails, or no frames or audio are found
  */
 export const convertSWF = async (
   swfFile: string,
   outputMP4: string,
   options: ConversionOptions
-): Promise<void> => {
+): Promise<ConversionResult> => {
   const tempDir = path.join(path.dirname(outputMP4), `.temp-${path.basename(swfFile, '.swf')}`)
-  
+
+  // Check the profile, quality, scaling and audio options and encoders before spending time on extraction
+  const profile = getOutputProfile(options.profile ?? DEFAULT_PROFILE)
+  validateQualityOptions(profile, options)
+  validateScalingOptions(profile, options)
+  validateAudioOptions(profile, options)
+  validateAudioOnlyOptions(options)
+  const missingEncoders = await checkProfileEncoders(profile)
+  if (missingEncoders.length > 0) {
+    throw new Error(`FFmpeg has no ${missingEncoders.join(' or ')} encoder, needed for the ${profile.name} profile`)
+  }
+
   try {
-    // Step 0: Detect frame rate from SWF using FFmpeg
+    // Step 0: Detect frame rate from the SWF header
     log.muted('  Detecting frame rate from SWF...')
     const detectedFrameRate = await detectSWFFrameRate(swfFile)
-    
-    // Use detected frame rate from SWF, unless user explicitly provided a different rate
-    // If user provided 30fps (the default), prefer the detected rate
-    const actualFrameRate = (options.framerate !== 30) ? options.framerate : detectedFrameRate
-    log.muted(`  SWF frame rate: ${colors.highlight(detectedFrameRate.toString())} FPS, using: ${colors.highlight(actualFrameRate.toString())} FPS`)
+    let frameRates = resolveFrameRate(detectedFrameRate, options.framerate, options.frameRatePolicy)
+    validateAVSyncOptions(options, frameRates.policy)
+    log.muted(`  SWF frame rate: ${colors.highlight(describeFrameRate(detectedFrameRate))} FPS`)
+
+    // Only the selected frames are extracted; the output video starts with the first of them
+    const selection: FrameSelection = { start: options.start, end: options.end, limit: options.testFrames }
+    const frameRange = hasFrameSelection(selection) ? resolveFrameSelection(selection, readSWFHeader(swfFile)) : null
+    if (frameRange) {
+      log.muted(`  Converting frames ${colors.highlight(`${frameRange.first}-${frameRange.last}`)} of the SWF`)
+    }
+
+    // An SWF that places nothing on the stage is converted to its audio, or to a video of a background
+    const audioOnlySWF = findAudioOnlySWF(swfFile)
+    const audioOnlyOutput = audioOnlySWF ? getAudioOnlyOutput(options) : null
+    if (audioOnlyOutput === 'audio') {
+      log.muted(`  Nothing is placed on the stage: converting the audio alone to ${colors.highlight(profile.audioContainer.extension)}`)
+    } else if (audioOnlyOutput === 'video') {
+      log.muted(`  Nothing is placed on the stage: showing ${options.backgroundImage ? 'the background image' : 'the background colour'} for the length of the audio`)
+    }
     
     log.muted('  Extracting frames and audio...')
     
-    // Step 1: Extract content from SWF
-    await extractSWF(swfFile, tempDir, options.testFrames, options.timeoutMinutes)
+    // Step 1: Extract content from SWF - an embedded video stream is demuxed directly, skipping JPEXS
+    let videoStream: VideoStreamInfo | null = null
+    if (options.directVideo !== false && !audioOnlySWF) {
+      try {
+        videoStream = await extractSWFVideoStream(swfFile, tempDir, selection)
+      } catch (error) {
+        log.muted(`  Could not demux embedded video: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    // Frames are streamed to FFmpeg when asked to, unless they have to be extracted first anyway
+    const streamPlan = !videoStream && !audioOnlySWF && options.stream ? planFrameStreaming(swfFile, tempDir, frameRange, options) : null
+    if (streamPlan && 'reason' in streamPlan) {
+      log.muted(`  Extracting frames to the temp directory instead of streaming them: ${streamPlan.reason}`)
+    }
+
+    if (videoStream) {
+      log.muted(`  Embedded ${colors.highlight(videoStream.codecName)} video stream found, skipping frame rasterisation`)
+      if (options.renderScale && options.renderScale !== 1) {
+        log.muted('  The render scale only applies to rasterised frames; the embedded video keeps its own size')
+      }
+    } else if (streamPlan && 'swf' in streamPlan) {
+      // Only the audio is extracted up front; JPEXS starts once FFmpeg is ready to read the frames
+      await extractAudio(swfFile, streamPlan.swf, tempDir)
+    } else {
+      // Only the audio of an SWF with no visible content is extracted
+      await extractSWF(swfFile, tempDir, selection, options.timeoutMinutes, options.workers, options.renderScale)
+    }
+
+    // The background is written as the only frame, and held like the frame of a single-frame SWF
+    if (audioOnlySWF && audioOnlyOutput === 'video') {
+      const framesDir = path.join(tempDir, 'frames')
+      fs.mkdirSync(framesDir, { recursive: true })
+      await createBackgroundFrame(
+        path.join(framesDir, `${frameRange?.first ?? 1}.png`),
+        options.backgroundImage ?? getStageBackground(audioOnlySWF)
+      )
+    }
     
     // Step 2: Analyze extracted content
     const content = analyzeExtractedContent(tempDir)
+    let frameInput: FrameInput | null
+    let heldFrames: number | null = null
+
+    if (audioOnlySWF && !getMainAudioFile(content) && !content.soundTimeline?.events.length) {
+      throw new Error('The SWF has no visible content and no audio to convert')
+    }
+    if (audioOnlyOutput === 'audio') {
+      const audioPath = getAudioOutputPath(outputMP4, profile)
+      const audioSpinner = createStyledSpinner(`Converting to ${profile.audioContainer.extension.slice(1).toUpperCase()}...`, 'green')
+      audioSpinner.start()
+      try {
+        await convertAudioOnly(content, audioPath, frameRates, frameRange, options, profile)
+      } finally {
+        audioSpinner.stop()
+      }
+      log.muted('  Audio conversion completed')
+      return { frameRate: frameRates, outputFile: audioPath, mimeType: profile.audioContainer.mimeType }
+    }
     
-    if (content.frameCount === 0) {
-      throw new Error('No frames were extracted from the SWF file')
+    if (streamPlan && 'swf' in streamPlan) {
+      frameInput = { type: 'pipe', pipe: new PassThrough(), frameCount: streamPlan.frameCount, constantFrameRate: true }
+      log.muted(`  Streaming ${colors.highlight(streamPlan.frameCount.toString())} frames to FFmpeg at constant frame rate, found ${colors.highlight(content.audioFiles.length.toString())} audio file(s)`)
+    } else {
+      if (content.frameCount === 0 && !content.videoFile) {
+        throw new Error('No frames were extracted from the SWF file')
+      }
+
+      const frameCount = content.videoStream ? content.videoStream.frameCount : content.frameCount
+      log.muted(`  Found ${colors.highlight(frameCount.toString())} ${content.videoStream ? 'video ' : ''}frames and ${colors.highlight(content.audioFiles.length.toString())} audio file(s)`)
+      heldFrames = await getHeldFrameCount(content, frameRates, frameRange)
+      if (heldFrames !== null && heldFrames > 1) {
+        log.muted(`  Holding the only frame for ${colors.highlight(heldFrames.toString())} frames${frameRange ? '' : ', until the audio ends'}`)
+      }
+      frameInput = prepareFrameInput(content, frameRange, options, frameRates, heldFrames)
+    }
+
+    // Chapter markers are optional - a file whose labels can't be read is converted without them
+    let chapterMarkers: ChapterMarker[] = []
+    if (options.chapters !== false) {
+      try {
+        const found = findChapterMarkers(swfFile)
+        if (found) {
+          chapterMarkers = found.markers
+          log.muted(`  Found ${colors.highlight(found.markers.length.toString())} chapter marker(s) in the ${found.source === 'config' ? 'project table of contents' : 'SWF frame labels'}`)
+        }
+      } catch (error) {
+        log.muted(`  Could not read chapter markers: ${error instanceof Error ? error.message : String(error)}`)
+      }
     }
     
-    log.muted(`  Found ${colors.highlight(content.frameCount.toString())} frames and ${colors.highlight(content.audioFiles.length.toString())} audio file(s)`)
+    // The whole timeline is checked against the audio, unless it was made as long as the audio by holding
+    // its only frame; a frame rate the audio implies replaces the timeline rate
+    if (frameRange && options.avSync && options.avSync !== 'none') {
+      log.warning(`The ${options.avSync} A/V sync strategy only applies to the whole timeline; the selected frames aren't checked against the audio`)
+    }
+    const audioSync = frameRange || heldFrames !== null ? null : await reconcileAudioDuration(content, frameInput, frameRates, options)
+    if (audioSync?.frameRate) {
+      frameRates = {
+        ...frameRates,
+        timeline: audioSync.frameRate,
+        output: frameRates.policy === 'output' ? frameRates.output : audioSync.frameRate,
+        inferredFromAudio: true
+      }
+    }
     
-    // Step 3: Convert to MP4
-    const conversionSpinner = createStyledSpinner('Converting to MP4...', 'green')
+    // Step 3: A target size is reached with two passes; the first one only analyses the video
+    let twoPass: TwoPassEncoding | undefined
+    if (options.targetSize) {
+      const { duration } = getTimeline(content, frameInput, frameRates, frameRange)
+      const bitrate = getTargetVideoBitrate(profile, options.targetSize, duration, content.audioFiles.length > 0, options)
+      twoPass = { bitrate, logFile: path.join(path.resolve(tempDir), 'ffmpeg2pass') }
+      log.muted(`  Target size ${colors.highlight(`${(options.targetSize / 1000000).toFixed(1)} MB`)}: encoding video at ${colors.highlight(`${Math.round(bitrate / 1000)} kbps`)} in two passes`)
+
+      const analysisSpinner = createStyledSpinner('Analysing video (pass 1 of 2)...', 'green')
+      analysisSpinner.start()
+      try {
+        await runAnalysisPass(content, frameInput, frameRates, frameRange, options, profile, twoPass)
+      } finally {
+        analysisSpinner.stop()
+      }
+    }
+
+    // Step 4: Convert to MP4
+    const conversionSpinner = createStyledSpinner(`Converting to ${profile.extension.slice(1).toUpperCase()}${twoPass ? ' (pass 2 of 2)' : ''}...`, 'green')
     conversionSpinner.start()
     
-    await convertFramesToMP4(content, outputMP4, actualFrameRate, options.testFrames)
-    
-    conversionSpinner.stop()
+    if (frameInput?.type === 'pipe') {
+      // FFmpeg reads the pipe while JPEXS fills it; whichever fails first stops the other
+      const frameStream = streamSWFFrames(swfFile, tempDir, frameInput.pipe, {
+        frameCount: frameInput.frameCount,
+        testFrames: frameRange?.last,
+        timeoutMinutes: options.timeoutMinutes,
+        renderScale: options.renderScale
+      })
+      const encoding = convertFramesToMP4(content, frameInput, outputMP4, frameRates, frameRange, options, chapterMarkers, audioSync, profile, twoPass)
+      try {
+        await runFrameStream(frameStream, encoding, outputMP4)
+      } finally {
+        conversionSpinner.stop()
+      }
+    } else {
+      await convertFramesToMP4(content, frameInput, outputMP4, frameRates, frameRange, options, chapterMarkers, audioSync, profile, twoPass)
+      conversionSpinner.stop()
+    }
     log.muted('  Video conversion completed')
-    
+
+    // A missing poster only costs the page a placeholder image, so it doesn't fail the conversion
+    if (options.poster) {
+      try {
+        await createPosterImage(outputMP4)
+      } catch (error) {
+        log.muted(`  Could not create poster image: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return { frameRate: frameRates, outputFile: outputMP4, mimeType: profile.mimeType }
   } finally {
-    // Clean up temporary files unless requested to keep them
-    if (!options.keepExtracted && fs.existsSync(tempDir)) {
+    // Clean up temporary files unless requested to keep them, or an unfinished extraction can be resumed from them
+    if (isExtractionIncomplete(tempDir)) {
+      log.muted(`  Partial extraction kept in: ${colors.highlight(tempDir)} (convert again to resume it)`)
+    } else if (!options.keepExtracted && fs.existsSync(tempDir)) {
       log.muted('  Cleaning up temporary files...')
       await removeDirectory(tempDir)
     } else if (options.keepExtracted) {
@@ -147,29 +451,501 @@ export const convertSWF = async (
   }
 }
 
+/** Average bitrate and shared pass log of a two-pass encode */
+interface TwoPassEncoding {
+  /** Video bitrate in bits per second */
+  bitrate: number
+  /** Pass log file prefix */
+  logFile: string
+}
+
+/**
+ * Get the timeline the output video plays on
+ *
+ * A demuxed video plays in real time at the SWF's frame rate, so audio must be
+ * placed on that timeline; frame sequences play at the policy's timeline rate
+ * instead, whatever rate they are resampled to.
+ * When frames are selected, the video starts at the first of them, so audio,
+ * event sounds and chapters are moved back by the time before it.
+ *
+ * @param content - Extracted content
+ * @param frameInput - The frame sequence (null for a demuxed video stream)
+ * @param frameRates - Frame rates the frame rate policy resolved to
+ * @param frameRange - Selected frames (null for the whole timeline)
+ * @returns Frame rate of the timeline, where the video starts on it and the video duration, in seconds
+ */
+const getTimeline = (
+  content: ExtractedContent,
+  frameInput: FrameInput | null,
+  frameRates: ResolvedFrameRate,
+  frameRange: FrameRange | null
+): { timelineRate: number; startTime: number; duration: number } => {
+  const timelineRate = content.videoStream ? content.videoStream.frameRate : frameRateToNumber(frameRates.timeline)
+  if (frameRange) {
+    return {
+      timelineRate,
+      startTime: (frameRange.first - 1) / timelineRate,
+      duration: (frameRange.last - frameRange.first + 1) / timelineRate
+    }
+  }
+  const frameCount = content.videoStream ? content.videoStream.endFrame + 1 : frameInput?.frameCount ?? content.frameFiles.length
+  return { timelineRate, startTime: 0, duration: frameCount / timelineRate }
+}
+
+/**
+ * Get the audio file muxed as the main audio track
+ *
+ * An SWF with event sounds has its sounds demuxed natively, so any other audio file
+ * is only used when there is no event sound timeline: it could be an event sound
+ * that the mix already places.
+ *
+ * @param content - Extracted content
+ * @returns The natively demuxed stream sound, otherwise the first audio file found without event sounds (undefined if there is none)
+ */
+const getMainAudioFile = (content: ExtractedContent): string | undefined =>
+  content.audioFiles.find(file => path.basename(file) === content.soundStream?.file) ??
+  (content.soundTimeline ? undefined : content.audioFiles[0])
+
+/**
+ * Check that the main audio lasts as long as the frames, and report the difference
+ *
+ * Demuxed video streams carry their own timing and aren't checked. The main audio
+ * is measured from its sample count when it was demuxed natively, and by decoding
+ * it otherwise; an audio file that can't be measured is muxed as it is.
+ *
+ * @param content - Extracted content
+ * @param frameInput - The frame sequence (null for a demuxed video stream)
+ * @param frameRates - Frame rates the frame rate policy resolved to
+ * @param options - Conversion options (A/V sync strategy and tolerance)
+ * @returns The difference found and the correction to apply, or null if nothing was checked
+ */
+const reconcileAudioDuration = async (
+  content: ExtractedContent,
+  frameInput: FrameInput | null,
+  frameRates: ResolvedFrameRate,
+  options: ConversionOptions
+): Promise<AVReconciliation | null> => {
+  const audioFile = getMainAudioFile(content)
+  if (!frameInput || !audioFile) {
+    return null
+  }
+  const audio = await measureMainAudio(content, audioFile)
+  if (!audio) {
+    return null
+  }
+
+  const reconciliation = reconcileDurations({
+    frameCount: frameInput.frameCount,
+    frameRate: frameRates.timeline,
+    audioStartFrame: audio.startFrame,
+    audioDuration: audio.duration
+  }, options)
+  const { videoDuration, audioEnd, difference, withinTolerance, strategy } = reconciliation
+  const durations = `video ${videoDuration.toFixed(2)}s, audio ends at ${audioEnd.toFixed(2)}s`
+  if (withinTolerance) {
+    log.muted(`  Audio and video durations match (${durations})`)
+    return reconciliation
+  }
+
+  log.warning(`Audio ends ${Math.abs(difference).toFixed(2)}s ${difference > 0 ? 'after' : 'before'} the video (${durations})`)
+  switch (strategy) {
+    case 'framerate':
+      log.muted(`  Using the frame rate the audio implies: ${colors.highlight(describeFrameRate(reconciliation.frameRate!))} FPS`)
+      break
+    case 'stretch':
+      log.muted(`  Stretching the audio to the video: playing it at ${colors.highlight(`${(reconciliation.tempo! * 100).toFixed(1)}%`)} speed`)
+      break
+    case 'pad':
+      log.muted(`  ${difference > 0 ? 'Trimming' : 'Padding'} the audio to the length of the video`)
+      break
+    default:
+      if (options.avSync && options.avSync !== 'none') {
+        log.warning(`The ${options.avSync} A/V sync strategy can't correct this difference; the audio is muxed as it is`)
+      } else {
+        log.muted('  Muxing the audio as it is (the framerate, stretch and pad A/V sync strategies correct the difference)')
+      }
+  }
+  return reconciliation
+}
+
+/**
+ * Measure the main audio and find the frame it starts on
+ *
+ * @param content - Extracted content
+ * @param audioFile - The main audio file
+ * @returns Start frame and duration in seconds, or null if the audio can't be measured
+ */
+const measureMainAudio = async (
+  content: ExtractedContent,
+  audioFile: string
+): Promise<{ startFrame: number; duration: number } | null> => {
+  const stream = content.soundStream && path.basename(audioFile) === content.soundStream.file ? content.soundStream : null
+  if (stream) {
+    const latency = stream.format === 2 ? stream.latencySeek / stream.sampleRate : 0
+    return { startFrame: stream.startFrame, duration: stream.totalSamples / stream.sampleRate - latency }
+  }
+  try {
+    return { startFrame: 0, duration: await measureAudioDuration(audioFile) }
+  } catch (error) {
+    log.muted(`  Could not measure the audio duration: ${error instanceof Error ? error.message : String(error)}`)
+    return null
+  }
+}
+
+/**
+ * Find where the last sound ends on the timeline
+ *
+ * @param content - Extracted content
+ * @param timelineRate - Frame rate of the timeline
+ * @returns End of the main audio or the last event sound in seconds, whichever is later (null if there is no audio to measure)
+ */
+const measureAudioEnd = async (content: ExtractedContent, timelineRate: number): Promise<number | null> => {
+  const audioFile = getMainAudioFile(content)
+  const audio = audioFile ? await measureMainAudio(content, audioFile) : null
+  const placements = content.soundTimeline ? resolveSoundPlacements(content.soundTimeline, timelineRate) : []
+  const ends = [
+    ...(audio ? [audio.startFrame / timelineRate + audio.duration] : []),
+    ...placements.map(placement => placement.start + placement.duration)
+  ]
+  return ends.length > 0 ? Math.max(...ends) : null
+}
+
+/**
+ * Count the timeline frames a lone extracted frame is held for
+ *
+ * A single-frame SWF, or the background of an audio-only one, would otherwise be
+ * encoded as a one-frame video with the audio running past it. Its frame is held
+ * over the selected frames, or until the audio ends.
+ *
+ * @param content - Extracted content
+ * @param frameRates - Frame rates the frame rate policy resolved to
+ * @param frameRange - Selected frames (null for the whole timeline)
+ * @returns Number of frames to hold it for, or null to encode the frames as extracted
+ */
+const getHeldFrameCount = async (
+  content: ExtractedContent,
+  frameRates: ResolvedFrameRate,
+  frameRange: FrameRange | null
+): Promise<number | null> => {
+  if (content.frameCount !== 1 || content.videoFile) {
+    return null
+  }
+  if (frameRange) {
+    return frameRange.last - frameRange.first + 1
+  }
+  const timelineRate = frameRateToNumber(frameRates.timeline)
+  const audioEnd = await measureAudioEnd(content, timelineRate)
+  // Rounded up so the last of the audio isn't cut, allowing for floating point error
+  return audioEnd === null ? null : Math.max(1, Math.ceil(audioEnd * timelineRate - 1e-6))
+}
+
+/**
+ * Write the ffconcat manifest FFmpeg reads the extracted frames from
+ *
+ * Frames missing from the extraction are reported and held from the frame
+ * before them. Runs of identical frames are listed once and encoded at variable
+ * frame rate, unless deduplication is turned off, a constant frame rate is
+ * requested, the frames are resampled to another output rate, or no frame repeats.
+ * A held frame is listed once, for as long as it is held, and keeps a constant
+ * frame rate.
+ *
+ * @param content - Extracted content
+ * @param frameRange - Selected frames (null for the whole timeline)
+ * @param options - Conversion options
+ * @param frameRates - Frame rates the frame rate policy resolved to
+ * @param heldFrames - Number of frames to hold a lone frame for (null to use the frames as extracted)
+ * @returns The frame input, or null for a demuxed video stream
+ */
+const prepareFrameInput = (
+  content: ExtractedContent,
+  frameRange: FrameRange | null,
+  options: ConversionOptions,
+  frameRates: ResolvedFrameRate,
+  heldFrames: number | null = null
+): FrameInput | null => {
+  if (content.videoFile) {
+    return null
+  }
+
+  const sequence = buildFrameSequence(content.frameFiles, options.dedupe !== false, frameRange?.first)
+  reportFrameGaps(sequence.gaps)
+  const runs = heldFrames !== null ? [{ ...sequence.runs[0], count: heldFrames }] : sequence.runs
+  const frameCount = heldFrames ?? sequence.frameCount
+
+  const manifest = path.join(content.framesDir, FRAME_MANIFEST_NAME)
+  fs.writeFileSync(manifest, createFrameManifest(runs, content.framesDir))
+
+  const duplicates = content.frameFiles.length - runs.length
+  const resampled = !isSameFrameRate(frameRates.timeline, frameRates.output)
+  const constantFrameRate = options.constantFrameRate === true || resampled || duplicates === 0
+  if (duplicates > 0) {
+    const percent = Math.round((duplicates / content.frameFiles.length) * 100)
+    log.muted(`  ${colors.highlight(runs.length.toString())} unique frames (${percent}% duplicates), encoding at ${constantFrameRate ? 'constant' : 'variable'} frame rate`)
+  }
+  return { type: 'manifest', manifest, runs, frameCount, constantFrameRate }
+}
+
+/** Warn about frames missing from the extraction, which are held from the frame before them */
+const reportFrameGaps = (gaps: FrameGap[]): void => {
+  if (gaps.length > 0) {
+    const missing = gaps.map(gap => gap.count > 1 ? `${gap.frame + 1}-${gap.frame + gap.count}` : `${gap.frame + 1}`)
+    log.warning(`Frames missing from the extraction: ${missing.join(', ')} (holding the frame before each gap)`)
+  }
+}
+
+/**
+ * Decide whether frames can be streamed to FFmpeg as JPEXS exports them
+ *
+ * Streaming needs the whole timeline once, in order, from a single JPEXS process:
+ * it's not possible when the extracted frames are kept or read twice (two-pass
+ * encoding), when they are extracted by several workers, when an unfinished
+ * extraction is resumed, when JPEXS can't be paused (Windows), when the SWF
+ * header doesn't say how many frames there are, when the selected frames
+ * don't start at the first one (JPEXS may number them either way), or when the
+ * SWF has a single frame, which is held for the length of the audio.
+ *
+ * @param swfFile - Path to the input SWF file
+ * @param tempDir - Directory the SWF is extracted to
+ * @param frameRange - Selected frames (null for the whole timeline)
+ * @param options - Conversion options
+ * @returns The parsed SWF and the number of frames to stream, or why the frames are extracted first
+ */
+const planFrameStreaming = (
+  swfFile: string,
+  tempDir: string,
+  frameRange: FrameRange | null,
+  options: ConversionOptions
+): { swf: SWFFile; frameCount: number } | { reason: string } => {
+  if (options.keepExtracted) {
+    return { reason: 'extracted files are being kept' }
+  }
+  if (options.targetSize) {
+    return { reason: 'a target size is encoded in two passes over the frames' }
+  }
+  if (options.workers && options.workers > 1) {
+    return { reason: 'frame ranges are extracted by several JPEXS workers' }
+  }
+  if (isExtractionIncomplete(tempDir)) {
+    return { reason: 'an unfinished extraction is being resumed' }
+  }
+  if (process.platform === 'win32') {
+    return { reason: 'JPEXS cannot be paused on Windows' }
+  }
+  if (frameRange && frameRange.first > 1) {
+    return { reason: 'the selected frames don\'t start at the first frame' }
+  }
+
+  let swf: SWFFile
+  try {
+    swf = parseSWF(swfFile)
+  } catch (error) {
+    return { reason: `the SWF header could not be read (${error instanceof Error ? error.message : String(error)})` }
+  }
+  if (swf.header.frameCount === 0) {
+    return { reason: 'the SWF header has no frame count' }
+  }
+  if (swf.header.frameCount === 1) {
+    return { reason: 'a single frame is held for the length of the audio' }
+  }
+  return { swf, frameCount: frameRange ? frameRange.last : swf.header.frameCount }
+}
+
+/**
+ * Wait for a frame stream and the FFmpeg command reading it
+ *
+ * When either fails, the other is stopped. FFmpeg finishes whatever it has read by
+ * then, so the truncated output is removed before the error is passed on.
+ *
+ * @param frameStream - The running frame stream
+ * @param encoding - The FFmpeg conversion reading the stream
+ * @param outputPath - Path of the output video
+ * @returns Promise that resolves when both have finished
+ * @throws The first error of either
+ */
+const runFrameStream = async (frameStream: FrameStream, encoding: Promise<void>, outputPath: string): Promise<void> => {
+  try {
+    const [, { gaps }] = await Promise.all([encoding, frameStream.result])
+    reportFrameGaps(gaps)
+  } catch (error) {
+    frameStream.stop()
+    await encoding.catch(() => undefined)
+    fs.rmSync(outputPath, { force: true })
+    throw error
+  }
+}
+
+/** Whether a frame input is encoded at variable frame rate */
+const isVariableFrameRate = (frameInput: FrameInput | null): boolean =>
+  frameInput !== null && !frameInput.constantFrameRate
+
+/**
+ * Create an FFmpeg command reading the extracted video and encoding it with a profile
+ *
+ * @param content - Extracted content
+ * @param frameInput - How to read the frame sequence (null for a demuxed video stream)
+ * @param frameRates - Frame rates the frame rate policy resolved to (frames play at the timeline rate and are encoded at the output rate)
+ * @param profile - Output profile
+ * @param scaling - Output size
+ * @param encoderOptions - Video encoder options from getVideoEncoderOptions
+ * @param startTime - Where the video starts on the timeline, in seconds (see getTimeline)
+ * @returns The command, with the video as input 0
+ */
+const createVideoCommand = (
+  content: ExtractedContent,
+  frameInput: FrameInput | null,
+  frameRates: ResolvedFrameRate,
+  profile: OutputProfile,
+  scaling: ScalingOptions,
+  encoderOptions: string[],
+  startTime: number = 0
+): ffmpeg.FfmpegCommand => {
+  let command = ffmpeg()
+  const filters: string[] = []
+  const { timeline, output } = frameRates
+  const rate = formatFrameRate(output)
+  const fps = frameRateToNumber(timeline)
+  // Resampling duplicates or drops frames, so the output holds as many frames as fit the same duration
+  const toOutputFrames = (frames: number): number =>
+    Math.round(frames * output.numerator * timeline.denominator / (output.denominator * timeline.numerator))
+  if (!frameInput) {
+    // Demuxed video keeps its own timestamps; resample it to a constant output rate
+    command = command
+      .input(content.videoFile!)
+      .outputOptions(['-r', rate])
+    // A selection keeps the stream from the keyframe before it, so decoding starts there and is cut at the selection
+    if (startTime > 0) {
+      command = command.inputOptions(['-ss', startTime.toFixed(6)])
+    }
+  } else if (frameInput.type === 'pipe') {
+    // Piped frames arrive one per timeline frame, at the timeline rate
+    command = command
+      .input(frameInput.pipe)
+      .inputFormat('image2pipe')
+      .inputOptions(['-framerate', formatFrameRate(timeline)])
+      .outputOptions(['-vsync', 'cfr', '-r', rate])
+    // Frames are counted in the filter graph: -frames:v would end the audio along with the video
+    filters.push(`fps=${rate}`, `trim=end_frame=${toOutputFrames(frameInput.frameCount)}`)
+  } else {
+    // Manifest timestamps count frames at MANIFEST_FRAME_RATE: move them onto the timeline rate exactly,
+    // and stop before the manifest's closing repeat, which starts where the video ends (counted in the filter
+    // graph, as -frames:v would end the audio along with the video)
+    command = command
+      .input(frameInput.manifest)
+      .inputFormat('concat')
+      .inputOptions(['-safe', '0'])
+      .outputOptions([
+        '-vsync', frameInput.constantFrameRate ? 'cfr' : 'vfr',
+        '-r', rate
+      ])
+    filters.push(
+      ...getManifestTimestampFilters(timeline),
+      ...(frameInput.constantFrameRate
+        ? [`fps=${rate}`, `trim=end_frame=${toOutputFrames(frameInput.frameCount)}`]
+        : [`trim=end_frame=${countManifestFrames(frameInput.runs)}`])
+    )
+
+    // Seeking lands on slides: each frame held long enough starts with a keyframe
+    const keyframes = frameInput.constantFrameRate
+      ? getHeldFrameStarts(frameInput.runs, Math.ceil(KEYFRAME_HOLD_SECONDS * fps))
+      : []
+    if (keyframes.length > 0) {
+      command = command.outputOptions(['-force_key_frames', keyframes.map(frame => (frame / fps).toFixed(3)).join(',')])
+    }
+  }
+
+  filters.push(...buildScaleFilters(scaling, profile.evenDimensions))
+  if (filters.length > 0) {
+    command = command.videoFilters(filters)
+  }
+  // Separate arguments (always at least one option/value pair), so a pass log path containing a space isn't split
+  command = command
+    .videoCodec(profile.videoCodec)
+    .outputOptions(...encoderOptions)
+  if (profile.pixelFormat) {
+    command = command.outputOptions(['-pix_fmt', profile.pixelFormat])
+  }
+  return command
+}
+
+/**
+ * Run the first pass of a two-pass encode, writing only the pass log
+ *
+ * @param content - Extracted content
+ * @param frameInput - How to read the frame sequence (null for a demuxed video stream)
+ * @param frameRates - Frame rates the frame rate policy resolved to
+ * @param frameRange - Selected frames (null for the whole timeline)
+ * @param options - Conversion options
+ * @param profile - Output profile
+ * @param twoPass - Bitrate and pass log shared with the second pass
+ * @returns Promise that resolves when the pass log is written
+ */
+const runAnalysisPass = (
+  content: ExtractedContent,
+  frameInput: FrameInput | null,
+  frameRates: ResolvedFrameRate,
+  frameRange: FrameRange | null,
+  options: ConversionOptions,
+  profile: OutputProfile,
+  twoPass: TwoPassEncoding
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const encoderOptions = getVideoEncoderOptions(profile, options, {
+      bitrate: twoPass.bitrate,
+      pass: { number: 1, logFile: twoPass.logFile },
+      noBFrames: isVariableFrameRate(frameInput)
+    })
+    const { startTime, duration } = getTimeline(content, frameInput, frameRates, frameRange)
+    let command = createVideoCommand(content, frameInput, frameRates, profile, options, encoderOptions, startTime)
+      .noAudio()
+    if (frameRange) {
+      command = command.outputOptions(['-t', duration.toString()])
+    }
+
+    command
+      .format('null')
+      .output(os.devNull)
+      .on('start', (commandLine: string) => {
+        log.muted(`  FFmpeg command: ${commandLine}`)
+      })
+      .on('end', () => resolve())
+      .on('error', (err: Error) => {
+        log.error(`FFmpeg error: ${err.message}`)
+        reject(err)
+      })
+      .run()
+  })
+}
+
 /**
  * Convert extracted frames and audio to MP4 using FFmpeg
+ *
+ * When the audio was demuxed natively, its timing sidecar is used to place the
+ * audio on the video timeline: the stream's start frame delays the audio, and
+ * MP3 encoder latency is trimmed from its start. Event sounds from the timeline
+ * sidecar are mixed in at their trigger frames, and chapter markers are placed
+ * on the same timeline. When frames are selected, everything is cut to them.
+ * A difference from reconcileAudioDuration is corrected by stretching the main
+ * audio, or by padding and trimming the audio to the video.
  */
 const convertFramesToMP4 = (
-  content: any,
+  content: ExtractedContent,
+  frameInput: FrameInput | null,
   outputPath: string,
-  framerate: number,
-  testFrames?: number
+  frameRates: ResolvedFrameRate,
+  frameRange: FrameRange | null,
+  options: ConversionOptions,
+  chapterMarkers: ChapterMarker[],
+  audioSync: AVReconciliation | null,
+  profile: OutputProfile,
+  twoPass?: TwoPassEncoding
 ): Promise<void> => {
+  const { title } = options
   return new Promise((resolve, reject) => {
-    if (content.frameFiles.length === 0) {
+    if (content.frameFiles.length === 0 && !content.videoFile && frameInput?.type !== 'pipe') {
       reject(new Error('No frame files found for conversion'))
       return
     }
     
-    // Create frame pattern for FFmpeg input
-    const framePattern = createFramePattern(content.frameFiles)
-    
-    if (!framePattern) {
-      reject(new Error('Could not create frame pattern for FFmpeg'))
-      return
-    }
-    
     // Ensure output directory exists and is writable
     const outputDir = path.dirname(outputPath)
     try {
@@ -186,47 +962,90 @@ const convertFramesToMP4 = (
     }
     
     // Build FFmpeg command
-    let command = ffmpeg()
-      .input(framePattern.pattern)
-      .inputOptions([
-        '-framerate', framerate.toString()
-        // Removed -pattern_type glob since bundled FFmpeg doesn't support it
-      ])
-      .videoFilters([
-        'pad=ceil(iw/2)*2:ceil(ih/2)*2'  // Ensure even dimensions for H.264
-      ])
-      .videoCodec('libx264')
-      .outputOptions([
-        '-pix_fmt', 'yuv420p',
-        '-crf', '23'  // Good quality setting
-      ])
+    const encoderOptions = getVideoEncoderOptions(profile, options, {
+      bitrate: twoPass?.bitrate,
+      pass: twoPass && { number: 2, logFile: twoPass.logFile },
+      noBFrames: isVariableFrameRate(frameInput)
+    })
+    const { timelineRate, startTime, duration: videoDuration } = getTimeline(content, frameInput, frameRates, frameRange)
+    let command = createVideoCommand(content, frameInput, frameRates, profile, options, encoderOptions, startTime)
+    let inputCount = 1
     
-    // Add audio if available
-    if (content.audioFiles.length > 0) {
-      // Use the first audio file found
-      const audioFile = content.audioFiles[0]
-      command = command.input(audioFile)
+    const audioFile = getMainAudioFile(content)
+    const placements = content.soundTimeline ? resolveSoundPlacements(content.soundTimeline, timelineRate) : []
+    const processingFilters = buildAudioFilters(options)
+    if (processingFilters.length > 0 && (audioFile || placements.length > 0)) {
+      log.muted(`  Processing audio: ${colors.highlight(processingFilters.join(', '))}`)
+    }
 
-      // Set audio codec
-      command = command.audioCodec('aac')
+    if (placements.length > 0) {
+      // Event sounds are mixed with the stream sound into a single track
+      const mix = buildAudioMix(content, audioFile, placements, timelineRate, startTime, videoDuration, audioSync?.tempo)
+      for (const input of mix.inputs) {
+        command = command.input(input)
+      }
+      inputCount += mix.inputs.length
+
+      // Cleanup, loudness and resampling apply to the mixed track
+      const mixOutput = processingFilters.length > 0 ? 'aprocessed' : mix.output
+      const mixFilters = processingFilters.length > 0
+        ? [...mix.filters, `[${mix.output}]${processingFilters.join(',')}[${mixOutput}]`]
+        : mix.filters
+      command = command
+        .complexFilter(mixFilters)
+        .outputOptions(['-map', '0:v', '-map', `[${mixOutput}]`])
+        .audioCodec(profile.audioCodec)
+        .outputOptions(getAudioEncoderOptions(profile, options))
+    } else if (audioFile) {
+      command = command.input(audioFile)
+      inputCount++
 
-      // Limit audio duration if testFrames is specified
-      if (testFrames) {
-        const videoDuration = testFrames / framerate // Calculate duration in seconds
-        command = command.outputOptions(['-t', videoDuration.toString()])
+      // Align natively demuxed stream sound with the frame it starts on, and cut it at the selection
+      const audioOffset = getAudioStartOffset(content, audioFile, timelineRate) - startTime
+      if (audioOffset > 0) {
+        command = command.inputOptions(['-itsoffset', audioOffset.toFixed(6)])
+      } else if (audioOffset < 0) {
+        command = command.inputOptions(['-ss', (-audioOffset).toFixed(6)])
+      }
+      const syncFilters = audioSync?.tempo
+        ? buildTempoFilters(audioSync.tempo)
+        : audioSync?.strategy === 'pad' ? ['apad'] : []
+      if (syncFilters.length > 0 || processingFilters.length > 0) {
+        command = command.audioFilters([...syncFilters, ...processingFilters])
       }
+
+      // Set audio codec
+      command = command
+        .audioCodec(profile.audioCodec)
+        .outputOptions(getAudioEncoderOptions(profile, options))
     } else {
       // No audio - create silent video
       log.warning('No audio found, creating silent video')
+    }
 
-      // Even without audio, limit video duration if testFrames is specified
-      if (testFrames) {
-        const videoDuration = testFrames / framerate // Calculate duration in seconds
-        command = command.outputOptions(['-t', videoDuration.toString()])
-      }
+    // Limit video (and audio) duration to the selected frames, or the audio to the video when padding and trimming it
+    if (frameRange || audioSync?.strategy === 'pad') {
+      command = command.outputOptions(['-t', videoDuration.toString()])
+    }
+
+    // Chapters are passed to FFmpeg as an FFMETADATA input, which the MP4 muxer writes as a chapter track
+    const chapters = resolveChapters(chapterMarkers, timelineRate, videoDuration, startTime)
+    if (chapters.length > 0) {
+      const metadataFile = path.join(content.outputDir, 'chapters.txt')
+      fs.writeFileSync(metadataFile, createFFMetadata(chapters))
+      command = command
+        .input(metadataFile)
+        .inputFormat('ffmetadata')
+        .outputOptions(['-map_chapters', inputCount.toString()])
+    }
+
+    if (title) {
+      // Separate arguments, so fluent-ffmpeg doesn't split a title containing a space
+      command = command.outputOptions('-metadata', `title=${title}`)
     }
     
     command
+      .format(profile.format)
       .output(outputPath)
       .on('start', (commandLine: string) => {
         log.muted(`  FFmpeg command: ${commandLine}`)
@@ -240,6 +1059,9 @@ const convertFramesToMP4 = (
       })
       .on('end', () => {
         process.stdout.write('\n')
+        if (options.chaptersVtt && chapters.length > 0) {
+          fs.writeFileSync(getChaptersVTTPath(outputPath), createChaptersVTT(chapters))
+        }
         resolve()
       })
       .on('error', (err: Error) => {
@@ -252,53 +1074,301 @@ const convertFramesToMP4 = (
 }
 
 /**
- * Create FFmpeg-compatible frame input pattern from extracted frame files
+ * Convert the audio of an SWF with no visible content to an audio file
+ *
+ * The main audio and event sounds are placed and mixed as they would be under a
+ * video, on a timeline as long as the last sound (or the selected frames), and
+ * processed with the same audio options.
+ *
+ * @param content - Extracted content
+ * @param outputPath - Path of the audio file to write
+ * @param frameRates - Frame rates the frame rate policy resolved to
+ * @param frameRange - Selected frames (null for the whole timeline)
+ * @param options - Conversion options
+ * @param profile - Output profile (audio codec and container)
+ * @returns Promise that resolves when the audio file is written
+ * @throws Error if the audio can't be measured or FFmpeg fails
+ */
+const convertAudioOnly = async (
+  content: ExtractedContent,
+  outputPath: string,
+  frameRates: ResolvedFrameRate,
+  frameRange: FrameRange | null,
+  options: ConversionOptions,
+  profile: OutputProfile
+): Promise<void> => {
+  const { timelineRate, startTime, duration: selectedDuration } = getTimeline(content, null, frameRates, frameRange)
+  const duration = frameRange ? selectedDuration : await measureAudioEnd(content, timelineRate)
+  if (!duration) {
+    throw new Error('Could not measure how long the audio lasts')
+  }
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true })
+  const audioFile = getMainAudioFile(content)
+  const placements = content.soundTimeline ? resolveSoundPlacements(content.soundTimeline, timelineRate) : []
+  const processingFilters = buildAudioFilters(options)
+  if (processingFilters.length > 0) {
+    log.muted(`  Processing audio: ${colors.highlight(processingFilters.join(', '))}`)
+  }
+
+  // The mix places the main audio on the frame it starts on, as under a video
+  const mix = buildAudioMix(content, audioFile, placements, timelineRate, startTime, duration, 1, 0)
+  const output = processingFilters.length > 0 ? 'aprocessed' : mix.output
+  const filters = processingFilters.length > 0
+    ? [...mix.filters, `[${mix.output}]${processingFilters.join(',')}[${output}]`]
+    : mix.filters
+
+  return new Promise((resolve, reject) => {
+    let command = ffmpeg()
+    for (const input of mix.inputs) {
+      command = command.input(input)
+    }
+    command = command
+      .complexFilter(filters)
+      .outputOptions(['-map', `[${output}]`, '-t', duration.toString()])
+      .audioCodec(profile.audioCodec)
+      .outputOptions(getAudioEncoderOptions(profile, options))
+    if (options.title) {
+      command = command.outputOptions('-metadata', `title=${options.title}`)
+    }
+
+    command
+      .format(profile.audioContainer.format)
+      .output(outputPath)
+      .on('start', (commandLine: string) => {
+        log.muted(`  FFmpeg command: ${commandLine}`)
+      })
+      .on('end', () => resolve())
+      .on('error', (err: Error) => {
+        log.error(`FFmpeg error: ${err.message}`)
+        reject(err)
+      })
+      .run()
+  })
+}
+
+/**
+ * Get the path of the poster image written next to an MP4
+ *
+ * @param mp4Path - Path to the MP4 file
+ * @returns Path to `<name>.poster.jpg` in the same directory
+ */
+export const getPosterPath = (mp4Path: string): string =>
+  path.join(path.dirname(mp4Path), `${path.basename(mp4Path, path.extname(mp4Path))}.poster.jpg`)
+
+/**
+ * Save the first frame of an MP4 as a JPEG poster image
+ *
+ * @param mp4Path - Path to the converted MP4
+ * @returns Promise resolving to the path of the poster image
+ */
+const createPosterImage = (mp4Path: string): Promise<string> => {
+  const posterPath = getPosterPath(mp4Path)
+  return new Promise((resolve, reject) => {
+    ffmpeg()
+      .input(mp4Path)
+      .outputOptions(['-frames:v', '1', '-q:v', '2'])
+      .output(posterPath)
+      .on('end', () => resolve(posterPath))
+      .on('error', (err: Error) => reject(err))
+      .run()
+  })
+}
+
+/**
+ * Calculate where an extracted audio file starts on the video timeline
  *
- * FFmpeg requires a specific pattern format to read sequential frame images.
- * This function analyzes the extracted frame files and creates the appropriate
- * input pattern for FFmpeg's image2 demuxer.
+ * Only audio written by the native stream sound demuxer carries timing information;
+ * any other audio file is assumed to start with the first frame.
  *
- * Supported patterns:
- * - Sequential numbering: 1.png, 2.png, 3.png... → %d.png
- * - Prefixed numbering: frame1.png, frame2.png... → %d.png (fallback)
+ * @param content - Extracted content, including stream sound timing if available
+ * @param audioFile - Audio file about to be muxed
+ * @param framerate - Frame rate the video is being encoded at
+ * @returns Offset in seconds (positive delays the audio, negative trims its start)
+ */
+const getAudioStartOffset = (content: ExtractedContent, audioFile: string, framerate: number): number => {
+  const stream = content.soundStream
+  if (!stream || path.basename(audioFile) !== stream.file) {
+    return 0
+  }
+
+  // Recompute from the start frame so a user-chosen frame rate keeps audio on the right frame
+  const latency = stream.format === 2 ? stream.latencySeek / stream.sampleRate : 0
+  return stream.startFrame / framerate - latency
+}
+
+/** Sample rate all inputs are resampled to before mixing */
+const MIX_SAMPLE_RATE = 44100
+
+/**
+ * Build the FFmpeg filter graph that mixes event sounds with the stream sound
  *
- * The function always falls back to %d.png pattern, which works with most
- * JPEXS-generated frame sequences.
+ * Each event sound file is added as one input and split when it is played more than
+ * once. Every instance is trimmed to its in/out points, looped, cut short if it is
+ * stopped, shaped by its envelope and delayed to its start time. All branches are
+ * padded to the same length so amix's 1/N input scaling stays constant and can be
+ * undone with a single volume filter. Instances that end before the video starts are
+ * left out, and one already playing is cut where the video starts.
  *
- * @param frameFiles - Array of frame file paths, already sorted numerically
- * @returns Object with FFmpeg pattern string and frame count, or null if no frames
+ * @param content - Extracted content (used for stream sound timing and the sounds directory)
+ * @param audioFile - Stream sound or other main audio file, if any
+ * @param placements - Event sound instances to mix in
+ * @param framerate - Frame rate the video is being encoded at
+ * @param startTime - Where the video starts on the timeline, in seconds
+ * @param videoDuration - Duration of the video in seconds
+ * @param tempo - Speed to play the main audio at, to stretch it to the video
+ * @param firstInput - Index of the first audio input (1, after the frame input, or 0 for audio alone)
+ * @returns Extra input files (after the frame input), the filter graph and its output label
+ */
+const buildAudioMix = (
+  content: ExtractedContent,
+  audioFile: string | undefined,
+  allPlacements: SoundPlacement[],
+  framerate: number,
+  startTime: number,
+  videoDuration: number,
+  tempo: number = 1,
+  firstInput: number = 1
+): { inputs: string[]; filters: string[]; output: string } => {
+  const placements = allPlacements
+    .filter(placement => placement.start + placement.duration > startTime)
+    .map(placement => ({ ...placement, start: placement.start - startTime }))
+  const inputs: string[] = []
+  const filters: string[] = []
+  const branches: string[] = []
+  let end = videoDuration
+
+  // Mix in mono when every source is known to be mono, so mono narration isn't upmixed at -3 dB
+  const stream = audioFile && content.soundStream && path.basename(audioFile) === content.soundStream.file
+    ? content.soundStream
+    : null
+  const soundChannels = new Map((content.soundTimeline?.sounds ?? []).map(sound => [sound.file, sound.channels]))
+  const mixChannels = (!audioFile || stream?.channels === 1) &&
+    placements.every(placement => soundChannels.get(placement.file) === 1) ? 1 : 2
+  const normalize = (channels: number | undefined): string[] => [
+    `aresample=${MIX_SAMPLE_RATE}`,
+    mixChannels === 2 && channels === 1 ? 'pan=stereo|c0=c0|c1=c0' : `aformat=channel_layouts=${mixChannels === 1 ? 'mono' : 'stereo'}`
+  ]
+
+  // Main audio branch, placed the same way as when it is muxed on its own
+  if (audioFile) {
+    inputs.push(audioFile)
+    const offset = getAudioStartOffset(content, audioFile, framerate) - startTime
+    if (stream) {
+      end = Math.max(end, offset + stream.totalSamples / stream.sampleRate / tempo)
+    }
+
+    const chain = normalize(stream?.channels)
+    if (tempo !== 1) {
+      chain.push(...buildTempoFilters(tempo))
+    }
+    if (offset > 0) {
+      chain.push(`adelay=${formatDelay(offset, mixChannels)}`)
+    } else if (offset < 0) {
+      chain.push(`atrim=start=${(-offset).toFixed(6)}`, 'asetpts=PTS-STARTPTS')
+    }
+    filters.push(`[${firstInput}:a]${chain.join(',')}[main]`)
+    branches.push('[main]')
+  }
+
+  for (const placement of placements) {
+    end = Math.max(end, placement.start + placement.duration)
+  }
+
+  // One input per event sound file, split into one stream per instance
+  const instanceSources: string[] = []
+  const files = [...new Set(placements.map(placement => placement.file))]
+  for (const file of files) {
+    inputs.push(path.join(content.soundsDir, file))
+    const inputIndex = firstInput + inputs.length - 1
+    const instances = placements.filter(placement => placement.file === file)
+    if (instances.length === 1) {
+      instanceSources[placements.indexOf(instances[0])] = `[${inputIndex}:a]`
+    } else {
+      const labels = instances.map((_, i) => `[s${inputIndex}_${i}]`)
+      filters.push(`[${inputIndex}:a]asplit=${instances.length}${labels.join('')}`)
+      instances.forEach((instance, i) => {
+        instanceSources[placements.indexOf(instance)] = labels[i]
+      })
+    }
+  }
+
+  placements.forEach((placement, i) => {
+    const chain = [
+      `atrim=start=${placement.trimStart.toFixed(6)}:duration=${placement.loopLength.toFixed(6)}`,
+      'asetpts=PTS-STARTPTS',
+      ...normalize(soundChannels.get(placement.file))
+    ]
+    if (placement.loopCount > 1) {
+      const loopSamples = Math.round(placement.loopLength * MIX_SAMPLE_RATE)
+      chain.push(`aloop=loop=${placement.loopCount - 1}:size=${loopSamples}`)
+    }
+    if (placement.duration < placement.loopLength * placement.loopCount) {
+      chain.push(`atrim=duration=${placement.duration.toFixed(6)}`)
+    }
+    if (placement.envelope.length > 0) {
+      chain.push(`volume='${buildEnvelopeExpression(placement.envelope)}':eval=frame`)
+    }
+    if (placement.start > 0) {
+      chain.push(`adelay=${formatDelay(placement.start, mixChannels)}`)
+    } else if (placement.start < 0) {
+      chain.push(`atrim=start=${(-placement.start).toFixed(6)}`, 'asetpts=PTS-STARTPTS')
+    }
+    filters.push(`${instanceSources[i]}${chain.join(',')}[e${i}]`)
+    branches.push(`[e${i}]`)
+  })
+
+  // Pad every branch to the full length, then mix and undo amix's 1/N scaling
+  const wholeLength = Math.ceil(end * MIX_SAMPLE_RATE)
+  const padded = branches.map(branch => {
+    const label = `${branch.slice(1, -1)}p`
+    filters.push(`${branch}apad=whole_len=${wholeLength}[${label}]`)
+    return `[${label}]`
+  })
+  filters.push(
+    `${padded.join('')}amix=inputs=${padded.length}:duration=longest:dropout_transition=0,volume=${padded.length}[aout]`
+  )
+
+  return { inputs, filters, output: 'aout' }
+}
+
+/**
+ * Format a delay in seconds for adelay, applied to every channel
  */
-const createFramePattern = (frameFiles: string[]): { pattern: string; count: number } | null => {
-  if (frameFiles.length === 0) return null
-
-  // Analyze frame naming pattern from first frame
-  const firstFrame = frameFiles[0]
-  const frameDir = path.dirname(firstFrame)
-
-  // Check if files follow sequential numbering (1.png, 2.png, ...)
-  const baseName = path.basename(firstFrame, path.extname(firstFrame))
-  const numberMatch = baseName.match(/^(\d+)$/)
-
-  if (numberMatch) {
-    // Files are numbered sequentially - use %d pattern
-    const ext = path.extname(firstFrame)
-    const pattern = path.join(frameDir, `%d${ext}`)
-    return { pattern, count: frameFiles.length }
-  }
-  
-  // Check for prefix + number pattern (e.g. frame1.png, frame2.png, ...)
-  const prefixMatch = baseName.match(/^(.+?)(\d+)$/)
-  if (prefixMatch && frameFiles.length > 1) {
-    // For now, fallback to sequential pattern - could be enhanced later
-    const ext = path.extname(firstFrame)
-    const pattern = path.join(frameDir, `%d${ext}`)
-    return { pattern, count: frameFiles.length }
-  }
-  
-  // Last resort: use sequential pattern
-  const ext = path.extname(firstFrame)
-  const pattern = path.join(frameDir, `%d${ext}`)
-  return { pattern, count: frameFiles.length }
+const formatDelay = (seconds: number, channels: number): string => {
+  const milliseconds = (seconds * 1000).toFixed(3)
+  return new Array(channels).fill(milliseconds).join('|')
+}
+
+/**
+ * Build a volume filter expression following an event sound's envelope
+ *
+ * The envelope's points are linearly interpolated over time; left and right levels
+ * are averaged, as applying them separately would need a branch per channel.
+ *
+ * @param envelope - Envelope points from the StartSound tag
+ * @returns Expression in terms of t (seconds since the instance started)
+ */
+const buildEnvelopeExpression = (envelope: SoundEnvelopePoint[]): string => {
+  const points = [...envelope]
+    .sort((a, b) => a.pos44 - b.pos44)
+    .map(point => ({
+      time: point.pos44 / 44100,
+      level: (point.leftLevel + point.rightLevel) / 2 / 32768
+    }))
+
+  let expression = points[points.length - 1].level.toFixed(6)
+  for (let i = points.length - 2; i >= 0; i--) {
+    const from = points[i]
+    const to = points[i + 1]
+    const span = to.time - from.time
+    if (span <= 0) {
+      continue
+    }
+    const slope = ((to.level - from.level) / span).toFixed(6)
+    expression = `if(lt(t,${to.time.toFixed(6)}),${from.level.toFixed(6)}+${slope}*(t-${from.time.toFixed(6)}),${expression})`
+  }
+  return `if(lt(t,${points[0].time.toFixed(6)}),${points[0].level.toFixed(6)},${expression})`
 }
 
 /**
@@ -368,90 +1438,90 @@ const removeDirectory = async (dirPath: string): Promise<void> => {
 }
 
 /**
- * Detect frame rate from SWF file using FFmpeg direct output parsing
+ * Read an SWF header natively, for resolving a frame selection
+ *
+ * @param swfFile - Path to the SWF file
+ * @returns The header, or null if the file can't be read
+ */
+const readSWFHeader = (swfFile: string): SWFHeader | null => {
+  try {
+    return parseSWF(swfFile).header
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Parse an SWF that places nothing on the stage
+ *
+ * @param swfFile - Path to the SWF file
+ * @returns The parsed SWF, or null if it has visible content or can't be parsed (JPEXS reports the problem instead)
+ */
+const findAudioOnlySWF = (swfFile: string): SWFFile | null => {
+  try {
+    const swf = parseSWF(swfFile)
+    return hasVisibleContent(swf) ? null : swf
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Detect frame rate from SWF file by reading its header natively
  *
  * This function analyzes an SWF file to determine its original frame rate, which is
- * crucial for maintaining proper timing when converting to MP4. It uses FFmpeg's
- * built-in SWF format support to read metadata.
+ * crucial for maintaining proper timing when converting to MP4. The frame rate is read
+ * directly from the SWF header (8.8 fixed-point value) using the native parser, which
+ * also handles zlib (CWS) and LZMA (ZWS) compressed files.
  *
  * The detection process:
- * 1. Spawns FFmpeg process to analyze the SWF file
- * 2. Captures stderr output (where FFmpeg writes format information)
- * 3. Parses output for fps patterns (e.g., "15 fps", "5 fps")
- * 4. Falls back to tbr (time base rate) if fps not found
- * 5. Returns 30fps as final fallback if parsing fails
- *
- * This approach is more reliable than using FFprobe for SWF files, as it
- * directly leverages FFmpeg's SWF format detection capabilities.
+ * 1. Parses the SWF header (decompressing the body if necessary)
+ * 2. Decodes the 8.8 fixed-point frame rate as an exact fraction (e.g. 12.5 fps is 25/2)
+ * 3. Returns 30fps as fallback if the header is unreadable or the rate is out of range
  *
  * @param swfFile - Path to the SWF file to analyze
- * @returns Promise resolving to detected frame rate (1-120 fps, fallback: 30)
+ * @returns Promise resolving to detected frame rate (up to 120 fps, fallback: 30)
  */
-const detectSWFFrameRate = async (swfFile: string): Promise<number> => {
-  return new Promise((resolve) => {
-    // Use direct spawn for more reliable SWF analysis
-    const { spawn } = require('child_process')
-    const platformStatus = validatePlatformSupport()
-
-    if (!platformStatus.ffmpeg) {
-      resolve(30) // fallback to 30fps if FFmpeg not available
-      return
+const detectSWFFrameRate = async (swfFile: string): Promise<FrameRate> => {
+  try {
+    const { header } = parseSWF(swfFile)
+    const rate = getSWFFrameRate(header)
+    if (rate) {
+      return rate
     }
+    console.log(`Warning: SWF header frame rate ${header.frameRate} is out of range, using default 30fps`)
+    return DEFAULT_FRAME_RATE
+  } catch (error) {
+    console.log(`Warning: Could not read SWF header, using default 30fps: ${error instanceof Error ? error.message : error}`)
+    return DEFAULT_FRAME_RATE
+  }
+}
 
-    const ffmpegProcess = spawn(platformStatus.ffmpeg, ['-i', swfFile], {
-      stdio: ['ignore', 'ignore', 'pipe']
-    })
-
-    let stderrData = ''
-
-    // Timeout after 30 seconds (increased for heavy test loads)
-    const timeoutId = setTimeout(() => {
-      ffmpegProcess.kill()
-      console.log(`Warning: FFmpeg frame rate detection timed out, using default 30fps`)
-      resolve(30)
-    }, 30000)
-
-    ffmpegProcess.stderr.on('data', (data: Buffer) => {
-      stderrData += data.toString()
-    })
-
-    ffmpegProcess.on('close', () => {
-      clearTimeout(timeoutId) // Clear timeout on successful completion
-      try {
-        // Look for frame rate in ffmpeg output (e.g., "5 fps", "15 fps")
-        const fpsMatch = stderrData.match(/(\d+(?:\.\d+)?)\s+fps/)
-        if (fpsMatch) {
-          const fps = parseFloat(fpsMatch[1])
-          if (fps > 0 && fps <= 120) {
-            resolve(Math.round(fps))
-            return
-          }
-        }
-
-        // Alternative: look for tbr (time base rate)
-        const tbrMatch = stderrData.match(/(\d+(?:\.\d+)?)\s+tbr/)
-        if (tbrMatch) {
-          const fps = parseFloat(tbrMatch[1])
-          if (fps > 0 && fps <= 120) {
-            resolve(Math.round(fps))
-            return
-          }
-        }
-
-        console.log(`Warning: Could not detect frame rate from SWF, using default 30fps`)
-        resolve(30)
-      } catch (error) {
-        console.log(`Warning: Error parsing FFmpeg output: ${error}`)
-        resolve(30)
-      }
-    })
+/** Encoders FFmpeg reports, queried once per process (null while unknown) */
+let availableEncoders: Promise<string[] | null> | null = null
 
-    ffmpegProcess.on('error', (error: Error) => {
-      clearTimeout(timeoutId) // Clear timeout on error
-      console.log(`Warning: FFmpeg process error, using default 30fps: ${error.message}`)
-      resolve(30)
+/**
+ * Find the encoders of an output profile that the configured FFmpeg lacks
+ *
+ * A failed query isn't cached, and reports nothing missing: FFmpeg then reports the
+ * real error when it runs.
+ *
+ * @param profile - Output profile to check
+ * @returns Promise resolving to the missing encoder names (empty if the profile can be used
+ *          or the encoders couldn't be queried)
+ */
+export const checkProfileEncoders = async (profile: OutputProfile): Promise<string[]> => {
+  availableEncoders ??= new Promise((resolve) => {
+    ffmpeg.getAvailableEncoders((err: Error | null, encoders: ffmpeg.Encoders) => {
+      resolve(err || !encoders ? null : Object.keys(encoders))
     })
   })
+  const encoders = await availableEncoders
+  if (!encoders) {
+    availableEncoders = null
+    return []
+  }
+  return findMissingEncoders(profile, encoders)
 }
 
 /**
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Extraction Checkpoints
+ *
+ * A JPEXS extraction that times out or crashes can leave an hour of exported frames
+ * behind. The extractor records its progress in a checkpoint next to them
+ * (`extraction.json`), updated from JPEXS's "Exported frame X/Y" lines:
+ *
+ * - The checkpoint names the SWF (path, size and modification time), the frames
+ *   being extracted and their render scale, so a checkpoint for another file,
+ *   selection or scale is ignored
+ * - It lists the frame ranges JPEXS hasn't reported yet. A frame that wasn't reported
+ *   may have been written only partly, so each range resumes from its first unreported frame
+ * - A re-run extracts only the remaining ranges (with `-select`) and keeps the frames
+ *   already exported
+ * - An extraction that didn't finish stays marked incomplete, so it fails instead of
+ *   being encoded short, and the converter keeps its temp directory to resume from
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { FrameRange } from './extractor'
+
+/** Name of the checkpoint written to the extraction's output directory */
+export const EXTRACTION_CHECKPOINT_FILE = 'extraction.json'
+
+/** Progress of an extraction */
+export interface ExtractionCheckpoint {
+  /** Full path to the SWF file */
+  swfFile: string
+  /** Size of the SWF file in bytes */
+  size: number
+  /** Modification time of the SWF file, in milliseconds since the epoch */
+  modified: number
+  /** Frames being extracted */
+  frames: FrameRange
+  /** Multiple of the stage size the frames are rasterised at (missing in older checkpoints: 1) */
+  renderScale?: number
+  /** Frame ranges JPEXS hasn't exported yet */
+  remaining: FrameRange[]
+  /** Whether every frame has been exported */
+  complete: boolean
+}
+
+/**
+ * Record the progress of an extraction
+ *
+ * @param outputDir - Directory the SWF is extracted to
+ * @param swfFile - Path to the SWF file
+ * @param frames - Frames being extracted
+ * @param remaining - Frame ranges JPEXS hasn't exported yet (none once the extraction is complete)
+ * @param renderScale - Multiple of the stage size the frames are rasterised at
+ * @returns The checkpoint written
+ */
+export const writeExtractionCheckpoint = (
+  outputDir: string,
+  swfFile: string,
+  frames: FrameRange,
+  remaining: FrameRange[],
+  renderScale: number = 1
+): ExtractionCheckpoint => {
+  const stats = fs.statSync(swfFile)
+  const checkpoint: ExtractionCheckpoint = {
+    swfFile: path.resolve(swfFile),
+    size: stats.size,
+    modified: stats.mtimeMs,
+    frames,
+    renderScale,
+    remaining,
+    complete: remaining.length === 0
+  }
+  fs.mkdirSync(outputDir, { recursive: true })
+  fs.writeFileSync(path.join(outputDir, EXTRACTION_CHECKPOINT_FILE), JSON.stringify(checkpoint, null, 2))
+  return checkpoint
+}
+
+/**
+ * Read the checkpoint written by writeExtractionCheckpoint
+ *
+ * @param outputDir - Directory the SWF was extracted to
+ * @returns The saved progress, or null if there is none (or it is unreadable)
+ */
+export const readExtractionCheckpoint = (outputDir: string): ExtractionCheckpoint | null => {
+  const checkpointPath = path.join(outputDir, EXTRACTION_CHECKPOINT_FILE)
+  if (!fs.existsSync(checkpointPath)) {
+    return null
+  }
+  try {
+    return JSON.parse(fs.readFileSync(checkpointPath, 'utf8')) as ExtractionCheckpoint
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Find the unfinished extraction of an SWF to resume
+ *
+ * @param outputDir - Directory the SWF is extracted to
+ * @param swfFile - Path to the SWF file
+ * @param frames - Frames to extract
+ * @param renderScale - Multiple of the stage size to rasterise the frames at
+ * @returns The checkpoint, or null if there is no incomplete extraction of the same
+ *          frames of the same (unchanged) file at the same scale
+ */
+export const findResumableExtraction = (
+  outputDir: string,
+  swfFile: string,
+  frames: FrameRange,
+  renderScale: number = 1
+): ExtractionCheckpoint | null => {
+  const checkpoint = readExtractionCheckpoint(outputDir)
+  if (!checkpoint || checkpoint.complete || checkpoint.remaining.length === 0 || !fs.existsSync(swfFile)) {
+    return null
+  }
+  const stats = fs.statSync(swfFile)
+  const sameFile = checkpoint.swfFile === path.resolve(swfFile) && checkpoint.size === stats.size && checkpoint.modified === stats.mtimeMs
+  const sameFrames = checkpoint.frames?.first === frames.first && checkpoint.frames?.last === frames.last
+  const sameScale = (checkpoint.renderScale ?? 1) === renderScale
+  return sameFile && sameFrames && sameScale ? checkpoint : null
+}
+
+/**
+ * Check whether the extraction in a directory stopped before exporting every frame
+ *
+ * @param outputDir - Directory the SWF was extracted to
+ * @returns True if its checkpoint is marked incomplete
+ */
+export const isExtractionIncomplete = (outputDir: string): boolean =>
+  readExtractionCheckpoint(outputDir)?.complete === false
@@ -6,11 +6,14 @@
  *
  * 1. **Primary**: JPEXS Free Flash Decompiler (Java-based)
  *    - Excellent frame extraction capabilities
- *    - Sometimes struggles with certain audio formats
+ *    - Only exports frames: its sound export struggles with certain audio formats,
+ *      and mixes event sounds in with the stream sound
  *
- * 2. **Fallback**: FFmpeg direct extraction
- *    - Reliable audio extraction for various formats
- *    - Used when JPEXS audio extraction fails or produces poor results
+ * 2. **Native stream sound demuxing**: SoundStreamHead/SoundStreamBlock tags are read
+ *    directly from the SWF, keeping every block aligned with its frame
+ *
+ * 3. **Fallback**: FFmpeg direct extraction
+ *    - Used when the SWF has no stream sound the native demuxer can handle
  *
  * The extractor is specifically tuned for Camtasia SWF files, which have different
  * characteristics compared to general Flash animations.
@@ -24,6 +27,14 @@ import * as path from 'path'
 import { spawn } from 'child_process'
 import ffmpeg from 'fluent-ffmpeg'
 import { getFFmpegPath, validatePlatformSupport } from '../utils/platform'
+import { parseSWF, parseSoundStreamHead, SWFFile, SWFHeader, SWF_TAGS } from './swf-parser'
+import { SOUND_FORMATS } from './sound-formats'
+import { demuxSoundStream, writeSoundStream, readSoundStreamInfo, SoundStreamInfo } from './sound-stream'
+import { writeSoundTimeline, readSoundTimeline, SoundTimeline } from './sound-events'
+import { demuxVideoStream, selectVideoFrames, writeVideoStream, readVideoStreamInfo, VideoStreamInfo } from './video-stream'
+import { writeExtractionCheckpoint, findResumableExtraction } from './extraction-checkpoint'
+import { resolveFrameSelection, FrameSelection } from './frame-selection'
+import { hasVisibleContent } from './audio-only'
 // import { log, colors } from '../utils/cli-styling'  // Temporarily commented out for Jest compatibility
 
 /**
@@ -51,6 +62,23 @@ const initializeFFmpeg = (): boolean => {
 // Initialize FFmpeg on module load for immediate availability
 const ffmpegInitialized = initializeFFmpeg()
 
+/** Fewest frames worth starting a separate JPEXS process for */
+export const MIN_FRAMES_PER_WORKER = 100
+
+/** Shortest interval between checkpoint updates during extraction, in milliseconds */
+const CHECKPOINT_INTERVAL_MS = 1000
+
+/** Directory under the output directory that frame range workers export to */
+const FRAME_RANGES_DIR_NAME = '.ranges'
+
+/** A range of SWF frames extracted by one JPEXS process */
+export interface FrameRange {
+  /** First frame, numbered from 1 like JPEXS does */
+  first: number
+  /** Last frame (inclusive) */
+  last: number
+}
+
 /** Configuration options for SWF extraction */
 export interface ExtractorOptions {
   /** Path to the input SWF file */
@@ -59,14 +87,18 @@ export interface ExtractorOptions {
   outputDir: string
   /** Optional: Extract only the first N frames for testing */
   testFrames?: number
+  /** Optional: Extract only these frames (takes precedence over testFrames) */
+  frameRange?: FrameRange
+  /** Optional: Rasterise frames at this multiple of the stage size (JPEXS -zoom, default: 1) */
+  renderScale?: number
 }
 
 /** Callback functions for handling JPEXS extraction process events */
 export interface ExtractorCallbacks {
   /** Called when an error occurs during extraction */
   onError: (err: string) => void
-  /** Called when the extraction process completes successfully */
-  onClose: () => void
+  /** Called when the extraction process exits, with its exit code (null if it was killed) */
+  onClose: (code: number | null) => void
   /** Called when JPEXS outputs progress information */
   onStdout: (data: string) => void
 }
@@ -92,15 +124,23 @@ const buildExtractionParameters = (options: ExtractorOptions) => {
 
   const params = ['-jar', jarPath]
 
-  // Add frame selection if specified for testing (must come before -export)
-  if (options.testFrames) {
+  // Add frame selection if specified for testing or a range worker (must come before -export)
+  const range = options.frameRange ?? (options.testFrames ? { first: 1, last: options.testFrames } : null)
+  if (range) {
     params.push('-select')
-    params.push(`1-${options.testFrames}`)
+    params.push(`${range.first}-${range.last}`)
+  }
+
+  // Rasterise vector content at a higher resolution than the stage
+  if (options.renderScale && options.renderScale !== 1) {
+    params.push('-zoom')
+    params.push(options.renderScale.toString())
   }
 
-  // Configure JPEXS to export both frames (as PNG) and sounds (as MP3/WAV)
+  // Configure JPEXS to export the frames (as PNG) only. Sounds are demuxed natively by
+  // extractAudio: JPEXS would write event sounds to sounds/ beside the stream sound
   params.push('-export')
-  params.push('frame,sound')
+  params.push('frame')
 
   // Note: -format parameter removed as it causes "Input SWF file does not exist" error
   // JPEXS automatically detects appropriate output formats
@@ -115,9 +155,9 @@ const buildExtractionParameters = (options: ExtractorOptions) => {
 /**
  * Extract frames and audio from a Camtasia-generated SWF file using JPEXS
  *
- * This function spawns a Java process running JPEXS Free Flash Decompiler to extract:
- * - Sequential frame images (saved as PNG files in frames/ subdirectory)
- * - Audio content (saved as MP3/WAV files in sounds/ subdirectory)
+ * This function spawns a Java process running JPEXS Free Flash Decompiler to extract
+ * sequential frame images (saved as PNG files in frames/ subdirectory). Audio is
+ * extracted separately by extractAudio.
  *
  * The function includes comprehensive directory setup and error handling specifically
  * tuned for Camtasia SWF files, which have different characteristics than general Flash files.
@@ -190,7 +230,7 @@ export const extractSWFContent = (options: ExtractorOptions, callbacks: Extracto
       callbacks.onStdout(stderrData)
     }
   })
-  javaProcess.on('close', () => callbacks.onClose())
+  javaProcess.on('close', (code: number | null) => callbacks.onClose(code))
   javaProcess.on('error', (error: Error) => {
     if (error.message.includes('ENOENT')) {
       callbacks.onError('Java Development Kit not found. Please install it.')
@@ -211,8 +251,9 @@ export const extractSWFContent = (options: ExtractorOptions, callbacks: Extracto
  * formats better than JPEXS, especially for certain codecs.
  *
  * The function:
- * - Extracts audio directly from SWF without re-encoding (codec copy)
- * - Saves to sounds/0.mp3 following the expected directory structure
+ * - Copies MP3 stream sound without re-encoding into sounds/0.mp3
+ * - Decodes any other format (ADPCM, PCM, Nellymoser, ...) to 16-bit PCM in sounds/0.wav,
+ *   since those codecs can't be stream-copied into a standalone audio file
  * - Handles cases where SWF has no audio stream gracefully
  * - Provides detailed logging for debugging audio issues
  *
@@ -234,12 +275,14 @@ export const extractAudioWithFFmpeg = (swfFile: string, outputDir: string): Prom
       fs.mkdirSync(soundsDir, { recursive: true })
     }
 
-    const outputAudioPath = path.join(soundsDir, '0.mp3')
+    // Only MP3 can be copied as-is; everything else is decoded to WAV
+    const isMP3 = detectStreamSoundFormat(swfFile) === SOUND_FORMATS.MP3
+    const outputAudioPath = path.join(soundsDir, isMP3 ? '0.mp3' : '0.wav')
     
     // Use fluent-ffmpeg to extract audio directly from SWF
     ffmpeg(swfFile)
       .noVideo()  // Disable video
-      .audioCodec('copy')  // Copy audio codec without re-encoding
+      .audioCodec(isMP3 ? 'copy' : 'pcm_s16le')
       .output(outputAudioPath)
       .on('start', (commandLine) => {
         if (process.env.NODE_ENV !== 'test') {
@@ -278,26 +321,493 @@ export const extractAudioWithFFmpeg = (swfFile: string, outputDir: string): Prom
   })
 }
 
+/**
+ * Read the stream sound format from an SWF's SoundStreamHead tag
+ *
+ * @param swfFile - Path to the SWF file
+ * @returns SWF sound format code, or null if there is no stream sound or the file can't be parsed
+ */
+const detectStreamSoundFormat = (swfFile: string): number | null => {
+  try {
+    const headTag = parseSWF(swfFile).tags.find(
+      tag => tag.code === SWF_TAGS.SoundStreamHead || tag.code === SWF_TAGS.SoundStreamHead2
+    )
+    return headTag ? parseSoundStreamHead(headTag).format : null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Extract the stream sound natively from a parsed SWF
+ *
+ * Writes the SoundStreamBlock payloads to sounds/0.<ext>, together with a timing
+ * sidecar recording the frame of every block and the MP3 seek/latency values.
+ * The container follows the sound format: .mp3 for MP3, .wav for PCM and decoded
+ * ADPCM, .flv for Nellymoser and Speex. Frames without a block are filled with
+ * silence where the format allows it.
+ *
+ * @param swf - Parsed SWF file
+ * @param outputDir - Base output directory (sounds/ will be created within)
+ * @returns Timing information for the written stream, or null if nothing was written
+ */
+const extractStreamSoundNative = (swf: SWFFile, outputDir: string): SoundStreamInfo | null => {
+  const stream = demuxSoundStream(swf)
+  if (!stream) {
+    return null
+  }
+
+  return writeSoundStream(stream, path.join(outputDir, 'sounds'), '0', swf.header.frameRate)
+}
+
+/**
+ * Extract the audio of an SWF file into outputDir/sounds
+ *
+ * 1. **Stream Sound**: Demuxes SoundStreamBlock tags natively into sounds/0.<mp3|wav|flv> with a timing sidecar
+ * 2. **Event Sounds**: Writes DefineSound data started by StartSound tags to sounds/events/ with a timeline sidecar
+ * 3. **Fallback**: Uses FFmpeg audio extraction when native demuxing isn't possible. It is
+ *    skipped for an SWF with event sounds but no stream sound, since FFmpeg would extract
+ *    a DefineSound that the event sound mix already places
+ *
+ * Failures are logged and never thrown: audio is optional for conversion.
+ *
+ * @param swfFile - Path to the input SWF file
+ * @param swf - Parsed SWF file, or null if it could not be parsed
+ * @param outputDir - Base output directory (sounds/ will be created within)
+ * @returns Promise that resolves when all audio has been written
+ */
+export const extractAudio = async (swfFile: string, swf: SWFFile | null, outputDir: string): Promise<void> => {
+  const soundsDir = path.join(outputDir, 'sounds')
+
+  // Demux the stream sound natively - JPEXS and FFmpeg both have issues with some SWF audio
+  let nativeAudio: SoundStreamInfo | null = null
+  if (swf) {
+    try {
+      nativeAudio = extractStreamSoundNative(swf, outputDir)
+      if (nativeAudio && process.env.NODE_ENV !== 'test') {
+        console.log(`🎵 DEBUG: Native stream sound extraction: ${nativeAudio.formatName}, ${nativeAudio.blocks.length} blocks from frame ${nativeAudio.startFrame}, ${nativeAudio.missingFrames.length} missing frame(s)`)
+      }
+    } catch (nativeError: any) {
+      if (process.env.NODE_ENV !== 'test') {
+        console.log(`⚠️ DEBUG: Native stream sound extraction failed: ${nativeError.message}`)
+      }
+    }
+  }
+
+  // Event sounds (DefineSound + StartSound) are written separately with their trigger frames
+  let timeline: SoundTimeline | null = null
+  if (swf) {
+    try {
+      timeline = writeSoundTimeline(swf, soundsDir, swf.header.frameRate)
+      if (timeline && process.env.NODE_ENV !== 'test') {
+        console.log(`🔔 DEBUG: Event sounds: ${timeline.sounds.length} sound(s), ${timeline.events.length} event(s)`)
+      }
+    } catch (eventError: any) {
+      if (process.env.NODE_ENV !== 'test') {
+        console.log(`⚠️ DEBUG: Event sound extraction failed: ${eventError.message}`)
+      }
+    }
+  }
+
+  // Fall back to FFmpeg when the stream sound couldn't be demuxed natively
+  const hasStreamSound = !swf || swf.tags.some(tag => tag.code === SWF_TAGS.SoundStreamHead || tag.code === SWF_TAGS.SoundStreamHead2)
+  if (!nativeAudio && (hasStreamSound || !timeline)) {
+    if (process.env.NODE_ENV !== 'test') {
+      console.log(`🔄 DEBUG: Using FFmpeg for audio extraction...`)
+    }
+    try {
+      await extractAudioWithFFmpeg(swfFile, outputDir)
+      if (process.env.NODE_ENV !== 'test') {
+        console.log(`✅ DEBUG: FFmpeg audio extraction completed`)
+      }
+    } catch (fallbackError: any) {
+      if (process.env.NODE_ENV !== 'test') {
+        console.log(`❌ DEBUG: FFmpeg audio extraction failed: ${fallbackError.message}`)
+      }
+    }
+  }
+}
+
+/**
+ * Calculate how long JPEXS may take to extract an SWF
+ *
+ * @param swfFile - Path to the input SWF file
+ * @param timeoutMinutes - Optional manual override
+ * @returns Timeout in minutes
+ */
+export const getExtractionTimeoutMinutes = (swfFile: string, timeoutMinutes?: number): number => {
+  if (timeoutMinutes) {
+    // Use manual override
+    return timeoutMinutes
+  }
+
+  // Calculate dynamic timeout based on file size and estimated frame count
+  const fileStats = fs.statSync(swfFile)
+  const fileSizeMB = fileStats.size / (1024 * 1024)
+
+  // More generous timeout calculation:
+  // Base: 10 minutes for any file
+  // + 1 minute per MB of file size (to account for frame count/complexity)
+  // + Extra time for very large files
+  let calculatedTimeout = 10 + fileSizeMB // Base 10min + 1min per MB
+
+  // Add extra time for larger files (non-linear scaling)
+  if (fileSizeMB > 20) {
+    calculatedTimeout += (fileSizeMB - 20) * 0.5 // Extra 30sec per MB above 20MB
+  }
+  if (fileSizeMB > 50) {
+    calculatedTimeout += (fileSizeMB - 50) * 0.5 // Extra 30sec per MB above 50MB
+  }
+
+  // Minimum: 10 minutes, no maximum (let large files take as long as needed)
+  return Math.max(10, Math.round(calculatedTimeout))
+}
+
+/** How a JPEXS process ended */
+interface JPEXSExit {
+  /** Whether the process was started at all */
+  started: boolean
+  /** Exit code, or null if the process was killed */
+  code: number | null
+  /** Whether the process was killed (by the timeout or by kill()) */
+  killed: boolean
+  /** Whether the process was killed for running longer than the timeout */
+  timedOut: boolean
+}
+
+/** A running JPEXS process */
+interface JPEXSRun {
+  /** Resolves once the process has exited, or immediately if it couldn't be started */
+  result: Promise<JPEXSExit>
+  /** Kill the process */
+  kill: () => void
+  /** Highest frame JPEXS has reported as exported ("Exported frame X/Y") */
+  exported: () => number
+}
+
+/**
+ * Run JPEXS under a timeout, logging its progress
+ *
+ * Errors reported by JPEXS don't fail the run - the process always emits 'close'
+ * afterwards (even when Java can't be spawned), and the caller checks what was extracted.
+ *
+ * @param options - What to extract and where
+ * @param timeoutMinutes - Minutes before the process is killed
+ * @param label - Added to debug output, to tell concurrent processes apart
+ * @param onProgress - Called whenever JPEXS reports another exported frame
+ * @returns The running process
+ */
+const runJPEXS = (options: ExtractorOptions, timeoutMinutes: number, label: string = '', onProgress?: () => void): JPEXSRun => {
+  let jpexsProcess: any = null
+  let lastOutputWasFrameProgress = false
+  let exported = 0
+  let killed = false
+  let timedOut = false
+
+  const kill = () => {
+    if (jpexsProcess && jpexsProcess.kill && jpexsProcess.exitCode === null) {
+      killed = true
+      jpexsProcess.kill('SIGTERM')
+
+      // Force kill if SIGTERM doesn't work after 5 seconds
+      setTimeout(() => {
+        if (jpexsProcess && jpexsProcess.exitCode === null) {
+          jpexsProcess.kill('SIGKILL')
+        }
+      }, 5000).unref()
+    }
+  }
+
+  const result = new Promise<JPEXSExit>(resolve => {
+    const timeout = setTimeout(() => {
+      // Kill the Java process when timeout occurs; it resolves once it has exited
+      if (process.env.NODE_ENV !== 'test' && jpexsProcess) {
+        console.log(`⏰ DEBUG: Killing timed-out JPEXS process${label} (PID: ${jpexsProcess.pid})`)
+      }
+      timedOut = true
+      kill()
+    }, timeoutMinutes * 60000)
+
+    jpexsProcess = extractSWFContent(options, {
+      onError: (err: string) => {
+        if (err.trim() && process.env.NODE_ENV !== 'test') {
+          console.error(`Extraction error${label}: ${err.trim()}`)
+        }
+      },
+      onClose: (code: number | null) => {
+        clearTimeout(timeout)
+        resolve({ started: true, code, killed, timedOut })
+      },
+      onStdout: (data: string) => {
+        // Record progress for the checkpoint
+        let progressed = false
+        for (const match of data.matchAll(/Exported frame (\d+)\/\d+/g)) {
+          const frame = parseInt(match[1], 10)
+          if (frame > exported) {
+            exported = frame
+            progressed = true
+          }
+        }
+        if (progressed && onProgress) {
+          onProgress()
+        }
+
+        // Log extraction progress for debugging, but filter out common end-of-stream exceptions
+        if (data.trim() && process.env.NODE_ENV !== 'test') {
+          const trimmedData = data.trim()
+
+          // Skip logging common EndOfStreamException and its stack trace - this is expected with certain SWF files
+          if (trimmedData.includes('EndOfStreamException: Premature end of the stream reached') ||
+              trimmedData.includes('SEVERE: Error during tag reading') ||
+              trimmedData.includes('com.jpexs.decompiler.flash.EndOfStreamException') ||
+              trimmedData.includes('at com.jpexs.decompiler.flash.SWFInputStream') ||
+              trimmedData.includes('at com.jpexs.decompiler.flash.tags.SoundStreamHead')) {
+            // This is a common, expected exception that JPEXS handles gracefully - suppress logging
+            return
+          }
+
+          // Handle frame export progress with overwriting display
+          const frameMatch = trimmedData.match(/^Exported frame (\d+)\/(\d+)$/)
+          if (frameMatch) {
+            // Use \r to return to beginning of line and overwrite previous frame progress
+            process.stdout.write(`\r📝 DEBUG: JPEXS output${label}: ${trimmedData}`)
+            lastOutputWasFrameProgress = true
+            return
+          }
+
+          // For non-frame messages, add newline if last output was frame progress
+          if (lastOutputWasFrameProgress) {
+            process.stdout.write('\n')
+            lastOutputWasFrameProgress = false
+          }
+          console.log(`📝 DEBUG: JPEXS output${label}: ${trimmedData}`)
+        }
+      }
+    })
+
+    // No process was started, so there is no 'close' event to wait for
+    if (!jpexsProcess) {
+      clearTimeout(timeout)
+      resolve({ started: false, code: null, killed: false, timedOut: false })
+    }
+  })
+
+  return { result, kill, exported: () => exported }
+}
+
+/**
+ * Split a timeline into contiguous frame ranges, one per JPEXS worker
+ *
+ * Every JVM has a startup cost, so ranges are never shorter than
+ * MIN_FRAMES_PER_WORKER frames and fewer workers are used for short SWFs.
+ *
+ * @param frameCount - Number of frames to extract
+ * @param workers - Maximum number of concurrent JPEXS processes
+ * @param firstFrame - Frame the first range starts on (default: 1)
+ * @returns Ranges covering frameCount frames from firstFrame (empty if there are none)
+ */
+export const splitFrameRanges = (frameCount: number, workers: number, firstFrame: number = 1): FrameRange[] => {
+  const count = Math.max(1, Math.min(workers, Math.floor(frameCount / MIN_FRAMES_PER_WORKER)))
+  const ranges: FrameRange[] = []
+  for (let i = 0; i < count && frameCount > 0; i++) {
+    ranges.push({
+      first: firstFrame + Math.floor((frameCount * i) / count),
+      last: firstFrame - 1 + Math.floor((frameCount * (i + 1)) / count)
+    })
+  }
+  return ranges
+}
+
+/**
+ * Count the frames of a range JPEXS has reported as exported
+ *
+ * JPEXS may number the frames of a selected range from the start of the SWF or of
+ * the range; a reported frame inside the range is taken to be numbered from the SWF.
+ *
+ * @param range - Frames being extracted
+ * @param reported - Highest frame JPEXS has reported
+ * @returns Number of frames at the start of the range that are known to be complete
+ */
+const countExportedFrames = (range: FrameRange, reported: number): number => {
+  const position = range.first > 1 && reported >= range.first ? reported - range.first + 1 : reported
+  return Math.min(range.last - range.first + 1, position)
+}
+
+/**
+ * Move the frames one range worker exported into the main frames directory
+ *
+ * JPEXS names the frames of a selected range either by their frame in the SWF or
+ * by their position in the range. Frames numbered below the start of the range
+ * must count from the start of the range, and are renumbered onto the SWF timeline.
+ * Frames are moved from the highest number down, so a range exported in place can
+ * be renumbered within its own directory.
+ *
+ * @param workerDir - Directory the worker exported to
+ * @param range - Frames the worker extracted
+ * @param framesDir - Directory the merged frames go to
+ * @returns Number of frames moved
+ */
+const mergeRangeFrames = (workerDir: string, range: FrameRange, framesDir: string): number => {
+  const frames = [path.join(workerDir, 'frames'), workerDir]
+    .filter(dir => fs.existsSync(dir))
+    .flatMap(dir => fs.readdirSync(dir).map(file => ({ file: path.join(dir, file), match: /^(\d+)\.png$/i.exec(file) })))
+    .filter(frame => frame.match !== null)
+    .map(frame => ({ file: frame.file, number: parseInt(frame.match![1], 10) }))
+  if (frames.length === 0) {
+    return 0
+  }
+
+  const offset = Math.min(...frames.map(frame => frame.number)) < range.first ? range.first - 1 : 0
+  frames.sort((a, b) => b.number - a.number)
+  for (const frame of frames) {
+    fs.renameSync(frame.file, path.join(framesDir, `${frame.number + offset}.png`))
+  }
+  return frames.length
+}
+
+/** How the extraction of one frame range went */
+interface RangeExtraction {
+  /** Frames the process was asked to extract */
+  range: FrameRange
+  /** How the process ended */
+  exit: JPEXSExit
+  /** Frames JPEXS didn't report as exported, or null if the range is complete */
+  remaining: FrameRange | null
+}
+
+/**
+ * Extract frame ranges with concurrent JPEXS processes and merge their frames
+ *
+ * Unless the extraction is being resumed, the first range is extracted into
+ * outputDir. Every other range exports into its own directory under
+ * outputDir/.ranges, and its frames are moved next to the
+ * first range's, numbered on the SWF timeline (as are the first range's, when it
+ * doesn't start at frame 1). When one process times out, the others are killed;
+ * frames exported by then are kept.
+ *
+ * A range is complete when its process exited by itself, and either exited
+ * cleanly or reported every frame. Otherwise the frames it didn't report remain.
+ *
+ * @param swfFile - Path to the input SWF file
+ * @param outputDir - Directory where extracted content will be saved
+ * @param ranges - Frame ranges, one per process
+ * @param timeoutMinutes - Minutes before each process is killed
+ * @param resuming - Whether frames from an earlier run are already in outputDir
+ * @param selection - Selected frames (null for the whole timeline), passed as-is when a single range covers them
+ * @param renderScale - Multiple of the stage size to rasterise frames at
+ * @param onProgress - Called at most once a second with the frames not yet reported
+ * @returns How each range went
+ */
+const extractFrameRanges = async (
+  swfFile: string,
+  outputDir: string,
+  ranges: FrameRange[],
+  timeoutMinutes: number,
+  resuming: boolean,
+  selection: FrameRange | null,
+  renderScale: number,
+  onProgress?: (remaining: FrameRange[]) => void
+): Promise<RangeExtraction[]> => {
+  const rangesDir = path.join(outputDir, FRAME_RANGES_DIR_NAME)
+  const inPlace = (index: number) => index === 0 && !resuming
+  const workerDirs = ranges.map((range, index) => inPlace(index) ? outputDir : path.join(rangesDir, index.toString()))
+
+  const getRemaining = (range: FrameRange, exported: number): FrameRange | null => {
+    const done = countExportedFrames(range, exported)
+    return done < range.last - range.first + 1 ? { first: range.first + done, last: range.last } : null
+  }
+  let lastProgress = 0
+  const reportProgress = () => {
+    if (onProgress && Date.now() - lastProgress >= CHECKPOINT_INTERVAL_MS) {
+      lastProgress = Date.now()
+      onProgress(ranges.flatMap((range, index) => getRemaining(range, runs[index].exported()) ?? []))
+    }
+  }
+
+  const runs: JPEXSRun[] = ranges.map((range, index) => runJPEXS(
+    // A single range of a fresh extraction selects frames as a plain extraction does
+    ranges.length === 1 && inPlace(0)
+      ? { swfFile, outputDir, frameRange: selection ?? undefined, renderScale }
+      : { swfFile, outputDir: workerDirs[index], frameRange: range, renderScale },
+    timeoutMinutes,
+    ranges.length > 1 || resuming ? ` [frames ${range.first}-${range.last}]` : '',
+    reportProgress
+  ))
+  for (const run of runs) {
+    run.result.then(exit => {
+      if (exit.timedOut) {
+        runs.forEach(other => other.kill())
+      }
+    })
+  }
+  const exits = await Promise.all(runs.map(run => run.result))
+
+  // Merge into wherever the first range's frames went (frames/ unless JPEXS wrote them to the root)
+  const framesDir = path.join(outputDir, 'frames')
+  const hasPNGs = (dir: string) => fs.existsSync(dir) && fs.readdirSync(dir).some(file => /\.png$/i.test(file))
+  const targetDir = !hasPNGs(framesDir) && hasPNGs(outputDir) ? outputDir : framesDir
+  fs.mkdirSync(targetDir, { recursive: true })
+  ranges.forEach((range, index) => {
+    if (!inPlace(index) || range.first > 1) {
+      const moved = mergeRangeFrames(workerDirs[index], range, targetDir)
+      if (process.env.NODE_ENV !== 'test') {
+        console.log(`🧵 DEBUG: Merged ${moved} frame(s) of frames ${range.first}-${range.last}`)
+      }
+    }
+  })
+  fs.rmSync(rangesDir, { recursive: true, force: true })
+
+  return ranges.map((range, index) => {
+    const exit = exits[index]
+    if (!exit.started) {
+      return { range, exit, remaining: range }
+    }
+    const finished = !exit.killed && exit.code === 0
+    return { range, exit, remaining: finished ? null : getRemaining(range, runs[index].exported()) }
+  })
+}
 
 /**
  * High-level SWF extraction with dual-strategy approach
  *
  * This is the main extraction function that combines JPEXS and FFmpeg for optimal results:
  *
- * 1. **Primary Extraction**: Uses JPEXS for frame extraction (with 5-minute timeout)
- * 2. **Audio Fallback**: Always attempts FFmpeg audio extraction for better reliability
- * 3. **Validation**: Ensures at least frames were extracted (audio is optional)
- * 4. **Error Handling**: Comprehensive error handling with helpful debug information
+ * 1. **Primary Extraction**: Uses JPEXS for frame extraction (with 5-minute timeout), optionally
+ *    split into frame ranges across concurrent JPEXS processes using the SWF header's frame count.
+ *    Progress is recorded in a checkpoint, and a run that stopped short is resumed from the
+ *    first frame JPEXS didn't report
+ * 2. **Stream Sound**: Demuxes SoundStreamBlock tags natively into sounds/0.<mp3|wav|flv> with a timing sidecar
+ * 3. **Event Sounds**: Writes DefineSound data started by StartSound tags to sounds/events/ with a timeline sidecar
+ * 4. **Audio Fallback**: Uses FFmpeg audio extraction when native demuxing isn't possible
+ * 5. **Validation**: Ensures at least frames were extracted (audio is optional)
+ * 6. **Error Handling**: Comprehensive error handling with helpful debug information
+ *
+ * Steps 2-4 are performed by extractAudio. An SWF whose main timeline places nothing
+ * on the stage has no frames to rasterise, so JPEXS isn't run and only its audio is
+ * extracted.
  *
  * This dual approach ensures maximum compatibility with various Camtasia SWF formats
  * while providing reliable extraction even when one method partially fails.
  *
  * @param swfFile - Path to the input SWF file
  * @param outputDir - Directory where extracted content will be saved
+ * @param frames - Optional: Frames to extract, as a selection or (for testing) the number of frames from the start
+ * @param timeoutMinutes - Optional: Override extraction timeout in minutes (applies to each process)
+ * @param workers - Optional: Maximum number of concurrent JPEXS processes (default: 1)
+ * @param renderScale - Optional: Rasterise frames at this multiple of the stage size (default: 1)
  * @returns Promise that resolves when extraction completes successfully
- * @throws Error if no frames could be extracted or critical errors occur
+ * @throws Error if the selection doesn't fit the SWF, no frames could be extracted,
+ *         JPEXS timed out or exited before exporting every frame (the checkpoint then
+ *         marks the extraction incomplete), or critical errors occur
  */
-export const extractSWF = async (swfFile: string, outputDir: string, testFrames?: number, timeoutMinutes?: number): Promise<void> => {
+export const extractSWF = async (
+  swfFile: string,
+  outputDir: string,
+  frames?: number | FrameSelection,
+  timeoutMinutes?: number,
+  workers: number = 1,
+  renderScale: number = 1
+): Promise<void> => {
   let jpexsSucceeded = false
 
   if (process.env.NODE_ENV !== 'test') {
@@ -305,38 +815,42 @@ export const extractSWF = async (swfFile: string, outputDir: string, testFrames?
   }
   
   try {
-    // Calculate timeout - use manual override or dynamic calculation
-    let finalTimeoutMs: number
-    let finalTimeoutMinutes: number
-
-    if (timeoutMinutes) {
-      // Use manual override
-      finalTimeoutMs = timeoutMinutes * 60000
-      finalTimeoutMinutes = timeoutMinutes
-    } else {
-      // Calculate dynamic timeout based on file size and estimated frame count
-      const fileStats = fs.statSync(swfFile)
-      const fileSizeMB = fileStats.size / (1024 * 1024)
-
-      // More generous timeout calculation:
-      // Base: 10 minutes for any file
-      // + 1 minute per MB of file size (to account for frame count/complexity)
-      // + Extra time for very large files
-      let calculatedTimeout = 10 + fileSizeMB // Base 10min + 1min per MB
-
-      // Add extra time for larger files (non-linear scaling)
-      if (fileSizeMB > 20) {
-        calculatedTimeout += (fileSizeMB - 20) * 0.5 // Extra 30sec per MB above 20MB
+    // Read SWF metadata natively so we know what to expect before JPEXS runs
+    let swf: SWFFile | null = null
+    let swfHeader: SWFHeader | null = null
+    try {
+      swf = parseSWF(swfFile)
+      swfHeader = swf.header
+      if (process.env.NODE_ENV !== 'test') {
+        console.log(`📐 DEBUG: SWF ${swfHeader.signature} v${swfHeader.version}, ${swfHeader.width}x${swfHeader.height}, ${swfHeader.frameRate} fps, ${swfHeader.frameCount} frames`)
       }
-      if (fileSizeMB > 50) {
-        calculatedTimeout += (fileSizeMB - 50) * 0.5 // Extra 30sec per MB above 50MB
+    } catch (headerError: any) {
+      if (process.env.NODE_ENV !== 'test') {
+        console.log(`⚠️ DEBUG: Could not parse SWF header: ${headerError.message}`)
       }
+    }
 
-      // Minimum: 10 minutes, no maximum (let large files take as long as needed)
-      finalTimeoutMinutes = Math.max(10, Math.round(calculatedTimeout))
-      finalTimeoutMs = finalTimeoutMinutes * 60000
+    // An SWF that never places anything on the stage has no frames to rasterise, only audio
+    if (swf && !hasVisibleContent(swf)) {
+      if (process.env.NODE_ENV !== 'test') {
+        console.log('🔇 DEBUG: Nothing is placed on the stage, extracting the audio only')
+      }
+      await extractAudio(swfFile, swf, outputDir)
+      return
     }
 
+    // Resolve the selection against the header, never asking JPEXS for more frames than the SWF has
+    const selection = resolveFrameSelection(typeof frames === 'number' ? { limit: frames } : frames, swfHeader)
+    if (selection && process.env.NODE_ENV !== 'test') {
+      console.log(`✂️ DEBUG: Extracting frames ${selection.first}-${selection.last}`)
+    }
+    if (renderScale !== 1 && process.env.NODE_ENV !== 'test') {
+      console.log(`🔍 DEBUG: Rendering frames at ${renderScale}x the stage size`)
+    }
+
+    // Calculate timeout - use manual override or dynamic calculation
+    const finalTimeoutMinutes = getExtractionTimeoutMinutes(swfFile, timeoutMinutes)
+
     if (process.env.NODE_ENV !== 'test') {
       if (timeoutMinutes) {
         console.log(`📊 DEBUG: Manual timeout: ${finalTimeoutMinutes} minutes`)
@@ -347,115 +861,60 @@ export const extractSWF = async (swfFile: string, outputDir: string, testFrames?
       }
     }
 
-    // Try standard JPEXS extraction first with calculated timeout
-    let lastOutputWasFrameProgress = false
-    await new Promise<void>((resolve, reject) => {
-      let jpexsProcess: any = null
+    // Without a selection or a frame count from the header there are no ranges to split, record or resume
+    const extracted = selection ?? (swfHeader && swfHeader.frameCount > 0 ? { first: 1, last: swfHeader.frameCount } : null)
+    if (!extracted) {
+      const exit = await runJPEXS({ swfFile, outputDir, renderScale }, finalTimeoutMinutes).result
+      if (exit.timedOut) {
+        throw new Error(`JPEXS extraction timed out after ${finalTimeoutMinutes} minutes`)
+      }
+      jpexsSucceeded = exit.started
+    } else {
+      // Resume the frames an earlier run didn't export, or split the timeline across the workers
+      const frameCount = extracted.last - extracted.first + 1
+      const checkpoint = findResumableExtraction(outputDir, swfFile, extracted, renderScale)
+      const ranges = checkpoint
+        ? checkpoint.remaining.flatMap(range =>
+          splitFrameRanges(range.last - range.first + 1, Math.max(1, Math.floor(workers / checkpoint.remaining.length)), range.first))
+        : splitFrameRanges(frameCount, workers, extracted.first)
+      if (process.env.NODE_ENV !== 'test') {
+        if (checkpoint) {
+          console.log(`♻️ DEBUG: Resuming extraction from frame ${ranges[0].first} (${ranges.length} range(s))`)
+        } else if (ranges.length > 1) {
+          console.log(`🧵 DEBUG: Extracting ${frameCount} frames with ${ranges.length} JPEXS workers`)
+        }
+      }
 
-      const timeout = setTimeout(() => {
-        // Kill the Java process when timeout occurs
-        if (jpexsProcess && jpexsProcess.kill) {
-          if (process.env.NODE_ENV !== 'test') {
-            console.log(`⏰ DEBUG: Killing timed-out JPEXS process (PID: ${jpexsProcess.pid})`)
-          }
-          jpexsProcess.kill('SIGTERM')
-
-          // Force kill if SIGTERM doesn't work after 5 seconds
-          setTimeout(() => {
-            if (jpexsProcess && !jpexsProcess.killed) {
-              jpexsProcess.kill('SIGKILL')
-            }
-          }, 5000)
+      const extractions = await extractFrameRanges(
+        swfFile, outputDir, ranges, finalTimeoutMinutes, checkpoint !== null, selection, renderScale,
+        remaining => writeExtractionCheckpoint(outputDir, swfFile, extracted, remaining, renderScale)
+      )
+      jpexsSucceeded = extractions.every(extraction => extraction.exit.started)
+
+      // Frames JPEXS didn't get to are recorded, and the extraction fails instead of coming out short.
+      // A run that exported nothing without timing out failed outright, which is checked below
+      if (jpexsSucceeded) {
+        const remaining = extractions.flatMap(extraction => extraction.remaining ?? [])
+        const missing = remaining.reduce((count, range) => count + range.last - range.first + 1, 0)
+        const timedOut = extractions.some(extraction => extraction.exit.timedOut)
+        if (remaining.length === 0 || timedOut || missing < frameCount) {
+          writeExtractionCheckpoint(outputDir, swfFile, extracted, remaining, renderScale)
         }
-        reject(new Error(`JPEXS extraction timed out after ${finalTimeoutMinutes} minutes`))
-      }, finalTimeoutMs)
-
-      jpexsProcess = extractSWFContent(
-        { swfFile, outputDir, testFrames },
-        {
-          onError: (err: string) => {
-            clearTimeout(timeout)
-            if (err.trim() && process.env.NODE_ENV !== 'test') {
-              console.error(`Extraction error: ${err.trim()}`)
-            }
-            // Don't reject immediately - we'll try FFmpeg fallback
-            resolve()
-          },
-          onClose: () => {
-            clearTimeout(timeout)
-            jpexsSucceeded = true
-            resolve()
-          },
-          onStdout: (data: string) => {
-            // Log extraction progress for debugging, but filter out common end-of-stream exceptions
-            if (data.trim() && process.env.NODE_ENV !== 'test') {
-              const trimmedData = data.trim()
-
-              // Skip logging common EndOfStreamException and its stack trace - this is expected with certain SWF files
-              if (trimmedData.includes('EndOfStreamException: Premature end of the stream reached') ||
-                  trimmedData.includes('SEVERE: Error during tag reading') ||
-                  trimmedData.includes('com.jpexs.decompiler.flash.EndOfStreamException') ||
-                  trimmedData.includes('at com.jpexs.decompiler.flash.SWFInputStream') ||
-                  trimmedData.includes('at com.jpexs.decompiler.flash.tags.SoundStreamHead')) {
-                // This is a common, expected exception that JPEXS handles gracefully - suppress logging
-                return
-              }
-
-              // Handle frame export progress with overwriting display
-              const frameMatch = trimmedData.match(/^Exported frame (\d+)\/(\d+)$/)
-              if (frameMatch) {
-                // Use \r to return to beginning of line and overwrite previous frame progress
-                process.stdout.write(`\r📝 DEBUG: JPEXS output: ${trimmedData}`)
-                lastOutputWasFrameProgress = true
-                return
-              }
-
-              // For non-frame messages, add newline if last output was frame progress
-              if (lastOutputWasFrameProgress) {
-                process.stdout.write('\n')
-                lastOutputWasFrameProgress = false
-              }
-              console.log(`📝 DEBUG: JPEXS output: ${trimmedData}`)
-            }
-          }
+        if (remaining.length > 0 && (timedOut || missing < frameCount)) {
+          const reason = timedOut
+            ? `JPEXS extraction timed out after ${finalTimeoutMinutes} minutes`
+            : 'JPEXS exited before exporting every frame'
+          throw new Error(`${reason}: ${frameCount - missing} of ${frameCount} frames were exported. Run again to resume from frame ${remaining[0].first}`)
         }
-      )
-    })
+      }
+    }
     
     if (process.env.NODE_ENV !== 'test') {
       console.log(`📋 DEBUG: JPEXS extraction completed, jpexsSucceeded=${jpexsSucceeded}`)
     }
 
-    // Check if audio extraction was successful
-    const soundsDir = path.join(outputDir, 'sounds')
-    const soundsDirExists = fs.existsSync(soundsDir)
-    let audioFiles: string[] = []
-
-    if (soundsDirExists) {
-      audioFiles = fs.readdirSync(soundsDir).filter(f => /\.(mp3|wav)$/i.test(f))
-    }
-
-    const hasAudioFiles = soundsDirExists && audioFiles.length > 0
-
-    if (process.env.NODE_ENV !== 'test') {
-      console.log(`🔍 DEBUG: Audio check: sounds dir exists=${soundsDirExists}, audio files=${audioFiles.length}`)
+    await extractAudio(swfFile, swf, outputDir)
 
-      // Always try FFmpeg for audio extraction since JPEXS has issues with some SWF audio formats
-      console.log(`🔄 DEBUG: Using FFmpeg for audio extraction...`)
-    }
-
-    // Always try FFmpeg for audio extraction since JPEXS has issues with some SWF audio formats
-    try {
-      await extractAudioWithFFmpeg(swfFile, outputDir)
-      if (process.env.NODE_ENV !== 'test') {
-        console.log(`✅ DEBUG: FFmpeg audio extraction completed`)
-      }
-    } catch (fallbackError: any) {
-      if (process.env.NODE_ENV !== 'test') {
-        console.log(`❌ DEBUG: FFmpeg audio extraction failed: ${fallbackError.message}`)
-      }
-    }
-    
     // If JPEXS completely failed (no frames extracted), we need to fail
     // Check both frames subdirectory and root directory for PNG files
     const framesDir = path.join(outputDir, 'frames')
@@ -487,6 +946,52 @@ export const extractSWF = async (swfFile: string, outputDir: string, testFrames?
   }
 }
 
+/**
+ * Extract an SWF's embedded video stream and audio without JPEXS
+ *
+ * For SWFs whose recording is stored as a DefineVideoStream, the VideoFrame tags are
+ * rewrapped into video/stream.flv and the audio is extracted as usual. Nothing is
+ * rasterised, so JPEXS (and its timeout handling) is not involved at all.
+ *
+ * A selection keeps the video frames on the selected SWF frames, starting from the
+ * keyframe before them so the first selected frame can be decoded. The video is
+ * still timestamped from the start of the SWF; the converter seeks to the selection.
+ *
+ * @param swfFile - Path to the input SWF file
+ * @param outputDir - Directory where extracted content will be saved
+ * @param frames - Optional: SWF frames to keep video frames from, as a selection or the number of frames from the start
+ * @returns Information about the written video, or null if the SWF has no usable
+ *          video stream (in which case nothing is written)
+ * @throws Error if the SWF file cannot be read or parsed
+ */
+export const extractSWFVideoStream = async (
+  swfFile: string,
+  outputDir: string,
+  frames?: number | FrameSelection
+): Promise<VideoStreamInfo | null> => {
+  const swf = parseSWF(swfFile)
+  let stream = demuxVideoStream(swf)
+  if (!stream) {
+    return null
+  }
+
+  const selection = resolveFrameSelection(typeof frames === 'number' ? { limit: frames } : frames, swf.header)
+  if (selection) {
+    stream = selectVideoFrames(stream, selection)
+    if (!stream) {
+      return null
+    }
+  }
+
+  const info = writeVideoStream(stream, path.join(outputDir, 'video'), swf.header.frameRate)
+  if (process.env.NODE_ENV !== 'test') {
+    console.log(`🎞️ DEBUG: Embedded video stream: ${info.codecName} ${info.width}x${info.height}, ${info.frameCount} frames (${info.keyframes} keyframes)`)
+  }
+
+  await extractAudio(swfFile, swf, outputDir)
+  return info
+}
+
 /**
  * Result of analyzing extracted SWF content
  *
@@ -494,14 +999,26 @@ export const extractSWF = async (swfFile: string, outputDir: string, testFrames?
  * providing all information needed for subsequent video conversion.
  */
 export interface ExtractedContent {
+  /** Base directory the content was extracted to */
+  outputDir: string
   /** Directory containing the frame images (may be frames/ subdir or root) */
   framesDir: string
   /** Array of full paths to extracted frame files, sorted numerically */
   frameFiles: string[]
   /** Array of full paths to extracted audio files */
   audioFiles: string[]
+  /** Directory containing extracted sounds (paths in sidecars are relative to it) */
+  soundsDir: string
   /** Total number of frame images found */
   frameCount: number
+  /** Timing of the natively demuxed stream sound, if it was extracted that way */
+  soundStream: SoundStreamInfo | null
+  /** Event sounds and their trigger frames, if the SWF starts any */
+  soundTimeline: SoundTimeline | null
+  /** Full path to the demuxed embedded video stream, if it was extracted directly */
+  videoFile: string | null
+  /** Information about the demuxed embedded video stream */
+  videoStream: VideoStreamInfo | null
 }
 
 /**
@@ -516,6 +1033,10 @@ export interface ExtractedContent {
  * - Uses whichever location has more frames (or root directory if equal)
  * - Sorts frame files numerically to ensure correct video sequence
  * - Identifies all supported audio formats (MP3, WAV, FLV)
+ * - Loads stream sound timing saved by the native demuxer, if present
+ * - Loads the event sound timeline (event sound files live in sounds/events/ and
+ *   are not listed in audioFiles)
+ * - Loads the directly demuxed embedded video stream (video/stream.flv), if present
  *
  * @param outputDir - Base directory containing extracted content
  * @returns ExtractedContent object with organized file paths and metadata
@@ -523,6 +1044,8 @@ export interface ExtractedContent {
 export const analyzeExtractedContent = (outputDir: string): ExtractedContent => {
   const framesDir = path.join(outputDir, 'frames')
   const soundsDir = path.join(outputDir, 'sounds')
+  const videoDir = path.join(outputDir, 'video')
+  const videoStream = readVideoStreamInfo(videoDir)
   
   // Find frame files (check both frames subdirectory and root directory)
   let frameFiles: string[] = []
@@ -573,9 +1096,15 @@ export const analyzeExtractedContent = (outputDir: string): ExtractedContent =>
   }
   
   return {
+    outputDir,
     framesDir: actualFramesDir,
     frameFiles,
     audioFiles,
-    frameCount: frameFiles.length
+    soundsDir,
+    frameCount: frameFiles.length,
+    soundStream: readSoundStreamInfo(soundsDir),
+    soundTimeline: readSoundTimeline(soundsDir),
+    videoFile: videoStream ? path.join(videoDir, videoStream.file) : null,
+    videoStream
   }
 }
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Frame Sequence Manifests
+ *
+ * FFmpeg reads the extracted frames from an explicit ffconcat manifest rather than
+ * an image2 `%d.png` pattern, which silently stops at the first missing number.
+ * The manifest lists every frame file with its duration, so:
+ *
+ * - Frames are placed by the number in their file name; numbers missing from the
+ *   extraction are reported as gaps and filled by holding the frame before them
+ * - Runs of identical frames are listed once with the duration of the run. Camtasia
+ *   screencasts hold most frames unchanged for seconds at a time (a slide, a paused
+ *   cursor), yet JPEXS writes every frame as a full PNG
+ *
+ * FFmpeg's image demuxer timestamps manifest entries at a fixed 25 FPS, whatever
+ * the durations say. The manifest therefore counts durations in frames at that rate,
+ * so every entry starts exactly on the demuxer's time base, and the converter
+ * rescales the timestamps to the real frame rate (which may be fractional).
+ */
+
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import { FrameRate } from './frame-rate'
+
+/** Name of the ffconcat manifest written next to the frames */
+export const FRAME_MANIFEST_NAME = 'frames.ffconcat'
+
+/** Frame rate the image demuxer timestamps manifest entries at */
+export const MANIFEST_FRAME_RATE = 25
+
+/** A frame file and how long it is shown */
+export interface FrameRun {
+  /** Full path to the frame file */
+  file: string
+  /** Zero-based frame the run starts on */
+  frame: number
+  /** Number of frames the file is shown for (identical frames and held gaps) */
+  count: number
+}
+
+/** Frames missing from an extracted sequence */
+export interface FrameGap {
+  /** Zero-based first missing frame */
+  frame: number
+  /** Number of consecutive missing frames */
+  count: number
+}
+
+/** Extracted frames laid out on the SWF timeline */
+export interface FrameSequence {
+  /** Runs covering every frame, in order */
+  runs: FrameRun[]
+  /** Number of frames on the timeline, including gaps */
+  frameCount: number
+  /** Frames missing from the extraction, each held from the frame before it */
+  gaps: FrameGap[]
+}
+
+/**
+ * Place frame files on the timeline by the number at the end of their name
+ *
+ * JPEXS numbers frames from 1, and frames of a selection by their frame in the SWF.
+ * Files are placed in list order instead when any name has no number or two names share one.
+ *
+ * @param frameFiles - Frame files, sorted numerically
+ * @param firstFrame - Number of the frame the timeline starts on
+ * @returns Zero-based frame of each file
+ */
+const getFramePositions = (frameFiles: string[], firstFrame: number): number[] => {
+  const numbers = frameFiles.map(file => {
+    const match = /(\d+)$/.exec(path.basename(file, path.extname(file)))
+    return match ? parseInt(match[1], 10) : NaN
+  })
+  const ordered = numbers.every((number, index) => !isNaN(number) && (index === 0 || number > numbers[index - 1]))
+  if (!ordered) {
+    return frameFiles.map((file, index) => index)
+  }
+
+  const first = numbers[0] === 0 ? 0 : firstFrame
+  return numbers.map(number => number - first)
+}
+
+/**
+ * Lay out extracted frames on the timeline
+ *
+ * Frames are compared by a hash of their file contents; JPEXS renders identical
+ * frames to identical PNGs. A missing frame is held from the one before it (the
+ * first frame stands in for any missing from the start).
+ *
+ * @param frameFiles - Frame files, sorted numerically
+ * @param dedupe - Whether to collapse consecutive identical frames into one run
+ * @param firstFrame - Number of the frame the timeline starts on, when frames are selected (default: 1)
+ * @returns Runs, frame count and gaps of the sequence
+ */
+export const buildFrameSequence = (frameFiles: string[], dedupe: boolean = true, firstFrame: number = 1): FrameSequence => {
+  const positions = getFramePositions(frameFiles, firstFrame)
+  const runs: FrameRun[] = []
+  const gaps: FrameGap[] = []
+  let previousHash: string | null = null
+
+  frameFiles.forEach((file, index) => {
+    const frame = index === 0 ? 0 : positions[index]
+    const end = index + 1 < frameFiles.length ? positions[index + 1] : positions[index] + 1
+    const expected = index === 0 ? 0 : positions[index - 1] + 1
+    if (positions[index] > expected) {
+      gaps.push({ frame: expected, count: positions[index] - expected })
+    }
+
+    const hash = dedupe ? crypto.createHash('sha1').update(fs.readFileSync(file)).digest('hex') : null
+    if (hash !== null && hash === previousHash) {
+      runs[runs.length - 1].count += end - frame
+    } else {
+      runs.push({ file, frame, count: end - frame })
+      previousHash = hash
+    }
+  })
+
+  return { runs, frameCount: positions.length > 0 ? positions[positions.length - 1] + 1 : 0, gaps }
+}
+
+/** Quote a path for an ffconcat `file` directive */
+const quoteConcatPath = (file: string): string => `'${file.replace(/'/g, `'\\''`)}'`
+
+/**
+ * Create an ffconcat manifest playing each run's frame for the length of the run
+ *
+ * Durations are in frames at MANIFEST_FRAME_RATE (see the file overview). The last
+ * frame gets an entry of its own followed by a repeat, because the concat demuxer
+ * ignores the duration of the final entry; the repeat starts exactly at the end of
+ * the video, and the converter stops before it (see countManifestFrames).
+ *
+ * @param runs - Frame runs, as returned by buildFrameSequence
+ * @param manifestDir - Directory the manifest is written to (paths are relative to it)
+ * @returns Manifest contents
+ */
+export const createFrameManifest = (runs: FrameRun[], manifestDir: string): string => {
+  const lines = ['ffconcat version 1.0']
+  const addEntry = (file: string, count?: number) => {
+    lines.push(`file ${quoteConcatPath(path.relative(manifestDir, file).split(path.sep).join('/'))}`)
+    if (count !== undefined) {
+      lines.push(`duration ${count / MANIFEST_FRAME_RATE}`)
+    }
+  }
+
+  runs.forEach((run, index) => {
+    if (index === runs.length - 1 && run.count > 1) {
+      addEntry(run.file, run.count - 1)
+      addEntry(run.file, 1)
+    } else {
+      addEntry(run.file, run.count)
+    }
+  })
+  if (runs.length > 0) {
+    addEntry(runs[runs.length - 1].file)
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Count the frames a manifest plays before its closing repeat
+ *
+ * @param runs - Frame runs the manifest was created from
+ * @returns Number of frames to encode at variable frame rate
+ */
+export const countManifestFrames = (runs: FrameRun[]): number =>
+  runs.length + (runs.length > 0 && runs[runs.length - 1].count > 1 ? 1 : 0)
+
+/**
+ * Find the frames where a held frame (a slide) starts, for placing keyframes
+ *
+ * @param runs - Frame runs
+ * @param minFrames - Shortest run that counts as held
+ * @returns Zero-based start frames of the held runs, excluding the first frame
+ */
+export const getHeldFrameStarts = (runs: FrameRun[], minFrames: number): number[] =>
+  runs.filter(run => run.frame > 0 && run.count >= minFrames).map(run => run.frame)
+
+/**
+ * Build the filters moving manifest timestamps onto the timeline's frame rate
+ *
+ * Frame N of the manifest is at N / MANIFEST_FRAME_RATE seconds. In a time base of
+ * 1 / (MANIFEST_FRAME_RATE * numerator) that is N * numerator ticks, so scaling by
+ * MANIFEST_FRAME_RATE * denominator / numerator gives a whole number of ticks and
+ * places the frame at N * denominator / numerator seconds without rounding.
+ *
+ * @param frameRate - Timeline frame rate
+ * @returns settb and setpts filters
+ */
+export const getManifestTimestampFilters = (frameRate: FrameRate): string[] => [
+  `settb=1/${MANIFEST_FRAME_RATE * frameRate.numerator}`,
+  `setpts=PTS*${MANIFEST_FRAME_RATE * frameRate.denominator}/${frameRate.numerator}`
+]
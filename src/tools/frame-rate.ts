@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Frame Rates
+ *
+ * The SWF header stores the frame rate as an 8.8 fixed-point number, so a movie
+ * authored at 12.5 fps really runs at exactly 3200/256 = 25/2 fps, and one set to
+ * 8.8 fps at 2252/256 = 563/64 fps. Rounding those to whole numbers makes the video
+ * drift against the narration by seconds over a long lesson, so frame rates are
+ * carried as exact fractions from the header (or the `--framerate` option) to
+ * FFmpeg, which accepts them as `numerator/denominator`.
+ *
+ * `--framerate` takes whole numbers (`30`), decimals (`12.5`, `29.97`) and
+ * fractions (`30000/1001`); decimals are exact as written.
+ *
+ * A frame rate policy decides how the detected and requested rates are used:
+ *
+ * - `auto` - play the frames at the rate in the SWF header (the default without a rate)
+ * - `force` - play the frames at the requested rate instead, so the video runs
+ *   faster or slower than the SWF (the default with a rate)
+ * - `output` - play the frames at the detected rate and resample them to the
+ *   requested rate, duplicating or dropping frames so the duration is kept
+ *
+ * An embedded video stream keeps its own timing under every policy; a requested
+ * rate only sets the rate it is resampled to.
+ */
+
+import { SWFHeader } from './swf-parser'
+
+/** An exact frame rate in frames per second, always in lowest terms */
+export interface FrameRate {
+  numerator: number
+  denominator: number
+}
+
+/** How the detected and requested frame rates are used */
+export type FrameRatePolicyName = 'auto' | 'force' | 'output'
+
+/** All frame rate policies */
+export const FRAME_RATE_POLICIES: FrameRatePolicyName[] = ['auto', 'force', 'output']
+
+/** Frame rates a policy resolved to for one SWF */
+export interface ResolvedFrameRate {
+  /** Policy applied */
+  policy: FrameRatePolicyName
+  /** Frame rate in the SWF header (or the default if it couldn't be read) */
+  detected: FrameRate
+  /** Frame rate the frames are played at */
+  timeline: FrameRate
+  /** Frame rate of the encoded video */
+  output: FrameRate
+  /** Optional: Whether the timeline rate was inferred from the audio by the framerate A/V sync strategy */
+  inferredFromAudio?: boolean
+}
+
+/** Frame rate used when none is given or the SWF header can't be read */
+export const DEFAULT_FRAME_RATE: FrameRate = { numerator: 30, denominator: 1 }
+
+/** Highest frame rate taken from an SWF header; anything above is treated as unreadable */
+export const MAX_SWF_FRAME_RATE = 120
+
+/** Greatest common divisor of two whole numbers */
+const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b)
+
+/**
+ * Create a frame rate from a fraction, reducing it to lowest terms
+ *
+ * @param numerator - Frames
+ * @param denominator - Seconds
+ * @returns The frame rate
+ * @throws Error if either part isn't a positive whole number
+ */
+export const createFrameRate = (numerator: number, denominator: number = 1): FrameRate => {
+  if (!Number.isSafeInteger(numerator) || !Number.isSafeInteger(denominator) || numerator <= 0 || denominator <= 0) {
+    throw new Error(`Invalid frame rate ${numerator}/${denominator}`)
+  }
+  const divisor = gcd(numerator, denominator)
+  return { numerator: numerator / divisor, denominator: denominator / divisor }
+}
+
+/**
+ * Parse a frame rate as given on the command line
+ *
+ * @param value - Whole number, decimal or fraction, e.g. 30, 12.5 or 30000/1001
+ * @returns The exact frame rate
+ * @throws Error if the value isn't a positive number or fraction
+ */
+export const parseFrameRate = (value: string): FrameRate => {
+  const text = value.trim()
+  const fraction = /^(\d+)\/(\d+)$/.exec(text)
+  const decimal = /^(\d+)(?:\.(\d+))?$/.exec(text)
+  try {
+    if (fraction) {
+      return createFrameRate(parseInt(fraction[1], 10), parseInt(fraction[2], 10))
+    }
+    if (decimal) {
+      const decimals = decimal[2] ?? ''
+      return createFrameRate(parseInt(decimal[1] + decimals, 10), 10 ** decimals.length)
+    }
+  } catch (error) {
+    // Reported below with the value as given
+  }
+  throw new Error(`Invalid frame rate "${value}" (expected a number such as 30 or 12.5, or a fraction such as 30000/1001)`)
+}
+
+/**
+ * Turn a frame rate given as a number or a fraction into a fraction
+ *
+ * @param value - Frame rate; a number is taken as exactly the decimal it prints as
+ * @returns The exact frame rate
+ * @throws Error if the value isn't a positive frame rate
+ */
+export const toFrameRate = (value: number | FrameRate): FrameRate =>
+  typeof value === 'number' ? parseFrameRate(value.toString()) : createFrameRate(value.numerator, value.denominator)
+
+/**
+ * Get the exact frame rate stored in an SWF header
+ *
+ * @param header - Parsed SWF header
+ * @returns The frame rate, or null if it is zero or above MAX_SWF_FRAME_RATE
+ */
+export const getSWFFrameRate = (header: SWFHeader): FrameRate | null =>
+  header.frameRateRaw > 0 && header.frameRate <= MAX_SWF_FRAME_RATE ? createFrameRate(header.frameRateRaw, 256) : null
+
+/**
+ * Get a frame rate as a number, for timeline arithmetic
+ *
+ * @param rate - Frame rate
+ * @returns Frames per second
+ */
+export const frameRateToNumber = (rate: FrameRate): number => rate.numerator / rate.denominator
+
+/**
+ * Check whether two frame rates are the same
+ *
+ * @param a - First frame rate
+ * @param b - Second frame rate
+ * @returns True if they are equal
+ */
+export const isSameFrameRate = (a: FrameRate, b: FrameRate): boolean =>
+  a.numerator * b.denominator === b.numerator * a.denominator
+
+/**
+ * Format a frame rate for FFmpeg's -r and -framerate options
+ *
+ * @param rate - Frame rate
+ * @returns The whole number, or the exact fraction (e.g. '25/2')
+ */
+export const formatFrameRate = (rate: FrameRate): string =>
+  rate.denominator === 1 ? rate.numerator.toString() : `${rate.numerator}/${rate.denominator}`
+
+/**
+ * Describe a frame rate for log messages
+ *
+ * @param rate - Frame rate
+ * @returns The rate to at most three decimals, followed by the exact fraction when it isn't a whole number
+ */
+export const describeFrameRate = (rate: FrameRate): string =>
+  rate.denominator === 1
+    ? rate.numerator.toString()
+    : `${parseFloat(frameRateToNumber(rate).toFixed(3))} (${formatFrameRate(rate)})`
+
+/**
+ * Get the frame rate policy for the options given
+ *
+ * @param framerate - Requested frame rate, if any
+ * @param policy - Requested policy (default: force with a frame rate, auto without)
+ * @returns The policy
+ * @throws Error if the policy is unknown, or doesn't fit whether a frame rate was given
+ */
+export const getFrameRatePolicy = (framerate?: number | FrameRate, policy?: FrameRatePolicyName): FrameRatePolicyName => {
+  if (policy === undefined) {
+    return framerate === undefined ? 'auto' : 'force'
+  }
+  if (!FRAME_RATE_POLICIES.includes(policy)) {
+    throw new Error(`Unknown frame rate policy "${policy}" (available: ${FRAME_RATE_POLICIES.join(', ')})`)
+  }
+  if (policy === 'auto' && framerate !== undefined) {
+    throw new Error('The auto frame rate policy uses the detected frame rate, so it takes no frame rate')
+  }
+  if (policy !== 'auto' && framerate === undefined) {
+    throw new Error(`The ${policy} frame rate policy needs a frame rate`)
+  }
+  return policy
+}
+
+/**
+ * Resolve the frame rates of one SWF under a policy
+ *
+ * @param detected - Frame rate in the SWF header
+ * @param framerate - Requested frame rate, if any
+ * @param policy - Requested policy (see getFrameRatePolicy)
+ * @returns The timeline and output frame rates
+ * @throws Error if the policy or frame rate is invalid
+ */
+export const resolveFrameRate = (
+  detected: FrameRate,
+  framerate?: number | FrameRate,
+  policy?: FrameRatePolicyName
+): ResolvedFrameRate => {
+  const resolvedPolicy = getFrameRatePolicy(framerate, policy)
+  const requested = framerate === undefined ? detected : toFrameRate(framerate)
+  switch (resolvedPolicy) {
+    case 'force':
+      return { policy: resolvedPolicy, detected, timeline: requested, output: requested }
+    case 'output':
+      return { policy: resolvedPolicy, detected, timeline: detected, output: requested }
+    default:
+      return { policy: resolvedPolicy, detected, timeline: detected, output: detected }
+  }
+}
+
+/**
+ * Describe the frame rates a policy resolved to, for log messages
+ *
+ * @param resolved - Resolved frame rates
+ * @returns E.g. 'auto, 12.5 (25/2) FPS' or 'output, 12.5 (25/2) FPS resampled to 30 FPS'
+ */
+export const describeFrameRatePolicy = (resolved: ResolvedFrameRate): string => {
+  const { policy, detected, timeline, output, inferredFromAudio } = resolved
+  const played = inferredFromAudio
+    ? `${describeFrameRate(timeline)} FPS inferred from the audio (detected ${describeFrameRate(detected)} FPS)`
+    : `${describeFrameRate(detected)} FPS`
+  switch (policy) {
+    case 'force':
+      return `force, ${describeFrameRate(output)} FPS (detected ${describeFrameRate(detected)} FPS)`
+    case 'output':
+      return `output, ${played} resampled to ${describeFrameRate(output)} FPS`
+    default:
+      return `auto, ${played}`
+  }
+}
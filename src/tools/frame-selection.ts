@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Frame Selection
+ *
+ * Extraction and conversion can be limited to a section of the timeline, given by
+ * `--start` and `--end` positions. A position is either a frame number or a timestamp:
+ *
+ * - `1200` is frame 1200, numbered from 1 like JPEXS does
+ * - `23:00`, `1:02:03.5` and `90s` are times on the SWF's timeline, at its own frame rate
+ *
+ * A start time selects the frame on screen at that time, and an end time the last
+ * frame that starts before it, so `--start 1:00 --end 2:00` covers exactly one minute.
+ * Both ends are inclusive and resolve to the frame range JPEXS exports with `-select`.
+ * The test frame limit still applies, counted from the start of the selection.
+ */
+
+import { SWFHeader } from './swf-parser'
+import { FrameRange } from './extractor'
+
+/** A position on the timeline: a frame number, or a time in seconds */
+export type FramePosition = { frame: number } | { time: number }
+
+/** Section of the timeline to extract or convert */
+export interface FrameSelection {
+  /** Optional: First position to include (default: the first frame) */
+  start?: FramePosition
+  /** Optional: Last position to include (default: the last frame) */
+  end?: FramePosition
+  /** Optional: Extract at most this many frames from the start, for testing */
+  limit?: number
+}
+
+/** Tolerance for times that land exactly on a frame boundary */
+const FRAME_EPSILON = 1e-6
+
+/**
+ * Parse a `--start` or `--end` value
+ *
+ * @param value - Frame number (e.g. 1200) or timestamp (e.g. 23:00, 1:02:03.5 or 90s)
+ * @returns The parsed position
+ * @throws Error if the value is neither a frame number nor a timestamp
+ */
+export const parseFramePosition = (value: string): FramePosition => {
+  const text = value.trim()
+  if (/^\d+$/.test(text)) {
+    const frame = parseInt(text, 10)
+    if (frame <= 0) {
+      throw new Error('Frame numbers start at 1')
+    }
+    return { frame }
+  }
+
+  const seconds = /^(\d+(?:\.\d+)?)s$/.exec(text)
+  if (seconds) {
+    return { time: parseFloat(seconds[1]) }
+  }
+
+  const clock = /^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/.exec(text)
+  if (clock && parseInt(clock[2], 10) < 60 && parseFloat(clock[3]) < 60) {
+    const [, hours, minutes, secs] = clock
+    return { time: parseInt(hours ?? '0', 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(secs) }
+  }
+
+  throw new Error(`Invalid position "${value}": use a frame number (e.g. 1200) or a timestamp (e.g. 23:00, 1:02:03.5 or 90s)`)
+}
+
+/**
+ * Check whether a selection limits the timeline at all
+ *
+ * @param selection - Selection to check
+ * @returns True if a start, end or frame limit is given
+ */
+export const hasFrameSelection = (selection: FrameSelection | undefined): boolean =>
+  selection !== undefined && (selection.start !== undefined || selection.end !== undefined || selection.limit !== undefined)
+
+/**
+ * Resolve a selection to the frames it covers
+ *
+ * @param selection - Start, end and frame limit
+ * @param header - SWF header (null if unreadable), for its frame rate and frame count
+ * @returns The selected frames, or null if the selection covers the whole timeline
+ * @throws Error if a timestamp is given without a frame rate, the selection starts
+ *         past the last frame or after its end, or it has no end and the header
+ *         doesn't say how many frames there are
+ */
+export const resolveFrameSelection = (selection: FrameSelection | undefined, header: SWFHeader | null): FrameRange | null => {
+  if (!selection || !hasFrameSelection(selection)) {
+    return null
+  }
+
+  const frameRate = header?.frameRate ?? 0
+  const frameCount = header?.frameCount ?? 0
+  const toFrame = (position: FramePosition, edge: 'start' | 'end'): number => {
+    if ('frame' in position) {
+      return position.frame
+    }
+    if (frameRate <= 0) {
+      throw new Error('The SWF header has no frame rate, so the selection must be given in frames')
+    }
+    const frames = position.time * frameRate
+    return edge === 'start' ? Math.floor(frames + FRAME_EPSILON) + 1 : Math.ceil(frames - FRAME_EPSILON)
+  }
+
+  const first = selection.start ? toFrame(selection.start, 'start') : 1
+  let last = selection.end ? toFrame(selection.end, 'end') : frameCount > 0 ? frameCount : Infinity
+  if (selection.limit !== undefined) {
+    last = Math.min(last, first + selection.limit - 1)
+  }
+  if (frameCount > 0) {
+    if (first > frameCount) {
+      throw new Error(`The selection starts at frame ${first}, but the SWF has only ${frameCount} frames`)
+    }
+    last = Math.min(last, frameCount)
+  }
+  if (last === Infinity) {
+    throw new Error('The SWF header has no frame count, so the selection needs an end')
+  }
+  if (last < first) {
+    throw new Error(`The selection starts at frame ${first}, after its end at frame ${last}`)
+  }
+  return { first, last }
+}
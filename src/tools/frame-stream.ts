@@ -0,0 +1,311 @@
+/**
+ * @fileoverview Frame Streaming
+ *
+ * Extracting to the temp directory writes every frame as a full PNG before FFmpeg
+ * reads any of them, which comes to tens of gigabytes for a long lesson. When
+ * streaming, frames are written to a pipe FFmpeg reads as image2pipe input while
+ * JPEXS exports them, and each file is deleted once it is in the pipe:
+ *
+ * - JPEXS exports frames in order and reports each one ("Exported frame N/M"), so a
+ *   frame file is complete once it has been reported, a later frame exists, or JPEXS has exited
+ * - Frames JPEXS didn't export are filled by writing the frame before them again, as
+ *   in the frame manifest; frames missing at the start are filled by the first frame
+ * - While FFmpeg is behind, frames pile up on disk, so JPEXS is paused (SIGSTOP) once
+ *   MAX_PENDING_FRAMES are waiting and resumed when half of them have been written.
+ *   Peak disk usage stays bounded by that many frames however long the SWF is
+ *
+ * Pausing a process needs POSIX signals, so the converter doesn't stream on Windows.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { Writable } from 'stream'
+import { ChildProcess } from 'child_process'
+import { extractSWFContent, getExtractionTimeoutMinutes } from './extractor'
+import { FrameGap } from './frame-manifest'
+
+/** Number of exported frames that may wait on disk before JPEXS is paused */
+export const MAX_PENDING_FRAMES = 64
+
+/** How often the frames are checked between JPEXS progress reports, in milliseconds */
+const POLL_INTERVAL_MS = 250
+
+/** Configuration options for streaming frames */
+export interface FrameStreamOptions {
+  /** Number of frames on the timeline (the SWF's frame count, or the test frame limit) */
+  frameCount: number
+  /** Optional: Extract only the first N frames for testing */
+  testFrames?: number
+  /** Optional: Override extraction timeout in minutes */
+  timeoutMinutes?: number
+  /** Optional: Rasterise frames at this multiple of the stage size (default: 1) */
+  renderScale?: number
+}
+
+/** Frames written to the pipe */
+export interface FrameStreamResult {
+  /** Number of frames written, including held gaps */
+  frameCount: number
+  /** Frames JPEXS didn't export, each held from the frame before it */
+  gaps: FrameGap[]
+}
+
+/** A running frame stream */
+export interface FrameStream {
+  /** Resolves once every frame is in the pipe and the pipe is closed */
+  result: Promise<FrameStreamResult>
+  /** Stop JPEXS and close the pipe (e.g. when FFmpeg has failed) */
+  stop: () => void
+}
+
+/** Wait until a pipe accepts more data, failing if it is closed first */
+const waitForDrain = (output: Writable): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      output.off('drain', onDrain)
+      output.off('close', onClose)
+      output.off('error', settle)
+      if (error) {
+        reject(error)
+      } else {
+        resolve()
+      }
+    }
+    const onDrain = () => settle()
+    const onClose = () => settle(new Error('The frame pipe was closed'))
+    output.on('drain', onDrain)
+    output.on('close', onClose)
+    output.on('error', settle)
+  })
+
+/**
+ * Write exported frames to a pipe in timeline order, deleting each file once written
+ *
+ * Frames are looked for in outputDir/frames and in outputDir itself, like
+ * analyzeExtractedContent does.
+ *
+ * @param outputDir - Directory JPEXS exports to
+ * @param output - Pipe FFmpeg reads the frames from
+ * @param frameCount - Number of frames on the timeline
+ * @returns feed() writes every complete frame, pending() counts the frame files
+ *          waiting on disk, done() tells whether the timeline is full and result()
+ *          describes what was written
+ * @export Exported for testing purposes
+ */
+export const createFrameFeeder = (outputDir: string, output: Writable, frameCount: number) => {
+  const frameDirs = [path.join(outputDir, 'frames'), outputDir]
+  const findFrame = (frame: number): string | null =>
+    frameDirs.map(dir => path.join(dir, `${frame}.png`)).find(file => fs.existsSync(file)) ?? null
+
+  let next = 1  // JPEXS numbers frames from 1
+  let written = 0
+  let previous: Buffer | null = null
+  const gaps: FrameGap[] = []
+
+  const write = async (data: Buffer, times: number): Promise<void> => {
+    for (let i = 0; i < times; i++) {
+      if (output.destroyed) {
+        throw new Error('The frame pipe was closed')
+      }
+      if (!output.write(data)) {
+        await waitForDrain(output)
+      }
+      written++
+    }
+  }
+
+  const addGap = (frame: number) => {
+    const last = gaps[gaps.length - 1]
+    if (last && last.frame + last.count === frame) {
+      last.count++
+    } else {
+      gaps.push({ frame, count: 1 })
+    }
+  }
+
+  /**
+   * Write every frame that is complete
+   *
+   * @param exported - Highest frame JPEXS has reported as exported
+   * @param finished - Whether JPEXS has exited, so every remaining frame is either complete or missing
+   */
+  const feed = async (exported: number, finished: boolean): Promise<void> => {
+    while (next <= frameCount) {
+      const file = findFrame(next)
+      if (!finished && next > exported && findFrame(next + 1) === null) {
+        return
+      }
+
+      if (file) {
+        const data = fs.readFileSync(file)
+        fs.rmSync(file, { force: true })
+        // Frames missing at the start are filled by the first frame
+        await write(data, previous ? 1 : next)
+        previous = data
+      } else {
+        addGap(next - 1)
+        if (previous) {
+          await write(previous, 1)
+        }
+      }
+      next++
+    }
+  }
+
+  const pending = (): number =>
+    frameDirs.reduce((count, dir) => count + (fs.existsSync(dir) ? fs.readdirSync(dir).filter(file => /\.png$/i.test(file)).length : 0), 0)
+
+  const done = (): boolean => next > frameCount
+
+  const result = (): FrameStreamResult => ({ frameCount: written, gaps })
+
+  return { feed, pending, done, result }
+}
+
+/**
+ * Export an SWF's frames with JPEXS and stream them to a pipe as they are written
+ *
+ * The sounds are extracted separately (extractAudio).
+ * The pipe is ended once the timeline is full or streaming fails, and destroyed when
+ * the stream is stopped before that.
+ * The extraction timeout only counts time JPEXS isn't paused.
+ *
+ * @param swfFile - Path to the input SWF file
+ * @param outputDir - Directory JPEXS exports the frames to
+ * @param output - Pipe FFmpeg reads the frames from
+ * @param options - Frame count, test frame limit and timeout
+ * @returns The running stream; its result rejects if no frames were exported, JPEXS
+ *          exited with an error, the extraction timed out or the stream was stopped
+ */
+export const streamSWFFrames = (swfFile: string, outputDir: string, output: Writable, options: FrameStreamOptions): FrameStream => {
+  const feeder = createFrameFeeder(outputDir, output, options.frameCount)
+  const timeoutMinutes = getExtractionTimeoutMinutes(swfFile, options.timeoutMinutes)
+
+  let exported = 0
+  let finished = false
+  let stopped = false
+  let paused = false
+  let failure: Error | null = null
+  let wake: (() => void) | null = null
+  const notify = () => {
+    const resolve = wake
+    wake = null
+    resolve?.()
+  }
+
+  const signal = (name: NodeJS.Signals) => {
+    if (jpexs && !finished) {
+      jpexs.kill(name)
+    }
+  }
+
+  // Pause JPEXS while FFmpeg is behind, checked on every progress report and poll
+  const checkBacklog = () => {
+    const pending = feeder.pending()
+    if (!paused && pending >= MAX_PENDING_FRAMES) {
+      signal('SIGSTOP')
+      paused = true
+    } else if (paused && pending <= MAX_PENDING_FRAMES / 2) {
+      signal('SIGCONT')
+      paused = false
+    }
+  }
+
+  const jpexs: ChildProcess | null = extractSWFContent(
+    { swfFile, outputDir, testFrames: options.testFrames, renderScale: options.renderScale },
+    {
+      onError: (err: string) => {
+        if (err.trim() && process.env.NODE_ENV !== 'test') {
+          console.error(`Extraction error: ${err.trim()}`)
+        }
+      },
+      onClose: (code: number | null) => {
+        finished = true
+        // A crash would otherwise leave every frame JPEXS didn't export to be held as a gap
+        if (code !== 0 && !stopped && !failure) {
+          failure = new Error(`JPEXS ${code === null ? 'was killed' : `exited with code ${code}`} before exporting every frame`)
+        }
+        notify()
+      },
+      onStdout: (data: string) => {
+        for (const match of data.matchAll(/Exported frame (\d+)\//g)) {
+          exported = Math.max(exported, parseInt(match[1], 10))
+        }
+        checkBacklog()
+        notify()
+      }
+    }
+  )
+
+  // Time out on the time JPEXS actually runs
+  let activeMs = 0
+  let lastTick = Date.now()
+  const monitor = setInterval(() => {
+    const now = Date.now()
+    if (!paused) {
+      activeMs += now - lastTick
+    }
+    lastTick = now
+
+    checkBacklog()
+    if (activeMs > timeoutMinutes * 60000 && !failure) {
+      failure = new Error(`JPEXS extraction timed out after ${timeoutMinutes} minutes`)
+    }
+    notify()
+  }, POLL_INTERVAL_MS)
+
+  const run = async (): Promise<FrameStreamResult> => {
+    try {
+      if (!jpexs) {
+        throw new Error('JPEXS extraction failed completely and no frames were extracted')
+      }
+      while (!stopped && !failure) {
+        const jpexsFinished = finished
+        await feeder.feed(exported, jpexsFinished)
+        if (jpexsFinished || feeder.done()) {
+          break
+        }
+        await new Promise<void>(resolve => {
+          wake = resolve
+        })
+      }
+
+      if (failure) {
+        throw failure
+      }
+      if (stopped) {
+        throw new Error('Frame streaming was stopped')
+      }
+      const result = feeder.result()
+      if (result.frameCount === 0) {
+        throw new Error('JPEXS extraction failed completely and no frames were extracted')
+      }
+      output.end()
+      return result
+    } catch (error) {
+      // Ending the pipe lets FFmpeg finish; it is only destroyed once FFmpeg has stopped reading
+      if (!output.destroyed) {
+        output.end()
+      }
+      throw error
+    } finally {
+      clearInterval(monitor)
+      // JPEXS isn't needed once the timeline is full (or streaming failed)
+      if (paused) {
+        signal('SIGCONT')
+      }
+      signal('SIGTERM')
+    }
+  }
+
+  return {
+    result: run(),
+    stop: () => {
+      stopped = true
+      if (!output.writableEnded) {
+        output.destroy()
+      }
+      notify()
+    }
+  }
+}
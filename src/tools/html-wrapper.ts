@@ -0,0 +1,399 @@
+/**
+ * @fileoverview HTML Wrapper Discovery
+ *
+ * Flash content was published inside HTML pages, and for an archive of course
+ * folders the page is often the only reliable pointer to the SWF that matters.
+ * This module reads a wrapper page and finds the SWFs it embeds, with the declared
+ * size and FlashVars, from every common embedding style:
+ *
+ * - `<object>` tags (`data` attribute or `movie` param) and `<embed>` tags
+ * - SWFObject 2 (`swfobject.embedSWF(...)`) and SWFObject 1 (`new SWFObject(...)` with `addVariable`)
+ * - Adobe's `AC_FL_RunContent(...)` script
+ *
+ * FlashVars often name the real content: Camtasia pages embed the playback controller
+ * and pass the config XML (and through it the content SWF) as FlashVars. Every SWF the
+ * page refers to is returned, so project discovery can pick the content SWF and report
+ * the controller as skipped.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { decodeEntities } from '../utils/xml'
+import { getProjectRole, readProjectConfig, SkippedSWF } from './project'
+
+/** How a page embeds an SWF */
+export type EmbedSource = 'object' | 'embed' | 'swfobject' | 'ac-fl-runcontent'
+
+/** An SWF embedded by an HTML page */
+export interface HTMLEmbed {
+  source: EmbedSource
+  /** SWF URL as written in the page, without its query string */
+  src: string
+  /** Full path to the SWF, or null if it is a remote URL */
+  file: string | null
+  /** Declared width in pixels, or null if absent or relative (e.g. "100%") */
+  width: number | null
+  /** Declared height in pixels, or null if absent or relative */
+  height: number | null
+  /** FlashVars from the embedding code and the SWF URL's query string */
+  flashVars: Record<string, string>
+}
+
+/** SWFs referred to by an HTML page */
+export interface HTMLWrapperContent {
+  embeds: HTMLEmbed[]
+  /** Local SWF files referred to by the page (embedded, or named in FlashVars or a config XML they point at) */
+  swfFiles: string[]
+  /** References that can't be converted (remote or missing files), with the reason */
+  skipped: SkippedSWF[]
+}
+
+/**
+ * Check whether a path names an HTML page
+ *
+ * @param file - File path
+ * @returns True for .html and .htm files
+ */
+export const isHTMLFile = (file: string): boolean => /\.html?$/i.test(file)
+
+/** Parse a width/height value; relative sizes such as "100%" have no pixel size */
+const parseDimension = (value: string | undefined): number | null =>
+  value !== undefined && /^\s*\d+(px)?\s*$/i.test(value) ? parseInt(value, 10) : null
+
+/** Decode a URL-encoded component, keeping the raw text if it is malformed */
+const decodeComponent = (value: string): string => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '))
+  } catch (error) {
+    return value
+  }
+}
+
+/**
+ * Parse a FlashVars string (`name=value&name2=value2`, URL-encoded)
+ *
+ * @param value - FlashVars string
+ * @returns FlashVars by name
+ */
+export const parseFlashVars = (value: string): Record<string, string> => {
+  const flashVars: Record<string, string> = {}
+  for (const pair of value.split('&')) {
+    const separator = pair.indexOf('=')
+    const name = decodeComponent(separator === -1 ? pair : pair.slice(0, separator)).trim()
+    if (name) {
+      flashVars[name] = separator === -1 ? '' : decodeComponent(pair.slice(separator + 1))
+    }
+  }
+  return flashVars
+}
+
+/** Parse the attributes of an HTML start tag */
+const parseAttributes = (text: string): Record<string, string> => {
+  const attributes: Record<string, string> = {}
+  const pattern = /([^\s=/>"']+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>"']+))/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[3] ?? match[4] ?? match[5])
+  }
+  return attributes
+}
+
+/**
+ * Split a JavaScript argument list at top-level commas
+ *
+ * Quotes, brackets and braces are tracked so object literals and strings
+ * containing commas stay in one argument.
+ *
+ * @param text - Source text
+ * @param start - Offset just past the opening parenthesis
+ * @returns The arguments (trimmed) and the offset just past the closing parenthesis
+ */
+export const splitArguments = (text: string, start: number): { args: string[]; end: number } => {
+  const args: string[] = []
+  let depth = 0
+  let quote: string | null = null
+  let current = ''
+
+  for (let i = start; i < text.length; i++) {
+    const character = text[i]
+    if (quote) {
+      if (character === '\\') {
+        current += character + (text[i + 1] ?? '')
+        i++
+        continue
+      }
+      if (character === quote) {
+        quote = null
+      }
+    } else if (character === '"' || character === "'") {
+      quote = character
+    } else if ('([{'.includes(character)) {
+      depth++
+    } else if (')]}'.includes(character)) {
+      if (depth === 0) {
+        args.push(current.trim())
+        return { args: args.filter((arg, i) => arg || i < args.length - 1), end: i + 1 }
+      }
+      depth--
+    } else if (character === ',' && depth === 0) {
+      args.push(current.trim())
+      current = ''
+      continue
+    }
+    current += character
+  }
+  return { args: [], end: text.length }
+}
+
+/**
+ * Get the value of a JavaScript string literal
+ *
+ * @param arg - Argument from splitArguments
+ * @returns The string, or null if the argument isn't a string literal
+ */
+export const stringLiteral = (arg: string | undefined): string | null => {
+  const match = arg ? /^(["'])([\s\S]*)\1$/.exec(arg) : null
+  return match ? match[2].replace(/\\(.)/g, '$1') : null
+}
+
+/** Parse the string-valued properties of a JavaScript object literal */
+const parseObjectLiteral = (text: string): Record<string, string> => {
+  const values: Record<string, string> = {}
+  const pattern = /(?:^|[{,])\s*(["']?)([\w$.-]+)\1\s*:\s*(["'])((?:\\.|(?!\3).)*)\3/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    values[match[2]] = match[4].replace(/\\(.)/g, '$1')
+  }
+  return values
+}
+
+/**
+ * Resolve the FlashVars argument of swfobject.embedSWF
+ *
+ * The argument is either an object literal or the name of a variable, built with
+ * an object literal and/or property assignments elsewhere in the page.
+ */
+const resolveSWFObjectVars = (html: string, arg: string | undefined): Record<string, string> => {
+  if (!arg) {
+    return {}
+  }
+  if (arg.startsWith('{')) {
+    return parseObjectLiteral(arg)
+  }
+  if (!/^[\w$]+$/.test(arg)) {
+    return {}
+  }
+  const name = arg.replace(/\$/g, '\\$')
+
+  const values: Record<string, string> = {}
+  const declaration = new RegExp(`\\b${name}\\s*=\\s*\\{`).exec(html)
+  if (declaration) {
+    const literal = splitArguments(html, declaration.index + declaration[0].length)
+    Object.assign(values, parseObjectLiteral(`{${literal.args.join(',')}}`))
+  }
+  const assignment = new RegExp(`\\b${name}(?:\\.([\\w$]+)|\\[(["'])([^"']+)\\2\\])\\s*=\\s*(["'])((?:\\\\.|(?!\\4).)*)\\4`, 'g')
+  let match: RegExpExecArray | null
+  while ((match = assignment.exec(html)) !== null) {
+    values[match[1] ?? match[3]] = match[5].replace(/\\(.)/g, '$1')
+  }
+  return values
+}
+
+/**
+ * Find the SWFs embedded by an HTML page
+ *
+ * Nested `<object>` tags and `<embed>` fallbacks usually repeat the same movie,
+ * so embeds of the same SWF are merged: the first declaration wins for the size,
+ * and FlashVars are combined.
+ *
+ * @param html - Page source
+ * @param baseDir - Directory relative SWF URLs are resolved against (the page's directory)
+ * @returns Embedded SWFs: markup embeds in page order, then script embeds
+ */
+export const parseHTMLEmbeds = (html: string, baseDir: string): HTMLEmbed[] => {
+  const found: Array<Omit<HTMLEmbed, 'file'>> = []
+  const add = (
+    source: EmbedSource,
+    url: string | null | undefined,
+    width: string | undefined,
+    height: string | undefined,
+    flashVars: Record<string, string>,
+    index: number = found.length
+  ) => {
+    if (!url) {
+      return
+    }
+    const [src, query] = url.trim().split('?', 2)
+    if (!/\.swf$/i.test(src)) {
+      return
+    }
+    found.splice(index, 0, {
+      source,
+      src,
+      width: parseDimension(width),
+      height: parseDimension(height),
+      flashVars: { ...(query ? parseFlashVars(query) : {}), ...flashVars }
+    })
+  }
+
+  // <object>/<param>/<embed> tags, in document order so params attach to their object.
+  // Comments are dropped, but IE conditional comments keep their markup (the IE-only <object>).
+  const markup = html.replace(/<!--[\s\S]*?-->/g, comment =>
+    /\[if|<!\[endif/i.test(comment) ? comment.replace(/<!--|-->/g, '') : ''
+  )
+  const objects: Array<{ attributes: Record<string, string>; params: Record<string, string>; index: number }> = []
+  const tagPattern = /<(\/?)(object|param|embed)\b([^>]*)>/gi
+  let tag: RegExpExecArray | null
+  while ((tag = tagPattern.exec(markup)) !== null) {
+    const name = tag[2].toLowerCase()
+    const attributes = parseAttributes(tag[3])
+    if (tag[1]) {
+      const object = name === 'object' ? objects.pop() : undefined
+      if (object) {
+        // Placed where the object opens, ahead of any fallback <embed> inside it
+        const { attributes: objectAttributes, params, index } = object
+        add('object', objectAttributes.data ?? params.movie ?? params.src, objectAttributes.width, objectAttributes.height, parseFlashVars(params.flashvars ?? ''), index)
+      }
+    } else if (name === 'object') {
+      objects.push({ attributes, params: {}, index: found.length })
+    } else if (name === 'param' && objects.length > 0 && attributes.name) {
+      objects[objects.length - 1].params[attributes.name.toLowerCase()] = attributes.value ?? ''
+    } else if (name === 'embed') {
+      add('embed', attributes.src, attributes.width, attributes.height, parseFlashVars(attributes.flashvars ?? ''))
+    }
+  }
+
+  // SWFObject 2: embedSWF(url, id, width, height, version, expressInstall, flashvars, params, attributes)
+  for (const call of html.matchAll(/swfobject\.embedSWF\s*\(/gi)) {
+    const { args } = splitArguments(html, call.index! + call[0].length)
+    const params = args[7]?.startsWith('{') ? parseObjectLiteral(args[7]) : {}
+    const flashVars = { ...parseFlashVars(params.flashvars ?? params.FlashVars ?? ''), ...resolveSWFObjectVars(html, args[6]) }
+    add('swfobject', stringLiteral(args[0]), stringLiteral(args[2]) ?? args[2], stringLiteral(args[3]) ?? args[3], flashVars)
+  }
+
+  // SWFObject 1: new SWFObject(url, id, width, height, version, background) + addVariable(name, value)
+  for (const call of html.matchAll(/new\s+SWFObject\s*\(/gi)) {
+    const { args } = splitArguments(html, call.index! + call[0].length)
+    const flashVars: Record<string, string> = {}
+    for (const variable of html.matchAll(/\.addVariable\s*\(\s*(["'])(.*?)\1\s*,\s*(["'])(.*?)\3\s*\)/g)) {
+      flashVars[variable[2]] = variable[4]
+    }
+    add('swfobject', stringLiteral(args[0]), stringLiteral(args[2]) ?? args[2], stringLiteral(args[3]) ?? args[3], flashVars)
+  }
+
+  // AC_FL_RunContent('name', 'value', ...) - the movie is given without its .swf extension
+  for (const call of html.matchAll(/AC_FL_RunContent\s*\(/g)) {
+    const { args } = splitArguments(html, call.index! + call[0].length)
+    const values: Record<string, string> = {}
+    for (let i = 0; i + 1 < args.length; i += 2) {
+      const name = stringLiteral(args[i])
+      const value = stringLiteral(args[i + 1])
+      if (name !== null && value !== null) {
+        values[name.toLowerCase()] = value
+      }
+    }
+    const movie = values.movie ?? values.src
+    const url = movie ? (movie.includes('?') || /\.swf$/i.test(movie) ? movie : `${movie}.swf`) : null
+    add('ac-fl-runcontent', url, values.width, values.height, parseFlashVars(values.flashvars ?? ''))
+  }
+
+  // Merge repeated embeds of the same SWF
+  const embeds: HTMLEmbed[] = []
+  for (const embed of found) {
+    const remote = /^[a-z][a-z0-9+.-]*:/i.test(embed.src) && !/^file:/i.test(embed.src)
+    const file = remote ? null : path.resolve(baseDir, decodeComponent(embed.src.replace(/^file:\/\//i, '')))
+    const existing = embeds.find(other => (file ? other.file === file : other.src === embed.src))
+    if (existing) {
+      existing.width ??= embed.width
+      existing.height ??= embed.height
+      existing.flashVars = { ...embed.flashVars, ...existing.flashVars }
+    } else {
+      embeds.push({ ...embed, file })
+    }
+  }
+  return embeds
+}
+
+/**
+ * List the local SWF files an embed refers to
+ *
+ * Besides the embedded SWF, FlashVars values naming an SWF or a Camtasia config
+ * XML are followed (relative to the page, as the Flash player resolves them).
+ * When the embed is a Camtasia controller or preloader, the project's content
+ * SWF is added so it can be converted in its place.
+ *
+ * @param embed - Embed from parseHTMLEmbeds
+ * @param baseDir - Directory of the page
+ * @returns Full paths in order of reference, without duplicates; the files may not exist
+ */
+export const getEmbedReferences = (embed: HTMLEmbed, baseDir: string): string[] => {
+  const references: string[] = embed.file ? [embed.file] : []
+
+  for (const value of Object.values(embed.flashVars)) {
+    const reference = value.split('?')[0].trim()
+    if (!reference || /^[a-z][a-z0-9+.-]*:/i.test(reference)) {
+      continue
+    }
+    if (/\.swf$/i.test(reference)) {
+      references.push(path.resolve(baseDir, reference))
+    } else if (/_config\.xml$/i.test(reference)) {
+      try {
+        const contentFile = readProjectConfig(path.resolve(baseDir, reference)).contentFile
+        if (contentFile) {
+          references.push(contentFile)
+        }
+      } catch (error) {
+        // An unreadable config still leaves the project's naming convention to find the content
+      }
+      references.push(path.resolve(baseDir, reference.replace(/_config\.xml$/i, '.swf')))
+    }
+  }
+
+  // A controller or preloader stands in for its project's content SWF
+  for (const file of [...references]) {
+    const { name, role } = getProjectRole(file)
+    if (role !== 'content') {
+      references.push(path.join(path.dirname(file), `${name}.swf`))
+    }
+  }
+
+  return references.filter((file, i) => references.indexOf(file) === i)
+}
+
+/**
+ * Find the SWF files an HTML wrapper page refers to
+ *
+ * See getEmbedReferences for how each embed is followed to its files.
+ *
+ * @param htmlFile - Path to the HTML page
+ * @returns Embedded SWFs, the local SWF files they lead to and the references that were skipped
+ * @throws Error if the page cannot be read
+ */
+export const readHTMLWrapper = (htmlFile: string): HTMLWrapperContent => {
+  const baseDir = path.dirname(path.resolve(htmlFile))
+  const embeds = parseHTMLEmbeds(fs.readFileSync(htmlFile, 'utf8'), baseDir)
+  const pageName = path.basename(htmlFile)
+
+  const swfFiles: string[] = []
+  const skipped: SkippedSWF[] = []
+  for (const embed of embeds) {
+    if (!embed.file) {
+      skipped.push({ file: embed.src, reason: `Remote SWF referenced by ${pageName} can't be converted` })
+    }
+  }
+
+  for (const embed of embeds) {
+    for (const file of getEmbedReferences(embed, baseDir)) {
+      if (swfFiles.includes(file) || skipped.some(entry => entry.file === file)) {
+        continue
+      }
+      if (fs.existsSync(file)) {
+        swfFiles.push(file)
+      } else if (file === embed.file) {
+        skipped.push({ file, reason: `Embedded by ${pageName} but not found` })
+      }
+    }
+  }
+
+  return { embeds, swfFiles, skipped }
+}
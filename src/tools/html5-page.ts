@@ -0,0 +1,274 @@
+/**
+ * @fileoverview HTML5 Page Generator
+ *
+ * Once a wrapper page's SWF has been converted, the page itself still needs the
+ * Flash plugin. This module rewrites the page so it plays the converted video instead:
+ *
+ * - `<object>`/`<embed>` markup is replaced with an HTML5 `<video>` element
+ * - SWFObject embeds replace their placeholder element, and the embedding call is commented out
+ * - `AC_FL_RunContent` scripts are replaced together with their `<noscript>` fallback
+ *
+ * The video element references the video file and, when they exist, a poster image, a
+ * WebVTT chapters track and a WebVTT captions track. The original page is kept
+ * next to it as `<page>.bak`; when a backup already exists it is treated as the
+ * original, so rewriting a page again starts from the Flash version.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { parseHTMLEmbeds, getEmbedReferences, splitArguments, stringLiteral, HTMLEmbed } from './html-wrapper'
+
+/** Suffix of the backup of the original page */
+export const HTML_BACKUP_SUFFIX = '.bak'
+
+/** Files the video element of a converted SWF can reference */
+export interface HTML5Video {
+  /** Full path to the video file */
+  file: string
+  /** MIME type of the video file, for the `<source>` element */
+  type: string
+  /** Full path to the poster image, if there is one */
+  poster: string | null
+  /** Full path to the WebVTT chapters track, if there is one */
+  chapters: string | null
+  /** Full path to the WebVTT captions track, if there is one */
+  captions: string | null
+}
+
+/** Result of rewriting a page */
+export interface HTML5PageResult {
+  page: string
+  /** Backup of the original page, or null if nothing was replaced (and the page wasn't touched) */
+  backupFile: string | null
+  /** Number of Flash embeds replaced with a video element */
+  replaced: number
+}
+
+/** A section of the page to replace */
+interface Replacement {
+  start: number
+  end: number
+  html: string
+}
+
+/** Escape text for use in a double-quoted HTML attribute */
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+
+/** Build a relative URL from the page's directory to a file */
+const toURL = (file: string, pageDir: string): string =>
+  path.relative(pageDir, file).split(path.sep).map(encodeURIComponent).join('/')
+
+/** Whitespace before a position on its line, if only whitespace precedes it */
+const getIndentation = (html: string, position: number): string => {
+  const lineStart = html.lastIndexOf('\n', position - 1) + 1
+  const prefix = html.slice(lineStart, position)
+  return /^[ \t]*$/.test(prefix) ? prefix : ''
+}
+
+/**
+ * Replace comments (except IE conditional comments, whose markup is live) and
+ * script bodies with spaces, so tag scanning ignores them while offsets still
+ * match the original page
+ */
+const maskInactiveMarkup = (html: string): string =>
+  html
+    .replace(/<!--[\s\S]*?-->/g, comment => (/\[if|<!\[endif/i.test(comment) ? comment : ' '.repeat(comment.length)))
+    .replace(/(<script\b[^>]*>)([\s\S]*?)(<\/script\s*>)/gi, (match, open: string, body: string, close: string) => open + ' '.repeat(body.length) + close)
+
+/**
+ * Find the end of an element, allowing nested elements of the same name
+ *
+ * @returns Offset just past the closing tag, or just past the start tag if it is never closed
+ */
+const findElementEnd = (html: string, name: string, startTagEnd: number): number => {
+  const pattern = new RegExp(`<(/?)${name}\\b[^>]*>`, 'gi')
+  pattern.lastIndex = startTagEnd
+  let depth = 1
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(html)) !== null) {
+    depth += match[1] ? -1 : 1
+    if (depth === 0) {
+      return pattern.lastIndex
+    }
+  }
+  return startTagEnd
+}
+
+/**
+ * Build the video element for a converted SWF
+ *
+ * @param video - Files to reference
+ * @param pageDir - Directory of the page (URLs are relative to it)
+ * @param embed - The embed being replaced, for its declared size
+ * @param indent - Indentation of the replaced markup
+ * @returns Video element markup
+ */
+export const createVideoElement = (video: HTML5Video, pageDir: string, embed: Pick<HTMLEmbed, 'width' | 'height'>, indent: string = ''): string => {
+  const attributes = ['controls', 'preload="metadata"']
+  if (embed.width && embed.height) {
+    attributes.push(`width="${embed.width}"`, `height="${embed.height}"`)
+  }
+  if (video.poster) {
+    attributes.push(`poster="${escapeAttribute(toURL(video.poster, pageDir))}"`)
+  }
+
+  const src = escapeAttribute(toURL(video.file, pageDir))
+  const children = [`<source src="${src}" type="${escapeAttribute(video.type)}">`]
+  if (video.chapters) {
+    children.push(`<track kind="chapters" src="${escapeAttribute(toURL(video.chapters, pageDir))}" label="Chapters" default>`)
+  }
+  if (video.captions) {
+    children.push(`<track kind="captions" src="${escapeAttribute(toURL(video.captions, pageDir))}" label="Captions">`)
+  }
+  children.push(`<a href="${src}">Download the video</a>`)
+
+  return [
+    `<video ${attributes.join(' ')}>`,
+    ...children.map(child => `${indent}  ${child}`),
+    `${indent}</video>`
+  ].join('\n')
+}
+
+/**
+ * Rewrite the Flash embeds of a page that lead to converted SWFs
+ *
+ * Embeds whose SWF wasn't converted are left untouched.
+ *
+ * @param html - Page source
+ * @param pageDir - Directory of the page
+ * @param videos - Converted videos by full path of the content SWF
+ * @returns The rewritten page and the number of embeds replaced
+ */
+export const rewriteHTMLPage = (html: string, pageDir: string, videos: Map<string, HTML5Video>): { html: string; replaced: number } => {
+  const replacements: Replacement[] = []
+  const findVideo = (embeds: HTMLEmbed[]): { embed: HTMLEmbed; video: HTML5Video } | null => {
+    for (const embed of embeds) {
+      const video = getEmbedReferences(embed, pageDir).map(file => videos.get(file)).find(Boolean)
+      if (video) {
+        return { embed, video }
+      }
+    }
+    return null
+  }
+  const replace = (start: number, end: number, embed: HTMLEmbed, video: HTML5Video) => {
+    replacements.push({ start, end, html: createVideoElement(video, pageDir, embed, getIndentation(html, start)) })
+  }
+  const comment = (start: number, end: number) => {
+    replacements.push({ start, end, html: '/* Flash embed replaced by an HTML5 video element */ void 0' })
+  }
+
+  // Script embeds
+  const scriptPattern = /<script\b[^>]*>([\s\S]*?)<\/script\s*>/gi
+  let script: RegExpExecArray | null
+  while ((script = scriptPattern.exec(html)) !== null) {
+    const body = script[1]
+    const bodyStart = script.index + script[0].indexOf(body)
+    const found = findVideo(parseHTMLEmbeds(body, pageDir))
+    if (!found) {
+      continue
+    }
+
+    // SWFObject writes into a placeholder element: swfobject.embedSWF(url, id, ...) or so.write(id)
+    const targets: Array<{ id: string; callStart: number; callEnd: number }> = []
+    for (const call of body.matchAll(/swfobject\.embedSWF\s*\(|\b[\w$]+\.write\s*\(/gi)) {
+      const { args, end } = splitArguments(body, call.index! + call[0].length)
+      const id = stringLiteral(/embedSWF/i.test(call[0]) ? args[1] : args[0])
+      if (id && (/embedSWF/i.test(call[0]) || /new\s+SWFObject/i.test(body))) {
+        targets.push({ id, callStart: bodyStart + call.index!, callEnd: bodyStart + end })
+      }
+    }
+
+    const element = targets
+      .map(target => new RegExp(`<([\\w-]+)\\b[^>]*\\bid\\s*=\\s*(["'])${target.id.replace(/[^\w-]/g, '\\$&')}\\2[^>]*>`).exec(html))
+      .find(match => match !== null)
+
+    if (element) {
+      replace(element.index, findElementEnd(html, element[1], element.index + element[0].length), found.embed, found.video)
+      for (const { callStart, callEnd } of targets) {
+        comment(callStart, callEnd)
+      }
+    } else {
+      // The script writes the embed where it stands (AC_FL_RunContent, document.write); its <noscript> fallback goes too
+      const noscript = /^\s*<noscript\b[^>]*>[\s\S]*?<\/noscript\s*>/i.exec(html.slice(scriptPattern.lastIndex))
+      replace(script.index, scriptPattern.lastIndex + (noscript ? noscript[0].length : 0), found.embed, found.video)
+    }
+  }
+
+  // <object> and <embed> markup outside scripts and comments
+  const masked = maskInactiveMarkup(html)
+  const tagPattern = /<(object|embed)\b[^>]*>/gi
+  let tag: RegExpExecArray | null
+  while ((tag = tagPattern.exec(masked)) !== null) {
+    const start = tag.index
+    let end = tagPattern.lastIndex
+    if (tag[1].toLowerCase() === 'object') {
+      end = findElementEnd(masked, 'object', end)
+    } else {
+      const close = /^\s*<\/embed\s*>/i.exec(masked.slice(end))
+      end += close ? close[0].length : 0
+    }
+    tagPattern.lastIndex = end
+
+    if (replacements.some(replacement => start < replacement.end && end > replacement.start)) {
+      continue
+    }
+    const found = findVideo(parseHTMLEmbeds(html.slice(start, end), pageDir))
+    if (found) {
+      replace(start, end, found.embed, found.video)
+    }
+  }
+
+  // Apply from the end of the page so earlier offsets stay valid; overlapping replacements are dropped
+  let result = html
+  let applied = 0
+  let limit = Infinity
+  for (const replacement of replacements.sort((a, b) => b.start - a.start)) {
+    if (replacement.end > limit) {
+      continue
+    }
+    result = result.slice(0, replacement.start) + replacement.html + result.slice(replacement.end)
+    limit = replacement.start
+    if (replacement.html.startsWith('<video')) {
+      applied++
+    }
+  }
+
+  return { html: result, replaced: applied }
+}
+
+/**
+ * Find a captions track for a video: `<name>.captions.vtt` or `<name>.vtt` next to it
+ *
+ * @param videoFile - Path to the video
+ * @returns Path to the captions file, or null if there is none
+ */
+export const findCaptionsFile = (videoFile: string): string | null => {
+  const base = path.join(path.dirname(videoFile), path.basename(videoFile, path.extname(videoFile)))
+  return [`${base}.captions.vtt`, `${base}.vtt`].find(file => fs.existsSync(file)) ?? null
+}
+
+/**
+ * Rewrite a wrapper page to play converted videos, keeping the original as a backup
+ *
+ * @param htmlFile - Path to the page
+ * @param videos - Converted videos by full path of the content SWF
+ * @returns Where the backup is and how many embeds were replaced
+ * @throws Error if the page (or its backup) cannot be read or written
+ */
+export const writeHTML5Page = (htmlFile: string, videos: Map<string, HTML5Video>): HTML5PageResult => {
+  const page = path.resolve(htmlFile)
+  const backupFile = page + HTML_BACKUP_SUFFIX
+  const original = fs.readFileSync(fs.existsSync(backupFile) ? backupFile : page, 'utf8')
+
+  const { html, replaced } = rewriteHTMLPage(original, path.dirname(page), videos)
+  if (replaced === 0) {
+    return { page, backupFile: null, replaced }
+  }
+
+  if (!fs.existsSync(backupFile)) {
+    fs.writeFileSync(backupFile, original)
+  }
+  fs.writeFileSync(page, html)
+  return { page, backupFile, replaced }
+}
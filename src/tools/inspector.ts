@@ -0,0 +1,214 @@
+/**
+ * @fileoverview SWF Inspector
+ *
+ * This module builds a metadata report for an SWF file without extracting anything.
+ * It is used by the `inspect` CLI command to triage large archives before committing
+ * hours of JPEXS extraction time to them.
+ *
+ * The report covers:
+ * - Signature, compression and SWF version
+ * - Stage size, frame rate, frame count and background colour
+ * - A histogram of the tags in the file
+ * - Stream sound format and event sound count
+ * - Embedded video streams (DefineVideoStream) and their codecs
+ * - Whether the file was likely produced by Camtasia, with the evidence found
+ *
+ * Everything is read with the native SWF parser, so inspection needs neither Java nor FFmpeg.
+ */
+
+import * as fs from 'fs'
+import {
+  parseSWF,
+  getAllTags,
+  parseSoundStreamHead,
+  parseDefineVideoStream,
+  parseBackgroundColor,
+  SWFFile,
+  SWFCompression,
+  SWFSignature,
+  SWF_TAGS
+} from './swf-parser'
+
+/** TechSmith's non-standard tag holding the Camtasia product/version string */
+const TECHSMITH_PRODUCT_TAG = 700
+
+/** Stream sound summary in an inspection report */
+export interface SoundStreamSummary {
+  format: number
+  formatName: string
+  sampleRate: number
+  sampleSize: number
+  channels: number
+  /** Number of SoundStreamBlock tags in the main timeline */
+  blockCount: number
+}
+
+/** Embedded video stream summary in an inspection report */
+export interface VideoStreamSummary {
+  characterId: number
+  codecId: number
+  codecName: string
+  width: number
+  height: number
+  /** Number of frames declared by DefineVideoStream */
+  declaredFrames: number
+  /** Number of VideoFrame tags actually found for this stream */
+  videoFrameTags: number
+}
+
+/** Result of checking an SWF for Camtasia origin */
+export interface CamtasiaOrigin {
+  /** True if at least one Camtasia marker was found */
+  likely: boolean
+  /** Product string from TechSmith's product tag, e.g. "TechSmith Camtasia Studio 5.1.0" */
+  generator: string | null
+  /** Human-readable list of the markers found */
+  evidence: string[]
+}
+
+/** Complete inspection report for one SWF file */
+export interface SWFReport {
+  file: string
+  fileSize: number
+  signature: SWFSignature
+  compression: SWFCompression
+  version: number
+  width: number
+  height: number
+  frameRate: number
+  /** Frame count declared in the header */
+  frameCount: number
+  /** ShowFrame tags actually present in the main timeline */
+  showFrameCount: number
+  /** Duration implied by frame count and frame rate, in seconds */
+  duration: number
+  truncated: boolean
+  backgroundColor: string | null
+  /** Tag counts in the main timeline, most frequent first */
+  tagHistogram: Record<string, number>
+  soundStream: SoundStreamSummary | null
+  /** Number of DefineSound (event sound) tags, including those inside sprites */
+  eventSoundCount: number
+  videoStreams: VideoStreamSummary[]
+  camtasia: CamtasiaOrigin
+}
+
+/**
+ * Look for markers that identify a Camtasia-generated SWF
+ *
+ * Camtasia Studio writes a TechSmith product tag (code 700) with its version, adds
+ * "Camtasia Video" to the Metadata tag and defines `csMovieFPS` / TechSmith ActionScript
+ * classes in DoAction tags. Any one of these is considered enough evidence.
+ *
+ * @param swf - Parsed SWF file
+ * @returns Whether the file is likely from Camtasia and the evidence found
+ */
+export const detectCamtasiaOrigin = (swf: SWFFile): CamtasiaOrigin => {
+  const evidence: string[] = []
+  let generator: string | null = null
+
+  for (const tag of swf.tags) {
+    if (tag.code === TECHSMITH_PRODUCT_TAG) {
+      generator = tag.data.toString('latin1').replace(/\0+$/, '').trim() || null
+      evidence.push(`TechSmith product tag${generator ? `: ${generator}` : ''}`)
+    } else if (tag.code === SWF_TAGS.Metadata && /camtasia/i.test(tag.data.toString('utf8'))) {
+      evidence.push('Metadata mentions Camtasia')
+    } else if (tag.code === SWF_TAGS.DoAction) {
+      const script = tag.data.toString('latin1')
+      if (script.includes('csMovieFPS') && !evidence.includes('csMovieFPS variable in ActionScript')) {
+        evidence.push('csMovieFPS variable in ActionScript')
+      }
+      if (/techsmith/i.test(script) && !evidence.includes('TechSmith ActionScript classes')) {
+        evidence.push('TechSmith ActionScript classes')
+      }
+    }
+  }
+
+  return { likely: evidence.length > 0, generator, evidence }
+}
+
+/**
+ * Build an inspection report for an SWF file
+ *
+ * @param swfFile - Path to the SWF file
+ * @returns Report describing the file's structure and media streams
+ * @throws Error if the file cannot be read or is not a valid SWF file
+ */
+export const inspectSWF = (swfFile: string): SWFReport => {
+  const swf = parseSWF(swfFile)
+  const { header } = swf
+
+  // Tag histogram of the main timeline, most frequent first
+  const counts = new Map<string, number>()
+  for (const tag of swf.tags) {
+    counts.set(tag.name, (counts.get(tag.name) ?? 0) + 1)
+  }
+  const tagHistogram = Object.fromEntries([...counts.entries()].sort((a, b) => b[1] - a[1]))
+
+  const backgroundTag = swf.tags.find(tag => tag.code === SWF_TAGS.SetBackgroundColor)
+  const backgroundColor = backgroundTag ? parseBackgroundColor(backgroundTag) : null
+
+  // Stream sound lives on the main timeline
+  let soundStream: SoundStreamSummary | null = null
+  const streamHead = swf.tags.find(
+    tag => tag.code === SWF_TAGS.SoundStreamHead || tag.code === SWF_TAGS.SoundStreamHead2
+  )
+  if (streamHead) {
+    const head = parseSoundStreamHead(streamHead)
+    soundStream = {
+      format: head.format,
+      formatName: head.formatName,
+      sampleRate: head.sampleRate,
+      sampleSize: head.sampleSize,
+      channels: head.channels,
+      blockCount: swf.tags.filter(tag => tag.code === SWF_TAGS.SoundStreamBlock).length
+    }
+  }
+
+  // Event sounds and video may be nested inside sprites
+  const allTags = getAllTags(swf)
+  const eventSoundCount = allTags.filter(tag => tag.code === SWF_TAGS.DefineSound).length
+
+  const videoFrameCounts = new Map<number, number>()
+  for (const tag of allTags) {
+    if (tag.code === SWF_TAGS.VideoFrame && tag.data.length >= 2) {
+      const streamId = tag.data.readUInt16LE(0)
+      videoFrameCounts.set(streamId, (videoFrameCounts.get(streamId) ?? 0) + 1)
+    }
+  }
+  const videoStreams: VideoStreamSummary[] = allTags
+    .filter(tag => tag.code === SWF_TAGS.DefineVideoStream)
+    .map(tag => {
+      const definition = parseDefineVideoStream(tag)
+      return {
+        characterId: definition.characterId,
+        codecId: definition.codecId,
+        codecName: definition.codecName,
+        width: definition.width,
+        height: definition.height,
+        declaredFrames: definition.frameCount,
+        videoFrameTags: videoFrameCounts.get(definition.characterId) ?? 0
+      }
+    })
+
+  return {
+    file: swfFile,
+    fileSize: fs.statSync(swfFile).size,
+    signature: header.signature,
+    compression: header.compression,
+    version: header.version,
+    width: header.width,
+    height: header.height,
+    frameRate: header.frameRate,
+    frameCount: header.frameCount,
+    showFrameCount: swf.showFrameCount,
+    duration: header.frameRate > 0 ? header.frameCount / header.frameRate : 0,
+    truncated: swf.truncated,
+    backgroundColor,
+    tagHistogram,
+    soundStream,
+    eventSoundCount,
+    videoStreams,
+    camtasia: detectCamtasiaOrigin(swf)
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * @fileoverview Course Package Conversion
+ *
+ * E-learning content is often published as a SCORM (or plain IMS content) package:
+ * a ZIP archive with an `imsmanifest.xml` at its root listing each resource, its
+ * launch page and its files. This module converts such a package in one step:
+ *
+ * 1. **Unpacking**: Reads the archive into a temporary directory
+ * 2. **Discovery**: Finds the SWFs through the manifest's resources, and through the launch pages embedding them
+ * 3. **Conversion**: Converts each project's content SWF to MP4 with a poster image and chapters track
+ * 4. **Rewriting**: Replaces the Flash embeds in the pages with HTML5 video and
+ *    lists the new files in the manifest instead of the converted SWFs
+ * 5. **Packing**: Writes a new archive, leaving the original package untouched
+ *
+ * SWFs that are still embedded by a page which couldn't be rewritten stay in the
+ * package, so the package never references a file it no longer contains.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { readZip, createZip, ZipEntry } from '../utils/zip'
+import { parseXML, XMLElement } from '../utils/xml'
+import { convertSWF, getPosterPath, ConversionOptions } from './converter'
+import { getOutputProfile, validateQualityOptions, DEFAULT_PROFILE } from './profiles'
+import { validateScalingOptions } from './scaling'
+import { validateAudioOptions } from './audio-processing'
+import { validateAudioOnlyOptions } from './audio-only'
+import { getFrameRatePolicy, ResolvedFrameRate } from './frame-rate'
+import { validateAVSyncOptions } from './av-sync'
+import { getChaptersVTTPath } from './chapters'
+import { groupProjectFiles, SkippedSWF } from './project'
+import { isHTMLFile, readHTMLWrapper, parseHTMLEmbeds, getEmbedReferences } from './html-wrapper'
+import { writeHTML5Page, findCaptionsFile, HTML5Video, HTML_BACKUP_SUFFIX } from './html5-page'
+import { log, fileStatus, colors } from '../utils/cli-styling'
+
+/** Name of the manifest at the root of a content package */
+export const PACKAGE_MANIFEST = 'imsmanifest.xml'
+
+/** A `<resource>` of a package manifest, with paths relative to the package root */
+export interface PackageResource {
+  identifier: string | null
+  /** Launch file, if the resource has one */
+  href: string | null
+  /** Directory the resource's paths are relative to ('' for the package root, otherwise ending in '/') */
+  base: string
+  /** Files listed by the resource's `<file>` elements */
+  files: string[]
+}
+
+/** Package files replaced by others, for rewriting the manifest */
+export interface PackageReplacement {
+  removed: string[]
+  added: string[]
+}
+
+/** Configuration options for package conversion (each SWF is converted with these) */
+export type PackageOptions = Omit<ConversionOptions, 'title' | 'chaptersVtt' | 'poster'>
+
+/** Result of converting a package */
+export interface PackageResult {
+  outputFile: string
+  /** Package paths of the SWFs converted to MP4 */
+  converted: string[]
+  /** Frame rate policy applied to each converted SWF */
+  frameRates: Array<{ file: string; frameRate: ResolvedFrameRate }>
+  failed: Array<{ file: string; error: string }>
+  skipped: SkippedSWF[]
+  /** Package paths of the pages rewritten to use HTML5 video */
+  pages: string[]
+  /** Package paths of converted SWFs kept because a page still embeds them */
+  kept: string[]
+}
+
+/** Element name without its namespace prefix */
+const localName = (element: XMLElement): string => element.name.replace(/^.*:/, '')
+
+/** Resolve a manifest href against a base directory to a package path */
+const resolvePackagePath = (base: string, href: string): string => {
+  let decoded = href.split(/[?#]/)[0]
+  try {
+    decoded = decodeURIComponent(decoded)
+  } catch (error) {
+    // Not percent-encoded after all; use it as written
+  }
+  return path.posix.normalize(path.posix.join(base, decoded)).replace(/^\.\//, '')
+}
+
+/** Combine a base directory with an element's xml:base */
+const applyBase = (base: string, element: XMLElement): string => {
+  const xmlBase = element.attributes['xml:base']
+  if (!xmlBase) {
+    return base
+  }
+  const resolved = resolvePackagePath(base, xmlBase)
+  return resolved === '.' ? '' : resolved.replace(/\/?$/, '/')
+}
+
+/**
+ * Read the resources of a package manifest
+ *
+ * Namespace prefixes are ignored and `xml:base` attributes on the manifest,
+ * `<resources>` and `<resource>` elements are applied.
+ *
+ * @param manifest - Manifest XML
+ * @returns Resources in document order
+ * @throws Error if the manifest is not well-formed XML
+ */
+export const readPackageManifest = (manifest: string): PackageResource[] => {
+  const resources: PackageResource[] = []
+
+  const visit = (element: XMLElement, base: string): void => {
+    const elementBase = applyBase(base, element)
+    if (localName(element) === 'resource') {
+      const { identifier, href } = element.attributes
+      resources.push({
+        identifier: identifier ?? null,
+        href: href ? resolvePackagePath(elementBase, href) : null,
+        base: elementBase,
+        files: element.children
+          .filter(child => localName(child) === 'file' && child.attributes.href)
+          .map(child => resolvePackagePath(elementBase, child.attributes.href))
+      })
+      return
+    }
+    element.children.forEach(child => visit(child, elementBase))
+  }
+  visit(parseXML(manifest), '')
+
+  return resources
+}
+
+/** Escape text for use in a double-quoted XML attribute */
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+
+/** Write a package path as an href relative to a resource's base */
+const toHref = (base: string, file: string): string =>
+  (base && file.startsWith(base) ? file.slice(base.length) : path.posix.relative(base || '.', file))
+    .split('/').map(encodeURIComponent).join('/')
+
+/**
+ * Rewrite a package manifest after files were replaced
+ *
+ * In each resource the first `<file>` element of a removed file is replaced with
+ * `<file>` elements for the added files, and those of the other removed files are
+ * dropped. A resource launching a removed file launches the first added file
+ * instead. Everything else is left exactly as written.
+ *
+ * @param manifest - Manifest XML
+ * @param replacements - Removed files and the files replacing them
+ * @returns The rewritten manifest
+ * @throws Error if the manifest is not well-formed XML
+ */
+export const rewritePackageManifest = (manifest: string, replacements: PackageReplacement[]): string => {
+  const resources = readPackageManifest(manifest)
+  const findReplacement = (file: string) => replacements.find(({ removed }) => removed.includes(file))
+  let index = 0
+
+  return manifest.replace(/<((?:[\w.-]+:)?resource)\b([^>]*?)(\/>|>([\s\S]*?)<\/\1\s*>)/g, (block: string, tagName: string, attributes: string) => {
+    const resource = resources[index++]
+    if (!resource) {
+      return block
+    }
+
+    // Launch file
+    const launch = resource.href ? findReplacement(resource.href) : undefined
+    let result = block
+    if (launch && launch.added.length > 0) {
+      result = result.replace(attributes, attributes.replace(/(\shref\s*=\s*)(["'])[^"']*\2/, `$1"${escapeAttribute(toHref(resource.base, launch.added[0]))}"`))
+    }
+
+    // File list: a dropped element takes its line with it
+    const written = new Set<PackageReplacement>()
+    return result.replace(/([ \t]*)<((?:[\w.-]+:)?file)\b[^>]*?\bhref\s*=\s*(["'])([^"']*)\3[^>]*?(?:\/>|>[\s\S]*?<\/\2\s*>)(\r?\n)?/g,
+      (element: string, indent: string, fileTag: string, quote: string, href: string, newline: string = '') => {
+        const replacement = findReplacement(resolvePackagePath(resource.base, href))
+        if (!replacement) {
+          return element
+        }
+        if (written.has(replacement) || replacement.added.length === 0) {
+          return ''
+        }
+        written.add(replacement)
+        return indent + replacement.added
+          .map(file => `<${fileTag} href="${escapeAttribute(toHref(resource.base, file))}"/>`)
+          .join(`\n${indent}`) + newline
+      })
+  })
+}
+
+/** Convert a path inside the working directory to a package path */
+const toPackagePath = (workDir: string, file: string): string => path.relative(workDir, file).split(path.sep).join('/')
+
+/**
+ * Unpack archive entries into a directory
+ *
+ * @throws Error if an entry would be written outside the directory
+ */
+const unpackEntries = (entries: ZipEntry[], workDir: string): void => {
+  for (const entry of entries) {
+    const target = path.resolve(workDir, entry.name)
+    if (target !== workDir && !target.startsWith(workDir + path.sep)) {
+      throw new Error(`Unsafe path in package: ${entry.name}`)
+    }
+    if (entry.name.endsWith('/')) {
+      fs.mkdirSync(target, { recursive: true })
+    } else {
+      fs.mkdirSync(path.dirname(target), { recursive: true })
+      fs.writeFileSync(target, entry.data)
+    }
+  }
+}
+
+/**
+ * Convert the Flash content of a course package, writing a new Flash-free package
+ *
+ * @param packageFile - Path to the SCORM / IMS content package (.zip)
+ * @param outputFile - Path where the converted package will be written
+ * @param options - Conversion configuration used for every SWF
+ * @returns What was converted, skipped, rewritten and kept
+ * @throws Error if the archive can't be read or has no manifest at its root
+ */
+export const convertPackage = async (
+  packageFile: string,
+  outputFile: string,
+  options: PackageOptions
+): Promise<PackageResult> => {
+  // Option errors would otherwise fail every SWF separately
+  const profile = getOutputProfile(options.profile ?? DEFAULT_PROFILE)
+  validateQualityOptions(profile, options)
+  validateScalingOptions(profile, options)
+  validateAudioOptions(profile, options)
+  validateAudioOnlyOptions(options)
+  validateAVSyncOptions(options, getFrameRatePolicy(options.framerate, options.frameRatePolicy))
+
+  const entries = readZip(fs.readFileSync(packageFile))
+  const manifestEntry = entries.find(entry => entry.name.toLowerCase() === PACKAGE_MANIFEST)
+  if (!manifestEntry) {
+    throw new Error(`${path.basename(packageFile)} is not a content package: no ${PACKAGE_MANIFEST} at its root`)
+  }
+
+  const workDir = path.resolve(path.dirname(outputFile), `.temp-${path.basename(packageFile, path.extname(packageFile))}`)
+  const result: PackageResult = { outputFile, converted: [], frameRates: [], failed: [], skipped: [], pages: [], kept: [] }
+
+  try {
+    fs.rmSync(workDir, { recursive: true, force: true })
+    unpackEntries(entries, workDir)
+    const toLocal = (file: string) => path.join(workDir, ...file.split('/'))
+
+    // Step 1: Find the pages and SWFs through the manifest
+    const resources = readPackageManifest(manifestEntry.data.toString('utf8'))
+    const packageFiles = [...new Set(resources.flatMap(resource => resource.href ? [resource.href, ...resource.files] : resource.files))]
+      .map(toLocal)
+      .filter(file => fs.existsSync(file))
+    const pages = packageFiles.filter(isHTMLFile)
+    const swfFiles = new Set(packageFiles.filter(file => /\.swf$/i.test(file)))
+    const wrapperSkipped: SkippedSWF[] = []
+    for (const page of pages) {
+      const wrapper = readHTMLWrapper(page)
+      wrapper.swfFiles.forEach(file => swfFiles.add(file))
+      wrapperSkipped.push(...wrapper.skipped)
+    }
+
+    const { projects, skipped } = groupProjectFiles([...swfFiles])
+    result.skipped = [...wrapperSkipped, ...skipped]
+    log.muted(`  Found ${colors.highlight(projects.length.toString())} SWF file(s) and ${colors.highlight(pages.length.toString())} page(s) in ${PACKAGE_MANIFEST}`)
+
+    // Step 2: Convert each project's content SWF next to it
+    const videos = new Map<string, HTML5Video>()
+    const convertedProjects: typeof projects = []
+    for (const project of projects) {
+      const name = toPackagePath(workDir, project.contentFile)
+      const outputPath = project.contentFile.replace(/\.swf$/i, profile.extension)
+      fileStatus.processing(name)
+      try {
+        const conversion = await convertSWF(project.contentFile, outputPath, {
+          ...options,
+          title: project.config?.title ?? undefined,
+          chaptersVtt: options.chapters !== false,
+          poster: true
+        })
+        // An SWF with no visible content may have been converted to audio alone
+        const { outputFile: convertedFile, mimeType } = conversion
+        const poster = getPosterPath(convertedFile)
+        const chapters = getChaptersVTTPath(convertedFile)
+        videos.set(project.contentFile, {
+          file: convertedFile,
+          type: mimeType,
+          poster: fs.existsSync(poster) ? poster : null,
+          chapters: fs.existsSync(chapters) ? chapters : null,
+          captions: findCaptionsFile(convertedFile)
+        })
+        convertedProjects.push(project)
+        result.converted.push(name)
+        result.frameRates.push({ file: name, frameRate: conversion.frameRate })
+        fileStatus.completed(name, toPackagePath(workDir, convertedFile))
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        fileStatus.error(name, errorMessage)
+        result.failed.push({ file: name, error: errorMessage })
+      }
+    }
+
+    // Step 3: Replace the Flash embeds in the pages (the original package is the backup)
+    for (const page of pages) {
+      if (writeHTML5Page(page, videos).replaced > 0) {
+        result.pages.push(toPackagePath(workDir, page))
+      }
+      fs.rmSync(page + HTML_BACKUP_SUFFIX, { force: true })
+    }
+
+    // Step 4: Drop the converted SWFs no page embeds any more, and list their replacements in the manifest
+    const stillEmbedded = new Set(pages.flatMap(page => parseHTMLEmbeds(fs.readFileSync(page, 'utf8'), path.dirname(page))
+      .flatMap(embed => getEmbedReferences(embed, path.dirname(page)))))
+    const replacements: PackageReplacement[] = []
+    for (const project of convertedProjects) {
+      const projectFiles = [project.contentFile, project.controllerFile, project.preloaderFile].filter((file): file is string => file !== null)
+      const video = videos.get(project.contentFile)!
+      const removed = projectFiles.map(file => toPackagePath(workDir, file))
+      const added = [video.file, video.poster, video.chapters]
+        .filter((file): file is string => file !== null)
+        .map(file => toPackagePath(workDir, file))
+      if (projectFiles.some(file => stillEmbedded.has(file))) {
+        // Listed again alongside the new files
+        result.kept.push(...removed)
+        replacements.push({ removed, added: [...removed, ...added] })
+        continue
+      }
+      projectFiles.forEach(file => fs.rmSync(file, { force: true }))
+      replacements.push({ removed, added })
+    }
+    const manifest = rewritePackageManifest(manifestEntry.data.toString('utf8'), replacements)
+    fs.writeFileSync(toLocal(manifestEntry.name), manifest)
+
+    // Step 5: Pack the original entries that are left, then the new files
+    const outputEntries: ZipEntry[] = entries
+      .filter(entry => entry.name.endsWith('/') || fs.existsSync(toLocal(entry.name)))
+      .map(entry => entry.name.endsWith('/') ? entry : { ...entry, data: fs.readFileSync(toLocal(entry.name)) })
+    const now = new Date()
+    for (const video of videos.values()) {
+      for (const file of [video.file, video.poster, video.chapters]) {
+        if (file && !entries.some(entry => toLocal(entry.name) === file)) {
+          outputEntries.push({ name: toPackagePath(workDir, file), data: fs.readFileSync(file), modified: now })
+        }
+      }
+    }
+    fs.writeFileSync(outputFile, createZip(outputEntries))
+
+    return result
+  } finally {
+    if (!options.keepExtracted) {
+      fs.rmSync(workDir, { recursive: true, force: true })
+    } else {
+      log.muted(`  Unpacked package kept in: ${colors.highlight(workDir)}`)
+    }
+  }
+}
@@ -0,0 +1,447 @@
+/**
+ * @fileoverview Output Profiles
+ *
+ * A profile bundles everything FFmpeg needs to write one kind of output: the
+ * container, the video and audio encoders and their quality defaults. The
+ * default `mp4` profile is the H.264/AAC MP4 the converter has always written;
+ * the others serve teams that need a different format from the same source:
+ *
+ * - `hevc` - H.265 MP4, smaller files for modern players
+ * - `webm` - VP9 + Opus WebM for browsers without patent-encumbered codecs
+ * - `av1` - AV1 + Opus WebM, smallest files, slowest to encode
+ * - `ffv1` - lossless FFV1 + FLAC Matroska, for archival masters
+ * - `prores` - ProRes 422 HQ + PCM QuickTime, for editing
+ *
+ * An SWF with no visible content can be converted to its audio alone, which each
+ * profile writes to an audio container with the same codec (M4A for `mp4` and `hevc`).
+ *
+ * Encoders depend on how FFmpeg was built, so a profile lists the encoders it
+ * needs and the converter checks them before extracting anything.
+ *
+ * Quality can be tuned per conversion with QualityOptions: the CRF, the x264/x265
+ * preset and tune, a bitrate cap, a target file size reached with two-pass
+ * encoding, or the audio bitrate. Each profile declares which of these its
+ * encoder supports.
+ */
+
+/** Names of the available output profiles */
+export type OutputProfileName = 'mp4' | 'hevc' | 'webm' | 'av1' | 'ffv1' | 'prores'
+
+/** x264 / x265 speed presets, fastest first */
+const X26X_PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow', 'placebo']
+
+/** Sample rates the Opus encoder accepts */
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000]
+
+/** Audio bitrate assumed for a target file size when the profile leaves it to the encoder */
+const TARGET_SIZE_AUDIO_BITRATE = 128000
+
+/** Share of a target file size reserved for container overhead */
+const CONTAINER_OVERHEAD = 0.02
+
+/** Lowest video bitrate a target file size may leave (bits per second) */
+const MIN_TARGET_VIDEO_BITRATE = 32000
+
+/** Encoder quality controls, on top of a profile's defaults */
+export interface QualityOptions {
+  /** Optional: Constant rate factor (lower is better quality and larger files) */
+  crf?: number
+  /** Optional: Encoder speed preset (x264/x265: ultrafast ... placebo) */
+  preset?: string
+  /** Optional: Encoder tune (x264: stillimage and animation suit screencasts) */
+  tune?: string
+  /** Optional: Peak video bitrate in bits per second */
+  maxBitrate?: number
+  /** Optional: Rate control buffer size in bits (default: twice the max bitrate) */
+  bufferSize?: number
+  /** Optional: Target output size in bytes, reached with two-pass encoding (replaces the CRF) */
+  targetSize?: number
+  /** Optional: Audio bitrate in bits per second (default: the profile's, or the encoder's) */
+  audioBitrate?: number
+}
+
+/** Container, codecs and encoder defaults for one kind of output */
+export interface OutputProfile {
+  name: OutputProfileName
+  description: string
+  /** Output file extension, including the dot */
+  extension: string
+  /** FFmpeg muxer */
+  format: string
+  /** MIME type for an HTML5 `<source>` element */
+  mimeType: string
+  videoCodec: string
+  /** Fixed encoder options (speed, tagging, codec level) */
+  videoOptions: string[]
+  /**
+   * CRF support: the default, the highest value, and whether the encoder needs `-b:v`
+   * alongside the CRF, as a cap (VP9/AV1 constrained quality) or 0 for unconstrained
+   */
+  crf: { default: number; max: number; capsBitrate: boolean } | null
+  /** Accepted `-preset` values */
+  presets: string[]
+  /** Accepted `-tune` values */
+  tunes: string[]
+  /** How the encoder runs two passes, or null if a target size isn't supported */
+  twoPass: 'pass' | 'x265-params' | null
+  /** Whether the encoder reorders frames with B-frames */
+  bFrames: boolean
+  /** Pixel format to encode, or null to keep the source's */
+  pixelFormat: string | null
+  /** Whether the pixel format subsamples chroma, so frames must be padded to even dimensions */
+  evenDimensions: boolean
+  audioCodec: string
+  /** Audio bitrate for FFmpeg (e.g. '96k'), or null for the encoder's default */
+  audioBitrate: string | null
+  /** Whether the audio encoder is lossless, so it takes no bitrate */
+  losslessAudio: boolean
+  /** Sample rates the audio encoder accepts, or null for any common rate */
+  audioSampleRates: number[] | null
+  /** Container an SWF with no visible content is written to when only its audio is converted */
+  audioContainer: { extension: string; format: string; mimeType: string }
+}
+
+/** Profile used when none is given */
+export const DEFAULT_PROFILE: OutputProfileName = 'mp4'
+
+/** All output profiles by name */
+export const OUTPUT_PROFILES: Record<OutputProfileName, OutputProfile> = {
+  mp4: {
+    name: 'mp4',
+    description: 'H.264 + AAC in MP4, plays everywhere',
+    extension: '.mp4',
+    format: 'mp4',
+    mimeType: 'video/mp4',
+    videoCodec: 'libx264',
+    videoOptions: [],
+    crf: { default: 23, max: 51, capsBitrate: false },
+    presets: X26X_PRESETS,
+    tunes: ['film', 'animation', 'grain', 'stillimage', 'fastdecode', 'zerolatency', 'psnr', 'ssim'],
+    twoPass: 'pass',
+    bFrames: true,
+    pixelFormat: 'yuv420p',
+    evenDimensions: true,
+    audioCodec: 'aac',
+    audioBitrate: null,
+    losslessAudio: false,
+    audioSampleRates: null,
+    audioContainer: { extension: '.m4a', format: 'ipod', mimeType: 'audio/mp4' }
+  },
+  hevc: {
+    name: 'hevc',
+    description: 'H.265 + AAC in MP4, about half the size of H.264',
+    extension: '.mp4',
+    format: 'mp4',
+    mimeType: 'video/mp4; codecs="hvc1"',
+    videoCodec: 'libx265',
+    // hvc1 tagging is what Apple players require
+    videoOptions: ['-tag:v', 'hvc1'],
+    crf: { default: 28, max: 51, capsBitrate: false },
+    presets: X26X_PRESETS,
+    tunes: ['psnr', 'ssim', 'grain', 'zerolatency', 'fastdecode'],
+    twoPass: 'x265-params',
+    bFrames: true,
+    pixelFormat: 'yuv420p',
+    evenDimensions: true,
+    audioCodec: 'aac',
+    audioBitrate: null,
+    losslessAudio: false,
+    audioSampleRates: null,
+    audioContainer: { extension: '.m4a', format: 'ipod', mimeType: 'audio/mp4' }
+  },
+  webm: {
+    name: 'webm',
+    description: 'VP9 + Opus in WebM, royalty-free web video',
+    extension: '.webm',
+    format: 'webm',
+    mimeType: 'video/webm',
+    videoCodec: 'libvpx-vp9',
+    videoOptions: [],
+    crf: { default: 32, max: 63, capsBitrate: true },
+    presets: [],
+    tunes: [],
+    twoPass: 'pass',
+    bFrames: false,
+    pixelFormat: 'yuv420p',
+    evenDimensions: true,
+    audioCodec: 'libopus',
+    audioBitrate: '96k',
+    losslessAudio: false,
+    audioSampleRates: OPUS_SAMPLE_RATES,
+    audioContainer: { extension: '.opus', format: 'opus', mimeType: 'audio/ogg; codecs="opus"' }
+  },
+  av1: {
+    name: 'av1',
+    description: 'AV1 + Opus in WebM, smallest files but slow to encode',
+    extension: '.webm',
+    format: 'webm',
+    mimeType: 'video/webm; codecs="av01"',
+    videoCodec: 'libaom-av1',
+    // Older FFmpeg builds mark libaom experimental
+    videoOptions: ['-cpu-used', '6', '-strict', 'experimental'],
+    crf: { default: 34, max: 63, capsBitrate: true },
+    presets: [],
+    tunes: [],
+    twoPass: 'pass',
+    bFrames: false,
+    pixelFormat: 'yuv420p',
+    evenDimensions: true,
+    audioCodec: 'libopus',
+    audioBitrate: '96k',
+    losslessAudio: false,
+    audioSampleRates: OPUS_SAMPLE_RATES,
+    audioContainer: { extension: '.opus', format: 'opus', mimeType: 'audio/ogg; codecs="opus"' }
+  },
+  ffv1: {
+    name: 'ffv1',
+    description: 'Lossless FFV1 + FLAC in Matroska, for archival masters',
+    extension: '.mkv',
+    format: 'matroska',
+    mimeType: 'video/x-matroska',
+    videoCodec: 'ffv1',
+    // FFV1 version 3 with per-slice checksums, every frame a keyframe
+    videoOptions: ['-level', '3', '-g', '1', '-slicecrc', '1'],
+    crf: null,
+    presets: [],
+    tunes: [],
+    twoPass: null,
+    bFrames: false,
+    pixelFormat: null,
+    evenDimensions: false,
+    audioCodec: 'flac',
+    audioBitrate: null,
+    losslessAudio: true,
+    audioSampleRates: null,
+    audioContainer: { extension: '.flac', format: 'flac', mimeType: 'audio/flac' }
+  },
+  prores: {
+    name: 'prores',
+    description: 'ProRes 422 HQ + PCM in QuickTime, for editing',
+    extension: '.mov',
+    format: 'mov',
+    mimeType: 'video/quicktime',
+    videoCodec: 'prores_ks',
+    videoOptions: ['-profile:v', '3'],
+    crf: null,
+    presets: [],
+    tunes: [],
+    twoPass: null,
+    bFrames: false,
+    pixelFormat: 'yuv422p10le',
+    evenDimensions: true,
+    audioCodec: 'pcm_s16le',
+    audioBitrate: null,
+    losslessAudio: true,
+    audioSampleRates: null,
+    audioContainer: { extension: '.wav', format: 'wav', mimeType: 'audio/wav' }
+  }
+}
+
+/**
+ * Look up an output profile by name
+ *
+ * @param name - Profile name (case-insensitive)
+ * @returns The profile
+ * @throws Error if there is no profile with that name
+ */
+export const getOutputProfile = (name: string): OutputProfile => {
+  const profile = OUTPUT_PROFILES[name.toLowerCase() as OutputProfileName]
+  if (!profile) {
+    throw new Error(`Unknown output profile "${name}" (available: ${Object.keys(OUTPUT_PROFILES).join(', ')})`)
+  }
+  return profile
+}
+
+/**
+ * Find the encoders a profile needs that FFmpeg doesn't have
+ *
+ * @param profile - Output profile
+ * @param availableEncoders - Names of the encoders FFmpeg reports
+ * @returns Missing encoder names (empty if the profile can be used)
+ */
+export const findMissingEncoders = (profile: OutputProfile, availableEncoders: string[]): string[] =>
+  [profile.videoCodec, profile.audioCodec].filter(encoder => !availableEncoders.includes(encoder))
+
+/** Format a bitrate in bits per second for FFmpeg */
+const toKilobits = (bitsPerSecond: number): string => `${Math.round(bitsPerSecond / 1000)}k`
+
+/**
+ * Parse a size or bitrate with an optional K, M or G suffix (powers of 1000)
+ *
+ * @param value - Value as written, e.g. '2500k', '2M' or '50000000'
+ * @returns The value in base units
+ * @throws Error if the value isn't a positive number with a known suffix
+ */
+export const parseQuantity = (value: string): number => {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([kmg]?)b?\s*$/i.exec(value)
+  const amount = match ? parseFloat(match[1]) * 1000 ** ' kmg'.indexOf(match[2].toLowerCase() || ' ') : NaN
+  if (!(amount > 0)) {
+    throw new Error(`Invalid size "${value}" (expected a number with an optional K, M or G suffix)`)
+  }
+  return Math.round(amount)
+}
+
+/**
+ * Check quality options against what a profile's encoder supports
+ *
+ * @param profile - Output profile
+ * @param quality - Requested quality options
+ * @throws Error naming the first unsupported or conflicting option
+ */
+export const validateQualityOptions = (profile: OutputProfile, quality: QualityOptions): void => {
+  if (quality.crf !== undefined) {
+    if (!profile.crf) {
+      throw new Error(`The ${profile.name} profile has no CRF setting`)
+    }
+    if (!Number.isInteger(quality.crf) || quality.crf < 0 || quality.crf > profile.crf.max) {
+      throw new Error(`CRF for the ${profile.name} profile must be a whole number from 0 to ${profile.crf.max}`)
+    }
+    if (quality.targetSize) {
+      throw new Error('A CRF and a target size can\'t be combined: the target size sets the bitrate')
+    }
+  }
+  if (quality.preset && !profile.presets.includes(quality.preset)) {
+    throw new Error(profile.presets.length > 0
+      ? `Unknown preset "${quality.preset}" for the ${profile.name} profile (available: ${profile.presets.join(', ')})`
+      : `The ${profile.name} profile has no presets`)
+  }
+  if (quality.tune && !profile.tunes.includes(quality.tune)) {
+    throw new Error(profile.tunes.length > 0
+      ? `Unknown tune "${quality.tune}" for the ${profile.name} profile (available: ${profile.tunes.join(', ')})`
+      : `The ${profile.name} profile has no tunes`)
+  }
+  if ((quality.maxBitrate || quality.bufferSize) && !profile.crf) {
+    throw new Error(`The ${profile.name} profile has no bitrate control`)
+  }
+  if (quality.bufferSize && !quality.maxBitrate) {
+    throw new Error('A buffer size needs a max bitrate')
+  }
+  if (quality.targetSize && !profile.twoPass) {
+    throw new Error(`The ${profile.name} profile doesn't support a target size`)
+  }
+  if (quality.audioBitrate && profile.losslessAudio) {
+    throw new Error(`The ${profile.name} profile encodes lossless audio, so it has no audio bitrate`)
+  }
+}
+
+/**
+ * Calculate the video bitrate that fits a video into a target file size
+ *
+ * @param profile - Output profile (for the audio bitrate)
+ * @param targetSize - Target file size in bytes
+ * @param duration - Video duration in seconds
+ * @param hasAudio - Whether the output has an audio track
+ * @param quality - Quality options (for an audio bitrate override)
+ * @returns Video bitrate in bits per second
+ * @throws Error if the target leaves too little room for the video
+ */
+export const getTargetVideoBitrate = (
+  profile: OutputProfile,
+  targetSize: number,
+  duration: number,
+  hasAudio: boolean,
+  quality: QualityOptions = {}
+): number => {
+  const audioBitrate = hasAudio ? getAudioBitrate(profile, quality) : 0
+  const bitrate = Math.floor((targetSize * 8 * (1 - CONTAINER_OVERHEAD)) / duration - audioBitrate)
+  if (bitrate < MIN_TARGET_VIDEO_BITRATE) {
+    throw new Error(`Target size of ${Math.round(targetSize / 1000)} KB is too small for ${duration.toFixed(1)}s of video`)
+  }
+  return bitrate
+}
+
+/**
+ * Get the audio bitrate a profile encodes at, for sizing a two-pass encode
+ *
+ * @param profile - Output profile
+ * @param quality - Quality options (for an audio bitrate override)
+ * @returns Audio bitrate in bits per second
+ */
+export const getAudioBitrate = (profile: OutputProfile, quality: QualityOptions = {}): number =>
+  quality.audioBitrate ?? (profile.audioBitrate ? parseQuantity(profile.audioBitrate) : TARGET_SIZE_AUDIO_BITRATE)
+
+/**
+ * Build the audio encoder options for a profile
+ *
+ * A target size needs a known audio bitrate, so encoders left at their default
+ * get the bitrate the size was calculated with.
+ *
+ * @param profile - Output profile
+ * @param quality - Quality options
+ * @returns FFmpeg output options
+ */
+export const getAudioEncoderOptions = (profile: OutputProfile, quality: QualityOptions): string[] =>
+  profile.audioBitrate || quality.audioBitrate || quality.targetSize
+    ? ['-b:a', toKilobits(getAudioBitrate(profile, quality))]
+    : []
+
+/** Encoder settings the converter adds to the quality options */
+export interface EncoderSettings {
+  /** Average video bitrate in bits per second, for a two-pass encode */
+  bitrate?: number
+  /** Pass number and pass log file prefix, for a two-pass encode */
+  pass?: { number: 1 | 2; logFile: string }
+  /** Encode without B-frames (the MP4 muxer miscounts the duration of variable frame rate video with them) */
+  noBFrames?: boolean
+}
+
+/**
+ * Build the video encoder options for a profile and quality settings
+ *
+ * With a bitrate (from a target size) the CRF is replaced by average bitrate
+ * encoding; pass 1 and 2 of a two-pass encode share the pass log file.
+ *
+ * @param profile - Output profile
+ * @param quality - Quality options (already validated)
+ * @param settings - Bitrate, pass and B-frame settings from the converter
+ * @returns FFmpeg output options
+ */
+export const getVideoEncoderOptions = (
+  profile: OutputProfile,
+  quality: QualityOptions,
+  settings: EncoderSettings = {}
+): string[] => {
+  const options: string[] = []
+  const x265Params: string[] = []
+  const { maxBitrate } = quality
+  const { bitrate, pass } = settings
+
+  if (bitrate) {
+    options.push('-b:v', toKilobits(bitrate))
+  } else if (profile.crf) {
+    options.push('-crf', String(quality.crf ?? profile.crf.default))
+    if (profile.crf.capsBitrate) {
+      // Constrained quality: the bitrate is the cap; 0 lifts it
+      options.push('-b:v', maxBitrate ? toKilobits(maxBitrate) : '0')
+    }
+  }
+  if (maxBitrate && (bitrate || !profile.crf?.capsBitrate)) {
+    options.push('-maxrate', toKilobits(maxBitrate), '-bufsize', toKilobits(quality.bufferSize ?? maxBitrate * 2))
+  }
+  if (quality.preset) {
+    options.push('-preset', quality.preset)
+  }
+  if (quality.tune) {
+    options.push('-tune', quality.tune)
+  }
+  if (settings.noBFrames && profile.bFrames) {
+    if (profile.twoPass === 'x265-params') {
+      x265Params.push('bframes=0')
+    } else {
+      options.push('-bf', '0')
+    }
+  }
+  if (pass) {
+    if (profile.twoPass === 'x265-params') {
+      // x265 parameters are ':'-separated, so a Windows drive letter must be escaped
+      x265Params.push(`pass=${pass.number}`, `stats=${pass.logFile.replace(/[\\:]/g, '\\$&')}.log`)
+    } else {
+      options.push('-pass', String(pass.number), '-passlogfile', pass.logFile)
+    }
+  }
+  if (x265Params.length > 0) {
+    options.push('-x265-params', x265Params.join(':'))
+  }
+
+  return [...options, ...profile.videoOptions]
+}
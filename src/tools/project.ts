@@ -0,0 +1,329 @@
+/**
+ * @fileoverview Camtasia Project Discovery
+ *
+ * Camtasia's Flash export doesn't produce a single SWF. A typical project folder holds:
+ *
+ * - `<name>.swf` - the content SWF with the actual recording
+ * - `<name>_controller.swf` - the playback controller (play/pause bar, seek bar)
+ * - `<name>_config.xml` - player settings such as title, dimensions and table of contents
+ * - `<name>_preload.swf` - an optional preloader shown while the content loads
+ *
+ * Only the content SWF is worth converting: a video of the controller is just an
+ * empty play bar. This module groups the SWF files found in the input into projects,
+ * picks each project's content SWF, reads its config XML and reports every other SWF
+ * as skipped, with the reason.
+ *
+ * SWFs that don't belong to a Camtasia project are treated as single-file projects,
+ * so non-Camtasia input is processed exactly as before.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { parseXML, XMLElement } from '../utils/xml'
+
+/** Suffix of the config XML file written next to the content SWF */
+const CONFIG_SUFFIX = '_config.xml'
+
+/** File name patterns of the SWFs that aren't content, with the role they play */
+const SUPPORT_SWF_PATTERNS: Array<{ role: 'controller' | 'preloader'; pattern: RegExp }> = [
+  { role: 'controller', pattern: /^(.+)_controller$/i },
+  { role: 'preloader', pattern: /^(.+)_(preload|preloader)$/i }
+]
+
+/** Config keys holding each setting, in order of preference (compared case-insensitively) */
+const CONFIG_KEYS = {
+  title: ['title', 'projectTitle', 'mediaTitle', 'movieTitle'],
+  width: ['mediaWidth', 'contentWidth', 'movieWidth', 'videoWidth', 'width'],
+  height: ['mediaHeight', 'contentHeight', 'movieHeight', 'videoHeight', 'height'],
+  frameRate: ['frameRate', 'framerate', 'fps'],
+  contentFile: ['mediaFile', 'contentFile', 'content', 'movie', 'mediaSrc', 'src', 'file']
+}
+
+/** Names of the elements holding the table of contents */
+const TOC_CONTAINER_PATTERN = /^(toc|tableOfContents|chapters|markers)$/i
+
+/** Keys of a table of contents entry's title, time (seconds or timecode) and frame */
+const TOC_KEYS = {
+  title: ['title', 'name', 'label', 'text'],
+  time: ['time', 'startTime', 'start', 'seconds', 'position', 'timecode'],
+  milliseconds: ['timeMs', 'milliseconds', 'ms'],
+  frame: ['frame', 'frameNumber', 'startFrame']
+}
+
+/** An entry of the table of contents in a config XML */
+export interface TableOfContentsEntry {
+  title: string
+  /** Start time in seconds, if the entry gives a time */
+  time: number | null
+  /** Zero-based start frame, if the entry gives a frame instead of a time */
+  frame: number | null
+}
+
+/** Settings read from a Camtasia `*_config.xml` file */
+export interface ProjectConfig {
+  /** Full path to the config file */
+  file: string
+  title: string | null
+  width: number | null
+  height: number | null
+  frameRate: number | null
+  /** Full path to the content SWF named by the config, if any */
+  contentFile: string | null
+  /** Table of contents (chapter markers) in document order */
+  tableOfContents: TableOfContentsEntry[]
+  /**
+   * Every setting in the file: the text of each leaf element by element name,
+   * `<param name="..." value="..."/>` pairs by name and other attributes as `element.attribute`
+   */
+  settings: Record<string, string>
+}
+
+/** A group of related files from one Camtasia export (or a standalone SWF) */
+export interface CamtasiaProject {
+  /** Project name shared by the files (the content SWF's base name) */
+  name: string
+  /** Full path to the SWF to process */
+  contentFile: string
+  controllerFile: string | null
+  preloaderFile: string | null
+  configFile: string | null
+  /** Parsed config, or null if there is no config file or it couldn't be read */
+  config: ProjectConfig | null
+  /** Why the config file couldn't be read, if it couldn't */
+  configError: string | null
+}
+
+/** An SWF that is not processed, with the reason */
+export interface SkippedSWF {
+  file: string
+  reason: string
+}
+
+/** Result of grouping input SWFs into projects */
+export interface ProjectDiscovery {
+  /** Projects to process, in input order of their content SWFs */
+  projects: CamtasiaProject[]
+  skipped: SkippedSWF[]
+}
+
+/**
+ * Flatten an XML document into name/value settings
+ *
+ * The first occurrence of a name wins, so top-level settings take precedence over
+ * nested ones only when they come first in the file. The table of contents is left
+ * out, so chapter titles can't be mistaken for the project title.
+ */
+const collectSettings = (element: XMLElement, settings: Record<string, string>): void => {
+  const { name, value } = element.attributes
+  const isParam = name !== undefined && value !== undefined
+  if (isParam) {
+    settings[name] ??= value
+  }
+  for (const [attribute, attributeValue] of Object.entries(element.attributes)) {
+    if (!isParam || (attribute !== 'name' && attribute !== 'value')) {
+      settings[`${element.name}.${attribute}`] ??= attributeValue
+    }
+  }
+
+  if (element.children.length === 0) {
+    if (element.text) {
+      settings[element.name] ??= element.text
+    }
+    return
+  }
+  for (const child of element.children.filter(child => !TOC_CONTAINER_PATTERN.test(child.name))) {
+    collectSettings(child, settings)
+  }
+}
+
+/** Look up the first non-empty setting among the candidate keys, ignoring case */
+const findSetting = (settings: Record<string, string>, keys: string[]): string | null => {
+  const lowerCased = new Map(Object.entries(settings).map(([key, value]) => [key.toLowerCase(), value]))
+  for (const key of keys) {
+    const value = lowerCased.get(key.toLowerCase())?.trim()
+    if (value) {
+      return value
+    }
+  }
+  return null
+}
+
+/**
+ * Parse a time given in seconds ("83.5") or as a timecode ("1:23.5", "00:01:23.500")
+ */
+const parseTime = (value: string): number | null => {
+  const parts = value.trim().split(':')
+  if (parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?s?$/.test(part))) {
+    return null
+  }
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0)
+}
+
+/**
+ * Collect the table of contents entries of a config XML document
+ *
+ * Entries are the elements inside a toc/chapters/markers element (at any depth,
+ * so nested sub-entries are flattened in document order) that have a title and a
+ * time or frame, given either as attributes or as child elements.
+ */
+const collectTableOfContents = (element: XMLElement, inContainer: boolean, entries: TableOfContentsEntry[]): void => {
+  if (inContainer) {
+    const values: Record<string, string> = { ...element.attributes }
+    for (const child of element.children) {
+      if (child.children.length === 0) {
+        values[child.name] ??= child.text
+      }
+    }
+
+    const title = findSetting(values, TOC_KEYS.title) ?? (element.children.length === 0 ? element.text || null : null)
+    const time = findSetting(values, TOC_KEYS.time)
+    const milliseconds = findSetting(values, TOC_KEYS.milliseconds)
+    const frame = findSetting(values, TOC_KEYS.frame)
+    const seconds = time !== null ? parseTime(time) : milliseconds !== null ? parseFloat(milliseconds) / 1000 : null
+    const frameNumber = frame !== null ? parseInt(frame, 10) : NaN
+
+    if (title && seconds !== null && Number.isFinite(seconds)) {
+      entries.push({ title, time: seconds, frame: null })
+    } else if (title && Number.isFinite(frameNumber) && frameNumber >= 0) {
+      entries.push({ title, time: null, frame: frameNumber })
+    }
+  }
+
+  for (const child of element.children) {
+    collectTableOfContents(child, inContainer || TOC_CONTAINER_PATTERN.test(element.name), entries)
+  }
+}
+
+/** Parse a positive number setting, ignoring units such as "px" */
+const parseNumberSetting = (value: string | null): number | null => {
+  const parsed = value === null ? NaN : parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+/**
+ * Read a Camtasia config XML file
+ *
+ * The layout of the file differs between Camtasia versions, so settings are looked
+ * up by name wherever they appear rather than by their position in the document.
+ *
+ * @param configFile - Path to the `*_config.xml` file
+ * @returns The settings found in the file
+ * @throws Error if the file cannot be read or is not well-formed XML
+ */
+export const readProjectConfig = (configFile: string): ProjectConfig => {
+  const root = parseXML(fs.readFileSync(configFile, 'utf8'))
+  const settings: Record<string, string> = {}
+  collectSettings(root, settings)
+  const tableOfContents: TableOfContentsEntry[] = []
+  collectTableOfContents(root, false, tableOfContents)
+
+  // Only an SWF reference can be the content file (the config also names FLV/MP4 media in some versions)
+  const contentKeys = CONFIG_KEYS.contentFile.filter(key => /\.swf$/i.test(findSetting(settings, [key]) ?? ''))
+  const contentFile = findSetting(settings, contentKeys)
+
+  return {
+    file: configFile,
+    title: findSetting(settings, CONFIG_KEYS.title),
+    width: parseNumberSetting(findSetting(settings, CONFIG_KEYS.width)),
+    height: parseNumberSetting(findSetting(settings, CONFIG_KEYS.height)),
+    frameRate: parseNumberSetting(findSetting(settings, CONFIG_KEYS.frameRate)),
+    contentFile: contentFile ? path.resolve(path.dirname(configFile), contentFile) : null,
+    tableOfContents,
+    settings
+  }
+}
+
+/**
+ * Get the role an SWF plays in a Camtasia project from its file name
+ *
+ * @param swfFile - Path to an SWF file
+ * @returns The project name and role; standalone and content SWFs have the 'content' role
+ */
+export const getProjectRole = (swfFile: string): { name: string; role: 'content' | 'controller' | 'preloader' } => {
+  const baseName = path.basename(swfFile, path.extname(swfFile))
+  for (const { role, pattern } of SUPPORT_SWF_PATTERNS) {
+    const match = pattern.exec(baseName)
+    if (match) {
+      return { name: match[1], role }
+    }
+  }
+  return { name: baseName, role: 'content' }
+}
+
+/**
+ * Group SWF files into Camtasia projects
+ *
+ * Files are grouped by directory and project name; the content SWF is the one
+ * without a controller/preloader suffix. Config files are looked up on disk next
+ * to the SWFs, so a single content SWF given on its own still picks up its config.
+ *
+ * @param swfFiles - Paths to the SWF files found in the input
+ * @returns Projects to process and the SWFs that are skipped, with the reason
+ */
+export const groupProjectFiles = (swfFiles: string[]): ProjectDiscovery => {
+  const projects = new Map<string, CamtasiaProject>()
+  const supportFiles: Array<{ file: string; key: string; name: string; role: 'controller' | 'preloader' }> = []
+  const configs = new Map<string, { file: string; config: ProjectConfig | null; error: string | null }>()
+
+  const getConfig = (directory: string, name: string) => {
+    const key = path.join(directory, name.toLowerCase())
+    if (!configs.has(key)) {
+      const entry = fs.readdirSync(directory).find(file => file.toLowerCase() === `${name}${CONFIG_SUFFIX}`.toLowerCase())
+      if (!entry) {
+        return null
+      }
+      const file = path.join(directory, entry)
+      try {
+        configs.set(key, { file, config: readProjectConfig(file), error: null })
+      } catch (error) {
+        configs.set(key, { file, config: null, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+    return configs.get(key)!
+  }
+
+  for (const swfFile of swfFiles) {
+    const file = path.resolve(swfFile)
+    const directory = path.dirname(file)
+    const { name, role } = getProjectRole(file)
+    const key = path.join(directory, name.toLowerCase())
+
+    if (role !== 'content') {
+      supportFiles.push({ file, key, name, role })
+      continue
+    }
+
+    const config = getConfig(directory, name)
+    projects.set(key, {
+      name,
+      contentFile: file,
+      controllerFile: null,
+      preloaderFile: null,
+      configFile: config?.file ?? null,
+      config: config?.config ?? null,
+      configError: config?.error ?? null
+    })
+  }
+
+  const skipped: SkippedSWF[] = []
+  for (const { file, key, name, role } of supportFiles) {
+    const project = projects.get(key)
+    if (project) {
+      if (role === 'controller') {
+        project.controllerFile = file
+      } else {
+        project.preloaderFile = file
+      }
+    }
+
+    const contentName = project ? path.basename(project.contentFile) : `${name}.swf`
+    const contentExists = project !== undefined || fs.existsSync(path.join(path.dirname(file), contentName))
+    const description = role === 'controller' ? 'Camtasia playback controller' : 'Camtasia preloader'
+    skipped.push({
+      file,
+      reason: contentExists ? `${description} for ${contentName}` : `${description} (no content SWF found)`
+    })
+  }
+
+  return { projects: [...projects.values()], skipped }
+}
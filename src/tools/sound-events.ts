@@ -0,0 +1,293 @@
+/**
+ * @fileoverview Event Sound Timeline
+ *
+ * Besides the stream sound, SWF files can play event sounds: a DefineSound tag holds
+ * the sound data, and a StartSound (or StartSound2) tag on a given frame starts it.
+ * Camtasia uses event sounds for click sounds, transitions and some narration segments.
+ *
+ * This module:
+ * - Writes every event sound that is actually started on the main timeline to
+ *   sounds/events/<soundId>.<ext>, using the same containers as the stream sound
+ * - Records each StartSound (frame, loops, in/out points, envelope, stop flags) in a
+ *   sounds/timeline.json sidecar
+ * - Resolves the timeline into concrete placements (start time and played duration
+ *   of each sound instance) that the converter mixes with the stream sound
+ *
+ * Like the stream sound, only the main timeline is considered.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  SWFFile,
+  SWF_TAGS,
+  SoundDefinition,
+  SoundEnvelopePoint,
+  parseDefineSound,
+  parseStartSound,
+  parseSymbolNames
+} from './swf-parser'
+import { encodeSoundData } from './sound-formats'
+
+/** Name of the event sound timeline sidecar within the sounds/ directory */
+export const SOUND_TIMELINE_FILE = 'timeline.json'
+
+/** Subdirectory of sounds/ holding the event sound files */
+export const EVENT_SOUNDS_DIR = 'events'
+
+/** Sample rate SOUNDINFO in/out points and envelope positions are expressed in */
+const SOUNDINFO_SAMPLE_RATE = 44100
+
+/** An event sound written to disk */
+export interface EventSoundFile {
+  soundId: number
+  /** Path of the audio file relative to the sounds/ directory */
+  file: string
+  format: number
+  formatName: string
+  sampleRate: number
+  channels: number
+  /** Number of samples per channel */
+  sampleCount: number
+  /** MP3 only: encoder delay at the start of the decoded audio, in samples */
+  seekSamples: number
+  /** Length of one play-through in seconds */
+  duration: number
+}
+
+/** A StartSound/StartSound2 tag on the main timeline */
+export interface SoundEvent {
+  /** Zero-based frame the tag is on */
+  frame: number
+  soundId: number
+  /** Stop the sound instead of starting it */
+  syncStop: boolean
+  /** Don't start the sound if it is already playing */
+  syncNoMultiple: boolean
+  /** In point in 44.1 kHz samples, or null */
+  inPoint: number | null
+  /** Out point in 44.1 kHz samples, or null */
+  outPoint: number | null
+  loopCount: number
+  envelope: SoundEnvelopePoint[]
+}
+
+/** Contents of the timeline sidecar */
+export interface SoundTimeline {
+  /** SWF frame rate the frame numbers refer to */
+  frameRate: number
+  sounds: EventSoundFile[]
+  /** Events in timeline order */
+  events: SoundEvent[]
+}
+
+/** One instance of an event sound on the output timeline */
+export interface SoundPlacement {
+  soundId: number
+  /** Path of the audio file relative to the sounds/ directory */
+  file: string
+  /** Time the sound starts on the video timeline, in seconds */
+  start: number
+  /** Seconds to skip at the start of the decoded file (MP3 delay plus in point) */
+  trimStart: number
+  /** Length of one play-through after applying in/out points, in seconds */
+  loopLength: number
+  loopCount: number
+  /** Total time the instance plays for, in seconds (shortened if the sound is stopped) */
+  duration: number
+  envelope: SoundEnvelopePoint[]
+}
+
+/**
+ * Collect the event sounds started on the main timeline
+ *
+ * StartSound2 references sounds by class name, which is resolved through
+ * SymbolClass/ExportAssets tags. Events referring to sounds that aren't defined
+ * in the file are skipped.
+ *
+ * @param swf - Parsed SWF file
+ * @returns The referenced sound definitions and the events in timeline order
+ */
+export const collectSoundEvents = (swf: SWFFile): { definitions: SoundDefinition[]; events: SoundEvent[] } => {
+  const definitions = new Map<number, SoundDefinition>()
+  const symbolNames = new Map<string, number>()
+
+  for (const tag of swf.tags) {
+    if (tag.code === SWF_TAGS.DefineSound) {
+      const definition = parseDefineSound(tag)
+      definitions.set(definition.soundId, definition)
+    } else if (tag.code === SWF_TAGS.SymbolClass || tag.code === SWF_TAGS.ExportAssets) {
+      for (const [name, characterId] of parseSymbolNames(tag)) {
+        symbolNames.set(name, characterId)
+      }
+    }
+  }
+
+  const events: SoundEvent[] = []
+  for (const tag of swf.tags) {
+    if (tag.code !== SWF_TAGS.StartSound && tag.code !== SWF_TAGS.StartSound2) {
+      continue
+    }
+
+    const record = parseStartSound(tag)
+    const soundId = record.soundId ?? symbolNames.get(record.className ?? '')
+    if (soundId === undefined || !definitions.has(soundId)) {
+      continue
+    }
+
+    events.push({
+      frame: tag.frame,
+      soundId,
+      syncStop: record.info.syncStop,
+      syncNoMultiple: record.info.syncNoMultiple,
+      inPoint: record.info.inPoint,
+      outPoint: record.info.outPoint,
+      loopCount: record.info.loopCount,
+      envelope: record.info.envelope
+    })
+  }
+
+  const usedIds = new Set(events.map(event => event.soundId))
+  return {
+    definitions: [...definitions.values()].filter(definition => usedIds.has(definition.soundId)),
+    events
+  }
+}
+
+/**
+ * Write the event sounds and timeline sidecar to a sounds/ directory
+ *
+ * Sounds in formats that can't be written (unknown codecs) are skipped together
+ * with their events.
+ *
+ * @param swf - Parsed SWF file
+ * @param soundsDir - Directory to write into (created if missing)
+ * @param frameRate - SWF frame rate in frames per second
+ * @returns The saved timeline, or null if the SWF starts no event sounds
+ */
+export const writeSoundTimeline = (swf: SWFFile, soundsDir: string, frameRate: number): SoundTimeline | null => {
+  const { definitions, events } = collectSoundEvents(swf)
+  if (events.length === 0) {
+    return null
+  }
+
+  const eventsDir = path.join(soundsDir, EVENT_SOUNDS_DIR)
+  if (!fs.existsSync(eventsDir)) {
+    fs.mkdirSync(eventsDir, { recursive: true })
+  }
+
+  const sounds: EventSoundFile[] = []
+  for (const definition of definitions) {
+    let encoded
+    try {
+      encoded = encodeSoundData(definition, definition.data)
+    } catch (error) {
+      continue
+    }
+
+    const file = `${EVENT_SOUNDS_DIR}/${definition.soundId}.${encoded.container}`
+    fs.writeFileSync(path.join(soundsDir, file), encoded.data)
+    sounds.push({
+      soundId: definition.soundId,
+      file,
+      format: definition.format,
+      formatName: definition.formatName,
+      sampleRate: definition.sampleRate,
+      channels: definition.channels,
+      sampleCount: definition.sampleCount,
+      seekSamples: definition.seekSamples,
+      duration: definition.sampleCount / definition.sampleRate
+    })
+  }
+
+  const writtenIds = new Set(sounds.map(sound => sound.soundId))
+  const timeline: SoundTimeline = {
+    frameRate,
+    sounds,
+    events: events.filter(event => writtenIds.has(event.soundId))
+  }
+  if (timeline.events.length === 0) {
+    return null
+  }
+
+  fs.writeFileSync(path.join(soundsDir, SOUND_TIMELINE_FILE), JSON.stringify(timeline, null, 2))
+  return timeline
+}
+
+/**
+ * Read the timeline sidecar written by writeSoundTimeline
+ *
+ * @param soundsDir - Directory containing extracted sounds
+ * @returns The saved timeline, or null if there is none (or it is unreadable)
+ */
+export const readSoundTimeline = (soundsDir: string): SoundTimeline | null => {
+  const timelinePath = path.join(soundsDir, SOUND_TIMELINE_FILE)
+  if (!fs.existsSync(timelinePath)) {
+    return null
+  }
+  try {
+    return JSON.parse(fs.readFileSync(timelinePath, 'utf8')) as SoundTimeline
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Resolve the timeline's events into sound instances on the output timeline
+ *
+ * Events are replayed in order, following the Flash player's rules:
+ * - A stop event (SyncStop) ends every instance of that sound still playing
+ * - SyncNoMultiple events are ignored while an instance of the sound is playing
+ * - In/out points trim each play-through; loops repeat the trimmed sound
+ *
+ * Times are computed from frame numbers at the given frame rate, so a user-chosen
+ * output frame rate keeps each sound on its frame.
+ *
+ * @param timeline - Event sound timeline
+ * @param frameRate - Frame rate the video is being encoded at
+ * @returns Sound instances with a positive duration, in start order
+ */
+export const resolveSoundPlacements = (timeline: SoundTimeline, frameRate: number): SoundPlacement[] => {
+  const sounds = new Map(timeline.sounds.map(sound => [sound.soundId, sound]))
+  const placements: SoundPlacement[] = []
+
+  for (const event of timeline.events) {
+    const sound = sounds.get(event.soundId)
+    if (!sound) {
+      continue
+    }
+
+    const time = frameRate > 0 ? event.frame / frameRate : 0
+    const playing = placements.filter(
+      placement => placement.soundId === event.soundId && placement.start + placement.duration > time
+    )
+
+    if (event.syncStop) {
+      for (const placement of playing) {
+        placement.duration = Math.max(0, time - placement.start)
+      }
+      continue
+    }
+
+    if (event.syncNoMultiple && playing.length > 0) {
+      continue
+    }
+
+    const inPoint = event.inPoint !== null ? event.inPoint / SOUNDINFO_SAMPLE_RATE : 0
+    const outPoint = event.outPoint !== null ? Math.min(event.outPoint / SOUNDINFO_SAMPLE_RATE, sound.duration) : sound.duration
+    const loopLength = Math.max(0, outPoint - inPoint)
+
+    placements.push({
+      soundId: sound.soundId,
+      file: sound.file,
+      start: time,
+      trimStart: sound.seekSamples / sound.sampleRate + inPoint,
+      loopLength,
+      loopCount: event.loopCount,
+      duration: loopLength * event.loopCount,
+      envelope: event.envelope
+    })
+  }
+
+  return placements.filter(placement => placement.duration > 0)
+}
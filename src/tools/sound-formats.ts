@@ -0,0 +1,244 @@
+/**
+ * @fileoverview SWF Sound Format Handling
+ *
+ * SWF files can carry sound in several formats, and only MP3 can be stream-copied
+ * into a standalone file. This module decides how each format is stored on disk so
+ * that FFmpeg can always transcode the result:
+ *
+ * - **MP3** (2): Written as-is to an .mp3 file
+ * - **Uncompressed PCM** (0, 3): Wrapped in a WAV container
+ * - **ADPCM** (1): Decoded to 16-bit PCM (SWF ADPCM has no standalone container) and written as WAV
+ * - **Nellymoser** (4, 5, 6) and **Speex** (11): Wrapped in an FLV container, which
+ *   uses the same codec IDs as SWF and is understood by FFmpeg's FLV demuxer
+ *
+ * Format 0 is "native-endian" PCM; Camtasia was a Windows product, so it is treated
+ * as little-endian like format 3.
+ */
+
+import { SoundStreamHead } from './swf-parser'
+import { createWAVFile, createFLVFile } from '../utils/media-containers'
+
+/** SWF sound format codes (SoundFormat / StreamSoundCompression values) */
+export const SOUND_FORMATS = {
+  PCM_NATIVE: 0,
+  ADPCM: 1,
+  MP3: 2,
+  PCM_LE: 3,
+  NELLYMOSER_16K: 4,
+  NELLYMOSER_8K: 5,
+  NELLYMOSER: 6,
+  SPEEX: 11
+} as const
+
+/** Container used to store a sound format on disk */
+export type SoundContainer = 'mp3' | 'wav' | 'flv'
+
+/** Format fields shared by stream sound headers and event sound definitions */
+export type SoundFormatInfo = Pick<SoundStreamHead, 'format' | 'sampleRate' | 'sampleSize' | 'channels'>
+
+/**
+ * Check whether a sound format is uncompressed PCM
+ *
+ * @param format - SWF sound format code
+ * @returns True for formats 0 and 3
+ */
+export const isPCMFormat = (format: number): boolean =>
+  format === SOUND_FORMATS.PCM_NATIVE || format === SOUND_FORMATS.PCM_LE
+
+/**
+ * Choose the container a sound format is written to
+ *
+ * @param format - SWF sound format code
+ * @returns File container, which is also used as the file extension
+ * @throws Error if the format is unknown
+ */
+export const getSoundContainer = (format: number): SoundContainer => {
+  if (format === SOUND_FORMATS.MP3) {
+    return 'mp3'
+  }
+  if (isPCMFormat(format) || format === SOUND_FORMATS.ADPCM) {
+    return 'wav'
+  }
+  if (
+    format === SOUND_FORMATS.NELLYMOSER_16K ||
+    format === SOUND_FORMATS.NELLYMOSER_8K ||
+    format === SOUND_FORMATS.NELLYMOSER ||
+    format === SOUND_FORMATS.SPEEX
+  ) {
+    return 'flv'
+  }
+  throw new Error(`Unsupported SWF sound format: ${format}`)
+}
+
+/** IMA ADPCM quantizer step sizes */
+const ADPCM_STEP_TABLE = [
+  7, 8, 9, 10, 11, 12, 13, 14, 16, 17, 19, 21, 23, 25, 28, 31, 34, 37, 41, 45,
+  50, 55, 60, 66, 73, 80, 88, 97, 107, 118, 130, 143, 157, 173, 190, 209, 230,
+  253, 279, 307, 337, 371, 408, 449, 494, 544, 598, 658, 724, 796, 876, 963,
+  1060, 1166, 1282, 1411, 1552, 1707, 1878, 2066, 2272, 2499, 2749, 3024, 3327,
+  3660, 4026, 4428, 4871, 5358, 5894, 6484, 7132, 7845, 8630, 9493, 10442,
+  11487, 12635, 13899, 15289, 16818, 18500, 20350, 22385, 24623, 27086, 29794, 32767
+]
+
+/** Step index adjustments for 2-, 3-, 4- and 5-bit SWF ADPCM codes (magnitude bits only) */
+const ADPCM_INDEX_TABLES = [
+  [-1, 2],
+  [-1, -1, 2, 4],
+  [-1, -1, -1, -1, 2, 4, 6, 8],
+  [-1, -1, -1, -1, -1, -1, -1, -1, 1, 2, 4, 6, 8, 10, 13, 16]
+]
+
+/** Number of samples per channel in each SWF ADPCM packet (initial sample + 4095 codes) */
+const ADPCM_PACKET_SAMPLES = 4096
+
+/**
+ * Decode SWF ADPCM sound data to 16-bit PCM
+ *
+ * ADPCMSOUNDDATA starts with a 2-bit code size, followed by packets of up to 4096
+ * samples per channel. Each packet begins with an uncompressed 16-bit sample and a
+ * 6-bit step index per channel, then interleaved ADPCM codes. Every SoundStreamBlock
+ * (and every DefineSound) is a self-contained ADPCMSOUNDDATA record.
+ *
+ * @param data - ADPCMSOUNDDATA bytes
+ * @param channels - Number of channels (1 or 2)
+ * @returns Interleaved signed 16-bit little-endian PCM
+ */
+export const decodeADPCM = (data: Buffer, channels: number): Buffer => {
+  const totalBits = data.length * 8
+  let bitPos = 0
+
+  const readBits = (count: number): number => {
+    let value = 0
+    for (let i = 0; i < count; i++) {
+      const bit = (data[bitPos >>> 3] >>> (7 - (bitPos & 7))) & 1
+      value = (value << 1) | bit
+      bitPos++
+    }
+    return value
+  }
+
+  if (totalBits < 2) {
+    return Buffer.alloc(0)
+  }
+
+  const codeBits = readBits(2) + 2
+  const indexTable = ADPCM_INDEX_TABLES[codeBits - 2]
+  const signMask = 1 << (codeBits - 1)
+  const topMagnitudeBit = 1 << (codeBits - 2)
+
+  const samples: number[] = []
+  const predictors = new Array<number>(channels).fill(0)
+  const stepIndices = new Array<number>(channels).fill(0)
+
+  // Each packet header is a 16-bit sample and 6-bit step index per channel
+  while (bitPos + 22 * channels <= totalBits) {
+    for (let ch = 0; ch < channels; ch++) {
+      const raw = readBits(16)
+      predictors[ch] = raw & 0x8000 ? raw - 0x10000 : raw
+      stepIndices[ch] = readBits(6)
+      samples.push(predictors[ch])
+    }
+
+    for (let n = 1; n < ADPCM_PACKET_SAMPLES && bitPos + codeBits * channels <= totalBits; n++) {
+      for (let ch = 0; ch < channels; ch++) {
+        const code = readBits(codeBits)
+        let step = ADPCM_STEP_TABLE[stepIndices[ch]]
+
+        // difference = (magnitude + 0.5) * step / 2^(codeBits - 2), computed with shifts
+        let difference = 0
+        for (let bit = topMagnitudeBit; bit > 0; bit >>= 1) {
+          if (code & bit) {
+            difference += step
+          }
+          step >>= 1
+        }
+        difference += step
+
+        const predictor = code & signMask ? predictors[ch] - difference : predictors[ch] + difference
+        predictors[ch] = Math.max(-32768, Math.min(32767, predictor))
+        stepIndices[ch] = Math.max(0, Math.min(88, stepIndices[ch] + indexTable[code & (signMask - 1)]))
+        samples.push(predictors[ch])
+      }
+    }
+  }
+
+  const pcm = Buffer.alloc(samples.length * 2)
+  for (let i = 0; i < samples.length; i++) {
+    pcm.writeInt16LE(samples[i], i * 2)
+  }
+  return pcm
+}
+
+/**
+ * Count the samples in SWF ADPCM sound data without decoding it
+ *
+ * @param data - ADPCMSOUNDDATA bytes
+ * @param channels - Number of channels (1 or 2)
+ * @returns Number of samples per channel that decodeADPCM will produce
+ */
+export const getADPCMSampleCount = (data: Buffer, channels: number): number => {
+  if (data.length === 0) {
+    return 0
+  }
+
+  const codeBits = (data[0] >>> 6) + 2
+  const bits = data.length * 8 - 2
+  const headerBits = 22 * channels
+  const packetBits = headerBits + (ADPCM_PACKET_SAMPLES - 1) * codeBits * channels
+
+  const fullPackets = Math.floor(bits / packetBits)
+  const remainder = bits - fullPackets * packetBits
+  let samples = fullPackets * ADPCM_PACKET_SAMPLES
+  if (remainder >= headerBits) {
+    samples += 1 + Math.min(ADPCM_PACKET_SAMPLES - 1, Math.floor((remainder - headerBits) / (codeBits * channels)))
+  }
+  return samples
+}
+
+/**
+ * Build the AUDIODATA header byte for FLV audio tags carrying this sound format
+ *
+ * FLV uses the same SoundFormat codes as SWF. The rate field is ignored by
+ * decoders for the fixed-rate Nellymoser and Speex variants.
+ *
+ * @param head - Stream sound header or sound definition describing the audio
+ * @returns The first byte of each FLV audio tag body
+ */
+export const getFLVAudioHeader = (head: SoundFormatInfo): number => {
+  const rateIndex = [5512, 11025, 22050, 44100].indexOf(head.sampleRate)
+  return (
+    ((head.format & 0x0f) << 4) |
+    ((rateIndex >= 0 ? rateIndex : 0) << 2) |
+    ((head.sampleSize === 16 ? 1 : 0) << 1) |
+    (head.channels === 2 ? 1 : 0)
+  )
+}
+
+/**
+ * Encode a complete sound (e.g. a DefineSound payload) into its on-disk container
+ *
+ * MP3 data is returned unchanged, PCM and decoded ADPCM are wrapped in WAV, and
+ * Nellymoser/Speex become a single-tag FLV file.
+ *
+ * @param sound - Format of the sound data
+ * @param data - Sound payload (MP3 frames without SeekSamples for MP3)
+ * @returns Container type and file contents
+ * @throws Error if the sound format is unsupported
+ */
+export const encodeSoundData = (sound: SoundFormatInfo, data: Buffer): { container: SoundContainer; data: Buffer } => {
+  const container = getSoundContainer(sound.format)
+
+  if (container === 'wav') {
+    if (sound.format === SOUND_FORMATS.ADPCM) {
+      return { container, data: createWAVFile(decodeADPCM(data, sound.channels), sound.sampleRate, sound.channels, 16) }
+    }
+    return { container, data: createWAVFile(data, sound.sampleRate, sound.channels, sound.sampleSize) }
+  }
+
+  if (container === 'flv') {
+    const body = Buffer.concat([Buffer.from([getFLVAudioHeader(sound)]), data])
+    return { container, data: createFLVFile([{ type: 'audio', timestamp: 0, data: body }]) }
+  }
+
+  return { container, data }
+}
@@ -0,0 +1,407 @@
+/**
+ * @fileoverview Native SWF Stream Sound Demuxer
+ *
+ * This module reads the stream sound of an SWF file (SoundStreamHead/SoundStreamHead2
+ * followed by one SoundStreamBlock per frame) and turns it into a single elementary
+ * audio stream, without going through FFmpeg's SWF demuxer.
+ *
+ * FFmpeg drops or misaligns blocks on several 2006-era Camtasia files, which shows up
+ * as audio drift by the end of long lessons. Demuxing natively lets us:
+ * - Keep every block, in tag order
+ * - Record the frame each block belongs to, plus its MP3 SeekSamples value
+ * - Fill frames that have no block with silence, so later audio stays aligned
+ * - Compute the exact time the stream starts on the video timeline (start frame
+ *   and MP3 LatencySeek)
+ *
+ * The timing data is saved as a JSON sidecar next to the extracted audio so the
+ * converter can place the audio precisely. The audio container depends on the
+ * stream's format (see sound-formats.ts): MP3 is written as .mp3, PCM and ADPCM
+ * as .wav, Nellymoser and Speex as .flv.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { SWFFile, SWF_TAGS, SoundStreamHead, parseSoundStreamHead } from './swf-parser'
+import {
+  SOUND_FORMATS,
+  SoundContainer,
+  isPCMFormat,
+  getSoundContainer,
+  decodeADPCM,
+  getADPCMSampleCount,
+  getFLVAudioHeader
+} from './sound-formats'
+import { createWAVFile, createFLVFile } from '../utils/media-containers'
+
+/** Name of the timing sidecar written next to the extracted stream audio */
+export const SOUND_STREAM_INFO_FILE = 'stream.json'
+
+/** One SoundStreamBlock from the stream sound */
+export interface SoundStreamBlock {
+  /** Zero-based frame the block belongs to */
+  frame: number
+  /** Number of samples in the block */
+  sampleCount: number
+  /** MP3 only: samples to skip at the start of this frame's data (0 for other formats) */
+  seekSamples: number
+  /** Audio payload (MP3 frames for MP3, raw codec data otherwise) */
+  data: Buffer
+}
+
+/** Demuxed stream sound */
+export interface SoundStream {
+  /** Decoded SoundStreamHead record */
+  head: SoundStreamHead
+  /** Blocks in tag order */
+  blocks: SoundStreamBlock[]
+  /** Frame of the first block (where the stream starts on the timeline) */
+  startFrame: number
+  /** Frames between the first and last block that have no block */
+  missingFrames: number[]
+}
+
+/** Timing information saved alongside the extracted stream audio */
+export interface SoundStreamInfo {
+  /** Audio file name within the sounds/ directory */
+  file: string
+  format: number
+  formatName: string
+  sampleRate: number
+  sampleSize: number
+  channels: number
+  samplesPerBlock: number
+  latencySeek: number
+  /** SWF frame rate the frame numbers refer to */
+  frameRate: number
+  /** Frame of the first block */
+  startFrame: number
+  /** Position of the audio file's first sample on the video timeline, in seconds (may be negative) */
+  startTime: number
+  /** Total samples written, including silence inserted for missing frames */
+  totalSamples: number
+  /** Frames that had no block and were filled with silence */
+  missingFrames: number[]
+  /** Per-block frame, sample count and MP3 seek values */
+  blocks: Array<{ frame: number; sampleCount: number; seekSamples: number }>
+}
+
+/**
+ * Find and demux the stream sound of an SWF file
+ *
+ * Only the main timeline is considered: stream sound in sprites is played relative
+ * to the sprite, which can't be mapped to the video timeline statically.
+ *
+ * @param swf - Parsed SWF file
+ * @returns The demuxed stream, or null if the SWF has no stream sound (or no blocks)
+ */
+export const demuxSoundStream = (swf: SWFFile): SoundStream | null => {
+  const headTag = swf.tags.find(
+    tag => tag.code === SWF_TAGS.SoundStreamHead || tag.code === SWF_TAGS.SoundStreamHead2
+  )
+  if (!headTag) {
+    return null
+  }
+
+  const head = parseSoundStreamHead(headTag)
+  const blocks: SoundStreamBlock[] = []
+
+  for (const tag of swf.tags) {
+    if (tag.code !== SWF_TAGS.SoundStreamBlock) {
+      continue
+    }
+
+    if (head.format === SOUND_FORMATS.MP3) {
+      // MP3STREAMSOUNDDATA: SampleCount UI16, SeekSamples SI16, MP3 frames
+      if (tag.data.length < 4) {
+        continue
+      }
+      blocks.push({
+        frame: tag.frame,
+        sampleCount: tag.data.readUInt16LE(0),
+        seekSamples: tag.data.readInt16LE(2),
+        data: tag.data.subarray(4)
+      })
+    } else {
+      blocks.push({
+        frame: tag.frame,
+        sampleCount: estimateSampleCount(head, tag.data),
+        seekSamples: 0,
+        data: tag.data
+      })
+    }
+  }
+
+  if (blocks.length === 0) {
+    return null
+  }
+
+  // Frames inside the stream's span that have no block of their own
+  const framesWithBlocks = new Set(blocks.map(block => block.frame))
+  const missingFrames: number[] = []
+  for (let frame = blocks[0].frame; frame <= blocks[blocks.length - 1].frame; frame++) {
+    if (!framesWithBlocks.has(frame)) {
+      missingFrames.push(frame)
+    }
+  }
+
+  return { head, blocks, startFrame: blocks[0].frame, missingFrames }
+}
+
+/**
+ * Estimate the number of samples in a non-MP3 block from its data
+ *
+ * Uncompressed and ADPCM blocks can be sized exactly; for the other compressed
+ * formats the header's average samples-per-block value is the best available estimate.
+ */
+const estimateSampleCount = (head: SoundStreamHead, data: Buffer): number => {
+  if (isPCMFormat(head.format)) {
+    return Math.floor(data.length / ((head.sampleSize / 8) * head.channels))
+  }
+  if (head.format === SOUND_FORMATS.ADPCM) {
+    return getADPCMSampleCount(data, head.channels)
+  }
+  return head.samplesPerBlock
+}
+
+/** MPEG audio Layer III bitrate tables in kbit/s, indexed by the 4-bit bitrate field */
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+
+/** MPEG audio sample rates, indexed by version bits then the 2-bit sample rate field */
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000]
+}
+
+/**
+ * Build a silent MP3 frame matching the format of the first frame in the stream
+ *
+ * A Layer III frame whose side information and main data are all zero decodes to
+ * silence. Copying the stream's own header (minus padding and CRC) keeps the
+ * silent frames compatible with the surrounding audio.
+ *
+ * @param payload - MP3 data containing at least one frame header
+ * @returns A silent frame and the number of samples it represents, or null if no header was found
+ */
+const createSilentMP3Frame = (payload: Buffer): { frame: Buffer; samples: number } | null => {
+  for (let i = 0; i + 4 <= payload.length; i++) {
+    if (payload[i] !== 0xff || (payload[i + 1] & 0xe0) !== 0xe0) {
+      continue
+    }
+
+    const versionBits = (payload[i + 1] >>> 3) & 0x03
+    const layerBits = (payload[i + 1] >>> 1) & 0x03
+    const bitrateIndex = payload[i + 2] >>> 4
+    const sampleRateIndex = (payload[i + 2] >>> 2) & 0x03
+
+    // Layer III only, and skip free/invalid bitrates and reserved fields
+    if (versionBits === 1 || layerBits !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+      continue
+    }
+
+    const isMPEG1 = versionBits === 3
+    const bitrate = (isMPEG1 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[bitrateIndex] * 1000
+    const sampleRate = MP3_SAMPLE_RATES[versionBits][sampleRateIndex]
+    const frameLength = Math.floor(((isMPEG1 ? 144 : 72) * bitrate) / sampleRate)
+
+    const frame = Buffer.alloc(frameLength)
+    frame[0] = 0xff
+    frame[1] = payload[i + 1] | 0x01 // Protection bit set = no CRC
+    frame[2] = payload[i + 2] & 0xfd // Clear padding bit
+    frame[3] = payload[i + 3]
+
+    return { frame, samples: isMPEG1 ? 1152 : 576 }
+  }
+  return null
+}
+
+/**
+ * Create silence for a number of samples in the stream's own format
+ *
+ * @returns Silent audio data and the number of samples it actually covers
+ */
+const createSilence = (stream: SoundStream, samples: number): { data: Buffer; samples: number } => {
+  const { head } = stream
+
+  if (head.format === SOUND_FORMATS.MP3) {
+    const template = createSilentMP3Frame(stream.blocks.find(block => block.data.length > 0)?.data ?? Buffer.alloc(0))
+    if (!template) {
+      return { data: Buffer.alloc(0), samples: 0 }
+    }
+    const count = Math.round(samples / template.samples)
+    return { data: Buffer.concat(new Array(count).fill(template.frame)), samples: count * template.samples }
+  }
+
+  if (isPCMFormat(head.format)) {
+    // Unsigned 8-bit silence is 0x80, signed 16-bit silence is 0
+    const bytesPerSample = (head.sampleSize / 8) * head.channels
+    return { data: Buffer.alloc(samples * bytesPerSample, head.sampleSize === 8 ? 0x80 : 0), samples }
+  }
+
+  if (head.format === SOUND_FORMATS.ADPCM) {
+    // ADPCM payloads are decoded to 16-bit PCM, so pad with 16-bit silence
+    return { data: Buffer.alloc(samples * 2 * head.channels), samples }
+  }
+
+  // Other compressed formats can't be padded without an encoder
+  return { data: Buffer.alloc(0), samples: 0 }
+}
+
+/**
+ * Concatenate the stream's blocks into a single elementary stream
+ *
+ * Frames with no block are filled with silence (where the format allows it) so
+ * that audio after a gap still lines up with its frame. For MP3 the result is
+ * a plain MPEG audio stream playable as an .mp3 file; ADPCM blocks are decoded,
+ * so the result for ADPCM and PCM streams is raw PCM.
+ *
+ * @param stream - Demuxed stream sound
+ * @returns The elementary stream data and the total number of samples it contains
+ */
+export const buildSoundStreamPayload = (stream: SoundStream): { data: Buffer; totalSamples: number } => {
+  const parts: Buffer[] = []
+  let totalSamples = 0
+  let silenceDebt = 0
+  let previousFrame = stream.startFrame - 1
+
+  for (const block of stream.blocks) {
+    const gap = block.frame - previousFrame - 1
+    if (gap > 0) {
+      // Carry rounding error between gaps so repeated padding doesn't accumulate drift
+      silenceDebt += gap * stream.head.samplesPerBlock
+      const silence = createSilence(stream, silenceDebt)
+      parts.push(silence.data)
+      totalSamples += silence.samples
+      silenceDebt -= silence.samples
+    }
+    if (block.frame > previousFrame) {
+      previousFrame = block.frame
+    }
+
+    parts.push(stream.head.format === SOUND_FORMATS.ADPCM ? decodeADPCM(block.data, stream.head.channels) : block.data)
+    totalSamples += block.sampleCount
+  }
+
+  return { data: Buffer.concat(parts), totalSamples }
+}
+
+/**
+ * Calculate where the stream's first decoded sample sits on the video timeline
+ *
+ * The stream starts at the frame of its first block. For MP3, the decoder output
+ * begins with LatencySeek samples of encoder delay that belong before that frame.
+ *
+ * @param stream - Demuxed stream sound
+ * @param frameRate - SWF frame rate in frames per second
+ * @returns Start time in seconds (negative if the audio must be trimmed at the start)
+ */
+export const getSoundStreamStartTime = (stream: SoundStream, frameRate: number): number => {
+  const frameTime = frameRate > 0 ? stream.startFrame / frameRate : 0
+  const latency = stream.head.format === SOUND_FORMATS.MP3 ? stream.head.latencySeek / stream.head.sampleRate : 0
+  return frameTime - latency
+}
+
+/**
+ * Encode the stream sound into the container suited to its format
+ *
+ * - MP3: the elementary stream from buildSoundStreamPayload
+ * - PCM/ADPCM: the PCM payload wrapped in a WAV header
+ * - Nellymoser/Speex: one FLV audio tag per block, timestamped from the block's
+ *   frame so gaps in the stream are preserved without an encoder
+ *
+ * @param stream - Demuxed stream sound
+ * @param frameRate - SWF frame rate in frames per second (used for FLV timestamps)
+ * @returns Container type, file contents and the total number of samples
+ * @throws Error if the stream's sound format is unsupported
+ */
+export const encodeSoundStream = (
+  stream: SoundStream,
+  frameRate: number
+): { container: SoundContainer; data: Buffer; totalSamples: number } => {
+  const { head } = stream
+  const container = getSoundContainer(head.format)
+
+  if (container === 'flv') {
+    const audioHeader = Buffer.from([getFLVAudioHeader(head)])
+    const tags = stream.blocks.map(block => ({
+      type: 'audio' as const,
+      timestamp: frameRate > 0 ? ((block.frame - stream.startFrame) * 1000) / frameRate : 0,
+      data: Buffer.concat([audioHeader, block.data])
+    }))
+    const totalSamples = stream.blocks.reduce((sum, block) => sum + block.sampleCount, 0)
+    return { container, data: createFLVFile(tags), totalSamples }
+  }
+
+  const { data, totalSamples } = buildSoundStreamPayload(stream)
+  if (container === 'wav') {
+    // Decoded ADPCM is always 16-bit
+    const bitsPerSample = head.format === SOUND_FORMATS.ADPCM ? 16 : head.sampleSize
+    return { container, data: createWAVFile(data, head.sampleRate, head.channels, bitsPerSample), totalSamples }
+  }
+  return { container, data, totalSamples }
+}
+
+/**
+ * Write the stream sound to a sounds/ directory with its timing sidecar
+ *
+ * @param stream - Demuxed stream sound
+ * @param soundsDir - Directory to write into (created if missing)
+ * @param baseName - Audio file name without extension, e.g. "0"; the extension
+ *   is chosen from the stream's format
+ * @param frameRate - SWF frame rate in frames per second
+ * @returns Timing information that was saved to the sidecar
+ * @throws Error if the stream's sound format is unsupported
+ */
+export const writeSoundStream = (
+  stream: SoundStream,
+  soundsDir: string,
+  baseName: string,
+  frameRate: number
+): SoundStreamInfo => {
+  if (!fs.existsSync(soundsDir)) {
+    fs.mkdirSync(soundsDir, { recursive: true })
+  }
+
+  const { container, data, totalSamples } = encodeSoundStream(stream, frameRate)
+  const fileName = `${baseName}.${container}`
+  fs.writeFileSync(path.join(soundsDir, fileName), data)
+
+  const info: SoundStreamInfo = {
+    file: fileName,
+    format: stream.head.format,
+    formatName: stream.head.formatName,
+    sampleRate: stream.head.sampleRate,
+    sampleSize: stream.head.sampleSize,
+    channels: stream.head.channels,
+    samplesPerBlock: stream.head.samplesPerBlock,
+    latencySeek: stream.head.latencySeek,
+    frameRate,
+    startFrame: stream.startFrame,
+    startTime: getSoundStreamStartTime(stream, frameRate),
+    totalSamples,
+    missingFrames: stream.missingFrames,
+    blocks: stream.blocks.map(({ frame, sampleCount, seekSamples }) => ({ frame, sampleCount, seekSamples }))
+  }
+  fs.writeFileSync(path.join(soundsDir, SOUND_STREAM_INFO_FILE), JSON.stringify(info, null, 2))
+
+  return info
+}
+
+/**
+ * Read the timing sidecar written by writeSoundStream
+ *
+ * @param soundsDir - Directory containing extracted sounds
+ * @returns The saved timing information, or null if there is none (or it is unreadable)
+ */
+export const readSoundStreamInfo = (soundsDir: string): SoundStreamInfo | null => {
+  const infoPath = path.join(soundsDir, SOUND_STREAM_INFO_FILE)
+  if (!fs.existsSync(infoPath)) {
+    return null
+  }
+  try {
+    return JSON.parse(fs.readFileSync(infoPath, 'utf8')) as SoundStreamInfo
+  } catch (error) {
+    return null
+  }
+}
@@ -0,0 +1,843 @@
+/**
+ * @fileoverview Native SWF Header and Tag Parser
+ *
+ * This module reads SWF files directly in TypeScript, without spawning FFmpeg or Java.
+ * It gives the extractor and converter real metadata about a Camtasia SWF before any
+ * expensive processing starts:
+ *
+ * 1. **Signature Handling**: Supports uncompressed (FWS), zlib (CWS) and LZMA (ZWS) files
+ * 2. **Header Parsing**: Version, stage RECT, 8.8 fixed-point frame rate and frame count
+ * 3. **Tag Walking**: Splits the tag stream into typed records, tracking the frame each
+ *    tag belongs to (frames are delimited by ShowFrame tags)
+ *
+ * The parser is tolerant of the slightly damaged files that are common in old Camtasia
+ * exports: truncated zlib streams and tag streams that end without an End tag are read
+ * as far as possible and flagged as truncated instead of failing outright.
+ */
+
+import * as fs from 'fs'
+import * as zlib from 'zlib'
+import { decodeLZMA } from '../utils/lzma'
+
+/** SWF file signatures: uncompressed, zlib-compressed and LZMA-compressed */
+export type SWFSignature = 'FWS' | 'CWS' | 'ZWS'
+
+/** Compression scheme implied by an SWF signature */
+export type SWFCompression = 'none' | 'zlib' | 'lzma'
+
+/** Rectangle in twips (1/20th of a pixel) as stored in the SWF header */
+export interface SWFRect {
+  xMin: number
+  xMax: number
+  yMin: number
+  yMax: number
+}
+
+/** Parsed SWF file header */
+export interface SWFHeader {
+  /** File signature (FWS, CWS or ZWS) */
+  signature: SWFSignature
+  /** Compression scheme of the file body */
+  compression: SWFCompression
+  /** SWF format version */
+  version: number
+  /** Uncompressed file length declared in the header */
+  fileLength: number
+  /** Stage rectangle in twips */
+  frameSize: SWFRect
+  /** Stage width in pixels */
+  width: number
+  /** Stage height in pixels */
+  height: number
+  /** Frame rate in frames per second (decoded from 8.8 fixed point) */
+  frameRate: number
+  /** Raw 8.8 fixed-point frame rate value from the header */
+  frameRateRaw: number
+  /** Number of frames declared in the header */
+  frameCount: number
+}
+
+/** A single tag record from the SWF tag stream */
+export interface SWFTag {
+  /** Numeric tag code */
+  code: number
+  /** Human-readable tag name (or "Unknown<code>") */
+  name: string
+  /** Offset of the tag header within the uncompressed file */
+  offset: number
+  /** Offset of the tag payload within the uncompressed file */
+  dataOffset: number
+  /** Length of the tag payload in bytes */
+  length: number
+  /** Zero-based index of the frame this tag belongs to */
+  frame: number
+  /** Tag payload */
+  data: Buffer
+}
+
+/** Result of parsing a complete SWF file */
+export interface SWFFile {
+  header: SWFHeader
+  tags: SWFTag[]
+  /** Number of ShowFrame tags actually present in the tag stream */
+  showFrameCount: number
+  /** True if the file ended before the End tag (or the body failed to decompress fully) */
+  truncated: boolean
+}
+
+/** Tag codes used by this tool, named as in the SWF file format specification */
+export const SWF_TAGS = {
+  End: 0,
+  ShowFrame: 1,
+  DefineShape: 2,
+  PlaceObject: 4,
+  RemoveObject: 5,
+  DefineBits: 6,
+  DefineButton: 7,
+  JPEGTables: 8,
+  SetBackgroundColor: 9,
+  DefineFont: 10,
+  DefineText: 11,
+  DoAction: 12,
+  DefineFontInfo: 13,
+  DefineSound: 14,
+  StartSound: 15,
+  DefineButtonSound: 17,
+  SoundStreamHead: 18,
+  SoundStreamBlock: 19,
+  DefineBitsLossless: 20,
+  DefineBitsJPEG2: 21,
+  DefineShape2: 22,
+  Protect: 24,
+  PlaceObject2: 26,
+  RemoveObject2: 28,
+  DefineShape3: 32,
+  DefineText2: 33,
+  DefineButton2: 34,
+  DefineBitsJPEG3: 35,
+  DefineBitsLossless2: 36,
+  DefineEditText: 37,
+  DefineSprite: 39,
+  FrameLabel: 43,
+  SoundStreamHead2: 45,
+  DefineMorphShape: 46,
+  DefineFont2: 48,
+  ExportAssets: 56,
+  ImportAssets: 57,
+  EnableDebugger: 58,
+  DoInitAction: 59,
+  DefineVideoStream: 60,
+  VideoFrame: 61,
+  DefineFontInfo2: 62,
+  EnableDebugger2: 64,
+  ScriptLimits: 65,
+  SetTabIndex: 66,
+  FileAttributes: 69,
+  PlaceObject3: 70,
+  ImportAssets2: 71,
+  DefineFontAlignZones: 73,
+  CSMTextSettings: 74,
+  DefineFont3: 75,
+  SymbolClass: 76,
+  Metadata: 77,
+  DefineScalingGrid: 78,
+  DoABC: 82,
+  DefineShape4: 83,
+  DefineMorphShape2: 84,
+  DefineSceneAndFrameLabelData: 86,
+  DefineBinaryData: 87,
+  DefineFontName: 88,
+  StartSound2: 89,
+  DefineBitsJPEG4: 90,
+  DefineFont4: 91
+} as const
+
+const TAG_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(SWF_TAGS).map(([name, code]) => [code, name])
+)
+
+/**
+ * Get the specification name of a tag code
+ *
+ * @param code - Numeric tag code
+ * @returns Tag name, or "Unknown<code>" for codes this tool doesn't know about
+ */
+export const getTagName = (code: number): string => TAG_NAMES[code] ?? `Unknown${code}`
+
+/**
+ * Create a bit-level reader over a buffer
+ *
+ * SWF packs many structures (RECT, SOUNDINFO flags, etc.) as big-endian bit fields.
+ * The reader starts at a byte offset and can be re-aligned to the next byte boundary.
+ *
+ * @param buffer - Buffer to read from
+ * @param offset - Byte offset to start reading at
+ * @returns Reader with unsigned/signed bit field accessors
+ */
+export const createBitReader = (buffer: Buffer, offset: number = 0) => {
+  let bytePos = offset
+  let bitPos = 0
+
+  const readUB = (numBits: number): number => {
+    let value = 0
+    for (let i = 0; i < numBits; i++) {
+      if (bytePos >= buffer.length) {
+        throw new Error('Unexpected end of data while reading bit field')
+      }
+      const bit = (buffer[bytePos] >>> (7 - bitPos)) & 1
+      value = value * 2 + bit
+      bitPos++
+      if (bitPos === 8) {
+        bitPos = 0
+        bytePos++
+      }
+    }
+    return value
+  }
+
+  const readSB = (numBits: number): number => {
+    const value = readUB(numBits)
+    // Sign-extend from numBits
+    if (numBits > 0 && value >= Math.pow(2, numBits - 1)) {
+      return value - Math.pow(2, numBits)
+    }
+    return value
+  }
+
+  const align = () => {
+    if (bitPos > 0) {
+      bitPos = 0
+      bytePos++
+    }
+  }
+
+  const byteOffset = (): number => (bitPos > 0 ? bytePos + 1 : bytePos)
+
+  return { readUB, readSB, align, byteOffset }
+}
+
+/**
+ * Decompress the SWF body according to its signature
+ *
+ * @returns The uncompressed file body (everything after the 8-byte file header)
+ *          and whether decompression stopped early
+ */
+const decompressBody = (
+  buffer: Buffer,
+  signature: SWFSignature,
+  fileLength: number
+): { body: Buffer; truncated: boolean } => {
+  switch (signature) {
+    case 'FWS':
+      return { body: buffer.subarray(8), truncated: buffer.length < fileLength }
+
+    case 'CWS': {
+      // Z_SYNC_FLUSH lets zlib return whatever it could inflate from a truncated stream
+      const body = zlib.inflateSync(buffer.subarray(8), { finishFlush: zlib.constants.Z_SYNC_FLUSH })
+      return { body, truncated: body.length < fileLength - 8 }
+    }
+
+    case 'ZWS': {
+      // ZWS layout: 8-byte header, UI32 compressed length, 5 bytes of LZMA properties, LZMA data
+      if (buffer.length < 17) {
+        throw new Error('ZWS file is too short to contain an LZMA header')
+      }
+      const properties = buffer.subarray(12, 17)
+      const body = decodeLZMA(properties, buffer, 17, fileLength - 8)
+      return { body, truncated: body.length < fileLength - 8 }
+    }
+  }
+}
+
+/**
+ * Parse a tag stream into tag records
+ *
+ * Used for both the top-level tag stream and the nested tag stream of DefineSprite.
+ *
+ * @param data - Buffer containing the tag stream
+ * @param start - Offset of the first tag header within data
+ * @param baseOffset - Offset to add to tag offsets so they are relative to the uncompressed file
+ * @returns Parsed tags, ShowFrame count and whether the stream ended without an End tag
+ */
+const parseTagStream = (
+  data: Buffer,
+  start: number,
+  baseOffset: number
+): { tags: SWFTag[]; showFrameCount: number; truncated: boolean } => {
+  const tags: SWFTag[] = []
+  let position = start
+  let frame = 0
+
+  while (position + 2 <= data.length) {
+    const tagOffset = position
+    const codeAndLength = data.readUInt16LE(position)
+    position += 2
+
+    const code = codeAndLength >>> 6
+    let length = codeAndLength & 0x3f
+    if (length === 0x3f) {
+      if (position + 4 > data.length) {
+        break
+      }
+      length = data.readUInt32LE(position)
+      position += 4
+    }
+
+    if (code === SWF_TAGS.End) {
+      return { tags, showFrameCount: frame, truncated: false }
+    }
+
+    if (position + length > data.length) {
+      // Tag payload runs past the end of the data - keep what we have and stop
+      break
+    }
+
+    tags.push({
+      code,
+      name: getTagName(code),
+      offset: baseOffset + tagOffset,
+      dataOffset: baseOffset + position,
+      length,
+      frame,
+      data: data.subarray(position, position + length)
+    })
+    position += length
+
+    if (code === SWF_TAGS.ShowFrame) {
+      frame++
+    }
+  }
+
+  return { tags, showFrameCount: frame, truncated: true }
+}
+
+/**
+ * Parse an SWF file from an in-memory buffer
+ *
+ * @param buffer - Complete contents of an SWF file
+ * @returns Parsed header and tag stream
+ * @throws Error if the signature is unknown or the header cannot be read
+ */
+export const parseSWFBuffer = (buffer: Buffer): SWFFile => {
+  if (buffer.length < 8) {
+    throw new Error('File is too short to be an SWF file')
+  }
+
+  const signature = buffer.toString('latin1', 0, 3)
+  if (signature !== 'FWS' && signature !== 'CWS' && signature !== 'ZWS') {
+    throw new Error(`Not an SWF file (unknown signature "${signature.replace(/[^\x20-\x7e]/g, '?')}")`)
+  }
+
+  const version = buffer[3]
+  const fileLength = buffer.readUInt32LE(4)
+  const { body, truncated: bodyTruncated } = decompressBody(buffer, signature, fileLength)
+
+  // Stage RECT: 5-bit field size followed by four signed fields
+  const bits = createBitReader(body, 0)
+  const nBits = bits.readUB(5)
+  const frameSize: SWFRect = {
+    xMin: bits.readSB(nBits),
+    xMax: bits.readSB(nBits),
+    yMin: bits.readSB(nBits),
+    yMax: bits.readSB(nBits)
+  }
+  let position = bits.byteOffset()
+
+  if (position + 4 > body.length) {
+    throw new Error('SWF header is truncated')
+  }
+
+  // Frame rate is 8.8 fixed point stored little-endian (fraction byte first)
+  const frameRateRaw = body.readUInt16LE(position)
+  const frameCount = body.readUInt16LE(position + 2)
+  position += 4
+
+  const header: SWFHeader = {
+    signature,
+    compression: signature === 'FWS' ? 'none' : signature === 'CWS' ? 'zlib' : 'lzma',
+    version,
+    fileLength,
+    frameSize,
+    width: Math.round((frameSize.xMax - frameSize.xMin) / 20),
+    height: Math.round((frameSize.yMax - frameSize.yMin) / 20),
+    frameRate: frameRateRaw / 256,
+    frameRateRaw,
+    frameCount
+  }
+
+  const { tags, showFrameCount, truncated } = parseTagStream(body, position, 8)
+
+  return {
+    header,
+    tags,
+    showFrameCount,
+    truncated: truncated || bodyTruncated
+  }
+}
+
+/**
+ * Parse an SWF file from disk
+ *
+ * @param swfFile - Path to the SWF file
+ * @returns Parsed header and tag stream
+ * @throws Error if the file cannot be read or is not a valid SWF file
+ */
+export const parseSWF = (swfFile: string): SWFFile => {
+  return parseSWFBuffer(fs.readFileSync(swfFile))
+}
+
+/**
+ * Parse the nested tag stream of a DefineSprite tag
+ *
+ * Camtasia often wraps content (sounds, video, labels) inside movie clips, so callers
+ * looking for specific tags may need to descend into sprites.
+ *
+ * @param tag - A DefineSprite tag
+ * @returns The sprite's ID, declared frame count and nested tags (frame indices are sprite-relative)
+ */
+export const parseSpriteTags = (tag: SWFTag): { spriteId: number; frameCount: number; tags: SWFTag[] } => {
+  if (tag.code !== SWF_TAGS.DefineSprite) {
+    throw new Error(`Expected DefineSprite tag, got ${tag.name}`)
+  }
+  if (tag.data.length < 4) {
+    throw new Error('DefineSprite tag is too short')
+  }
+
+  const spriteId = tag.data.readUInt16LE(0)
+  const frameCount = tag.data.readUInt16LE(2)
+  const { tags } = parseTagStream(tag.data, 4, tag.dataOffset)
+
+  return { spriteId, frameCount, tags }
+}
+
+/**
+ * Flatten the tag stream, including the nested tags of every DefineSprite
+ *
+ * Nested tags keep their sprite-relative frame index, so this is meant for
+ * "does the file contain X" style lookups rather than timeline placement.
+ * Sprites that fail to parse are skipped.
+ *
+ * @param swf - Parsed SWF file
+ * @returns Top-level tags followed by the nested tags of each sprite in file order
+ */
+export const getAllTags = (swf: SWFFile): SWFTag[] => {
+  const all: SWFTag[] = []
+  for (const tag of swf.tags) {
+    all.push(tag)
+    if (tag.code === SWF_TAGS.DefineSprite) {
+      try {
+        all.push(...parseSpriteTags(tag).tags)
+      } catch (error) {
+        // Ignore malformed sprites - the rest of the file is still useful
+      }
+    }
+  }
+  return all
+}
+
+/** Names of SWF sound compression formats (SoundFormat / StreamSoundCompression values) */
+export const SOUND_FORMAT_NAMES: Record<number, string> = {
+  0: 'Uncompressed (native-endian)',
+  1: 'ADPCM',
+  2: 'MP3',
+  3: 'Uncompressed (little-endian)',
+  4: 'Nellymoser 16kHz',
+  5: 'Nellymoser 8kHz',
+  6: 'Nellymoser',
+  11: 'Speex'
+}
+
+/** Names of SWF video codecs (DefineVideoStream CodecID values) */
+export const VIDEO_CODEC_NAMES: Record<number, string> = {
+  2: 'Sorenson H.263',
+  3: 'Screen Video',
+  4: 'On2 VP6',
+  5: 'On2 VP6 with alpha',
+  6: 'Screen Video V2'
+}
+
+/** Sample rates indexed by the 2-bit SWF SoundRate field */
+const SOUND_RATES = [5512, 11025, 22050, 44100]
+
+/** Decoded SoundStreamHead / SoundStreamHead2 record */
+export interface SoundStreamHead {
+  /** StreamSoundCompression value (see SOUND_FORMAT_NAMES) */
+  format: number
+  /** Human-readable name of the compression format */
+  formatName: string
+  /** Sample rate in Hz */
+  sampleRate: number
+  /** Bits per sample (8 or 16) */
+  sampleSize: number
+  /** Number of channels (1 or 2) */
+  channels: number
+  /** Average number of samples in each SoundStreamBlock */
+  samplesPerBlock: number
+  /** MP3 only: number of samples to skip at the start of the stream */
+  latencySeek: number
+}
+
+/**
+ * Get the effective sample rate for a sound format
+ *
+ * Nellymoser 8kHz/16kHz ignore the SoundRate field and always use a fixed rate.
+ */
+const getSampleRate = (format: number, rateIndex: number): number => {
+  if (format === 4) {
+    return 16000
+  }
+  if (format === 5) {
+    return 8000
+  }
+  if (format === 11) {
+    return 16000
+  }
+  return SOUND_RATES[rateIndex]
+}
+
+/**
+ * Decode a SoundStreamHead or SoundStreamHead2 tag
+ *
+ * @param tag - SoundStreamHead (18) or SoundStreamHead2 (45) tag
+ * @returns Decoded stream format information
+ */
+export const parseSoundStreamHead = (tag: SWFTag): SoundStreamHead => {
+  if (tag.data.length < 4) {
+    throw new Error(`${tag.name} tag is too short`)
+  }
+
+  const flags = tag.data[1]
+  const format = flags >>> 4
+  const samplesPerBlock = tag.data.readUInt16LE(2)
+
+  // LatencySeek is only present for MP3 and is missing from some Camtasia 4 exports
+  const latencySeek = format === 2 && tag.data.length >= 6 ? tag.data.readInt16LE(4) : 0
+
+  return {
+    format,
+    formatName: SOUND_FORMAT_NAMES[format] ?? `Unknown (${format})`,
+    sampleRate: getSampleRate(format, (flags >>> 2) & 0x03),
+    sampleSize: (flags >>> 1) & 0x01 ? 16 : 8,
+    channels: (flags & 0x01) + 1,
+    samplesPerBlock,
+    latencySeek
+  }
+}
+
+/** Decoded DefineSound record (an event sound) */
+export interface SoundDefinition {
+  /** Character ID referenced by StartSound tags */
+  soundId: number
+  /** SoundFormat value (see SOUND_FORMAT_NAMES) */
+  format: number
+  formatName: string
+  sampleRate: number
+  sampleSize: number
+  channels: number
+  /** Number of samples per channel */
+  sampleCount: number
+  /** MP3 only: samples of encoder delay to skip at the start (0 for other formats) */
+  seekSamples: number
+  /** Sound payload (MP3 frames for MP3, with the SeekSamples field removed) */
+  data: Buffer
+}
+
+/**
+ * Decode a DefineSound tag
+ *
+ * @param tag - DefineSound (14) tag
+ * @returns Decoded sound definition
+ */
+export const parseDefineSound = (tag: SWFTag): SoundDefinition => {
+  if (tag.data.length < 7) {
+    throw new Error('DefineSound tag is too short')
+  }
+
+  const flags = tag.data[2]
+  const format = flags >>> 4
+  let data = tag.data.subarray(7)
+  let seekSamples = 0
+
+  // MP3SOUNDDATA starts with SeekSamples
+  if (format === 2 && data.length >= 2) {
+    seekSamples = data.readInt16LE(0)
+    data = data.subarray(2)
+  }
+
+  return {
+    soundId: tag.data.readUInt16LE(0),
+    format,
+    formatName: SOUND_FORMAT_NAMES[format] ?? `Unknown (${format})`,
+    sampleRate: getSampleRate(format, (flags >>> 2) & 0x03),
+    sampleSize: (flags >>> 1) & 0x01 ? 16 : 8,
+    channels: (flags & 0x01) + 1,
+    sampleCount: tag.data.readUInt32LE(3),
+    seekSamples,
+    data
+  }
+}
+
+/** One point of a SOUNDINFO volume envelope */
+export interface SoundEnvelopePoint {
+  /** Position in 44.1 kHz samples from the start of playback */
+  pos44: number
+  /** Left channel level, 0 (silent) to 32768 (full volume) */
+  leftLevel: number
+  /** Right channel level, 0 (silent) to 32768 (full volume) */
+  rightLevel: number
+}
+
+/** Decoded SOUNDINFO record describing how an event sound is played */
+export interface SoundInfo {
+  /** Stop every playing instance of the sound instead of starting it */
+  syncStop: boolean
+  /** Don't start the sound if it is already playing */
+  syncNoMultiple: boolean
+  /** Position to start playing from, in 44.1 kHz samples (null = start of sound) */
+  inPoint: number | null
+  /** Position to stop playing at, in 44.1 kHz samples (null = end of sound) */
+  outPoint: number | null
+  /** Number of times to play the sound (1 = play once) */
+  loopCount: number
+  envelope: SoundEnvelopePoint[]
+}
+
+/** Decoded StartSound or StartSound2 record */
+export interface StartSoundRecord {
+  /** Sound character ID (StartSound), or null when referenced by class name */
+  soundId: number | null
+  /** Sound class name (StartSound2), or null */
+  className: string | null
+  info: SoundInfo
+}
+
+/**
+ * Decode a SOUNDINFO record
+ *
+ * @param buffer - Buffer containing the record
+ * @param offset - Offset of the record's flags byte
+ * @returns Decoded sound info
+ */
+const parseSoundInfo = (buffer: Buffer, offset: number): SoundInfo => {
+  if (offset >= buffer.length) {
+    throw new Error('SOUNDINFO record is missing')
+  }
+
+  const flags = buffer[offset]
+  let position = offset + 1
+  const info: SoundInfo = {
+    syncStop: (flags & 0x20) !== 0,
+    syncNoMultiple: (flags & 0x10) !== 0,
+    inPoint: null,
+    outPoint: null,
+    loopCount: 1,
+    envelope: []
+  }
+
+  if (flags & 0x01) {
+    info.inPoint = buffer.readUInt32LE(position)
+    position += 4
+  }
+  if (flags & 0x02) {
+    info.outPoint = buffer.readUInt32LE(position)
+    position += 4
+  }
+  if (flags & 0x04) {
+    // A loop count of 0 plays the sound once, like 1
+    info.loopCount = Math.max(1, buffer.readUInt16LE(position))
+    position += 2
+  }
+  if (flags & 0x08) {
+    const pointCount = buffer[position]
+    position += 1
+    for (let i = 0; i < pointCount && position + 8 <= buffer.length; i++) {
+      info.envelope.push({
+        pos44: buffer.readUInt32LE(position),
+        leftLevel: buffer.readUInt16LE(position + 4),
+        rightLevel: buffer.readUInt16LE(position + 6)
+      })
+      position += 8
+    }
+  }
+
+  return info
+}
+
+/**
+ * Decode a StartSound or StartSound2 tag
+ *
+ * @param tag - StartSound (15) or StartSound2 (89) tag
+ * @returns The referenced sound and how it is played
+ */
+export const parseStartSound = (tag: SWFTag): StartSoundRecord => {
+  if (tag.code === SWF_TAGS.StartSound2) {
+    const className = readString(tag.data, 0)
+    return { soundId: null, className: className.value, info: parseSoundInfo(tag.data, className.next) }
+  }
+
+  if (tag.data.length < 3) {
+    throw new Error('StartSound tag is too short')
+  }
+  return { soundId: tag.data.readUInt16LE(0), className: null, info: parseSoundInfo(tag.data, 2) }
+}
+
+/**
+ * Decode the name-to-character mapping of a SymbolClass or ExportAssets tag
+ *
+ * Both tags share the same layout: a count followed by (character ID, name) pairs.
+ *
+ * @param tag - SymbolClass (76) or ExportAssets (56) tag
+ * @returns Map of symbol/class name to character ID
+ */
+export const parseSymbolNames = (tag: SWFTag): Map<string, number> => {
+  const names = new Map<string, number>()
+  if (tag.data.length < 2) {
+    return names
+  }
+
+  const count = tag.data.readUInt16LE(0)
+  let position = 2
+  for (let i = 0; i < count && position + 2 < tag.data.length; i++) {
+    const characterId = tag.data.readUInt16LE(position)
+    const name = readString(tag.data, position + 2)
+    names.set(name.value, characterId)
+    position = name.next
+  }
+  return names
+}
+
+/** A named frame, from a FrameLabel tag or DefineSceneAndFrameLabelData */
+export interface FrameLabel {
+  /** Zero-based frame number */
+  frame: number
+  name: string
+}
+
+/**
+ * Decode a FrameLabel tag
+ *
+ * The label applies to the frame the tag is on; the optional named-anchor flag
+ * after the name is ignored.
+ *
+ * @param tag - FrameLabel (43) tag
+ * @returns The label and its frame
+ */
+export const parseFrameLabel = (tag: SWFTag): FrameLabel => ({ frame: tag.frame, name: readString(tag.data, 0).value })
+
+/**
+ * Read a variable-length EncodedU32 (7 bits per byte, least significant group first)
+ */
+const readEncodedU32 = (buffer: Buffer, offset: number): { value: number; next: number } => {
+  let value = 0
+  for (let i = 0; i < 5; i++) {
+    if (offset + i >= buffer.length) {
+      throw new Error('EncodedU32 runs past the end of the tag')
+    }
+    const byte = buffer[offset + i]
+    value += (byte & 0x7f) * 2 ** (7 * i)
+    if ((byte & 0x80) === 0) {
+      return { value, next: offset + i + 1 }
+    }
+  }
+  return { value, next: offset + 5 }
+}
+
+/**
+ * Decode a DefineSceneAndFrameLabelData tag (AS3 files)
+ *
+ * @param tag - DefineSceneAndFrameLabelData (86) tag
+ * @returns Scenes (by first frame) and frame labels
+ */
+export const parseSceneAndFrameLabelData = (tag: SWFTag): { scenes: FrameLabel[]; labels: FrameLabel[] } => {
+  const readEntries = (position: number): { entries: FrameLabel[]; next: number } => {
+    const count = readEncodedU32(tag.data, position)
+    const entries: FrameLabel[] = []
+    position = count.next
+    for (let i = 0; i < count.value; i++) {
+      const frame = readEncodedU32(tag.data, position)
+      const name = readString(tag.data, frame.next)
+      entries.push({ frame: frame.value, name: name.value })
+      position = name.next
+    }
+    return { entries, next: position }
+  }
+
+  const scenes = readEntries(0)
+  const labels = readEntries(scenes.next)
+  return { scenes: scenes.entries, labels: labels.entries }
+}
+
+/** Decoded DefineVideoStream record */
+export interface VideoStreamDefinition {
+  /** Character ID referenced by VideoFrame tags */
+  characterId: number
+  /** Number of VideoFrame tags declared for the stream */
+  frameCount: number
+  width: number
+  height: number
+  /** Deblocking filter setting (0 = use video packet value) */
+  deblocking: number
+  /** Whether smoothing is enabled */
+  smoothing: boolean
+  /** CodecID value (see VIDEO_CODEC_NAMES) */
+  codecId: number
+  /** Human-readable codec name */
+  codecName: string
+}
+
+/**
+ * Decode a DefineVideoStream tag
+ *
+ * @param tag - DefineVideoStream (60) tag
+ * @returns Decoded stream definition
+ */
+export const parseDefineVideoStream = (tag: SWFTag): VideoStreamDefinition => {
+  if (tag.data.length < 10) {
+    throw new Error('DefineVideoStream tag is too short')
+  }
+
+  const flags = tag.data[8]
+  const codecId = tag.data[9]
+
+  return {
+    characterId: tag.data.readUInt16LE(0),
+    frameCount: tag.data.readUInt16LE(2),
+    width: tag.data.readUInt16LE(4),
+    height: tag.data.readUInt16LE(6),
+    deblocking: (flags >>> 1) & 0x07,
+    smoothing: (flags & 0x01) === 1,
+    codecId,
+    codecName: VIDEO_CODEC_NAMES[codecId] ?? `Unknown (${codecId})`
+  }
+}
+
+/**
+ * Decode a SetBackgroundColor tag
+ *
+ * @param tag - SetBackgroundColor (9) tag
+ * @returns Colour as a CSS-style hex string (e.g. "#333333")
+ */
+export const parseBackgroundColor = (tag: SWFTag): string => {
+  if (tag.data.length < 3) {
+    throw new Error('SetBackgroundColor tag is too short')
+  }
+  return '#' + tag.data.subarray(0, 3).toString('hex')
+}
+
+/**
+ * Read a null-terminated string from a buffer
+ *
+ * SWF 6+ strings are UTF-8; older files used the system code page, which for
+ * Camtasia's ASCII labels decodes the same way.
+ *
+ * @param buffer - Buffer to read from
+ * @param offset - Offset of the first character
+ * @returns The decoded string and the offset just past its terminator
+ */
+export const readString = (buffer: Buffer, offset: number = 0): { value: string; next: number } => {
+  let end = buffer.indexOf(0, offset)
+  if (end < 0) {
+    end = buffer.length
+  }
+  return { value: buffer.toString('utf8', offset, end), next: end + 1 }
+}
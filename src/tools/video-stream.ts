@@ -0,0 +1,304 @@
+/**
+ * @fileoverview Native SWF Video Stream Demuxer
+ *
+ * Many Camtasia exports store the screen recording as an embedded video stream
+ * (DefineVideoStream followed by one VideoFrame tag per frame) instead of as
+ * vector/bitmap frames. For these files there is no need to rasterise every frame
+ * with JPEXS: the VideoFrame payloads can be rewrapped as FLV video tags, which
+ * FFmpeg decodes directly.
+ *
+ * Supported codecs (FLV uses the same codec IDs as SWF):
+ * - Sorenson H.263 (2)
+ * - Screen Video (3) and Screen Video V2 (6)
+ * - On2 VP6 (4) and VP6 with alpha (5)
+ *
+ * Each FLV tag needs a frame type, which SWF doesn't store, so it is read from
+ * the codec's own frame header. The demuxed stream is saved as video/stream.flv
+ * with a JSON sidecar describing it.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { SWFFile, SWF_TAGS, VideoStreamDefinition, createBitReader, parseDefineVideoStream } from './swf-parser'
+import { createFLVFile, FLVTag } from '../utils/media-containers'
+import { FrameRange } from './extractor'
+
+/** Name of the sidecar written next to the demuxed video */
+export const VIDEO_STREAM_INFO_FILE = 'stream.json'
+
+/** Name of the FLV file holding the demuxed video */
+export const VIDEO_STREAM_FILE = 'stream.flv'
+
+/** Codec IDs the demuxer can rewrap for FFmpeg */
+const SUPPORTED_VIDEO_CODECS = [2, 3, 4, 5, 6]
+
+/** FLV VideoTagHeader frame types */
+const FLV_KEYFRAME = 1
+const FLV_INTERFRAME = 2
+const FLV_DISPOSABLE_INTERFRAME = 3
+
+/** One VideoFrame tag */
+export interface VideoStreamFrame {
+  /** Zero-based frame of the main timeline the tag is on */
+  frame: number
+  /** FLV frame type (1 = keyframe, 2 = interframe, 3 = disposable interframe) */
+  frameType: number
+  /** Codec payload */
+  data: Buffer
+}
+
+/** Demuxed embedded video stream */
+export interface VideoStream {
+  definition: VideoStreamDefinition
+  frames: VideoStreamFrame[]
+}
+
+/** Information saved alongside the demuxed video */
+export interface VideoStreamInfo {
+  /** Video file name within the video/ directory */
+  file: string
+  characterId: number
+  codecId: number
+  codecName: string
+  width: number
+  height: number
+  /** SWF frame rate the frame numbers refer to */
+  frameRate: number
+  /** Frame of the first VideoFrame tag */
+  startFrame: number
+  /** Frame of the last VideoFrame tag */
+  endFrame: number
+  /** Number of VideoFrame tags written */
+  frameCount: number
+  keyframes: number
+}
+
+/**
+ * Find the embedded video stream to convert directly
+ *
+ * Only VideoFrame tags on the main timeline are considered. Camtasia files often
+ * contain empty DefineVideoStream tags (no VideoFrame tags, or codec 0), which are
+ * ignored. When there are several usable streams, the one with the most frames wins.
+ *
+ * @param swf - Parsed SWF file
+ * @returns The demuxed stream, or null if the SWF has no usable video stream
+ */
+export const demuxVideoStream = (swf: SWFFile): VideoStream | null => {
+  const definitions = swf.tags
+    .filter(tag => tag.code === SWF_TAGS.DefineVideoStream)
+    .map(parseDefineVideoStream)
+    .filter(definition => SUPPORTED_VIDEO_CODECS.includes(definition.codecId))
+
+  let best: VideoStream | null = null
+  for (const definition of definitions) {
+    const frames: VideoStreamFrame[] = []
+    for (const tag of swf.tags) {
+      // VideoFrame: StreamID UI16, FrameNum UI16, VideoData
+      if (tag.code !== SWF_TAGS.VideoFrame || tag.data.length <= 4 || tag.data.readUInt16LE(0) !== definition.characterId) {
+        continue
+      }
+      const data = tag.data.subarray(4)
+      frames.push({ frame: tag.frame, frameType: getVideoFrameType(definition.codecId, data), data })
+    }
+
+    if (frames.length > 0 && (!best || frames.length > best.frames.length)) {
+      best = { definition, frames }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Keep the video frames on a range of SWF frames
+ *
+ * The stream is kept from the keyframe at or before the start of the range, so its
+ * first frame can be decoded.
+ *
+ * @param stream - Demuxed video stream
+ * @param range - SWF frames to keep, numbered from 1
+ * @returns The stream with only those frames, or null if it has none in the range
+ */
+export const selectVideoFrames = (stream: VideoStream, range: FrameRange): VideoStream | null => {
+  // VideoFrame tags count frames from 0
+  const leadIn = stream.frames.filter(frame => frame.frame < range.first && frame.frameType === FLV_KEYFRAME).pop()
+  const frames = stream.frames.filter(frame => frame.frame >= (leadIn?.frame ?? 0) && frame.frame < range.last)
+  return frames.length > 0 ? { definition: stream.definition, frames } : null
+}
+
+/**
+ * Determine the FLV frame type of a VideoFrame payload from its codec header
+ *
+ * @param codecId - DefineVideoStream codec ID
+ * @param data - VideoFrame payload
+ * @returns FLV frame type; interframe if the header can't be read
+ */
+const getVideoFrameType = (codecId: number, data: Buffer): number => {
+  try {
+    switch (codecId) {
+      case 2: {
+        // Sorenson H.263 picture header: start code, version, temporal reference, size, picture type
+        const reader = createBitReader(data)
+        reader.readUB(17 + 5 + 8)
+        const sizeFormat = reader.readUB(3)
+        if (sizeFormat === 0) {
+          reader.readUB(16)
+        } else if (sizeFormat === 1) {
+          reader.readUB(32)
+        }
+        const pictureType = reader.readUB(2)
+        return pictureType === 0 ? FLV_KEYFRAME : pictureType === 2 ? FLV_DISPOSABLE_INTERFRAME : FLV_INTERFRAME
+      }
+      case 3:
+      case 6:
+        return isScreenVideoKeyframe(codecId, data) ? FLV_KEYFRAME : FLV_INTERFRAME
+      case 4:
+        // VP6 frame header: a cleared top bit marks an intra frame
+        return (data[0] & 0x80) === 0 ? FLV_KEYFRAME : FLV_INTERFRAME
+      case 5:
+        // VP6 with alpha: the frame header follows the 24-bit OffsetToAlpha
+        return (data[3] & 0x80) === 0 ? FLV_KEYFRAME : FLV_INTERFRAME
+      default:
+        return FLV_INTERFRAME
+    }
+  } catch (error) {
+    return FLV_INTERFRAME
+  }
+}
+
+/**
+ * Check whether a Screen Video packet updates every block of the image
+ *
+ * Screen Video interframes mark unchanged blocks with a data size of 0, so a
+ * packet is a keyframe when none of its blocks are empty.
+ */
+const isScreenVideoKeyframe = (codecId: number, data: Buffer): boolean => {
+  const reader = createBitReader(data)
+  const blockWidth = (reader.readUB(4) + 1) * 16
+  const imageWidth = reader.readUB(12)
+  const blockHeight = (reader.readUB(4) + 1) * 16
+  const imageHeight = reader.readUB(12)
+  let position = 4
+
+  if (codecId === 6) {
+    // Reserved UB6, HasIFrameImage UB1, HasPaletteInfo UB1; palette packets can't be scanned simply
+    const flags = data[position]
+    position += 1
+    if (flags & 0x01) {
+      return false
+    }
+  }
+
+  const blocks = Math.ceil(imageWidth / blockWidth) * Math.ceil(imageHeight / blockHeight)
+  for (let i = 0; i < blocks; i++) {
+    if (position + 2 > data.length) {
+      return false
+    }
+    const size = data.readUInt16BE(position)
+    if (size === 0) {
+      return false
+    }
+    position += 2 + size
+  }
+  return blocks > 0
+}
+
+/**
+ * Build the VP6 adjustment byte FLV expects before each VP6 packet
+ *
+ * VP6 codes whole 16x16 macroblocks; FLV stores how many pixels to crop from the
+ * coded size to get the display size. The coded size is read from the first keyframe.
+ */
+const getVP6Adjustment = (stream: VideoStream): number => {
+  const offset = stream.definition.codecId === 5 ? 3 : 0
+  const keyframe = stream.frames.find(frame => frame.frameType === FLV_KEYFRAME)
+  if (!keyframe || keyframe.data.length < offset + 6) {
+    return 0
+  }
+
+  const data = keyframe.data.subarray(offset)
+  // Keyframes may carry a 2-byte coefficient offset before the dimensions
+  const dimensions = (data[0] & 0x01) || !(data[1] & 0x06) ? 4 : 2
+  const macroblockRows = data[dimensions]
+  const macroblockCols = data[dimensions + 1]
+  const horizontal = Math.max(0, Math.min(15, macroblockCols * 16 - stream.definition.width))
+  const vertical = Math.max(0, Math.min(15, macroblockRows * 16 - stream.definition.height))
+  return (horizontal << 4) | vertical
+}
+
+/**
+ * Rewrap the video stream as FLV video tags
+ *
+ * Tags are timestamped from the frame each VideoFrame tag is on, so frames the
+ * stream skips are held on screen. The first tag is placed at 0 so the video
+ * starts with the file even when the stream starts a few frames in.
+ *
+ * @param stream - Demuxed video stream
+ * @param frameRate - SWF frame rate in frames per second
+ * @returns Complete FLV file contents
+ */
+export const createVideoStreamFLV = (stream: VideoStream, frameRate: number): Buffer => {
+  const { codecId } = stream.definition
+  const isVP6 = codecId === 4 || codecId === 5
+  const adjustment = isVP6 ? Buffer.from([getVP6Adjustment(stream)]) : Buffer.alloc(0)
+
+  const tags: FLVTag[] = stream.frames.map((frame, i) => ({
+    type: 'video',
+    timestamp: i === 0 || frameRate <= 0 ? 0 : (frame.frame * 1000) / frameRate,
+    data: Buffer.concat([Buffer.from([(frame.frameType << 4) | codecId]), adjustment, frame.data])
+  }))
+
+  return createFLVFile(tags)
+}
+
+/**
+ * Write the video stream to a video/ directory with its sidecar
+ *
+ * @param stream - Demuxed video stream
+ * @param videoDir - Directory to write into (created if missing)
+ * @param frameRate - SWF frame rate in frames per second
+ * @returns Information that was saved to the sidecar
+ */
+export const writeVideoStream = (stream: VideoStream, videoDir: string, frameRate: number): VideoStreamInfo => {
+  if (!fs.existsSync(videoDir)) {
+    fs.mkdirSync(videoDir, { recursive: true })
+  }
+
+  fs.writeFileSync(path.join(videoDir, VIDEO_STREAM_FILE), createVideoStreamFLV(stream, frameRate))
+
+  const { definition, frames } = stream
+  const info: VideoStreamInfo = {
+    file: VIDEO_STREAM_FILE,
+    characterId: definition.characterId,
+    codecId: definition.codecId,
+    codecName: definition.codecName,
+    width: definition.width,
+    height: definition.height,
+    frameRate,
+    startFrame: frames[0].frame,
+    endFrame: frames[frames.length - 1].frame,
+    frameCount: frames.length,
+    keyframes: frames.filter(frame => frame.frameType === FLV_KEYFRAME).length
+  }
+  fs.writeFileSync(path.join(videoDir, VIDEO_STREAM_INFO_FILE), JSON.stringify(info, null, 2))
+
+  return info
+}
+
+/**
+ * Read the sidecar written by writeVideoStream
+ *
+ * @param videoDir - Directory containing the demuxed video
+ * @returns The saved information, or null if there is none (or it is unreadable)
+ */
+export const readVideoStreamInfo = (videoDir: string): VideoStreamInfo | null => {
+  const infoPath = path.join(videoDir, VIDEO_STREAM_INFO_FILE)
+  if (!fs.existsSync(infoPath)) {
+    return null
+  }
+  try {
+    return JSON.parse(fs.readFileSync(infoPath, 'utf8')) as VideoStreamInfo
+  } catch (error) {
+    return null
+  }
+}
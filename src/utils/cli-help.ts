@@ -18,7 +18,7 @@ const setOptimalWidth = (): void => {
 
 // Color scheme for different CLI syntax elements
 export const syntaxColors = {
-  command: chalk.cyan.bold,        // Main commands (extract, convert)
+  command: chalk.cyan.bold,        // Main commands (extract, convert, inspect)
   subcommand: chalk.blue.bold,     // Sub-commands
   option: chalk.green,             // Options like --output, -r
   argument: chalk.yellow,          // Required arguments like <input>
@@ -77,7 +77,9 @@ export const generateMainHelp = (): string => {
         syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.option('<command>') + ' ' + syntaxColors.argument('[options]'),
         '',
         syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('extract') + ' ' + syntaxColors.argument('<input>') + ' ' + syntaxColors.option('[--output <dir>]') + ' ' + syntaxColors.flag('[--recursive]'),
-        syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.argument('<input>') + ' ' + syntaxColors.option('[--output <dir>]') + ' ' + syntaxColors.flag('[--recursive]') + ' ' + syntaxColors.option('[--framerate <fps>]') + ' ' + syntaxColors.flag('[--keep-extracted]')
+        syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.argument('<input>') + ' ' + syntaxColors.option('[--output <dir>]') + ' ' + syntaxColors.flag('[--recursive]') + ' ' + syntaxColors.option('[--framerate <fps>]') + ' ' + syntaxColors.flag('[--keep-extracted]'),
+        syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('package') + ' ' + syntaxColors.argument('<package.zip>') + ' ' + syntaxColors.option('[--output <file>]') + ' ' + syntaxColors.option('[--framerate <fps>]'),
+        syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('inspect') + ' ' + syntaxColors.argument('<inputs...>') + ' ' + syntaxColors.flag('[--recursive]') + ' ' + syntaxColors.flag('[--json]')
       ]
     },
     {
@@ -90,6 +92,14 @@ export const generateMainHelp = (): string => {
         {
           name: syntaxColors.subcommand('convert'),
           summary: syntaxColors.description('Extract and convert SWF files to MP4 format')
+        },
+        {
+          name: syntaxColors.subcommand('package'),
+          summary: syntaxColors.description('Convert the Flash content of a SCORM / IMS course package into a new Flash-free package')
+        },
+        {
+          name: syntaxColors.subcommand('inspect'),
+          summary: syntaxColors.description('Report SWF metadata without extracting anything')
         }
       ]
     },
@@ -119,7 +129,13 @@ export const generateMainHelp = (): string => {
         syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('extract') + ' ' + syntaxColors.value('./swf-files/') + ' ' + syntaxColors.flag('--recursive') + ' ' + syntaxColors.option('--output') + ' ' + syntaxColors.value('./output/'),
         '',
         syntaxColors.description('Batch convert multiple files:'),
-        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('./presentations/') + ' ' + syntaxColors.flag('--recursive') + ' ' + syntaxColors.option('--framerate') + ' ' + syntaxColors.value('30') + ' ' + syntaxColors.flag('--keep-extracted')
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('./presentations/') + ' ' + syntaxColors.flag('--recursive') + ' ' + syntaxColors.option('--framerate') + ' ' + syntaxColors.value('30') + ' ' + syntaxColors.flag('--keep-extracted'),
+        '',
+        syntaxColors.description('Convert a SCORM course package:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('package') + ' ' + syntaxColors.value('course-scorm12.zip'),
+        '',
+        syntaxColors.description('Triage an archive before converting it:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('inspect') + ' ' + syntaxColors.value('./archive/') + ' ' + syntaxColors.flag('--recursive') + ' ' + syntaxColors.flag('--json')
       ]
     }
   ]
@@ -149,7 +165,7 @@ export const generateExtractHelp = (): string => {
       content: [
         {
           name: syntaxColors.argument('<input>'),
-          summary: syntaxColors.description('SWF file or directory containing SWF files to process')
+          summary: syntaxColors.description('SWF file, HTML page embedding SWFs, or directory containing SWF files to process')
         }
       ]
     },
@@ -167,6 +183,22 @@ export const generateExtractHelp = (): string => {
         {
           name: syntaxColors.option('--test-frames') + ' ' + syntaxColors.value('<count>'),
           summary: syntaxColors.description('Extract only the first N frames for testing (e.g., --test-frames 100)')
+        },
+        {
+          name: syntaxColors.option('--start') + ' ' + syntaxColors.value('<position>'),
+          summary: syntaxColors.description('Extract from this frame number or timestamp on (e.g. 1200, 23:00 or 90s)')
+        },
+        {
+          name: syntaxColors.option('--end') + ' ' + syntaxColors.value('<position>'),
+          summary: syntaxColors.description('Extract up to this frame number or timestamp (inclusive frame, or the last frame before the time)')
+        },
+        {
+          name: syntaxColors.option('--workers') + ' ' + syntaxColors.value('<count>'),
+          summary: syntaxColors.description('Extract frame ranges with this many concurrent JPEXS processes, or auto for one per CPU core (default: 1)')
+        },
+        {
+          name: syntaxColors.option('--render-scale') + ' ' + syntaxColors.value('<factor>'),
+          summary: syntaxColors.description('Rasterise frames at this multiple of the stage size, for sharp callouts, text and shapes (default: 1)')
         }
       ]
     },
@@ -196,6 +228,9 @@ export const generateExtractHelp = (): string => {
         syntaxColors.description('Recursive processing:'),
         syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('extract') + ' ' + syntaxColors.value('./presentations/') + ' ' + syntaxColors.flag('--recursive'),
         '',
+        syntaxColors.description('Extract the frames of minute 23 to check a glitch:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('extract') + ' ' + syntaxColors.value('lecture.swf') + ' ' + syntaxColors.option('--start') + ' ' + syntaxColors.value('23:00') + ' ' + syntaxColors.option('--end') + ' ' + syntaxColors.value('24:00'),
+        '',
         syntaxColors.description('Test mode - extract only first 100 frames:'),
         syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('extract') + ' ' + syntaxColors.value('presentation.swf') + ' ' + syntaxColors.option('--test-frames') + ' ' + syntaxColors.value('100')
       ]
@@ -227,7 +262,7 @@ export const generateConvertHelp = (): string => {
       content: [
         {
           name: syntaxColors.argument('<input>'),
-          summary: syntaxColors.description('SWF file or directory containing SWF files to convert')
+          summary: syntaxColors.description('SWF file, HTML page embedding SWFs, or directory containing SWF files to convert')
         }
       ]
     },
@@ -244,7 +279,19 @@ export const generateConvertHelp = (): string => {
         },
         {
           name: syntaxColors.option('-f, --framerate') + ' ' + syntaxColors.value('<fps>'),
-          summary: syntaxColors.description('Frame rate for output video (default: ') + syntaxColors.value('30') + syntaxColors.description(')')
+          summary: syntaxColors.description('Frame rate to force or resample to, a whole number, decimal or fraction such as 12.5 or 30000/1001 (default: the SWF\'s exact rate)')
+        },
+        {
+          name: syntaxColors.option('--framerate-policy') + ' ' + syntaxColors.value('<policy>'),
+          summary: syntaxColors.description('auto uses the SWF\'s rate, force plays the frames at --framerate (faster or slower), output resamples them to --framerate by duplicating or dropping frames (default: force with --framerate, auto without)')
+        },
+        {
+          name: syntaxColors.option('--av-sync') + ' ' + syntaxColors.value('<strategy>'),
+          summary: syntaxColors.description('Correct audio that ends before or after the frames: none only reports it, framerate infers the frame rate from the audio, stretch time-stretches the audio, pad pads or trims it (default: none)')
+        },
+        {
+          name: syntaxColors.option('--av-tolerance') + ' ' + syntaxColors.value('<seconds>'),
+          summary: syntaxColors.description('Audio/video duration difference left alone (default: 0.5)')
         },
         {
           name: syntaxColors.flag('--keep-extracted'),
@@ -253,6 +300,114 @@ export const generateConvertHelp = (): string => {
         {
           name: syntaxColors.option('--test-frames') + ' ' + syntaxColors.value('<count>'),
           summary: syntaxColors.description('Extract only the first N frames for testing (e.g., --test-frames 100)')
+        },
+        {
+          name: syntaxColors.option('--start') + ' ' + syntaxColors.value('<position>'),
+          summary: syntaxColors.description('Convert from this frame number or timestamp on (e.g. 1200, 23:00 or 90s)')
+        },
+        {
+          name: syntaxColors.option('--end') + ' ' + syntaxColors.value('<position>'),
+          summary: syntaxColors.description('Convert up to this frame number or timestamp (inclusive frame, or the last frame before the time)')
+        },
+        {
+          name: syntaxColors.option('--workers') + ' ' + syntaxColors.value('<count>'),
+          summary: syntaxColors.description('Extract frame ranges with this many concurrent JPEXS processes, or auto for one per CPU core (default: 1)')
+        },
+        {
+          name: syntaxColors.flag('--no-direct-video'),
+          summary: syntaxColors.description('Rasterise frames with JPEXS even when the SWF has an embedded video stream')
+        },
+        {
+          name: syntaxColors.flag('--no-dedupe'),
+          summary: syntaxColors.description('Encode every frame, instead of each run of identical frames once')
+        },
+        {
+          name: syntaxColors.flag('--cfr'),
+          summary: syntaxColors.description('Keep a constant frame rate when deduplicating, with keyframes where slides start (default: variable frame rate)')
+        },
+        {
+          name: syntaxColors.flag('--stream'),
+          summary: syntaxColors.description('Stream frames to FFmpeg as they are exported, keeping disk usage bounded (constant frame rate, no deduplication)')
+        },
+        {
+          name: syntaxColors.option('--render-scale') + ' ' + syntaxColors.value('<factor>'),
+          summary: syntaxColors.description('Rasterise frames at this multiple of the stage size, for sharp callouts, text and shapes (default: 1)')
+        },
+        {
+          name: syntaxColors.option('--width') + ' ' + syntaxColors.value('<pixels>') + ', ' + syntaxColors.option('--height') + ' ' + syntaxColors.value('<pixels>'),
+          summary: syntaxColors.description('Scale the video with lanczos to this width and/or height, keeping the aspect ratio (default: the frame size)')
+        },
+        {
+          name: syntaxColors.option('--scale-mode') + ' ' + syntaxColors.value('<mode>'),
+          summary: syntaxColors.description('How a --width and --height are fitted: fit inside them, fill them and crop, or pad them with black bars (default: fit)')
+        },
+        {
+          name: syntaxColors.flag('--no-chapters'),
+          summary: syntaxColors.description('Don\'t write chapter markers (from the project table of contents or SWF frame labels) to the MP4')
+        },
+        {
+          name: syntaxColors.flag('--chapters-vtt'),
+          summary: syntaxColors.description('Also write the chapters to a WebVTT sidecar next to the MP4 (<name>.chapters.vtt)')
+        },
+        {
+          name: syntaxColors.option('-p, --profile <name>'),
+          summary: syntaxColors.description('Output profile (--format is an alias): mp4 (H.264/AAC, default), hevc (H.265/AAC MP4), webm (VP9/Opus), av1 (AV1/Opus WebM), ffv1 (lossless FFV1/FLAC MKV) or prores (ProRes 422 HQ/PCM MOV)')
+        },
+        {
+          name: syntaxColors.option('--crf <value>'),
+          summary: syntaxColors.description('Constant rate factor, lower is better and larger (default: 23 mp4, 28 hevc, 32 webm, 34 av1)')
+        },
+        {
+          name: syntaxColors.option('--preset <name>'),
+          summary: syntaxColors.description('Encoder speed preset for mp4 and hevc: ultrafast ... veryslow (default: medium)')
+        },
+        {
+          name: syntaxColors.option('--tune <name>'),
+          summary: syntaxColors.description('Encoder tuning for mp4 and hevc, e.g. stillimage or animation for screen recordings')
+        },
+        {
+          name: syntaxColors.option('--max-bitrate <rate>'),
+          summary: syntaxColors.description('Cap the video bitrate in bits per second, e.g. 2500k or 2M')
+        },
+        {
+          name: syntaxColors.option('--buffer-size <size>'),
+          summary: syntaxColors.description('Rate control buffer for --max-bitrate in bits (default: twice the max bitrate)')
+        },
+        {
+          name: syntaxColors.option('--target-size <size>'),
+          summary: syntaxColors.description('Encode in two passes to fit a file size in bytes, e.g. 25M (can\'t be combined with --crf)')
+        },
+        {
+          name: syntaxColors.option('--audio-bitrate <rate>'),
+          summary: syntaxColors.description('Audio bitrate in bits per second, e.g. 96k (default: 96k for webm and av1, the encoder\'s default otherwise; not for ffv1 or prores)')
+        },
+        {
+          name: syntaxColors.option('--loudness <lufs>'),
+          summary: syntaxColors.description('Normalise the audio to this EBU R128 integrated loudness, e.g. -16, so every lesson plays at the same level')
+        },
+        {
+          name: syntaxColors.option('--audio-cleanup <preset>'),
+          summary: syntaxColors.description('Clean up the audio: highpass cuts rumble and hum below 80 Hz, denoise also reduces hiss')
+        },
+        {
+          name: syntaxColors.option('--sample-rate <hz>'),
+          summary: syntaxColors.description('Resample the audio, e.g. 44100 (default: the source rate, or 48000 with --loudness)')
+        },
+        {
+          name: syntaxColors.option('--audio-channels <layout>'),
+          summary: syntaxColors.description('Convert the audio to mono or stereo (default: the source layout)')
+        },
+        {
+          name: syntaxColors.option('--audio-only-output <output>'),
+          summary: syntaxColors.description('Convert SWFs with no visible content to audio (an .m4a for mp4) or to video (default: audio, or video with --background-image)')
+        },
+        {
+          name: syntaxColors.option('--background-image <file>'),
+          summary: syntaxColors.description('Image shown for the length of the audio in the video of an SWF with no visible content (default: its background colour)')
+        },
+        {
+          name: syntaxColors.flag('--html5'),
+          summary: syntaxColors.description('Rewrite the HTML pages embedding the SWFs to play the MP4 in a <video> element, with a poster and chapters track (original kept as <page>.bak)')
         }
       ]
     },
@@ -261,7 +416,11 @@ export const generateConvertHelp = (): string => {
       content: [
         syntaxColors.description('Creates MP4 files with the same base name as input SWF files:'),
         '',
-        syntaxColors.value('presentation.swf') + ' → ' + syntaxColors.value('presentation.mp4')
+        syntaxColors.value('presentation.swf') + ' → ' + syntaxColors.value('presentation.mp4'),
+        '',
+        syntaxColors.description('Other profiles use their container\'s extension: ' + syntaxColors.value('.webm') + ' (webm, av1), ' + syntaxColors.value('.mkv') + ' (ffv1) or ' + syntaxColors.value('.mov') + ' (prores).'),
+        '',
+        syntaxColors.description('For Camtasia Flash exports only the content SWF is converted. The project title from ' + syntaxColors.value('*_config.xml') + ' is written to the MP4 metadata, and ' + syntaxColors.value('*_controller.swf') + ' / ' + syntaxColors.value('*_preload.swf') + ' files are reported as skipped.')
       ]
     },
     {
@@ -273,12 +432,46 @@ export const generateConvertHelp = (): string => {
         syntaxColors.description('Convert with custom frame rate:'),
         syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('presentation.swf') + ' ' + syntaxColors.option('--framerate') + ' ' + syntaxColors.value('60'),
         '',
+        syntaxColors.description('Resample to 30 FPS, keeping the SWF\'s timing:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('presentation.swf') + ' ' + syntaxColors.option('--framerate') + ' ' + syntaxColors.value('30') + ' ' + syntaxColors.option('--framerate-policy') + ' ' + syntaxColors.value('output'),
+        '',
+        syntaxColors.description('Fix a wrong header frame rate from the narration length:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('presentation.swf') + ' ' + syntaxColors.option('--av-sync') + ' ' + syntaxColors.value('framerate'),
+        '',
         syntaxColors.description('Convert directory and keep extracted files:'),
         syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('./swf-files/') + ' ' + syntaxColors.flag('--recursive') + ' ' + syntaxColors.flag('--keep-extracted'),
         '',
+        syntaxColors.description('Convert the SWF a legacy HTML page embeds:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('./course/index.html'),
+        '',
+        syntaxColors.description('Convert a published course and replace its Flash pages with HTML5 video:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('./course/') + ' ' + syntaxColors.flag('--recursive') + ' ' + syntaxColors.flag('--html5'),
+        '',
         syntaxColors.description('Convert to specific output directory:'),
         syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('presentation.swf') + ' ' + syntaxColors.option('--output') + ' ' + syntaxColors.value('./videos/'),
         '',
+        syntaxColors.description('Convert to WebM for the web and ProRes for editing:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('./swf-files/') + ' ' + syntaxColors.option('--profile') + ' ' + syntaxColors.value('webm'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('./swf-files/') + ' ' + syntaxColors.option('--profile') + ' ' + syntaxColors.value('prores') + ' ' + syntaxColors.option('--output') + ' ' + syntaxColors.value('./masters/'),
+        '',
+        syntaxColors.description('Fit each video under a 25 MB upload limit:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('presentation.swf') + ' ' + syntaxColors.option('--target-size') + ' ' + syntaxColors.value('25M'),
+        '',
+        syntaxColors.description('Clean up hissy narration and level the loudness across a course:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('./course/') + ' ' + syntaxColors.flag('--recursive') + ' ' + syntaxColors.option('--audio-cleanup') + ' ' + syntaxColors.value('denoise') + ' ' + syntaxColors.option('--loudness') + ' ' + syntaxColors.value('-16') + ' ' + syntaxColors.option('--audio-channels') + ' ' + syntaxColors.value('mono'),
+        '',
+        syntaxColors.description('Turn narration-only SWFs into videos of the course title slide:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('./course/') + ' ' + syntaxColors.flag('--recursive') + ' ' + syntaxColors.option('--background-image') + ' ' + syntaxColors.value('title.png'),
+        '',
+        syntaxColors.description('Extract a long recording with one JPEXS worker per CPU core:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('lecture.swf') + ' ' + syntaxColors.option('--workers') + ' ' + syntaxColors.value('auto'),
+        '',
+        syntaxColors.description('Re-cut one section of a lesson:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('lecture.swf') + ' ' + syntaxColors.option('--start') + ' ' + syntaxColors.value('12:30') + ' ' + syntaxColors.option('--end') + ' ' + syntaxColors.value('18:45') + ' ' + syntaxColors.option('--output') + ' ' + syntaxColors.value('./sections/'),
+        '',
+        syntaxColors.description('Render a small stage sharply and deliver it as 1080p:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('presentation.swf') + ' ' + syntaxColors.option('--render-scale') + ' ' + syntaxColors.value('3') + ' ' + syntaxColors.option('--width') + ' ' + syntaxColors.value('1920') + ' ' + syntaxColors.option('--height') + ' ' + syntaxColors.value('1080') + ' ' + syntaxColors.option('--scale-mode') + ' ' + syntaxColors.value('pad'),
+        '',
         syntaxColors.description('Test mode - convert only first 50 frames:'),
         syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('convert') + ' ' + syntaxColors.value('presentation.swf') + ' ' + syntaxColors.option('--test-frames') + ' ' + syntaxColors.value('50')
       ]
@@ -296,3 +489,256 @@ export const generateConvertHelp = (): string => {
   setOptimalWidth()
   return commandLineUsage(sections)
 }
+
+/**
+ * Generate syntax-highlighted help for the package command
+ */
+export const generatePackageHelp = (): string => {
+  const context = detectExecutionContext()
+  const cmdPrefix = getCommandPrefix(context)
+
+  const sections = [
+    {
+      header: syntaxColors.header('Package Command'),
+      content: syntaxColors.description('Convert the Flash content of a SCORM / IMS content package. The SWFs are found through ' + syntaxColors.value('imsmanifest.xml') + ' and the pages embedding them, converted to MP4, and a new package is written with the pages playing the MP4s in HTML5 ' + syntaxColors.value('<video>') + ' elements.')
+    },
+    {
+      header: syntaxColors.header('Synopsis'),
+      content: syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('package') + ' ' + syntaxColors.argument('<package.zip>') + ' ' + syntaxColors.option('[options]')
+    },
+    {
+      header: syntaxColors.header('Arguments'),
+      content: [
+        {
+          name: syntaxColors.argument('<package.zip>'),
+          summary: syntaxColors.description('ZIP archive with an imsmanifest.xml at its root')
+        }
+      ]
+    },
+    {
+      header: syntaxColors.header('Options'),
+      content: [
+        {
+          name: syntaxColors.option('-o, --output <file>'),
+          summary: syntaxColors.description('Converted package to write (default: <name>-html5.zip next to the input)')
+        },
+        {
+          name: syntaxColors.option('-f, --framerate <fps>'),
+          summary: syntaxColors.description('Frame rate to force or resample to, e.g. 12.5 or 30000/1001 (default: the exact rate detected from each SWF)')
+        },
+        {
+          name: syntaxColors.option('--framerate-policy <policy>'),
+          summary: syntaxColors.description('auto, force (play the frames at --framerate) or output (resample to --framerate) (default: force with --framerate, auto without)')
+        },
+        {
+          name: syntaxColors.option('--av-sync <strategy>'),
+          summary: syntaxColors.description('Correct audio that ends before or after the frames: none, framerate, stretch or pad (default: none)')
+        },
+        {
+          name: syntaxColors.option('--av-tolerance <seconds>'),
+          summary: syntaxColors.description('Audio/video duration difference left alone (default: 0.5)')
+        },
+        {
+          name: syntaxColors.option('-p, --profile <name>'),
+          summary: syntaxColors.description('Output profile (--format is an alias): mp4 (H.264/AAC, default), hevc (H.265/AAC MP4), webm (VP9/Opus), av1 (AV1/Opus WebM), ffv1 (lossless FFV1/FLAC MKV) or prores (ProRes 422 HQ/PCM MOV)')
+        },
+        {
+          name: syntaxColors.option('--crf <value>'),
+          summary: syntaxColors.description('Constant rate factor, lower is better and larger (default: 23 mp4, 28 hevc, 32 webm, 34 av1)')
+        },
+        {
+          name: syntaxColors.option('--preset <name>'),
+          summary: syntaxColors.description('Encoder speed preset for mp4 and hevc: ultrafast ... veryslow (default: medium)')
+        },
+        {
+          name: syntaxColors.option('--tune <name>'),
+          summary: syntaxColors.description('Encoder tuning for mp4 and hevc, e.g. stillimage or animation for screen recordings')
+        },
+        {
+          name: syntaxColors.option('--max-bitrate <rate>'),
+          summary: syntaxColors.description('Cap the video bitrate in bits per second, e.g. 2500k or 2M')
+        },
+        {
+          name: syntaxColors.option('--buffer-size <size>'),
+          summary: syntaxColors.description('Rate control buffer for --max-bitrate in bits (default: twice the max bitrate)')
+        },
+        {
+          name: syntaxColors.option('--target-size <size>'),
+          summary: syntaxColors.description('Encode in two passes to fit a file size in bytes, e.g. 25M (can\'t be combined with --crf)')
+        },
+        {
+          name: syntaxColors.option('--audio-bitrate <rate>'),
+          summary: syntaxColors.description('Audio bitrate in bits per second, e.g. 96k (default: 96k for webm and av1, the encoder\'s default otherwise; not for ffv1 or prores)')
+        },
+        {
+          name: syntaxColors.option('--loudness <lufs>'),
+          summary: syntaxColors.description('Normalise the audio to this EBU R128 integrated loudness, e.g. -16, so every lesson plays at the same level')
+        },
+        {
+          name: syntaxColors.option('--audio-cleanup <preset>'),
+          summary: syntaxColors.description('Clean up the audio: highpass cuts rumble and hum below 80 Hz, denoise also reduces hiss')
+        },
+        {
+          name: syntaxColors.option('--sample-rate <hz>'),
+          summary: syntaxColors.description('Resample the audio, e.g. 44100 (default: the source rate, or 48000 with --loudness)')
+        },
+        {
+          name: syntaxColors.option('--audio-channels <layout>'),
+          summary: syntaxColors.description('Convert the audio to mono or stereo (default: the source layout)')
+        },
+        {
+          name: syntaxColors.option('--audio-only-output <output>'),
+          summary: syntaxColors.description('Convert SWFs with no visible content to audio (an .m4a for mp4) or to video (default: audio, or video with --background-image)')
+        },
+        {
+          name: syntaxColors.option('--background-image <file>'),
+          summary: syntaxColors.description('Image shown for the length of the audio in the video of an SWF with no visible content (default: its background colour)')
+        },
+        {
+          name: syntaxColors.flag('--keep-extracted'),
+          summary: syntaxColors.description('Keep the unpacked package and extracted files after conversion')
+        },
+        {
+          name: syntaxColors.option('--test-frames <count>'),
+          summary: syntaxColors.description('Convert only the first N frames of each SWF (for testing)')
+        },
+        {
+          name: syntaxColors.option('--start') + ' ' + syntaxColors.value('<position>'),
+          summary: syntaxColors.description('Convert each SWF from this frame number or timestamp on (e.g. 1200, 23:00 or 90s)')
+        },
+        {
+          name: syntaxColors.option('--end') + ' ' + syntaxColors.value('<position>'),
+          summary: syntaxColors.description('Convert each SWF up to this frame number or timestamp (inclusive frame, or the last frame before the time)')
+        },
+        {
+          name: syntaxColors.option('--timeout <minutes>'),
+          summary: syntaxColors.description('Override extraction timeout in minutes')
+        },
+        {
+          name: syntaxColors.option('--workers <count>'),
+          summary: syntaxColors.description('Extract frame ranges with this many concurrent JPEXS processes, or auto for one per CPU core (default: 1)')
+        },
+        {
+          name: syntaxColors.flag('--no-direct-video'),
+          summary: syntaxColors.description('Rasterise frames with JPEXS even when the SWF has an embedded video stream')
+        },
+        {
+          name: syntaxColors.flag('--no-dedupe'),
+          summary: syntaxColors.description('Encode every frame, instead of each run of identical frames once')
+        },
+        {
+          name: syntaxColors.flag('--cfr'),
+          summary: syntaxColors.description('Keep a constant frame rate when deduplicating, with keyframes where slides start (default: variable frame rate)')
+        },
+        {
+          name: syntaxColors.flag('--stream'),
+          summary: syntaxColors.description('Stream frames to FFmpeg as they are exported, keeping disk usage bounded (constant frame rate, no deduplication)')
+        },
+        {
+          name: syntaxColors.option('--render-scale <factor>'),
+          summary: syntaxColors.description('Rasterise frames at this multiple of the stage size, for sharp callouts, text and shapes (default: 1)')
+        },
+        {
+          name: syntaxColors.option('--width <pixels>, --height <pixels>'),
+          summary: syntaxColors.description('Scale the videos with lanczos to this width and/or height, keeping the aspect ratio (default: the frame size)')
+        },
+        {
+          name: syntaxColors.option('--scale-mode <mode>'),
+          summary: syntaxColors.description('How a --width and --height are fitted: fit inside them, fill them and crop, or pad them with black bars (default: fit)')
+        },
+        {
+          name: syntaxColors.flag('--no-chapters'),
+          summary: syntaxColors.description('Don\'t write chapter markers to the MP4s or chapter tracks to the pages')
+        }
+      ]
+    },
+    {
+      header: syntaxColors.header('Output'),
+      content: [
+        syntaxColors.description('The original package is left untouched. In the new package each converted SWF is replaced by'),
+        syntaxColors.value('lesson.mp4') + ', ' + syntaxColors.value('lesson.poster.jpg') + ' and ' + syntaxColors.value('lesson.chapters.vtt') + syntaxColors.description(', both in the pages and in the manifest\'s file lists.'),
+        '',
+        syntaxColors.description('SWFs still embedded by a page that couldn\'t be rewritten are kept.')
+      ]
+    },
+    {
+      header: syntaxColors.header('Examples'),
+      content: [
+        syntaxColors.description('Convert a SCORM package:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('package') + ' ' + syntaxColors.value('course-scorm12.zip'),
+        '',
+        syntaxColors.description('Write the converted package somewhere else:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('package') + ' ' + syntaxColors.value('course.zip') + ' ' + syntaxColors.option('--output') + ' ' + syntaxColors.value('./published/course.zip')
+      ]
+    }
+  ]
+
+  setOptimalWidth()
+  return commandLineUsage(sections)
+}
+
+/**
+ * Generate syntax-highlighted help for the inspect command
+ */
+export const generateInspectHelp = (): string => {
+  const context = detectExecutionContext()
+  const cmdPrefix = getCommandPrefix(context)
+
+  const sections = [
+    {
+      header: syntaxColors.header('Inspect Command'),
+      content: syntaxColors.description('Report metadata for SWF files without extracting anything. Reads files natively, so neither Java nor FFmpeg is required.')
+    },
+    {
+      header: syntaxColors.header('Synopsis'),
+      content: syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('inspect') + ' ' + syntaxColors.argument('<inputs...>') + ' ' + syntaxColors.option('[options]')
+    },
+    {
+      header: syntaxColors.header('Arguments'),
+      content: [
+        {
+          name: syntaxColors.argument('<inputs...>'),
+          summary: syntaxColors.description('One or more SWF files or directories containing SWF files')
+        }
+      ]
+    },
+    {
+      header: syntaxColors.header('Options'),
+      content: [
+        {
+          name: syntaxColors.flag('-r, --recursive'),
+          summary: syntaxColors.description('Process directories recursively to find SWF files')
+        },
+        {
+          name: syntaxColors.flag('--json'),
+          summary: syntaxColors.description('Print a JSON array of reports instead of styled tables')
+        }
+      ]
+    },
+    {
+      header: syntaxColors.header('Report Contents'),
+      content: [
+        syntaxColors.description('• Signature and compression (FWS, CWS/zlib, ZWS/LZMA) and SWF version'),
+        syntaxColors.description('• Stage size, frame rate, frame count, duration and background colour'),
+        syntaxColors.description('• Stream sound format, event sound count and embedded video streams'),
+        syntaxColors.description('• Tag histogram and likely Camtasia origin')
+      ]
+    },
+    {
+      header: syntaxColors.header('Examples'),
+      content: [
+        syntaxColors.description('Inspect a single file:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('inspect') + ' ' + syntaxColors.value('presentation.swf'),
+        '',
+        syntaxColors.description('Inspect several files at once:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('inspect') + ' ' + syntaxColors.value('lesson1.swf') + ' ' + syntaxColors.value('lesson2.swf'),
+        '',
+        syntaxColors.description('Triage an archive as JSON:'),
+        syntaxColors.example('  $ ') + syntaxColors.command(cmdPrefix) + ' ' + syntaxColors.subcommand('inspect') + ' ' + syntaxColors.value('./archive/') + ' ' + syntaxColors.flag('--recursive') + ' ' + syntaxColors.flag('--json') + ' > ' + syntaxColors.value('report.json')
+      ]
+    }
+  ]
+
+  setOptimalWidth()
+  return commandLineUsage(sections)
+}
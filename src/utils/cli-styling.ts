@@ -190,7 +190,34 @@ export const fileStatus = {
   failed: (filename: string, error: string) => 
     log.error(`Failed: ${colors.highlight(filename)} - ${error}`),
   error: (filename: string, error: string) => 
-    log.error(`Failed: ${colors.highlight(filename)} - ${error}`)
+    log.error(`Failed: ${colors.highlight(filename)} - ${error}`),
+  skipped: (filename: string, reason: string) =>
+    log.warning(`Skipped: ${colors.highlight(filename)} - ${reason}`)
+}
+
+/**
+ * Create a bordered two-column table of labels and values
+ *
+ * Labels are padded to a common width so values line up. Values may already
+ * contain color codes; they are printed as-is.
+ *
+ * @param title - Title shown in the table border
+ * @param rows - Label/value pairs in display order
+ * @returns The rendered table
+ */
+export const createKeyValueTable = (title: string, rows: Array<[string, string]>): string => {
+  const labelWidth = Math.max(...rows.map(([label]) => label.length))
+  const body = rows
+    .map(([label, value]) => `${colors.muted(label.padEnd(labelWidth))}  ${value}`)
+    .join('\n')
+
+  return boxen(body, {
+    title: colors.highlight(title),
+    padding: { top: 0, bottom: 0, left: 1, right: 1 },
+    margin: { top: 0, bottom: 1, left: 0, right: 0 },
+    borderStyle: 'round',
+    borderColor: 'cyan'
+  })
 }
 
 /**
@@ -0,0 +1,300 @@
+/**
+ * @fileoverview Minimal LZMA Decoder
+ *
+ * This module implements a pure TypeScript LZMA decoder, used to decompress
+ * ZWS (LZMA-compressed) SWF files without shelling out to an external tool.
+ * Node.js ships zlib but no LZMA support, so the decoder follows the reference
+ * LzmaSpec implementation from the LZMA SDK.
+ *
+ * The decoder works on "raw" LZMA streams as embedded in SWF files:
+ * - 5 bytes of properties (lc/lp/pb byte + 32-bit dictionary size)
+ * - Range-coded data with a known uncompressed size
+ *
+ * Because the whole output is kept in memory, the output buffer doubles as the
+ * dictionary and the dictionary size from the properties is not needed.
+ */
+
+const NUM_BIT_MODEL_TOTAL_BITS = 11
+const BIT_MODEL_TOTAL = 1 << NUM_BIT_MODEL_TOTAL_BITS
+const NUM_MOVE_BITS = 5
+const TOP_VALUE = 1 << 24
+
+const NUM_STATES = 12
+const NUM_POS_BITS_MAX = 4
+const NUM_LEN_TO_POS_STATES = 4
+const NUM_ALIGN_BITS = 4
+const START_POS_MODEL_INDEX = 4
+const END_POS_MODEL_INDEX = 14
+const NUM_FULL_DISTANCES = 1 << (END_POS_MODEL_INDEX >> 1)
+const MATCH_MIN_LEN = 2
+const END_MARKER_DISTANCE = 0xffffffff
+
+/** Allocate a probability model array initialised to 50% */
+const createProbs = (size: number): Uint16Array => new Uint16Array(size).fill(BIT_MODEL_TOTAL >> 1)
+
+/**
+ * Create a range decoder over the compressed input
+ *
+ * Range and code values are kept as plain (unsigned) numbers rather than
+ * 32-bit integers, which avoids sign issues with JavaScript bitwise operators.
+ */
+const createRangeDecoder = (input: Buffer, offset: number) => {
+  let position = offset
+  let range = 0xffffffff
+  let code = 0
+
+  const nextByte = (): number => {
+    if (position >= input.length) {
+      throw new Error('LZMA stream is truncated')
+    }
+    return input[position++]
+  }
+
+  if (nextByte() !== 0) {
+    throw new Error('LZMA stream is corrupted (bad range coder header)')
+  }
+  for (let i = 0; i < 4; i++) {
+    code = code * 256 + nextByte()
+  }
+  if (code === range) {
+    throw new Error('LZMA stream is corrupted (bad range coder header)')
+  }
+
+  const normalize = () => {
+    if (range < TOP_VALUE) {
+      range *= 256
+      code = code * 256 + nextByte()
+    }
+  }
+
+  const decodeBit = (probs: Uint16Array, index: number): number => {
+    const prob = probs[index]
+    const bound = (range >>> NUM_BIT_MODEL_TOTAL_BITS) * prob
+    let bit: number
+    if (code < bound) {
+      range = bound
+      probs[index] = prob + ((BIT_MODEL_TOTAL - prob) >>> NUM_MOVE_BITS)
+      bit = 0
+    } else {
+      code -= bound
+      range -= bound
+      probs[index] = prob - (prob >>> NUM_MOVE_BITS)
+      bit = 1
+    }
+    normalize()
+    return bit
+  }
+
+  const decodeDirectBits = (numBits: number): number => {
+    let result = 0
+    for (let i = 0; i < numBits; i++) {
+      range = Math.floor(range / 2)
+      if (code >= range) {
+        code -= range
+        result = result * 2 + 1
+      } else {
+        result *= 2
+      }
+      normalize()
+    }
+    return result
+  }
+
+  return { decodeBit, decodeDirectBits }
+}
+
+type RangeDecoder = ReturnType<typeof createRangeDecoder>
+
+/** Decode a symbol of numBits bits from a bit tree stored at probs[offset] */
+const bitTreeDecode = (rc: RangeDecoder, probs: Uint16Array, offset: number, numBits: number): number => {
+  let m = 1
+  for (let i = 0; i < numBits; i++) {
+    m = (m << 1) + rc.decodeBit(probs, offset + m)
+  }
+  return m - (1 << numBits)
+}
+
+/** Decode a bit-reversed symbol of numBits bits from a bit tree stored at probs[offset] */
+const bitTreeReverseDecode = (rc: RangeDecoder, probs: Uint16Array, offset: number, numBits: number): number => {
+  let m = 1
+  let symbol = 0
+  for (let i = 0; i < numBits; i++) {
+    const bit = rc.decodeBit(probs, offset + m)
+    m = (m << 1) + bit
+    symbol |= bit << i
+  }
+  return symbol
+}
+
+/** Create a match length decoder (used for both normal and repeated matches) */
+const createLenDecoder = () => {
+  const choice = createProbs(2)
+  const low = createProbs((1 << NUM_POS_BITS_MAX) << 3)
+  const mid = createProbs((1 << NUM_POS_BITS_MAX) << 3)
+  const high = createProbs(1 << 8)
+
+  return (rc: RangeDecoder, posState: number): number => {
+    if (rc.decodeBit(choice, 0) === 0) {
+      return bitTreeDecode(rc, low, posState << 3, 3)
+    }
+    if (rc.decodeBit(choice, 1) === 0) {
+      return 8 + bitTreeDecode(rc, mid, posState << 3, 3)
+    }
+    return 16 + bitTreeDecode(rc, high, 0, 8)
+  }
+}
+
+/**
+ * Decode a raw LZMA stream into a buffer of known size
+ *
+ * @param properties - The 5-byte LZMA properties header (lc/lp/pb + dictionary size)
+ * @param input - Buffer containing the range-coded data
+ * @param inputOffset - Offset of the first range-coded byte within input
+ * @param outputSize - Expected size of the decompressed data
+ * @returns Decompressed data (shorter than outputSize only if an end marker was found)
+ * @throws Error if the properties are invalid or the stream is corrupted/truncated
+ */
+export const decodeLZMA = (properties: Buffer, input: Buffer, inputOffset: number, outputSize: number): Buffer => {
+  if (properties.length < 5) {
+    throw new Error('LZMA properties header is too short')
+  }
+
+  let d = properties[0]
+  if (d >= 9 * 5 * 5) {
+    throw new Error('LZMA properties header is invalid')
+  }
+  const lc = d % 9
+  d = Math.floor(d / 9)
+  const lp = d % 5
+  const pb = Math.floor(d / 5)
+
+  const output = Buffer.alloc(outputSize)
+  let outPos = 0
+
+  const literalProbs = createProbs(0x300 << (lc + lp))
+  const posSlotProbs = createProbs(NUM_LEN_TO_POS_STATES << 6)
+  const posProbs = createProbs(1 + NUM_FULL_DISTANCES - END_POS_MODEL_INDEX)
+  const alignProbs = createProbs(1 << NUM_ALIGN_BITS)
+  const isMatch = createProbs(NUM_STATES << NUM_POS_BITS_MAX)
+  const isRep = createProbs(NUM_STATES)
+  const isRepG0 = createProbs(NUM_STATES)
+  const isRepG1 = createProbs(NUM_STATES)
+  const isRepG2 = createProbs(NUM_STATES)
+  const isRep0Long = createProbs(NUM_STATES << NUM_POS_BITS_MAX)
+  const lenDecoder = createLenDecoder()
+  const repLenDecoder = createLenDecoder()
+
+  const rc = createRangeDecoder(input, inputOffset)
+
+  const decodeLiteral = (state: number, rep0: number) => {
+    const prevByte = outPos > 0 ? output[outPos - 1] : 0
+    const litState = ((outPos & ((1 << lp) - 1)) << lc) + (prevByte >>> (8 - lc))
+    const base = 0x300 * litState
+    let symbol = 1
+
+    if (state >= 7) {
+      let matchByte = output[outPos - rep0 - 1]
+      do {
+        const matchBit = (matchByte >>> 7) & 1
+        matchByte <<= 1
+        const bit = rc.decodeBit(literalProbs, base + ((1 + matchBit) << 8) + symbol)
+        symbol = (symbol << 1) | bit
+        if (matchBit !== bit) {
+          break
+        }
+      } while (symbol < 0x100)
+    }
+    while (symbol < 0x100) {
+      symbol = (symbol << 1) | rc.decodeBit(literalProbs, base + symbol)
+    }
+    output[outPos++] = symbol - 0x100
+  }
+
+  const decodeDistance = (len: number): number => {
+    const lenState = Math.min(len, NUM_LEN_TO_POS_STATES - 1)
+    const posSlot = bitTreeDecode(rc, posSlotProbs, lenState << 6, 6)
+    if (posSlot < START_POS_MODEL_INDEX) {
+      return posSlot
+    }
+    const numDirectBits = (posSlot >>> 1) - 1
+    let dist = (2 | (posSlot & 1)) * Math.pow(2, numDirectBits)
+    if (posSlot < END_POS_MODEL_INDEX) {
+      dist += bitTreeReverseDecode(rc, posProbs, dist - posSlot, numDirectBits)
+    } else {
+      dist += rc.decodeDirectBits(numDirectBits - NUM_ALIGN_BITS) * (1 << NUM_ALIGN_BITS)
+      dist += bitTreeReverseDecode(rc, alignProbs, 0, NUM_ALIGN_BITS)
+    }
+    return dist
+  }
+
+  let state = 0
+  let rep0 = 0
+  let rep1 = 0
+  let rep2 = 0
+  let rep3 = 0
+
+  while (outPos < outputSize) {
+    const posState = outPos & ((1 << pb) - 1)
+
+    if (rc.decodeBit(isMatch, (state << NUM_POS_BITS_MAX) + posState) === 0) {
+      decodeLiteral(state, rep0)
+      state = state < 4 ? 0 : state < 10 ? state - 3 : state - 6
+      continue
+    }
+
+    let len: number
+    if (rc.decodeBit(isRep, state) !== 0) {
+      if (outPos === 0) {
+        throw new Error('LZMA stream is corrupted (repeated match at start)')
+      }
+      if (rc.decodeBit(isRepG0, state) === 0) {
+        if (rc.decodeBit(isRep0Long, (state << NUM_POS_BITS_MAX) + posState) === 0) {
+          // Short rep: a single byte copied from rep0
+          state = state < 7 ? 9 : 11
+          output[outPos] = output[outPos - rep0 - 1]
+          outPos++
+          continue
+        }
+      } else {
+        let dist: number
+        if (rc.decodeBit(isRepG1, state) === 0) {
+          dist = rep1
+        } else {
+          if (rc.decodeBit(isRepG2, state) === 0) {
+            dist = rep2
+          } else {
+            dist = rep3
+            rep3 = rep2
+          }
+          rep2 = rep1
+        }
+        rep1 = rep0
+        rep0 = dist
+      }
+      len = repLenDecoder(rc, posState)
+      state = state < 7 ? 8 : 11
+    } else {
+      rep3 = rep2
+      rep2 = rep1
+      rep1 = rep0
+      len = lenDecoder(rc, posState)
+      state = state < 7 ? 7 : 10
+      rep0 = decodeDistance(len)
+      if (rep0 === END_MARKER_DISTANCE) {
+        return output.subarray(0, outPos)
+      }
+      if (rep0 >= outPos) {
+        throw new Error('LZMA stream is corrupted (match distance out of range)')
+      }
+    }
+
+    // Copy the match, clamping to the expected output size
+    const end = Math.min(outPos + len + MATCH_MIN_LEN, outputSize)
+    while (outPos < end) {
+      output[outPos] = output[outPos - rep0 - 1]
+      outPos++
+    }
+  }
+
+  return output
+}
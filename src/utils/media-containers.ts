@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Minimal Media Container Writers
+ *
+ * This module writes the two simple container formats needed to hand SWF media
+ * to FFmpeg without re-encoding:
+ *
+ * - **WAV**: RIFF/WAVE with uncompressed PCM, used for SWF PCM and decoded ADPCM audio
+ * - **FLV**: Flash Video, whose audio and video tags carry the same codec IDs as SWF,
+ *   used for Nellymoser/Speex audio and embedded video streams
+ */
+
+/**
+ * Wrap uncompressed PCM samples in a WAV (RIFF) container
+ *
+ * @param pcm - Interleaved PCM samples (unsigned 8-bit or signed 16-bit little-endian)
+ * @param sampleRate - Sample rate in Hz
+ * @param channels - Number of channels
+ * @param bitsPerSample - 8 or 16
+ * @returns Complete WAV file contents
+ */
+export const createWAVFile = (pcm: Buffer, sampleRate: number, channels: number, bitsPerSample: number): Buffer => {
+  const blockAlign = channels * (bitsPerSample / 8)
+  const header = Buffer.alloc(44)
+
+  header.write('RIFF', 0, 'latin1')
+  header.writeUInt32LE(36 + pcm.length, 4)
+  header.write('WAVE', 8, 'latin1')
+  header.write('fmt ', 12, 'latin1')
+  header.writeUInt32LE(16, 16) // fmt chunk size
+  header.writeUInt16LE(1, 20) // PCM
+  header.writeUInt16LE(channels, 22)
+  header.writeUInt32LE(sampleRate, 24)
+  header.writeUInt32LE(sampleRate * blockAlign, 28)
+  header.writeUInt16LE(blockAlign, 32)
+  header.writeUInt16LE(bitsPerSample, 34)
+  header.write('data', 36, 'latin1')
+  header.writeUInt32LE(pcm.length, 40)
+
+  return Buffer.concat([header, pcm])
+}
+
+/** A single audio or video tag to write into an FLV file */
+export interface FLVTag {
+  type: 'audio' | 'video'
+  /** Presentation timestamp in milliseconds */
+  timestamp: number
+  /** Tag body: the AUDIODATA/VIDEODATA header byte(s) followed by the codec payload */
+  data: Buffer
+}
+
+/**
+ * Build an FLV file from a list of tags
+ *
+ * Tags are written in the order given; callers are responsible for sorting
+ * them by timestamp when interleaving audio and video.
+ *
+ * @param tags - Audio/video tags to write
+ * @returns Complete FLV file contents
+ */
+export const createFLVFile = (tags: FLVTag[]): Buffer => {
+  const hasAudio = tags.some(tag => tag.type === 'audio')
+  const hasVideo = tags.some(tag => tag.type === 'video')
+
+  // FLV header followed by PreviousTagSize0
+  const header = Buffer.alloc(13)
+  header.write('FLV', 0, 'latin1')
+  header[3] = 1
+  header[4] = (hasAudio ? 0x04 : 0) | (hasVideo ? 0x01 : 0)
+  header.writeUInt32BE(9, 5)
+  header.writeUInt32BE(0, 9)
+
+  const parts: Buffer[] = [header]
+  for (const tag of tags) {
+    const timestamp = Math.max(0, Math.round(tag.timestamp))
+    const tagHeader = Buffer.alloc(11)
+    tagHeader[0] = tag.type === 'audio' ? 8 : 9
+    tagHeader.writeUIntBE(tag.data.length, 1, 3)
+    tagHeader.writeUIntBE(timestamp & 0xffffff, 4, 3)
+    tagHeader[7] = (timestamp >>> 24) & 0xff // TimestampExtended
+    tagHeader.writeUIntBE(0, 8, 3) // StreamID
+
+    const previousTagSize = Buffer.alloc(4)
+    previousTagSize.writeUInt32BE(11 + tag.data.length, 0)
+
+    parts.push(tagHeader, tag.data, previousTagSize)
+  }
+
+  return Buffer.concat(parts)
+}
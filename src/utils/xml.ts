@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Minimal XML Reader
+ *
+ * Camtasia's Flash export writes its player settings to a small `*_config.xml`
+ * file. Reading it only needs elements, attributes and text, so rather than
+ * adding a dependency this module implements a small non-validating parser:
+ *
+ * - Elements, attributes (single or double quoted) and self-closing tags
+ * - Text and CDATA sections, with the predefined and numeric character entities decoded
+ * - Comments, processing instructions (including the XML declaration) and DOCTYPE are skipped
+ *
+ * Namespaces are not interpreted; prefixed names are kept as written.
+ */
+
+/** An element of a parsed XML document */
+export interface XMLElement {
+  name: string
+  attributes: Record<string, string>
+  children: XMLElement[]
+  /** Text directly inside the element (CDATA included), trimmed */
+  text: string
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+}
+
+/**
+ * Decode character and entity references in text or an attribute value
+ *
+ * Unknown named entities are left as written. Also used for HTML attribute values,
+ * where the predefined entities are the ones that matter in practice.
+ *
+ * @param value - Text as written in the document
+ * @returns The decoded text
+ */
+export const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity] ?? match
+  })
+
+/**
+ * Parse an XML document
+ *
+ * @param source - XML text
+ * @returns The root element
+ * @throws Error if the document is not well-formed (unclosed or mismatched tags, no root element)
+ */
+export const parseXML = (source: string): XMLElement => {
+  const stack: Array<{ element: XMLElement; text: string[] }> = []
+  let root: XMLElement | null = null
+  let position = source.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const skipPast = (terminator: string, what: string): void => {
+    const end = source.indexOf(terminator, position)
+    if (end === -1) {
+      throw new Error(`Invalid XML: unterminated ${what}`)
+    }
+    position = end + terminator.length
+  }
+
+  while (position < source.length) {
+    const tagStart = source.indexOf('<', position)
+    const current = stack[stack.length - 1]
+    const text = source.slice(position, tagStart === -1 ? source.length : tagStart)
+    if (current) {
+      current.text.push(decodeEntities(text))
+    } else if (text.trim()) {
+      throw new Error('Invalid XML: text outside the root element')
+    }
+    if (tagStart === -1) {
+      break
+    }
+    position = tagStart
+
+    if (source.startsWith('<!--', position)) {
+      skipPast('-->', 'comment')
+    } else if (source.startsWith('<![CDATA[', position)) {
+      const end = source.indexOf(']]>', position)
+      if (end === -1) {
+        throw new Error('Invalid XML: unterminated CDATA section')
+      }
+      current?.text.push(source.slice(position + 9, end))
+      position = end + 3
+    } else if (source.startsWith('<?', position)) {
+      skipPast('?>', 'processing instruction')
+    } else if (source.startsWith('<!', position)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = source.indexOf('[', position)
+      const close = source.indexOf('>', position)
+      if (bracket !== -1 && close !== -1 && bracket < close) {
+        position = bracket
+        skipPast(']', 'DOCTYPE')
+      }
+      skipPast('>', 'DOCTYPE')
+    } else if (source[position + 1] === '/') {
+      const match = /^<\/([^\s>]+)\s*>/.exec(source.slice(position, position + 256))
+      if (!match || !current || match[1] !== current.element.name) {
+        throw new Error(`Invalid XML: unexpected closing tag${match ? ` </${match[1]}>` : ''}`)
+      }
+      current.element.text = current.text.join('').trim()
+      stack.pop()
+      position += match[0].length
+    } else {
+      const nameMatch = /^<([^\s/>]+)/.exec(source.slice(position, position + 256))
+      if (!nameMatch) {
+        throw new Error('Invalid XML: malformed tag')
+      }
+      const element: XMLElement = { name: nameMatch[1], attributes: {}, children: [], text: '' }
+      position += nameMatch[0].length
+
+      // Attributes up to the end of the tag
+      const attributePattern = /\s*([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')|\s*(\/?>)/y
+      let selfClosing = false
+      for (;;) {
+        attributePattern.lastIndex = position
+        const match = attributePattern.exec(source)
+        if (!match) {
+          throw new Error(`Invalid XML: malformed tag <${element.name}>`)
+        }
+        position = attributePattern.lastIndex
+        if (match[5]) {
+          selfClosing = match[5] === '/>'
+          break
+        }
+        element.attributes[match[1]] = decodeEntities(match[3] ?? match[4])
+      }
+
+      if (current) {
+        current.element.children.push(element)
+      } else if (root) {
+        throw new Error('Invalid XML: more than one root element')
+      } else {
+        root = element
+      }
+      if (!selfClosing) {
+        stack.push({ element, text: [] })
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Invalid XML: unclosed element <${stack[stack.length - 1].element.name}>`)
+  }
+  if (!root) {
+    throw new Error('Invalid XML: no root element')
+  }
+  return root
+}
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Minimal ZIP Archive Reader and Writer
+ *
+ * Course packages (SCORM, IMS content packages) are plain ZIP archives. Like
+ * the XML reader, this module avoids a dependency by implementing only what
+ * those packages use:
+ *
+ * - Stored and deflated entries, read through the central directory
+ * - UTF-8 file names (and CP437 names, decoded as Latin-1)
+ * - Writing deflated entries, stored when deflating doesn't make them smaller
+ *
+ * ZIP64, encryption and multi-disk archives are not supported.
+ */
+
+import * as zlib from 'zlib'
+
+/** A file (or directory, when the name ends in '/') in a ZIP archive */
+export interface ZipEntry {
+  /** Path inside the archive, with '/' separators */
+  name: string
+  data: Buffer
+  /** Modification time (DOS timestamps have a 2 second resolution) */
+  modified: Date
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+const FLAG_ENCRYPTED = 0x0001
+const FLAG_UTF8 = 0x0800
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+/** CRC-32 as used by ZIP */
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const fromDOSDateTime = (date: number, time: number): Date =>
+  new Date(((date >> 9) & 0x7f) + 1980, ((date >> 5) & 0x0f) - 1, date & 0x1f, (time >> 11) & 0x1f, (time >> 5) & 0x3f, (time & 0x1f) * 2)
+
+const toDOSDateTime = (value: Date): { date: number; time: number } => {
+  const year = Math.min(Math.max(value.getFullYear(), 1980), 2107)
+  return {
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2)
+  }
+}
+
+/**
+ * Read all entries of a ZIP archive
+ *
+ * @param buffer - Archive contents
+ * @returns The entries in central directory order
+ * @throws Error if the archive is malformed, encrypted, ZIP64 or uses an unsupported compression method
+ */
+export const readZip = (buffer: Buffer): ZipEntry[] => {
+  // The end of central directory record is followed by a comment of up to 64KB
+  let end = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) {
+    throw new Error('Invalid ZIP archive: end of central directory not found')
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10)
+  const directoryOffset = buffer.readUInt32LE(end + 16)
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+
+  const entries: ZipEntry[] = []
+  let position = directoryOffset
+  for (let i = 0; i < entryCount; i++) {
+    if (position + 46 > buffer.length || buffer.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid ZIP archive: corrupt central directory')
+    }
+    const flags = buffer.readUInt16LE(position + 8)
+    const method = buffer.readUInt16LE(position + 10)
+    const time = buffer.readUInt16LE(position + 12)
+    const date = buffer.readUInt16LE(position + 14)
+    const compressedSize = buffer.readUInt32LE(position + 20)
+    const size = buffer.readUInt32LE(position + 24)
+    const nameLength = buffer.readUInt16LE(position + 28)
+    const extraLength = buffer.readUInt16LE(position + 30)
+    const commentLength = buffer.readUInt16LE(position + 32)
+    const localOffset = buffer.readUInt32LE(position + 42)
+    const name = buffer.toString(flags & FLAG_UTF8 ? 'utf8' : 'latin1', position + 46, position + 46 + nameLength)
+    position += 46 + nameLength + extraLength + commentLength
+
+    if (flags & FLAG_ENCRYPTED) {
+      throw new Error(`Encrypted ZIP entries are not supported: ${name}`)
+    }
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid ZIP archive: corrupt local header for ${name}`)
+    }
+
+    // The local header's name and extra field lengths may differ from the central directory's
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize)
+    let data: Buffer
+    if (method === METHOD_STORED) {
+      data = Buffer.from(compressed)
+    } else if (method === METHOD_DEFLATED) {
+      data = zlib.inflateRawSync(compressed)
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method}: ${name}`)
+    }
+    if (data.length !== size) {
+      throw new Error(`Invalid ZIP archive: size mismatch for ${name}`)
+    }
+
+    entries.push({ name, data, modified: fromDOSDateTime(date, time) })
+  }
+
+  return entries
+}
+
+/**
+ * Create a ZIP archive
+ *
+ * @param entries - Entries to write, in order
+ * @returns Archive contents
+ */
+export const createZip = (entries: ZipEntry[]): Buffer => {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8')
+    const deflated = entry.data.length > 0 ? zlib.deflateRawSync(entry.data) : entry.data
+    const method = deflated.length < entry.data.length ? METHOD_DEFLATED : METHOD_STORED
+    const body = method === METHOD_DEFLATED ? deflated : entry.data
+    const { date, time } = toDOSDateTime(entry.modified)
+    const crc = crc32(entry.data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0)
+    local.writeUInt16LE(20, 4) // Version needed to extract (2.0)
+    local.writeUInt16LE(FLAG_UTF8, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(body.length, 18)
+    local.writeUInt32LE(entry.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    localParts.push(local, name, body)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0)
+    central.writeUInt16LE(20, 4) // Version made by
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(FLAG_UTF8, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(body.length, 20)
+    central.writeUInt32LE(entry.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(entry.name.endsWith('/') ? 0x10 : 0, 38) // MS-DOS directory attribute
+    central.writeUInt32LE(offset, 42)
+    centralParts.push(central, name)
+
+    offset += local.length + name.length + body.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const endRecord = Buffer.alloc(22)
+  endRecord.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+  endRecord.writeUInt16LE(entries.length, 8)
+  endRecord.writeUInt16LE(entries.length, 10)
+  endRecord.writeUInt32LE(centralDirectory.length, 12)
+  endRecord.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, endRecord])
+}
@@ -0,0 +1,66 @@
+import { SWF_TAGS } from '../../src/tools/swf-parser'
+
+/** Options for building an uncompressed test SWF */
+export interface TestSWFOptions {
+  /** Stage size in pixels (default: an empty RECT) */
+  stage?: { width: number; height: number }
+  /** Whole frames per second (default: 10) */
+  frameRate?: number
+  /** Frame count in the header (default: the number of ShowFrame tags) */
+  frameCount?: number
+}
+
+/**
+ * Build a tag with a long header, which the parser accepts for any tag
+ *
+ * @param code - Tag code
+ * @param data - Tag body
+ * @returns Tag header and body
+ */
+export const createTag = (code: number, data: Buffer): Buffer => {
+  const header = Buffer.alloc(6)
+  header.writeUInt16LE((code << 6) | 0x3f, 0)
+  header.writeUInt32LE(data.length, 2)
+  return Buffer.concat([header, data])
+}
+
+/** ShowFrame tag ending a frame */
+export const showFrame = (): Buffer => createTag(SWF_TAGS.ShowFrame, Buffer.alloc(0))
+
+/**
+ * Encode the stage size as a RECT with 16-bit fields, in twips
+ *
+ * @param width - Stage width in pixels
+ * @param height - Stage height in pixels
+ * @returns RECT record
+ */
+const createStageRect = (width: number, height: number): Buffer => {
+  const bits = [16, 0, width * 20, 0, height * 20]
+    .map((value, i) => value.toString(2).padStart(i === 0 ? 5 : 16, '0'))
+    .join('')
+  return Buffer.from(bits.padEnd(Math.ceil(bits.length / 8) * 8, '0').match(/.{8}/g)!.map(byte => parseInt(byte, 2)))
+}
+
+/**
+ * Build an uncompressed version 8 SWF around the given tags, adding the End tag
+ *
+ * @param tags - Tags of the main timeline, ShowFrame tags included
+ * @param options - Stage size, frame rate and frame count
+ * @returns SWF file contents
+ */
+export const createSWF = (tags: Buffer[], options: TestSWFOptions = {}): Buffer => {
+  const frameCount = options.frameCount ?? tags.filter(tag => tag.readUInt16LE(0) >> 6 === SWF_TAGS.ShowFrame).length
+  const frameHeader = Buffer.alloc(4)
+  frameHeader[1] = options.frameRate ?? 10
+  frameHeader.writeUInt16LE(frameCount, 2)
+
+  const body = Buffer.concat([
+    options.stage ? createStageRect(options.stage.width, options.stage.height) : Buffer.from([0x00]),
+    frameHeader,
+    ...tags,
+    createTag(SWF_TAGS.End, Buffer.alloc(0))
+  ])
+  const header = Buffer.from([0x46, 0x57, 0x53, 0x08, 0, 0, 0, 0])
+  header.writeUInt32LE(header.length + body.length, 4)
+  return Buffer.concat([header, body])
+}
@@ -0,0 +1,59 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { parseSWFBuffer, SWF_TAGS } from '../../src/tools/swf-parser'
+import { OUTPUT_PROFILES } from '../../src/tools/profiles'
+import {
+  hasVisibleContent,
+  getStageBackground,
+  getAudioOutputPath,
+  getAudioOnlyOutput,
+  validateAudioOnlyOptions
+} from '../../src/tools/audio-only'
+import { createTag, createSWF, showFrame } from '../helpers/swf'
+
+describe('Audio-Only SWFs', () => {
+  // 320x240 stage at 10 fps, 2 frames, with the given tags before the frames
+  const createStageSWF = (tags: Buffer[]): Buffer =>
+    createSWF([...tags, showFrame(), showFrame()], { stage: { width: 320, height: 240 } })
+
+  const background = createTag(SWF_TAGS.SetBackgroundColor, Buffer.from([0x33, 0x66, 0x99]))
+  // PlaceObject2 of character 1 at depth 1
+  const place = createTag(SWF_TAGS.PlaceObject2, Buffer.from([0x02, 0x01, 0x00, 0x01, 0x00]))
+
+  it('should find SWFs that never place anything on the stage', () => {
+    expect(hasVisibleContent(parseSWFBuffer(createStageSWF([background])))).toBe(false)
+    expect(hasVisibleContent(parseSWFBuffer(createStageSWF([background, place])))).toBe(true)
+  })
+
+  it('should fill the stage with the background colour, or white without one', () => {
+    expect(getStageBackground(parseSWFBuffer(createStageSWF([background])))).toEqual({ color: '#336699', width: 320, height: 240 })
+    expect(getStageBackground(parseSWFBuffer(createStageSWF([]))).color).toBe('#ffffff')
+  })
+
+  it('should write the audio next to the video, in the profile\'s audio container', () => {
+    expect(getAudioOutputPath(path.join('out', 'lesson.mp4'), OUTPUT_PROFILES.mp4)).toBe(path.join('out', 'lesson.m4a'))
+    expect(getAudioOutputPath('lesson.webm', OUTPUT_PROFILES.webm)).toBe('lesson.opus')
+    expect(getAudioOutputPath('lesson.mkv', OUTPUT_PROFILES.ffv1)).toBe('lesson.flac')
+  })
+
+  it('should convert to audio unless a video or a background image is asked for', () => {
+    expect(getAudioOnlyOutput({})).toBe('audio')
+    expect(getAudioOnlyOutput({ backgroundImage: 'title.png' })).toBe('video')
+    expect(getAudioOnlyOutput({ audioOnlyOutput: 'video' })).toBe('video')
+  })
+
+  it('should reject unknown outputs and missing or unused background images', () => {
+    const imageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audio-only-'))
+    try {
+      const image = path.join(imageDir, 'title.png')
+      fs.writeFileSync(image, '')
+      expect(() => validateAudioOnlyOptions({ backgroundImage: image })).not.toThrow()
+      expect(() => validateAudioOnlyOptions({ audioOnlyOutput: 'image' as never })).toThrow('Unknown audio-only output')
+      expect(() => validateAudioOnlyOptions({ audioOnlyOutput: 'audio', backgroundImage: image })).toThrow('only shown in the video output')
+      expect(() => validateAudioOnlyOptions({ backgroundImage: path.join(imageDir, 'missing.png') })).toThrow('Background image not found')
+    } finally {
+      fs.rmSync(imageDir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,36 @@
+import { buildAudioFilters, validateAudioOptions } from '../../src/tools/audio-processing'
+import { OUTPUT_PROFILES } from '../../src/tools/profiles'
+
+describe('Audio Processing', () => {
+  const { mp4, webm } = OUTPUT_PROFILES
+
+  it('should leave the audio alone without any options', () => {
+    expect(buildAudioFilters({})).toEqual([])
+  })
+
+  it('should clean up, convert the layout, normalise and resample in that order', () => {
+    expect(buildAudioFilters({ audioCleanup: 'highpass' })).toEqual(['highpass=f=80'])
+    expect(buildAudioFilters({ audioCleanup: 'denoise', audioChannels: 'mono', loudness: -16, sampleRate: 44100 })).toEqual([
+      'highpass=f=80',
+      'afftdn=nf=-25',
+      'aformat=channel_layouts=mono',
+      'loudnorm=I=-16:TP=-1.5:LRA=11',
+      'aformat=sample_rates=44100'
+    ])
+    expect(buildAudioFilters({ sampleRate: 22050 })).toEqual(['aformat=sample_rates=22050'])
+  })
+
+  it('should resample loudness-normalised audio to 48 kHz unless a rate is given', () => {
+    expect(buildAudioFilters({ loudness: -23 })).toEqual(['loudnorm=I=-23:TP=-1.5:LRA=11', 'aformat=sample_rates=48000'])
+    expect(buildAudioFilters({ loudness: -23, sampleRate: 24000 })).toEqual(['loudnorm=I=-23:TP=-1.5:LRA=11', 'aformat=sample_rates=24000'])
+  })
+
+  it('should reject audio options the profile can\'t honour', () => {
+    expect(() => validateAudioOptions(mp4, { loudness: -16, audioCleanup: 'denoise', sampleRate: 44100, audioChannels: 'stereo' })).not.toThrow()
+    expect(() => validateAudioOptions(mp4, { loudness: 0 })).toThrow('from -70 to -5 LUFS')
+    expect(() => validateAudioOptions(mp4, { audioCleanup: 'deess' as never })).toThrow('Unknown audio cleanup preset "deess"')
+    expect(() => validateAudioOptions(mp4, { sampleRate: 44000 })).toThrow('The mp4 profile can\'t encode audio at 44000 Hz')
+    expect(() => validateAudioOptions(webm, { sampleRate: 44100 })).toThrow('(available: 8000, 12000, 16000, 24000, 48000)')
+    expect(() => validateAudioOptions(mp4, { audioChannels: '5.1' as never })).toThrow('Unknown channel layout "5.1"')
+  })
+})
@@ -0,0 +1,47 @@
+import { reconcileDurations, buildTempoFilters, validateAVSyncOptions } from '../../src/tools/av-sync'
+
+describe('Audio/Video Duration Reconciliation', () => {
+  // 300 frames at a header rate of 15 fps (20 s), with 30 s of narration from the first frame
+  const durations = {
+    frameCount: 300,
+    frameRate: { numerator: 15, denominator: 1 },
+    audioStartFrame: 0,
+    audioDuration: 30
+  }
+
+  it('should report a difference beyond the tolerance without correcting it by default', () => {
+    expect(reconcileDurations(durations, {})).toEqual({
+      videoDuration: 20,
+      audioEnd: 30,
+      difference: 10,
+      withinTolerance: false,
+      strategy: 'none'
+    })
+    expect(reconcileDurations({ ...durations, audioDuration: 20.3 }, { avSync: 'pad' })).toMatchObject({
+      withinTolerance: true,
+      strategy: 'none'
+    })
+    expect(reconcileDurations({ ...durations, audioDuration: 20.3 }, { avSync: 'pad', avTolerance: 0.1 }).strategy).toBe('pad')
+  })
+
+  it('should infer the frame rate from the audio, counting from the frame it starts on', () => {
+    expect(reconcileDurations(durations, { avSync: 'framerate' }).frameRate).toEqual({ numerator: 10, denominator: 1 })
+    expect(reconcileDurations({ ...durations, audioStartFrame: 60, audioDuration: 24 }, { avSync: 'framerate' }).frameRate)
+      .toEqual({ numerator: 10, denominator: 1 })
+  })
+
+  it('should stretch the audio from where it starts to the end of the video', () => {
+    expect(reconcileDurations(durations, { avSync: 'stretch' }).tempo).toBe(1.5)
+    expect(reconcileDurations({ ...durations, audioStartFrame: 150, audioDuration: 5 }, { avSync: 'stretch' }).tempo).toBe(0.5)
+    expect(buildTempoFilters(1.5)).toEqual(['atempo=1.500000'])
+    expect(buildTempoFilters(5)).toEqual(['atempo=2', 'atempo=2', 'atempo=1.250000'])
+    expect(buildTempoFilters(0.2)).toEqual(['atempo=0.5', 'atempo=0.5', 'atempo=0.800000'])
+  })
+
+  it('should reject unknown strategies, negative tolerances and inferring a forced frame rate', () => {
+    expect(() => validateAVSyncOptions({ avSync: 'stretch', avTolerance: 0 }, 'force')).not.toThrow()
+    expect(() => validateAVSyncOptions({ avSync: 'resample' as never }, 'auto')).toThrow('Unknown A/V sync strategy')
+    expect(() => validateAVSyncOptions({ avTolerance: -1 }, 'auto')).toThrow('zero or more seconds')
+    expect(() => validateAVSyncOptions({ avSync: 'framerate' }, 'force')).toThrow('forced frame rate')
+  })
+})
@@ -0,0 +1,105 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { parseSWFBuffer, SWF_TAGS } from '../../src/tools/swf-parser'
+import { createTag, createSWF, showFrame } from '../helpers/swf'
+import { readProjectConfig } from '../../src/tools/project'
+import {
+  collectFrameLabelMarkers,
+  getConfigMarkers,
+  resolveChapters,
+  createFFMetadata,
+  createChaptersVTT,
+  getChaptersVTTPath
+} from '../../src/tools/chapters'
+
+describe('Chapter Markers', () => {
+  const label = (name: string): Buffer => createTag(SWF_TAGS.FrameLabel, Buffer.from(`${name}\0`, 'utf8'))
+
+  // 10 fps, labels on frames 0 and 2
+  const createLabelledSWF = (): Buffer =>
+    createSWF([label('Intro'), showFrame(), showFrame(), label('Demo'), showFrame()])
+
+  it('should collect frame labels as chapter markers', () => {
+    expect(collectFrameLabelMarkers(parseSWFBuffer(createLabelledSWF()))).toEqual([
+      { title: 'Intro', frame: 0 },
+      { title: 'Demo', frame: 2 }
+    ])
+  })
+
+  it('should read the table of contents from the config XML', () => {
+    const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chapters-'))
+    try {
+      const configFile = path.join(configDir, 'lesson_config.xml')
+      fs.writeFileSync(configFile, `<config>
+  <title>Lesson</title>
+  <toc>
+    <entry name="Introduction" time="0"/>
+    <entry><title>Setup</title><time>1:05.5</time></entry>
+    <marker frame="900">Wrap-up</marker>
+  </toc>
+</config>`)
+
+      const config = readProjectConfig(configFile)
+
+      expect(config.title).toBe('Lesson')
+      expect(config.tableOfContents).toEqual([
+        { title: 'Introduction', time: 0, frame: null },
+        { title: 'Setup', time: 65.5, frame: null },
+        { title: 'Wrap-up', time: null, frame: 900 }
+      ])
+      expect(getConfigMarkers(config, 10).map(marker => marker.frame)).toEqual([0, 655, 900])
+    } finally {
+      fs.rmSync(configDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should place chapters on the output timeline and drop those past the end', () => {
+    const markers = [
+      { title: 'Intro', frame: 0 },
+      { title: 'Duplicate', frame: 0 },
+      { title: 'Demo', frame: 20 },
+      { title: 'Outro', frame: 100 }
+    ]
+
+    expect(resolveChapters(markers, 10, 5)).toEqual([
+      { title: 'Intro', start: 0, end: 2 },
+      { title: 'Demo', start: 2, end: 5 }
+    ])
+  })
+
+  it('should start a video cut part way into the SWF with the chapter playing there', () => {
+    const markers = [
+      { title: 'Intro', frame: 0 },
+      { title: 'Demo', frame: 20 },
+      { title: 'Outro', frame: 100 }
+    ]
+
+    expect(resolveChapters(markers, 10, 5, 3)).toEqual([
+      { title: 'Demo', start: 0, end: 5 }
+    ])
+    expect(resolveChapters(markers, 10, 10, 2)).toEqual([
+      { title: 'Demo', start: 0, end: 8 },
+      { title: 'Outro', start: 8, end: 10 }
+    ])
+  })
+
+  it('should format chapters as FFMETADATA and WebVTT', () => {
+    const chapters = [
+      { title: 'Setup; part = 1', start: 0, end: 1.5 },
+      { title: 'Summary', start: 1.5, end: 3725.25 }
+    ]
+
+    expect(createFFMetadata(chapters)).toBe(
+      ';FFMETADATA1\n' +
+      '[CHAPTER]\nTIMEBASE=1/1000\nSTART=0\nEND=1500\ntitle=Setup\\; part \\= 1\n' +
+      '[CHAPTER]\nTIMEBASE=1/1000\nSTART=1500\nEND=3725250\ntitle=Summary\n'
+    )
+    expect(createChaptersVTT(chapters)).toBe(
+      'WEBVTT\n\n' +
+      '1\n00:00:00.000 --> 00:00:01.500\nSetup; part = 1\n\n' +
+      '2\n00:00:01.500 --> 01:02:05.250\nSummary\n'
+    )
+    expect(getChaptersVTTPath('/videos/lesson.mp4')).toBe(path.join('/videos', 'lesson.chapters.vtt'))
+  })
+})
@@ -0,0 +1,60 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  writeExtractionCheckpoint,
+  readExtractionCheckpoint,
+  findResumableExtraction,
+  isExtractionIncomplete
+} from '../../src/tools/extraction-checkpoint'
+
+describe('Extraction Checkpoints', () => {
+  let tempDir: string
+  let swfFile: string
+  let outputDir: string
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'extraction-checkpoint-'))
+    swfFile = path.join(tempDir, 'lesson.swf')
+    outputDir = path.join(tempDir, 'output')
+    fs.writeFileSync(swfFile, 'FWS')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('should resume an unfinished extraction of the same file', () => {
+    writeExtractionCheckpoint(outputDir, swfFile, { first: 1, last: 250 }, [{ first: 120, last: 250 }])
+
+    expect(isExtractionIncomplete(outputDir)).toBe(true)
+    expect(findResumableExtraction(outputDir, swfFile, { first: 1, last: 250 })?.remaining).toEqual([{ first: 120, last: 250 }])
+  })
+
+  it('should not resume a finished extraction', () => {
+    writeExtractionCheckpoint(outputDir, swfFile, { first: 1, last: 250 }, [])
+
+    expect(readExtractionCheckpoint(outputDir)?.complete).toBe(true)
+    expect(isExtractionIncomplete(outputDir)).toBe(false)
+    expect(findResumableExtraction(outputDir, swfFile, { first: 1, last: 250 })).toBeNull()
+  })
+
+  it('should ignore a checkpoint for other frames, another render scale or a changed file', () => {
+    writeExtractionCheckpoint(outputDir, swfFile, { first: 1, last: 250 }, [{ first: 120, last: 250 }])
+    expect(findResumableExtraction(outputDir, swfFile, { first: 1, last: 100 })).toBeNull()
+    expect(findResumableExtraction(outputDir, swfFile, { first: 101, last: 250 })).toBeNull()
+    expect(findResumableExtraction(outputDir, swfFile, { first: 1, last: 250 }, 2)).toBeNull()
+
+    fs.appendFileSync(swfFile, 'changed')
+    expect(findResumableExtraction(outputDir, swfFile, { first: 1, last: 250 })).toBeNull()
+  })
+
+  it('should treat a missing or unreadable checkpoint as no checkpoint', () => {
+    expect(readExtractionCheckpoint(outputDir)).toBeNull()
+    expect(isExtractionIncomplete(outputDir)).toBe(false)
+
+    fs.mkdirSync(outputDir)
+    fs.writeFileSync(path.join(outputDir, 'extraction.json'), '{')
+    expect(readExtractionCheckpoint(outputDir)).toBeNull()
+  })
+})
@@ -1,6 +1,6 @@
 import * as fs from 'fs'
 import * as path from 'path'
-import { extractSWF, analyzeExtractedContent } from '../../src/tools/extractor'
+import { extractSWF, analyzeExtractedContent, splitFrameRanges } from '../../src/tools/extractor'
 
 describe('SWF Extractor', () => {
   const fixturesDir = path.join(__dirname, '..', 'fixtures', 'videos')
@@ -96,4 +96,18 @@ describe('SWF Extractor', () => {
       }, 360000) // 360 second timeout
     })
   })
+
+  describe('splitFrameRanges function', () => {
+    it('should split the timeline into contiguous ranges of at least 100 frames', () => {
+      expect(splitFrameRanges(1000, 4)).toEqual([
+        { first: 1, last: 250 },
+        { first: 251, last: 500 },
+        { first: 501, last: 750 },
+        { first: 751, last: 1000 }
+      ])
+      expect(splitFrameRanges(250, 8)).toEqual([{ first: 1, last: 125 }, { first: 126, last: 250 }])
+      expect(splitFrameRanges(30, 8)).toEqual([{ first: 1, last: 30 }])
+      expect(splitFrameRanges(0, 8)).toEqual([])
+    })
+  })
 })
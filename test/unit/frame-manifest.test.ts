@@ -0,0 +1,94 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { buildFrameSequence, createFrameManifest, countManifestFrames, getHeldFrameStarts, getManifestTimestampFilters } from '../../src/tools/frame-manifest'
+
+describe('Frame Sequence Manifests', () => {
+  let framesDir: string
+
+  beforeEach(() => {
+    framesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'frame-manifest-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(framesDir, { recursive: true, force: true })
+  })
+
+  const writeFrames = (frames: Record<string, string>): string[] =>
+    Object.entries(frames).map(([name, content]) => {
+      const file = path.join(framesDir, name)
+      fs.writeFileSync(file, content)
+      return file
+    })
+
+  it('should collapse consecutive identical frames into runs', () => {
+    const files = writeFrames({ '1.png': 'slide 1', '2.png': 'slide 1', '3.png': 'slide 1', '4.png': 'slide 2', '5.png': 'slide 1', '6.png': 'slide 1' })
+
+    expect(buildFrameSequence(files)).toEqual({
+      runs: [
+        { file: files[0], frame: 0, count: 3 },
+        { file: files[3], frame: 3, count: 1 },
+        { file: files[4], frame: 4, count: 2 }
+      ],
+      frameCount: 6,
+      gaps: []
+    })
+    expect(buildFrameSequence(files, false).runs).toHaveLength(6)
+    expect(buildFrameSequence([])).toEqual({ runs: [], frameCount: 0, gaps: [] })
+  })
+
+  it('should hold the frame before each gap in the numbering', () => {
+    const files = writeFrames({ 'frame3.png': 'a', 'frame4.png': 'b', 'frame7.png': 'b', 'frame9.png': 'c' })
+
+    expect(buildFrameSequence(files)).toEqual({
+      runs: [
+        { file: files[0], frame: 0, count: 3 },
+        { file: files[1], frame: 3, count: 5 },
+        { file: files[3], frame: 8, count: 1 }
+      ],
+      frameCount: 9,
+      gaps: [{ frame: 0, count: 2 }, { frame: 4, count: 2 }, { frame: 7, count: 1 }]
+    })
+  })
+
+  it('should write durations in demuxer frames, splitting and repeating the last frame', () => {
+    const runs = [
+      { file: path.join(framesDir, '1.png'), frame: 0, count: 50 },
+      { file: path.join(framesDir, 'it\'s', '51.png'), frame: 50, count: 3 }
+    ]
+
+    expect(createFrameManifest(runs, framesDir)).toBe(`ffconcat version 1.0
+file '1.png'
+duration 2
+file 'it'\\''s/51.png'
+duration 0.08
+file 'it'\\''s/51.png'
+duration 0.04
+file 'it'\\''s/51.png'
+`)
+    expect(countManifestFrames(runs)).toBe(3)
+    expect(countManifestFrames([{ file: '1.png', frame: 0, count: 1 }])).toBe(1)
+  })
+
+  it('should find where held frames start', () => {
+    const runs = [
+      { file: '1.png', frame: 0, count: 40 },
+      { file: '41.png', frame: 40, count: 5 },
+      { file: '46.png', frame: 45, count: 30 }
+    ]
+
+    expect(getHeldFrameStarts(runs, 30)).toEqual([45])
+  })
+
+  it('should rescale manifest timestamps to a fractional frame rate in whole ticks', () => {
+    const filters = getManifestTimestampFilters({ numerator: 25, denominator: 2 })
+    expect(filters).toEqual(['settb=1/625', 'setpts=PTS*50/25'])
+
+    // Frame N is at N * 25 ticks after settb; setpts must land it on N / 12.5 seconds exactly
+    for (const frame of [1, 5, 7]) {
+      const ticks = frame * 25 * 50 / 25
+      expect(Number.isInteger(ticks)).toBe(true)
+      expect(ticks / 625).toBe(frame / 12.5)
+    }
+  })
+})
@@ -0,0 +1,58 @@
+import {
+  parseFrameRate,
+  toFrameRate,
+  getSWFFrameRate,
+  formatFrameRate,
+  describeFrameRate,
+  isSameFrameRate,
+  resolveFrameRate,
+  describeFrameRatePolicy
+} from '../../src/tools/frame-rate'
+import { SWFHeader } from '../../src/tools/swf-parser'
+
+describe('Frame Rates', () => {
+  const header = (frameRateRaw: number) => ({ frameRateRaw, frameRate: frameRateRaw / 256 }) as SWFHeader
+
+  it('should keep the 8.8 fixed-point header rate as an exact fraction', () => {
+    expect(getSWFFrameRate(header(3200))).toEqual({ numerator: 25, denominator: 2 })
+    expect(getSWFFrameRate(header(2252))).toEqual({ numerator: 563, denominator: 64 })
+    expect(getSWFFrameRate(header(30 * 256))).toEqual({ numerator: 30, denominator: 1 })
+    expect(getSWFFrameRate(header(0))).toBeNull()
+    expect(getSWFFrameRate(header(121 * 256))).toBeNull()
+  })
+
+  it('should parse whole numbers, decimals and fractions exactly', () => {
+    expect(parseFrameRate('30')).toEqual({ numerator: 30, denominator: 1 })
+    expect(parseFrameRate('12.50')).toEqual({ numerator: 25, denominator: 2 })
+    expect(parseFrameRate('30000/1001')).toEqual({ numerator: 30000, denominator: 1001 })
+    expect(toFrameRate(29.97)).toEqual({ numerator: 2997, denominator: 100 })
+    expect(() => parseFrameRate('0')).toThrow('Invalid frame rate "0"')
+    expect(() => parseFrameRate('25/0')).toThrow('Invalid frame rate')
+    expect(() => parseFrameRate('fast')).toThrow('Invalid frame rate')
+  })
+
+  it('should format frame rates for FFmpeg and log messages', () => {
+    expect(formatFrameRate({ numerator: 563, denominator: 64 })).toBe('563/64')
+    expect(formatFrameRate({ numerator: 15, denominator: 1 })).toBe('15')
+    expect(describeFrameRate({ numerator: 563, denominator: 64 })).toBe('8.797 (563/64)')
+    expect(isSameFrameRate(toFrameRate(30), { numerator: 60, denominator: 2 })).toBe(true)
+  })
+
+  it('should resolve the frame rate policy without confusing a forced 30 fps with the default', () => {
+    const detected = { numerator: 15, denominator: 1 }
+    const thirty = { numerator: 30, denominator: 1 }
+
+    expect(resolveFrameRate(detected)).toEqual({ policy: 'auto', detected, timeline: detected, output: detected })
+    expect(resolveFrameRate(detected, 30)).toEqual({ policy: 'force', detected, timeline: thirty, output: thirty })
+    expect(resolveFrameRate(detected, thirty, 'output')).toEqual({ policy: 'output', detected, timeline: detected, output: thirty })
+    expect(() => resolveFrameRate(detected, 30, 'auto')).toThrow('takes no frame rate')
+    expect(() => resolveFrameRate(detected, undefined, 'output')).toThrow('The output frame rate policy needs a frame rate')
+    expect(describeFrameRatePolicy(resolveFrameRate({ numerator: 25, denominator: 2 }, 30, 'output'))).toBe('output, 12.5 (25/2) FPS resampled to 30 FPS')
+    expect(describeFrameRatePolicy({
+      ...resolveFrameRate({ numerator: 15, denominator: 1 }),
+      timeline: { numerator: 3751, denominator: 250 },
+      output: { numerator: 3751, denominator: 250 },
+      inferredFromAudio: true
+    })).toBe('auto, 15.004 (3751/250) FPS inferred from the audio (detected 15 FPS)')
+  })
+})
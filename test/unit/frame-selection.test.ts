@@ -0,0 +1,37 @@
+import { parseFramePosition, resolveFrameSelection } from '../../src/tools/frame-selection'
+import { SWFHeader } from '../../src/tools/swf-parser'
+
+describe('Frame Selection', () => {
+  const header = { frameRate: 10, frameCount: 1000 } as SWFHeader
+
+  it('should parse frame numbers and timestamps', () => {
+    expect(parseFramePosition('1200')).toEqual({ frame: 1200 })
+    expect(parseFramePosition('23:00')).toEqual({ time: 1380 })
+    expect(parseFramePosition('1:02:03.5')).toEqual({ time: 3723.5 })
+    expect(parseFramePosition('90s')).toEqual({ time: 90 })
+    expect(() => parseFramePosition('0')).toThrow('Frame numbers start at 1')
+    expect(() => parseFramePosition('12.5')).toThrow('Invalid position')
+    expect(() => parseFramePosition('1:75')).toThrow('Invalid position')
+  })
+
+  it('should resolve times to the frames shown between them', () => {
+    expect(resolveFrameSelection({ start: { time: 60 }, end: { time: 70 } }, header)).toEqual({ first: 601, last: 700 })
+    expect(resolveFrameSelection({ start: { time: 60.05 } }, header)).toEqual({ first: 601, last: 1000 })
+    expect(resolveFrameSelection({ start: { frame: 250 }, end: { frame: 250 } }, header)).toEqual({ first: 250, last: 250 })
+    expect(resolveFrameSelection({}, header)).toBeNull()
+  })
+
+  it('should apply the test frame limit from the start and stop at the last frame', () => {
+    expect(resolveFrameSelection({ start: { frame: 500 }, limit: 100 }, header)).toEqual({ first: 500, last: 599 })
+    expect(resolveFrameSelection({ limit: 5000 }, header)).toEqual({ first: 1, last: 1000 })
+    expect(resolveFrameSelection({ end: { time: 3600 } }, header)).toEqual({ first: 1, last: 1000 })
+    expect(resolveFrameSelection({ limit: 50 }, null)).toEqual({ first: 1, last: 50 })
+  })
+
+  it('should reject selections that do not fit the SWF', () => {
+    expect(() => resolveFrameSelection({ start: { frame: 1001 } }, header)).toThrow('only 1000 frames')
+    expect(() => resolveFrameSelection({ start: { frame: 300 }, end: { frame: 200 } }, header)).toThrow('after its end')
+    expect(() => resolveFrameSelection({ start: { time: 10 }, end: { frame: 200 } }, null)).toThrow('must be given in frames')
+    expect(() => resolveFrameSelection({ start: { frame: 10 } }, null)).toThrow('needs an end')
+  })
+})
@@ -0,0 +1,86 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { PassThrough } from 'stream'
+import { createFrameFeeder, streamSWFFrames } from '../../src/tools/frame-stream'
+import { extractSWFContent, ExtractorCallbacks } from '../../src/tools/extractor'
+
+// JPEXS is simulated: the test drives the extraction callbacks itself
+jest.mock('../../src/tools/extractor', () => ({
+  extractSWFContent: jest.fn(() => ({ kill: jest.fn() })),
+  getExtractionTimeoutMinutes: (_swfFile: string, timeoutMinutes?: number) => timeoutMinutes ?? 10
+}))
+
+describe('Frame Streaming', () => {
+  let outputDir: string
+  let pipe: PassThrough
+  let piped: string[]
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'frame-stream-'))
+    fs.mkdirSync(path.join(outputDir, 'frames'))
+    pipe = new PassThrough()
+    piped = []
+    pipe.on('data', (chunk: Buffer) => piped.push(chunk.toString()))
+  })
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true })
+  })
+
+  const exportFrames = (frames: Record<number, string>) => {
+    for (const [frame, content] of Object.entries(frames)) {
+      fs.writeFileSync(path.join(outputDir, 'frames', `${frame}.png`), content)
+    }
+  }
+
+  it('should write only complete frames and delete them once written', async () => {
+    const feeder = createFrameFeeder(outputDir, pipe, 4)
+    exportFrames({ 1: 'a', 2: 'b' })
+
+    // Frame 2 may still be being written until JPEXS reports it or frame 3 appears
+    await feeder.feed(1, false)
+    expect(piped).toEqual(['a'])
+    expect(feeder.pending()).toBe(1)
+
+    exportFrames({ 3: 'c' })
+    await feeder.feed(1, false)
+    expect(piped).toEqual(['a', 'b'])
+
+    exportFrames({ 4: 'd' })
+    await feeder.feed(4, false)
+    expect(piped).toEqual(['a', 'b', 'c', 'd'])
+    expect(feeder.pending()).toBe(0)
+    expect(feeder.done()).toBe(true)
+    expect(feeder.result()).toEqual({ frameCount: 4, gaps: [] })
+  })
+
+  it('should hold frames JPEXS did not export', async () => {
+    const feeder = createFrameFeeder(outputDir, pipe, 7)
+    exportFrames({ 3: 'c', 4: 'd', 6: 'f' })
+
+    await feeder.feed(6, false)
+    expect(piped).toEqual(['c', 'c', 'c', 'd', 'd', 'f'])
+    expect(feeder.done()).toBe(false)
+
+    // Once JPEXS has exited, the rest of the timeline is held from the last frame
+    await feeder.feed(6, true)
+    expect(piped).toEqual(['c', 'c', 'c', 'd', 'd', 'f', 'f'])
+    expect(feeder.result()).toEqual({
+      frameCount: 7,
+      gaps: [{ frame: 0, count: 2 }, { frame: 4, count: 1 }, { frame: 6, count: 1 }]
+    })
+  })
+
+  it('should fail instead of holding the rest of the timeline when JPEXS crashes', async () => {
+    const stream = streamSWFFrames('lesson.swf', outputDir, pipe, { frameCount: 4, timeoutMinutes: 1 })
+    const callbacks: ExtractorCallbacks = (extractSWFContent as jest.Mock).mock.calls[0][1]
+
+    exportFrames({ 1: 'a' })
+    callbacks.onStdout('Exported frame 1/4')
+    callbacks.onClose(1)
+
+    // Frames 2-4 were never exported, so they must not be filled from frame 1
+    await expect(stream.result).rejects.toThrow('JPEXS exited with code 1 before exporting every frame')
+  })
+})
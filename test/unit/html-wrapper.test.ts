@@ -0,0 +1,86 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { parseHTMLEmbeds, parseFlashVars, readHTMLWrapper } from '../../src/tools/html-wrapper'
+
+describe('HTML Wrapper Discovery', () => {
+  let pageDir: string
+
+  beforeEach(() => {
+    pageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'html-wrapper-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(pageDir, { recursive: true, force: true })
+  })
+
+  it('should merge nested object and embed tags for the same movie', () => {
+    const html = `<html><body>
+<!-- <embed src="old.swf"> -->
+<object classid="clsid:D27CDB6E-AE6D-11cf-96B8-444553540000" width="800" height="600">
+  <param name="movie" value="lesson_controller.swf?autostart=true" />
+  <param name="FlashVars" value="csConfigFile=lesson_config.xml&amp;csColor=FFFFFF" />
+  <embed src="lesson_controller.swf?autostart=true" width="800" height="600" flashvars="csPreloader=lesson_preload.swf"></embed>
+</object>
+</body></html>`
+
+    const embeds = parseHTMLEmbeds(html, '/courses/intro')
+
+    expect(embeds).toEqual([{
+      source: 'object',
+      src: 'lesson_controller.swf',
+      file: path.resolve('/courses/intro', 'lesson_controller.swf'),
+      width: 800,
+      height: 600,
+      flashVars: { autostart: 'true', csConfigFile: 'lesson_config.xml', csColor: 'FFFFFF', csPreloader: 'lesson_preload.swf' }
+    }])
+  })
+
+  it('should read SWFObject and AC_FL_RunContent embeds', () => {
+    const html = `<script type="text/javascript">
+  var flashvars = { content: "media/movie.swf" };
+  flashvars.title = "Intro, part 1";
+  swfobject.embedSWF("player.swf", "flash", "640", "480", "9.0.0", "expressInstall.swf", flashvars, { wmode: "opaque" });
+  var so = new SWFObject("legacy.swf", "legacy", "320", "100%", "8", "#ffffff");
+  so.addVariable("file", "clip.swf");
+  AC_FL_RunContent('width', '1024', 'height', '768', 'src', 'banner', 'movie', 'banner', 'FlashVars', 'a=1');
+  swfobject.embedSWF("http://example.com/remote.swf", "remote", "300", "200", "9");
+</script>`
+
+    const embeds = parseHTMLEmbeds(html, '/site')
+
+    expect(embeds.map(embed => [embed.source, embed.src, embed.width, embed.height])).toEqual([
+      ['swfobject', 'player.swf', 640, 480],
+      ['swfobject', 'http://example.com/remote.swf', 300, 200],
+      ['swfobject', 'legacy.swf', 320, null],
+      ['ac-fl-runcontent', 'banner.swf', 1024, 768]
+    ])
+    expect(embeds[0].flashVars).toEqual({ content: 'media/movie.swf', title: 'Intro, part 1' })
+    expect(embeds[1].file).toBeNull()
+    expect(embeds[2].flashVars).toEqual({ file: 'clip.swf' })
+    expect(embeds[3].flashVars).toEqual({ a: '1' })
+  })
+
+  it('should decode FlashVars strings', () => {
+    expect(parseFlashVars('file=my%20video.swf&title=A+B&flag')).toEqual({ file: 'my video.swf', title: 'A B', flag: '' })
+  })
+
+  it('should follow a Camtasia controller page to the content SWF', () => {
+    for (const file of ['lesson.swf', 'lesson_controller.swf', 'lesson_preload.swf']) {
+      fs.writeFileSync(path.join(pageDir, file), '')
+    }
+    fs.writeFileSync(path.join(pageDir, 'lesson_config.xml'), '<config><mediaFile>lesson.swf</mediaFile></config>')
+    const page = path.join(pageDir, 'lesson.html')
+    fs.writeFileSync(page, `<embed src="lesson_controller.swf" width="640" height="498"
+      flashvars="csConfigFile=lesson_config.xml&csPreloader=lesson_preload.swf"/>
+      <embed src="missing.swf"/><embed src="https://cdn.example.com/x.swf"/>`)
+
+    const { swfFiles, skipped } = readHTMLWrapper(page)
+
+    expect(swfFiles.map(file => path.basename(file))).toEqual(['lesson_controller.swf', 'lesson.swf', 'lesson_preload.swf'])
+    expect(skipped.map(({ file, reason }) => [path.basename(file), reason])).toEqual([
+      ['x.swf', 'Remote SWF referenced by lesson.html can\'t be converted'],
+      ['missing.swf', 'Embedded by lesson.html but not found']
+    ])
+  })
+})
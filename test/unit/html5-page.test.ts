@@ -0,0 +1,110 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { rewriteHTMLPage, writeHTML5Page, HTML5Video } from '../../src/tools/html5-page'
+
+describe('HTML5 Page Generator', () => {
+  let pageDir: string
+
+  const video = (name: string, extras: Partial<HTML5Video> = {}): HTML5Video => ({
+    file: path.join(pageDir, `${name}.mp4`),
+    type: 'video/mp4',
+    poster: null,
+    chapters: null,
+    captions: null,
+    ...extras
+  })
+
+  beforeEach(() => {
+    pageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'html5-page-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(pageDir, { recursive: true, force: true })
+  })
+
+  it('should replace object markup with a video element', () => {
+    const html = `<body>
+  <!-- <embed src="lesson.swf"> -->
+  <object width="800" height="600">
+    <param name="movie" value="lesson.swf" />
+    <embed src="lesson.swf" width="800" height="600"></embed>
+  </object>
+  <embed src="other.swf">
+</body>`
+    const videos = new Map([[path.join(pageDir, 'lesson.swf'), video('lesson', {
+      poster: path.join(pageDir, 'lesson.poster.jpg'),
+      chapters: path.join(pageDir, 'lesson.chapters.vtt'),
+      captions: path.join(pageDir, 'media', 'lesson & co.vtt')
+    })]])
+
+    const result = rewriteHTMLPage(html, pageDir, videos)
+
+    expect(result.replaced).toBe(1)
+    expect(result.html).toBe(`<body>
+  <!-- <embed src="lesson.swf"> -->
+  <video controls preload="metadata" width="800" height="600" poster="lesson.poster.jpg">
+    <source src="lesson.mp4" type="video/mp4">
+    <track kind="chapters" src="lesson.chapters.vtt" label="Chapters" default>
+    <track kind="captions" src="media/lesson%20%26%20co.vtt" label="Captions">
+    <a href="lesson.mp4">Download the video</a>
+  </video>
+  <embed src="other.swf">
+</body>`)
+  })
+
+  it('should replace the SWFObject placeholder and disable the embedding call', () => {
+    const html = `<script type="text/javascript">
+  swfobject.embedSWF("lesson_controller.swf", "flash", "640", "480", "9.0.0", false, { csConfigFile: "lesson_config.xml" });
+</script>
+<div id="flash"><p>Get <a href="https://get.adobe.com/flashplayer/">Flash</a></p><div>nested</div></div>`
+    fs.writeFileSync(path.join(pageDir, 'lesson_config.xml'), '<config><mediaFile>lesson.swf</mediaFile></config>')
+
+    const result = rewriteHTMLPage(html, pageDir, new Map([[path.join(pageDir, 'lesson.swf'), video('lesson')]]))
+
+    expect(result.replaced).toBe(1)
+    expect(result.html).toBe(`<script type="text/javascript">
+  /* Flash embed replaced by an HTML5 video element */ void 0;
+</script>
+<video controls preload="metadata" width="640" height="480">
+  <source src="lesson.mp4" type="video/mp4">
+  <a href="lesson.mp4">Download the video</a>
+</video>`)
+  })
+
+  it('should replace an AC_FL_RunContent script with its noscript fallback', () => {
+    const html = `<td>
+  <script>AC_FL_RunContent('width', '1024', 'height', '768', 'src', 'banner', 'movie', 'banner');</script>
+  <noscript><object><param name="movie" value="banner.swf"></object></noscript>
+</td>`
+
+    const result = rewriteHTMLPage(html, pageDir, new Map([[path.join(pageDir, 'banner.swf'), video('banner')]]))
+
+    expect(result.replaced).toBe(1)
+    expect(result.html).toBe(`<td>
+  <video controls preload="metadata" width="1024" height="768">
+    <source src="banner.mp4" type="video/mp4">
+    <a href="banner.mp4">Download the video</a>
+  </video>
+</td>`)
+  })
+
+  it('should keep the original page and rewrite from it on later runs', () => {
+    const page = path.join(pageDir, 'index.html')
+    const original = '<embed src="lesson.swf" width="320" height="240">'
+    fs.writeFileSync(page, original)
+
+    expect(writeHTML5Page(page, new Map())).toEqual({ page, backupFile: null, replaced: 0 })
+    expect(fs.existsSync(`${page}.bak`)).toBe(false)
+
+    const videos = new Map([[path.join(pageDir, 'lesson.swf'), video('lesson')]])
+    expect(writeHTML5Page(page, videos)).toEqual({ page, backupFile: `${page}.bak`, replaced: 1 })
+    const rewritten = fs.readFileSync(page, 'utf8')
+    expect(rewritten).toContain('<source src="lesson.mp4" type="video/mp4">')
+    expect(fs.readFileSync(`${page}.bak`, 'utf8')).toBe(original)
+
+    writeHTML5Page(page, videos)
+    expect(fs.readFileSync(page, 'utf8')).toBe(rewritten)
+    expect(fs.readFileSync(`${page}.bak`, 'utf8')).toBe(original)
+  })
+})
@@ -0,0 +1,31 @@
+import * as path from 'path'
+import { inspectSWF } from '../../src/tools/inspector'
+
+describe('SWF Inspector', () => {
+  const fixturesDir = path.join(__dirname, '..', 'fixtures', 'videos')
+
+  it('should report stage, timing and sound stream for with-audio.swf', () => {
+    const report = inspectSWF(path.join(fixturesDir, 'with-audio.swf'))
+
+    expect(report.signature).toBe('FWS')
+    expect(report.width).toBe(944)
+    expect(report.height).toBe(768)
+    expect(report.frameRate).toBe(15)
+    expect(report.soundStream).not.toBeNull()
+    expect(report.soundStream?.formatName).toBe('MP3')
+    expect(report.soundStream?.sampleRate).toBe(44100)
+    expect(report.tagHistogram.ShowFrame).toBe(report.showFrameCount)
+  })
+
+  it('should detect Camtasia origin and background colour for silent-audio.swf', () => {
+    const report = inspectSWF(path.join(fixturesDir, 'silent-audio.swf'))
+
+    expect(report.compression).toBe('zlib')
+    expect(report.backgroundColor).toBe('#333333')
+    expect(report.camtasia.likely).toBe(true)
+    expect(report.camtasia.generator).toBe('TechSmith Camtasia Studio 5.1.0')
+
+    // Reports must survive a JSON round trip for the --json output
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report)
+  })
+})
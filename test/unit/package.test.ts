@@ -0,0 +1,76 @@
+import { readZip, createZip } from '../../src/utils/zip'
+import { readPackageManifest, rewritePackageManifest } from '../../src/tools/package'
+
+describe('Course Package Conversion', () => {
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="course" xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2">
+  <organizations default="org"><organization identifier="org"><item identifier="i1" identifierref="r1"><title>Lesson</title></item></organization></organizations>
+  <resources xml:base="content/">
+    <resource identifier="r1" type="webcontent" adlcp:scormtype="sco" href="lesson.html">
+      <file href="lesson.html"/>
+      <file href="lesson.swf"/>
+      <file href="lesson_controller.swf"/>
+      <file href="scripts/swfobject.js"/>
+    </resource>
+    <resource identifier="r2" type="webcontent" xml:base="extra/" href="intro%20clip.swf">
+      <file href="intro%20clip.swf"/>
+    </resource>
+  </resources>
+</manifest>`
+
+  it('should write archives that read back with names, contents and times', () => {
+    const modified = new Date(2009, 4, 17, 14, 30, 12)
+    const entries = [
+      { name: 'content/', data: Buffer.alloc(0), modified },
+      { name: 'content/lesson.html', data: Buffer.from('<html>'.repeat(100)), modified },
+      { name: 'content/ünïcode.txt', data: Buffer.from([1, 2, 3]), modified }
+    ]
+
+    const archive = createZip(entries)
+
+    expect(readZip(archive)).toEqual(entries)
+    expect(archive.length).toBeLessThan(600) // The repeated HTML is deflated
+    expect(() => readZip(Buffer.from('not a zip'))).toThrow('Invalid ZIP archive')
+  })
+
+  it('should read resources from the manifest with their xml:base applied', () => {
+    expect(readPackageManifest(manifest)).toEqual([
+      {
+        identifier: 'r1',
+        href: 'content/lesson.html',
+        base: 'content/',
+        files: ['content/lesson.html', 'content/lesson.swf', 'content/lesson_controller.swf', 'content/scripts/swfobject.js']
+      },
+      {
+        identifier: 'r2',
+        href: 'content/extra/intro clip.swf',
+        base: 'content/extra/',
+        files: ['content/extra/intro clip.swf']
+      }
+    ])
+  })
+
+  it('should list the new files in place of the converted SWFs', () => {
+    const rewritten = rewritePackageManifest(manifest, [
+      {
+        removed: ['content/lesson.swf', 'content/lesson_controller.swf'],
+        added: ['content/lesson.mp4', 'content/lesson.poster.jpg']
+      },
+      {
+        removed: ['content/extra/intro clip.swf'],
+        added: ['content/extra/intro clip.mp4']
+      }
+    ])
+
+    expect(rewritten).toContain(`    <resource identifier="r1" type="webcontent" adlcp:scormtype="sco" href="lesson.html">
+      <file href="lesson.html"/>
+      <file href="lesson.mp4"/>
+      <file href="lesson.poster.jpg"/>
+      <file href="scripts/swfobject.js"/>
+    </resource>
+    <resource identifier="r2" type="webcontent" xml:base="extra/" href="intro%20clip.mp4">
+      <file href="intro%20clip.mp4"/>
+    </resource>`)
+    expect(readPackageManifest(rewritten)[0].files).toEqual(['content/lesson.html', 'content/lesson.mp4', 'content/lesson.poster.jpg', 'content/scripts/swfobject.js'])
+  })
+})
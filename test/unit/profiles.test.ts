@@ -0,0 +1,87 @@
+import {
+  getOutputProfile,
+  findMissingEncoders,
+  parseQuantity,
+  validateQualityOptions,
+  getTargetVideoBitrate,
+  getVideoEncoderOptions,
+  getAudioEncoderOptions,
+  OUTPUT_PROFILES
+} from '../../src/tools/profiles'
+
+describe('Output Profiles', () => {
+  it('should look up profiles by name, case-insensitively', () => {
+    expect(getOutputProfile('WebM')).toBe(OUTPUT_PROFILES.webm)
+    expect(getOutputProfile('mp4').videoCodec).toBe('libx264')
+    expect(() => getOutputProfile('gif')).toThrow('Unknown output profile "gif" (available: mp4, hevc, webm, av1, ffv1, prores)')
+  })
+
+  it('should report the encoders FFmpeg is missing for a profile', () => {
+    expect(findMissingEncoders(OUTPUT_PROFILES.webm, ['libx264', 'aac', 'libvpx-vp9'])).toEqual(['libopus'])
+    expect(findMissingEncoders(OUTPUT_PROFILES.ffv1, ['ffv1', 'flac'])).toEqual([])
+  })
+
+  it('should give every profile a container extension and MIME type', () => {
+    for (const profile of Object.values(OUTPUT_PROFILES)) {
+      expect(profile.extension).toMatch(/^\.(mp4|webm|mkv|mov)$/)
+      expect(profile.mimeType).toMatch(/^video\//)
+    }
+  })
+
+  it('should parse sizes and bitrates with decimal suffixes', () => {
+    expect(parseQuantity('25M')).toBe(25000000)
+    expect(parseQuantity('2500k')).toBe(2500000)
+    expect(parseQuantity('1.5G')).toBe(1500000000)
+    expect(parseQuantity('64000')).toBe(64000)
+    expect(() => parseQuantity('-2M')).toThrow('Invalid size "-2M"')
+    expect(() => parseQuantity('25 MiB')).toThrow('Invalid size')
+  })
+
+  it('should reject quality options the profile can\'t honour', () => {
+    const { mp4, webm, prores } = OUTPUT_PROFILES
+    expect(() => validateQualityOptions(mp4, { crf: 18, preset: 'slow', tune: 'stillimage', maxBitrate: 2000000 })).not.toThrow()
+    expect(() => validateQualityOptions(mp4, { crf: 52 })).toThrow('CRF for the mp4 profile must be a whole number from 0 to 51')
+    expect(() => validateQualityOptions(webm, { crf: 40, targetSize: 25000000 })).toThrow('A CRF and a target size can\'t be combined')
+    expect(() => validateQualityOptions(webm, { preset: 'slow' })).toThrow('The webm profile has no presets')
+    expect(() => validateQualityOptions(mp4, { tune: 'music' })).toThrow('Unknown tune "music" for the mp4 profile')
+    expect(() => validateQualityOptions(mp4, { bufferSize: 4000000 })).toThrow('A buffer size needs a max bitrate')
+    expect(() => validateQualityOptions(prores, { crf: 10 })).toThrow('The prores profile has no CRF setting')
+    expect(() => validateQualityOptions(prores, { targetSize: 25000000 })).toThrow('The prores profile doesn\'t support a target size')
+    expect(() => validateQualityOptions(webm, { audioBitrate: 64000 })).not.toThrow()
+    expect(() => validateQualityOptions(prores, { audioBitrate: 64000 })).toThrow('The prores profile encodes lossless audio')
+  })
+
+  it('should build constant quality and capped encoder options', () => {
+    const { mp4, hevc, webm } = OUTPUT_PROFILES
+    expect(getVideoEncoderOptions(mp4, {})).toEqual(['-crf', '23'])
+    expect(getVideoEncoderOptions(hevc, { crf: 24, preset: 'slow', maxBitrate: 1500000 })).toEqual([
+      '-crf', '24', '-maxrate', '1500k', '-bufsize', '3000k', '-preset', 'slow', '-tag:v', 'hvc1'
+    ])
+    expect(getVideoEncoderOptions(webm, {})).toEqual(['-crf', '32', '-b:v', '0', ...webm.videoOptions])
+    expect(getVideoEncoderOptions(webm, { maxBitrate: 800000 })).toEqual(['-crf', '32', '-b:v', '800k', ...webm.videoOptions])
+    expect(getVideoEncoderOptions(mp4, {}, { noBFrames: true })).toEqual(['-crf', '23', '-bf', '0'])
+    expect(getVideoEncoderOptions(webm, {}, { noBFrames: true })).toEqual(getVideoEncoderOptions(webm, {}))
+    expect(getAudioEncoderOptions(mp4, {})).toEqual([])
+    expect(getAudioEncoderOptions(webm, {})).toEqual(['-b:a', '96k'])
+  })
+
+  it('should size a two-pass encode to fit the target', () => {
+    const { mp4, hevc } = OUTPUT_PROFILES
+    // 25 MB over 10 minutes, less 2% container overhead and 128 kbps of audio
+    const bitrate = getTargetVideoBitrate(mp4, 25000000, 600, true)
+    expect(bitrate).toBe(198666)
+    expect(getTargetVideoBitrate(mp4, 25000000, 600, false)).toBe(bitrate + 128000)
+    expect(() => getTargetVideoBitrate(mp4, 1000000, 600, true)).toThrow('Target size of 1000 KB is too small for 600.0s of video')
+    expect(getAudioEncoderOptions(mp4, { targetSize: 25000000 })).toEqual(['-b:a', '128k'])
+    expect(getTargetVideoBitrate(mp4, 25000000, 600, true, { audioBitrate: 64000 })).toBe(bitrate + 64000)
+    expect(getAudioEncoderOptions(mp4, { targetSize: 25000000, audioBitrate: 64000 })).toEqual(['-b:a', '64k'])
+    expect(getAudioEncoderOptions(OUTPUT_PROFILES.webm, { audioBitrate: 48000 })).toEqual(['-b:a', '48k'])
+
+    expect(getVideoEncoderOptions(mp4, { targetSize: 25000000, preset: 'slow' }, { bitrate, pass: { number: 1, logFile: '/tmp/lesson/ffmpeg2pass' } })).toEqual([
+      '-b:v', '199k', '-preset', 'slow', '-pass', '1', '-passlogfile', '/tmp/lesson/ffmpeg2pass'
+    ])
+    expect(getVideoEncoderOptions(hevc, { targetSize: 25000000 }, { bitrate, pass: { number: 2, logFile: 'C:\\temp\\ffmpeg2pass' }, noBFrames: true })).toEqual([
+      '-b:v', '199k', '-x265-params', 'bframes=0:pass=2:stats=C\\:\\\\temp\\\\ffmpeg2pass.log', '-tag:v', 'hvc1'
+    ])
+  })
+})
@@ -0,0 +1,86 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { parseXML } from '../../src/utils/xml'
+import { groupProjectFiles, readProjectConfig, getProjectRole } from '../../src/tools/project'
+
+describe('Camtasia Project Discovery', () => {
+  let projectDir: string
+
+  const configXML = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- Generated by Camtasia Studio -->
+<fpConfig>
+  <title>Getting Started &amp; Setup</title>
+  <mediaFile>lesson.swf</mediaFile>
+  <mediaWidth>800</mediaWidth>
+  <mediaHeight>600</mediaHeight>
+  <controller autoHide="true"/>
+  <param name="autoStart" value="false"/>
+  <description><![CDATA[Intro <b>video</b>]]></description>
+</fpConfig>`
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'camtasia-project-'))
+    for (const file of ['lesson.swf', 'lesson_controller.swf', 'lesson_preload.swf', 'other.swf', 'orphan_controller.swf']) {
+      fs.writeFileSync(path.join(projectDir, file), '')
+    }
+    fs.writeFileSync(path.join(projectDir, 'lesson_config.xml'), configXML)
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true })
+  })
+
+  it('should parse elements, attributes, entities and CDATA', () => {
+    const root = parseXML(configXML)
+
+    expect(root.name).toBe('fpConfig')
+    expect(root.children.map(child => child.name)).toEqual(['title', 'mediaFile', 'mediaWidth', 'mediaHeight', 'controller', 'param', 'description'])
+    expect(root.children[0].text).toBe('Getting Started & Setup')
+    expect(root.children[4].attributes).toEqual({ autoHide: 'true' })
+    expect(root.children[6].text).toBe('Intro <b>video</b>')
+    expect(() => parseXML('<a><b></a>')).toThrow('Invalid XML')
+  })
+
+  it('should read title, dimensions and settings from the config XML', () => {
+    const config = readProjectConfig(path.join(projectDir, 'lesson_config.xml'))
+
+    expect(config.title).toBe('Getting Started & Setup')
+    expect([config.width, config.height]).toEqual([800, 600])
+    expect(config.contentFile).toBe(path.join(projectDir, 'lesson.swf'))
+    expect(config.settings.autoStart).toBe('false')
+    expect(config.settings['controller.autoHide']).toBe('true')
+  })
+
+  it('should classify SWFs by their file name suffix', () => {
+    expect(getProjectRole('/videos/lesson.swf')).toEqual({ name: 'lesson', role: 'content' })
+    expect(getProjectRole('/videos/Lesson_Controller.SWF')).toEqual({ name: 'Lesson', role: 'controller' })
+    expect(getProjectRole('/videos/lesson_preload.swf')).toEqual({ name: 'lesson', role: 'preloader' })
+  })
+
+  it('should keep only content SWFs and report the rest as skipped', () => {
+    const files = ['lesson.swf', 'lesson_controller.swf', 'lesson_preload.swf', 'other.swf', 'orphan_controller.swf']
+    const { projects, skipped } = groupProjectFiles(files.map(file => path.join(projectDir, file)))
+
+    expect(projects.map(project => path.basename(project.contentFile))).toEqual(['lesson.swf', 'other.swf'])
+    expect(projects[0].controllerFile).toBe(path.join(projectDir, 'lesson_controller.swf'))
+    expect(projects[0].preloaderFile).toBe(path.join(projectDir, 'lesson_preload.swf'))
+    expect(projects[0].config?.title).toBe('Getting Started & Setup')
+    expect(projects[1].config).toBeNull()
+
+    expect(skipped.map(({ file, reason }) => [path.basename(file), reason])).toEqual([
+      ['lesson_controller.swf', 'Camtasia playback controller for lesson.swf'],
+      ['lesson_preload.swf', 'Camtasia preloader for lesson.swf'],
+      ['orphan_controller.swf', 'Camtasia playback controller (no content SWF found)']
+    ])
+  })
+
+  it('should report an unreadable config without failing discovery', () => {
+    fs.writeFileSync(path.join(projectDir, 'lesson_config.xml'), '<fpConfig><title>Broken</fpConfig>')
+
+    const { projects } = groupProjectFiles([path.join(projectDir, 'lesson.swf')])
+
+    expect(projects[0].config).toBeNull()
+    expect(projects[0].configError).toContain('Invalid XML')
+  })
+})
@@ -0,0 +1,41 @@
+import { buildScaleFilters, validateScalingOptions } from '../../src/tools/scaling'
+import { OUTPUT_PROFILES } from '../../src/tools/profiles'
+
+describe('Frame Scaling', () => {
+  it('should only pad frames to even dimensions without an output size', () => {
+    expect(buildScaleFilters({}, true)).toEqual(['pad=ceil(iw/2)*2:ceil(ih/2)*2'])
+    expect(buildScaleFilters({ renderScale: 2 }, false)).toEqual([])
+  })
+
+  it('should scale one side in proportion to the other', () => {
+    expect(buildScaleFilters({ width: 1280 }, true)).toEqual(['scale=1280:-2:flags=lanczos', 'setsar=1'])
+    expect(buildScaleFilters({ height: 1080 }, false)).toEqual(['scale=-1:1080:flags=lanczos', 'setsar=1'])
+  })
+
+  it('should fit, fill or pad frames to a width and height', () => {
+    expect(buildScaleFilters({ width: 1920, height: 1080 }, true)).toEqual([
+      'scale=1920:1080:force_original_aspect_ratio=decrease:flags=lanczos',
+      'pad=ceil(iw/2)*2:ceil(ih/2)*2',
+      'setsar=1'
+    ])
+    expect(buildScaleFilters({ width: 1920, height: 1080, scaleMode: 'fill' }, true)).toEqual([
+      'scale=1920:1080:force_original_aspect_ratio=increase:flags=lanczos',
+      'crop=1920:1080',
+      'setsar=1'
+    ])
+    expect(buildScaleFilters({ width: 1920, height: 1080, scaleMode: 'pad' }, true)).toEqual([
+      'scale=1920:1080:force_original_aspect_ratio=decrease:flags=lanczos',
+      'pad=1920:1080:(ow-iw)/2:(oh-ih)/2',
+      'setsar=1'
+    ])
+  })
+
+  it('should reject scaling options the profile can\'t honour', () => {
+    expect(() => validateScalingOptions(OUTPUT_PROFILES.mp4, { renderScale: 2, width: 1920, height: 1080, scaleMode: 'pad' })).not.toThrow()
+    expect(() => validateScalingOptions(OUTPUT_PROFILES.mp4, { renderScale: 0 })).toThrow('render scale')
+    expect(() => validateScalingOptions(OUTPUT_PROFILES.mp4, { renderScale: 5 })).toThrow('at most 4')
+    expect(() => validateScalingOptions(OUTPUT_PROFILES.mp4, { width: 1279 })).toThrow('Width must be even for the mp4 profile')
+    expect(() => validateScalingOptions(OUTPUT_PROFILES.ffv1, { width: 1279 })).not.toThrow()
+    expect(() => validateScalingOptions(OUTPUT_PROFILES.mp4, { height: 1080, scaleMode: 'fill' })).toThrow('needs both a width and a height')
+  })
+})
@@ -0,0 +1,79 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { parseSWFBuffer, SWF_TAGS } from '../../src/tools/swf-parser'
+import { createTag, createSWF, showFrame } from '../helpers/swf'
+import { collectSoundEvents, writeSoundTimeline, readSoundTimeline, resolveSoundPlacements, SoundTimeline } from '../../src/tools/sound-events'
+
+describe('Event Sound Timeline', () => {
+  // One second of 16-bit mono PCM at 11025 Hz, started with two loops on frame 0 and stopped on frame 1
+  const createEventSoundSWF = (): Buffer => {
+    const defineSound = Buffer.alloc(7 + 11025 * 2)
+    defineSound.writeUInt16LE(1, 0)
+    defineSound[2] = (3 << 4) | (1 << 2) | (1 << 1)
+    defineSound.writeUInt32LE(11025, 3)
+
+    const startWithLoops = Buffer.from([0x01, 0x00, 0x04, 0x02, 0x00])
+    const stop = Buffer.from([0x01, 0x00, 0x20])
+
+    return createSWF([
+      createTag(SWF_TAGS.DefineSound, defineSound),
+      createTag(SWF_TAGS.StartSound, startWithLoops),
+      showFrame(),
+      createTag(SWF_TAGS.StartSound, stop),
+      showFrame()
+    ])
+  }
+
+  it('should collect DefineSound data and StartSound events with their frames', () => {
+    const { definitions, events } = collectSoundEvents(parseSWFBuffer(createEventSoundSWF()))
+
+    expect(definitions.map(definition => definition.soundId)).toEqual([1])
+    expect(definitions[0].sampleRate).toBe(11025)
+    expect(definitions[0].sampleCount).toBe(11025)
+    expect(events.map(event => [event.frame, event.syncStop, event.loopCount])).toEqual([
+      [0, false, 2],
+      [1, true, 1]
+    ])
+  })
+
+  it('should write event sounds and a timeline sidecar', () => {
+    const soundsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sound-events-'))
+    try {
+      const timeline = writeSoundTimeline(parseSWFBuffer(createEventSoundSWF()), soundsDir, 10)
+
+      expect(timeline).not.toBeNull()
+      expect(timeline!.sounds[0].file).toBe('events/1.wav')
+      expect(fs.readFileSync(path.join(soundsDir, 'events', '1.wav')).toString('latin1', 0, 4)).toBe('RIFF')
+      expect(readSoundTimeline(soundsDir)).toEqual(timeline)
+    } finally {
+      fs.rmSync(soundsDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should apply loops, stop events and no-multiple flags when placing sounds', () => {
+    const timeline: SoundTimeline = {
+      frameRate: 10,
+      sounds: [{ soundId: 1, file: 'events/1.mp3', format: 2, formatName: 'MP3', sampleRate: 22050, channels: 1, sampleCount: 22050, seekSamples: 1105, duration: 1 }],
+      events: [
+        { frame: 0, soundId: 1, syncStop: false, syncNoMultiple: false, inPoint: null, outPoint: null, loopCount: 3, envelope: [] },
+        { frame: 5, soundId: 1, syncStop: false, syncNoMultiple: true, inPoint: null, outPoint: null, loopCount: 1, envelope: [] },
+        { frame: 20, soundId: 1, syncStop: true, syncNoMultiple: false, inPoint: null, outPoint: null, loopCount: 1, envelope: [] },
+        { frame: 40, soundId: 1, syncStop: false, syncNoMultiple: false, inPoint: 22050, outPoint: 33075, loopCount: 1, envelope: [] }
+      ]
+    }
+
+    const placements = resolveSoundPlacements(timeline, 10)
+
+    // The no-multiple event is skipped; the stop event cuts the looping instance at 2s
+    expect(placements.length).toBe(2)
+    expect(placements[0].start).toBe(0)
+    expect(placements[0].duration).toBeCloseTo(2, 6)
+    expect(placements[0].trimStart).toBeCloseTo(1105 / 22050, 6)
+
+    // In/out points are in 44.1 kHz samples regardless of the sound's rate
+    expect(placements[1].start).toBe(4)
+    expect(placements[1].trimStart).toBeCloseTo(1105 / 22050 + 0.5, 6)
+    expect(placements[1].duration).toBeCloseTo(0.25, 6)
+  })
+})
@@ -0,0 +1,70 @@
+import { decodeADPCM, getADPCMSampleCount, getSoundContainer, SOUND_FORMATS } from '../../src/tools/sound-formats'
+import { encodeSoundStream, SoundStream } from '../../src/tools/sound-stream'
+
+describe('SWF Sound Formats', () => {
+  const createStream = (format: number, formatName: string, blocks: SoundStream['blocks']): SoundStream => ({
+    head: { format, formatName, sampleRate: 11025, sampleSize: 16, channels: 1, samplesPerBlock: 4, latencySeek: 0 },
+    blocks,
+    startFrame: blocks[0].frame,
+    missingFrames: []
+  })
+
+  it('should choose a container that FFmpeg can transcode for every format', () => {
+    expect(getSoundContainer(SOUND_FORMATS.MP3)).toBe('mp3')
+    expect(getSoundContainer(SOUND_FORMATS.PCM_NATIVE)).toBe('wav')
+    expect(getSoundContainer(SOUND_FORMATS.PCM_LE)).toBe('wav')
+    expect(getSoundContainer(SOUND_FORMATS.ADPCM)).toBe('wav')
+    expect(getSoundContainer(SOUND_FORMATS.NELLYMOSER)).toBe('flv')
+    expect(getSoundContainer(SOUND_FORMATS.SPEEX)).toBe('flv')
+    expect(() => getSoundContainer(9)).toThrow(/Unsupported SWF sound format/)
+  })
+
+  it('should decode 2-bit SWF ADPCM to 16-bit PCM', () => {
+    // Code size 2 bits, initial sample 1000, step index 0, codes 1, 3, 0, 0
+    const adpcm = Buffer.from([0x00, 0xfa, 0x00, 0x70])
+    const pcm = decodeADPCM(adpcm, 1)
+
+    const samples = Array.from({ length: pcm.length / 2 }, (_, i) => pcm.readInt16LE(i * 2))
+    expect(samples).toEqual([1000, 1010, 997, 1002, 1007])
+    expect(getADPCMSampleCount(adpcm, 1)).toBe(5)
+  })
+
+  it('should write ADPCM streams as WAV with silence for missing frames', () => {
+    const adpcm = Buffer.from([0x00, 0xfa, 0x00, 0x70])
+    const stream = createStream(SOUND_FORMATS.ADPCM, 'ADPCM', [
+      { frame: 0, sampleCount: 5, seekSamples: 0, data: adpcm },
+      { frame: 2, sampleCount: 5, seekSamples: 0, data: adpcm }
+    ])
+    const { container, data, totalSamples } = encodeSoundStream(stream, 10)
+
+    expect(container).toBe('wav')
+    expect(data.toString('latin1', 0, 4)).toBe('RIFF')
+    expect(data.readUInt16LE(34)).toBe(16)
+    // Two decoded blocks plus one frame (samplesPerBlock) of silence
+    expect(totalSamples).toBe(14)
+    expect(data.readUInt32LE(40)).toBe(14 * 2)
+  })
+
+  it('should wrap Nellymoser streams in FLV with frame-based timestamps', () => {
+    const packet = Buffer.alloc(64, 0x11)
+    const stream = createStream(SOUND_FORMATS.NELLYMOSER, 'Nellymoser', [
+      { frame: 3, sampleCount: 256, seekSamples: 0, data: packet },
+      { frame: 4, sampleCount: 256, seekSamples: 0, data: packet }
+    ])
+    const { container, data } = encodeSoundStream(stream, 10)
+
+    expect(container).toBe('flv')
+    expect(data.toString('latin1', 0, 3)).toBe('FLV')
+    expect(data[4]).toBe(0x04)
+
+    // First tag: audio, 65 bytes, timestamp 0, Nellymoser codec in the header byte
+    expect(data[13]).toBe(8)
+    expect(data.readUIntBE(14, 3)).toBe(65)
+    expect(data.readUIntBE(17, 3)).toBe(0)
+    expect(data[24] >>> 4).toBe(SOUND_FORMATS.NELLYMOSER)
+
+    // Second tag starts one frame (100ms) later
+    const secondTag = 13 + 11 + 65 + 4
+    expect(data.readUIntBE(secondTag + 4, 3)).toBe(100)
+  })
+})
@@ -0,0 +1,48 @@
+import * as path from 'path'
+import { parseSWF, SWF_TAGS } from '../../src/tools/swf-parser'
+import { demuxSoundStream, buildSoundStreamPayload, getSoundStreamStartTime } from '../../src/tools/sound-stream'
+
+describe('Native Stream Sound Demuxer', () => {
+  const fixturesDir = path.join(__dirname, '..', 'fixtures', 'videos')
+
+  it('should demux every SoundStreamBlock of with-audio.swf with its frame number', () => {
+    const swf = parseSWF(path.join(fixturesDir, 'with-audio.swf'))
+    const stream = demuxSoundStream(swf)
+
+    expect(stream).not.toBeNull()
+    expect(stream!.head.formatName).toBe('MP3')
+    expect(stream!.blocks.length).toBe(swf.tags.filter(tag => tag.code === SWF_TAGS.SoundStreamBlock).length)
+    expect(stream!.startFrame).toBe(1)
+    expect(stream!.missingFrames).toEqual([])
+
+    // The stream starts on frame 1, so audio is delayed by one frame at 15 fps
+    expect(getSoundStreamStartTime(stream!, swf.header.frameRate)).toBeCloseTo(1 / 15, 6)
+
+    // MP3 payload starts with a frame sync word
+    const { data, totalSamples } = buildSoundStreamPayload(stream!)
+    expect(data[0]).toBe(0xff)
+    expect(totalSamples / stream!.head.sampleRate).toBeCloseTo(swf.header.frameCount / swf.header.frameRate, 0)
+  })
+
+  it('should fill frames without blocks with silence to keep later audio aligned', () => {
+    const swf = parseSWF(path.join(fixturesDir, 'with-audio.swf'))
+    const complete = buildSoundStreamPayload(demuxSoundStream(swf)!)
+
+    // Drop the blocks of frames 100-149 to simulate a stream with a gap
+    swf.tags = swf.tags.filter(tag => tag.code !== SWF_TAGS.SoundStreamBlock || tag.frame < 100 || tag.frame >= 150)
+    const stream = demuxSoundStream(swf)!
+    const padded = buildSoundStreamPayload(stream)
+
+    expect(stream.missingFrames.length).toBe(50)
+
+    // Silence is inserted in whole MP3 frames (1152 samples), so allow one frame of difference
+    expect(Math.abs(padded.totalSamples - complete.totalSamples)).toBeLessThanOrEqual(1152)
+  })
+
+  it('should return null for an SWF without stream sound', () => {
+    const swf = parseSWF(path.join(fixturesDir, 'with-audio.swf'))
+    swf.tags = swf.tags.filter(tag => tag.code !== SWF_TAGS.SoundStreamHead2 && tag.code !== SWF_TAGS.SoundStreamHead)
+
+    expect(demuxSoundStream(swf)).toBeNull()
+  })
+})
@@ -0,0 +1,89 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as zlib from 'zlib'
+import { parseSWF, parseSWFBuffer, SWF_TAGS } from '../../src/tools/swf-parser'
+
+describe('Native SWF Parser', () => {
+  const fixturesDir = path.join(__dirname, '..', 'fixtures', 'videos')
+
+  // Minimal 320x240 @ 12.5fps LZMA-compressed SWF with SetBackgroundColor, FrameLabel and two frames
+  const zwsSample = Buffer.from(
+    '5a57530d28000000280000005d00008000003bfffc62187e5024215c53f265791d31a16684b07f95ec8e3b126afe6350160b42fffffd671000',
+    'hex'
+  )
+
+  describe('Fixture files', () => {
+    it('should parse the zlib-compressed (CWS) silent-audio.swf header', () => {
+      const swf = parseSWF(path.join(fixturesDir, 'silent-audio.swf'))
+
+      expect(swf.header.signature).toBe('CWS')
+      expect(swf.header.compression).toBe('zlib')
+      expect(swf.header.version).toBe(8)
+      expect(swf.header.width).toBe(672)
+      expect(swf.header.height).toBe(434)
+      expect(swf.header.frameRate).toBe(5)
+      expect(swf.header.frameCount).toBe(42)
+      expect(swf.showFrameCount).toBe(42)
+      expect(swf.truncated).toBe(false)
+    })
+
+    it('should parse the uncompressed (FWS) with-audio.swf header and tag stream', () => {
+      const swf = parseSWF(path.join(fixturesDir, 'with-audio.swf'))
+
+      expect(swf.header.signature).toBe('FWS')
+      expect(swf.header.width).toBe(944)
+      expect(swf.header.height).toBe(768)
+      expect(swf.header.frameRate).toBe(15)
+      expect(swf.header.frameCount).toBe(808)
+
+      const blocks = swf.tags.filter(tag => tag.code === SWF_TAGS.SoundStreamBlock)
+      expect(blocks.length).toBeGreaterThan(0)
+
+      // Frame indices must never decrease along the tag stream
+      for (let i = 1; i < swf.tags.length; i++) {
+        expect(swf.tags[i].frame).toBeGreaterThanOrEqual(swf.tags[i - 1].frame)
+      }
+    })
+  })
+
+  describe('Compression handling', () => {
+    it('should decode an LZMA-compressed (ZWS) file', () => {
+      const swf = parseSWFBuffer(zwsSample)
+
+      expect(swf.header.signature).toBe('ZWS')
+      expect(swf.header.compression).toBe('lzma')
+      expect(swf.header.width).toBe(320)
+      expect(swf.header.height).toBe(240)
+      expect(swf.header.frameRate).toBe(12.5)
+      expect(swf.header.frameRateRaw).toBe(3200)
+      expect(swf.header.frameCount).toBe(2)
+      expect(swf.tags.map(tag => tag.name)).toEqual(['SetBackgroundColor', 'FrameLabel', 'ShowFrame', 'ShowFrame'])
+      expect(swf.truncated).toBe(false)
+    })
+
+    it('should produce identical tags for CWS and FWS versions of the same file', () => {
+      const cws = fs.readFileSync(path.join(fixturesDir, 'silent-audio.swf'))
+      const body = zlib.inflateSync(cws.subarray(8))
+      const fws = Buffer.concat([Buffer.from('FWS'), cws.subarray(3, 8), body])
+
+      const fromCWS = parseSWFBuffer(cws)
+      const fromFWS = parseSWFBuffer(fws)
+
+      expect(fromFWS.header.frameCount).toBe(fromCWS.header.frameCount)
+      expect(fromFWS.tags.length).toBe(fromCWS.tags.length)
+      expect(fromFWS.tags.every((tag, i) => tag.data.equals(fromCWS.tags[i].data))).toBe(true)
+    })
+
+    it('should flag truncated files instead of failing', () => {
+      const fws = fs.readFileSync(path.join(fixturesDir, 'with-audio.swf'))
+      const swf = parseSWFBuffer(fws.subarray(0, Math.floor(fws.length / 2)))
+
+      expect(swf.truncated).toBe(true)
+      expect(swf.tags.length).toBeGreaterThan(0)
+    })
+
+    it('should reject files with an unknown signature', () => {
+      expect(() => parseSWFBuffer(Buffer.from('GIF89a-not-a-swf'))).toThrow(/unknown signature/)
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { parseSWFBuffer, parseSWF, SWF_TAGS } from '../../src/tools/swf-parser'
+import { createTag, createSWF, showFrame } from '../helpers/swf'
+import { demuxVideoStream, createVideoStreamFLV, writeVideoStream, readVideoStreamInfo } from '../../src/tools/video-stream'
+
+describe('Video Stream Demuxer', () => {
+  const createVideoFrame = (frameNum: number, packet: Buffer): Buffer => {
+    const header = Buffer.alloc(4)
+    header.writeUInt16LE(1, 0)
+    header.writeUInt16LE(frameNum, 2)
+    return createTag(SWF_TAGS.VideoFrame, Buffer.concat([header, packet]))
+  }
+
+  // 32x16 Screen Video with 16x16 blocks: a keyframe on frame 0, nothing on frame 1, an interframe on frame 2
+  const createScreenVideoSWF = (): Buffer => {
+    const defineVideoStream = Buffer.from([0x01, 0x00, 0x03, 0x00, 0x20, 0x00, 0x10, 0x00, 0x00, 0x03])
+    const keyframe = Buffer.from([0x00, 0x20, 0x00, 0x10, 0x00, 0x01, 0xaa, 0x00, 0x01, 0xbb])
+    const interframe = Buffer.from([0x00, 0x20, 0x00, 0x10, 0x00, 0x00, 0x00, 0x01, 0xcc])
+
+    return createSWF([
+      createTag(SWF_TAGS.DefineVideoStream, defineVideoStream),
+      createVideoFrame(0, keyframe),
+      showFrame(),
+      showFrame(),
+      createVideoFrame(2, interframe),
+      showFrame()
+    ])
+  }
+
+  it('should demux VideoFrame tags with their frames and keyframe flags', () => {
+    const stream = demuxVideoStream(parseSWFBuffer(createScreenVideoSWF()))
+
+    expect(stream).not.toBeNull()
+    expect(stream!.definition.codecId).toBe(3)
+    expect(stream!.frames.map(frame => [frame.frame, frame.frameType])).toEqual([
+      [0, 1],
+      [2, 2]
+    ])
+  })
+
+  it('should rewrap the stream as FLV video tags timestamped by frame', () => {
+    const stream = demuxVideoStream(parseSWFBuffer(createScreenVideoSWF()))!
+    const flv = createVideoStreamFLV(stream, 10)
+
+    expect(flv.toString('latin1', 0, 3)).toBe('FLV')
+    expect(flv[4]).toBe(0x01) // Video only
+
+    // Header (9) + PreviousTagSize0 (4), then tag header (11) + 10 byte payload + PreviousTagSize (4)
+    const first = 13
+    const second = first + 11 + 11 + 4
+    expect(flv[first]).toBe(9)
+    expect(flv[first + 11]).toBe(0x13)
+    expect(flv[second + 11]).toBe(0x23)
+    expect(flv.readUIntBE(second + 4, 3)).toBe(200)
+  })
+
+  it('should write the stream and its sidecar', () => {
+    const videoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'video-stream-'))
+    try {
+      const stream = demuxVideoStream(parseSWFBuffer(createScreenVideoSWF()))!
+      const info = writeVideoStream(stream, videoDir, 10)
+
+      expect(info.file).toBe('stream.flv')
+      expect([info.width, info.height, info.startFrame, info.endFrame, info.frameCount, info.keyframes]).toEqual([32, 16, 0, 2, 2, 1])
+      expect(fs.existsSync(path.join(videoDir, 'stream.flv'))).toBe(true)
+      expect(readVideoStreamInfo(videoDir)).toEqual(info)
+    } finally {
+      fs.rmSync(videoDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should ignore empty video stream definitions', () => {
+    const swf = parseSWF(path.join(__dirname, '../fixtures/videos/silent-audio.swf'))
+
+    expect(demuxVideoStream(swf)).toBeNull()
+  })
+})